@@ -20,10 +20,16 @@ import Operators from "./pages/Operators";
 import Performance from "./pages/Performance";
 import Financeiro from "./pages/Financeiro";
 import Users from "./pages/Users";
+import SlaRules from "./pages/SlaRules";
 import NotFound from "./pages/NotFound";
 import AgentRegistration from "./pages/AgentRegistration";
 import CustomerTracking from "./pages/CustomerTracking";
 import PendingApproval from "./pages/PendingApproval";
+import PortalLayout from "./pages/PortalLayout";
+import AgentPortal from "./pages/AgentPortal";
+import AgentPortalTicket from "./pages/AgentPortalTicket";
+import ClientPortal from "./pages/ClientPortal";
+import ClientPortalTicket from "./pages/ClientPortalTicket";
 
 const queryClient = new QueryClient();
 
@@ -53,6 +59,15 @@ const App = () => (
                 <Route path="/operators" element={<ProtectedRoute requireAdmin><Operators /></ProtectedRoute>} />
                 <Route path="/financeiro" element={<ProtectedRoute requireAdmin><Financeiro /></ProtectedRoute>} />
                 <Route path="/users" element={<ProtectedRoute requireAdmin><Users /></ProtectedRoute>} />
+                <Route path="/sla" element={<ProtectedRoute requireAdmin><SlaRules /></ProtectedRoute>} />
+              </Route>
+              <Route element={<PortalLayout portal="agente" title="Portal do Agente" />}>
+                <Route path="/agente" element={<AgentPortal />} />
+                <Route path="/agente/chamado/:id" element={<AgentPortalTicket />} />
+              </Route>
+              <Route element={<PortalLayout portal="cliente" title="Portal do Cliente" wide />}>
+                <Route path="/cliente" element={<ClientPortal />} />
+                <Route path="/cliente/chamado/:id" element={<ClientPortalTicket />} />
               </Route>
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
@@ -1,9 +1,10 @@
-import { Home, Users, UserCog, UserCheck, FileText, LogOut, Truck, ClipboardList, TrendingUp, DollarSign } from 'lucide-react';
+import { Home, Users, UserCog, UserCheck, FileText, LogOut, Truck, ClipboardList, TrendingUp, DollarSign, Bookmark, Timer } from 'lucide-react';
 import { NavLink } from '@/components/NavLink';
 import { ModeToggle } from '@/components/ModeToggle';
 import { useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
+import { useTicketFilterPresets } from '@/hooks/useTicketFilterPresets';
 
 import {
   Sidebar,
@@ -29,6 +30,7 @@ const menuItems = [
   { title: 'Faturamento', url: '/financeiro', icon: DollarSign },
   { title: 'Usuários', url: '/users', icon: UserCog },
   { title: 'Planos', url: '/plans', icon: ClipboardList },
+  { title: 'SLA', url: '/sla', icon: Timer },
 ];
 
 export function AppSidebar() {
@@ -36,16 +38,19 @@ export function AppSidebar() {
   const location = useLocation();
   const { signOut } = useAuth();
   const { isAdmin } = useUserRole();
+  const { presets } = useTicketFilterPresets();
   const currentPath = location.pathname;
+  const pinnedPresets = presets.filter((preset) => preset.pinned);
 
   const isActive = (path: string) => currentPath === path;
+  const isPresetActive = (query: string) => currentPath === '/tickets' && location.search === `?${query}`;
 
   const handleNavClick = () => {
     setOpenMobile(false);
   };
 
   const filteredMenuItems = menuItems.filter(item => {
-    if (['/performance', '/financeiro', '/plans', '/operators', '/users'].includes(item.url)) {
+    if (['/performance', '/financeiro', '/plans', '/operators', '/users', '/sla'].includes(item.url)) {
       return isAdmin;
     }
     return true;
@@ -88,6 +93,30 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {pinnedPresets.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Filtros Fixados</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {pinnedPresets.map((preset) => (
+                  <SidebarMenuItem key={preset.id}>
+                    <SidebarMenuButton asChild isActive={isPresetActive(preset.query)}>
+                      <NavLink
+                        to={`/tickets?${preset.query}`}
+                        className="flex items-center gap-3"
+                        onClick={handleNavClick}
+                      >
+                        <Bookmark className="h-4 w-4" />
+                        <span className="truncate">{preset.name}</span>
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter>
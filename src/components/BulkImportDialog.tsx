@@ -0,0 +1,323 @@
+import { useState, useRef } from 'react';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Download, FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import {
+    IMPORT_ENTITIES,
+    autoMapColumns,
+    commitImport,
+    downloadImportTemplate,
+    planImport,
+    readSpreadsheet,
+    type ColumnMapping,
+    type ImportAction,
+    type ImportEntity,
+    type ImportPlanRow,
+    type ImportResult,
+    type ParsedSheet,
+} from '@/lib/bulkImport';
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+interface BulkImportDialogProps {
+    entity: ImportEntity;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSuccess: () => void;
+    // Vehicles without a client column are linked to this client
+    defaultClientId?: string;
+}
+
+const NOT_MAPPED = '__none__';
+
+const ACTION_BADGES: Record<ImportAction, { label: string; className: string }> = {
+    create: { label: 'Novo', className: 'text-emerald-700 border-emerald-200 bg-emerald-50' },
+    update: { label: 'Atualizar', className: 'text-blue-700 border-blue-200 bg-blue-50' },
+    unchanged: { label: 'Sem alteração', className: 'text-muted-foreground' },
+    error: { label: 'Erro', className: 'text-red-600 border-red-200 bg-red-50' },
+};
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+    return String(value);
+};
+
+export function BulkImportDialog({ entity, open, onOpenChange, onSuccess, defaultClientId }: BulkImportDialogProps) {
+    const config = IMPORT_ENTITIES[entity];
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState('');
+    const [sheet, setSheet] = useState<ParsedSheet>({ headers: [], rows: [] });
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [plan, setPlan] = useState<ImportPlanRow[]>([]);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [progress, setProgress] = useState('');
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setSheet({ headers: [], rows: [] });
+        setMapping({});
+        setPlan([]);
+        setResult(null);
+        setProgress('');
+    };
+
+    const handleOpenChange = (value: boolean) => {
+        // Keep the dialog open while records are being written
+        if (isWorking) return;
+        if (!value) reset();
+        onOpenChange(value);
+    };
+
+    const handleFile = async (files: FileList | null) => {
+        const file = files?.[0];
+        if (!file) return;
+
+        try {
+            const parsed = await readSpreadsheet(file);
+            if (parsed.rows.length === 0) {
+                toast.error('A planilha não possui linhas para importar');
+                return;
+            }
+            setFileName(file.name);
+            setSheet(parsed);
+            setMapping(autoMapColumns(entity, parsed.headers));
+            setStep('mapping');
+        } catch (error) {
+            console.error('Erro ao ler planilha:', error);
+            toast.error('Não foi possível ler o arquivo. Use .xlsx, .xls ou .csv.');
+        } finally {
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
+    };
+
+    const missingRequired = config.fields.filter(f => f.required && !mapping[f.key]);
+
+    const handlePreview = async () => {
+        setIsWorking(true);
+        try {
+            setPlan(await planImport(entity, sheet.rows, mapping, defaultClientId));
+            setStep('preview');
+        } catch (error: any) {
+            console.error('Erro ao validar importação:', error);
+            toast.error('Erro ao validar importação', { description: error?.message });
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleCommit = async () => {
+        setIsWorking(true);
+        try {
+            const importResult = await commitImport(entity, plan, setProgress);
+            setResult(importResult);
+            setStep('done');
+            if (importResult.created + importResult.updated > 0) {
+                toast.success(`${importResult.created} cadastrado(s) e ${importResult.updated} atualizado(s)`);
+                onSuccess();
+            }
+        } catch (error: any) {
+            console.error('Erro ao importar:', error);
+            toast.error('Erro ao importar', { description: error?.message });
+        } finally {
+            setIsWorking(false);
+            setProgress('');
+        }
+    };
+
+    const counts = plan.reduce((acc, row) => ({ ...acc, [row.action]: (acc[row.action] || 0) + 1 }), {} as Partial<Record<ImportAction, number>>);
+    const pendingWrites = (counts.create || 0) + (counts.update || 0);
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <FileSpreadsheet className="h-5 w-5 text-primary" />
+                        Importar {config.label}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {step === 'upload' && 'Envie uma planilha .xlsx ou .csv com as mesmas colunas da exportação.'}
+                        {step === 'mapping' && `${fileName} • ${sheet.rows.length} linha(s). Confira a coluna usada para cada campo.`}
+                        {step === 'preview' && 'Simulação: nada foi gravado ainda. Células vazias não apagam dados existentes.'}
+                        {step === 'done' && 'Importação concluída.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        <div
+                            className="border-2 border-dashed rounded-lg p-10 text-center cursor-pointer hover:bg-muted/40 transition-colors"
+                            onClick={() => fileInputRef.current?.click()}
+                        >
+                            <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+                            <p className="text-sm font-medium">Clique para selecionar a planilha</p>
+                            <p className="text-xs text-muted-foreground mt-1">A primeira aba é lida; a primeira linha deve conter os títulos das colunas.</p>
+                        </div>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".xlsx,.xls,.csv"
+                            className="hidden"
+                            onChange={(e) => handleFile(e.target.files)}
+                        />
+                        <Button variant="outline" size="sm" onClick={() => downloadImportTemplate(entity)}>
+                            <Download className="h-4 w-4 mr-2" />
+                            Baixar modelo
+                        </Button>
+                    </div>
+                )}
+
+                {step === 'mapping' && (
+                    <>
+                        <ScrollArea className="flex-1 pr-4 max-h-[55vh]">
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                {config.fields.map(field => (
+                                    <div key={field.key} className="space-y-1">
+                                        <p className="text-xs font-medium">
+                                            {field.label}{field.required && <span className="text-red-500"> *</span>}
+                                        </p>
+                                        <Select
+                                            value={mapping[field.key] || NOT_MAPPED}
+                                            onValueChange={(header) => setMapping(prev => {
+                                                const next = { ...prev };
+                                                if (header === NOT_MAPPED) delete next[field.key];
+                                                else next[field.key] = header;
+                                                return next;
+                                            })}
+                                        >
+                                            <SelectTrigger className="h-8 text-xs">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={NOT_MAPPED}>Não importar</SelectItem>
+                                                {sheet.headers.filter(Boolean).map(header => (
+                                                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                ))}
+                            </div>
+                            {entity === 'veiculos' && (
+                                <p className="text-xs text-muted-foreground mt-4">
+                                    O cliente é identificado pelo CNPJ / CPF ou pelo nome.
+                                    {defaultClientId && ' Veículos novos sem cliente são vinculados ao cliente filtrado.'}
+                                </p>
+                            )}
+                        </ScrollArea>
+                        <div className="flex justify-between gap-2 pt-2">
+                            <Button variant="ghost" onClick={reset} disabled={isWorking}>
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Outro arquivo
+                            </Button>
+                            <Button onClick={handlePreview} disabled={isWorking || missingRequired.length > 0}>
+                                {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {missingRequired.length > 0
+                                    ? `Mapeie: ${missingRequired.map(f => f.label).join(', ')}`
+                                    : 'Simular importação'}
+                            </Button>
+                        </div>
+                    </>
+                )}
+
+                {step === 'preview' && (
+                    <>
+                        <div className="flex flex-wrap gap-2">
+                            {(Object.keys(ACTION_BADGES) as ImportAction[]).map(action => (
+                                <Badge key={action} variant="outline" className={ACTION_BADGES[action].className}>
+                                    {ACTION_BADGES[action].label}: {counts[action] || 0}
+                                </Badge>
+                            ))}
+                        </div>
+                        <ScrollArea className="flex-1 pr-4 max-h-[50vh]">
+                            <div className="space-y-2">
+                                {plan.filter(row => row.action !== 'unchanged').map(row => (
+                                    <div key={row.rowNumber} className="rounded-md border p-2.5 text-xs space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-muted-foreground">Linha {row.rowNumber}</span>
+                                            <span className="font-semibold truncate">{row.title}</span>
+                                            <Badge variant="outline" className={`text-[9px] h-4 py-0 uppercase ${ACTION_BADGES[row.action].className}`}>
+                                                {ACTION_BADGES[row.action].label}
+                                            </Badge>
+                                        </div>
+                                        {row.errors.map(error => (
+                                            <p key={error} className="text-red-600 flex items-center gap-1">
+                                                <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                                                {error}
+                                            </p>
+                                        ))}
+                                        {row.changes.map(change => (
+                                            <p key={change.label} className="text-muted-foreground">
+                                                <span className="font-medium text-foreground">{change.label}:</span>{' '}
+                                                <span className="line-through">{formatValue(change.from)}</span> → {formatValue(change.to)}
+                                            </p>
+                                        ))}
+                                    </div>
+                                ))}
+                                {plan.every(row => row.action === 'unchanged') && (
+                                    <p className="text-sm text-muted-foreground text-center py-6">Todos os registros já estão atualizados.</p>
+                                )}
+                            </div>
+                        </ScrollArea>
+                        <div className="flex justify-between items-center gap-2 pt-2">
+                            <Button variant="ghost" onClick={() => setStep('mapping')} disabled={isWorking}>
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Voltar
+                            </Button>
+                            <div className="flex items-center gap-3">
+                                {progress && <span className="text-xs text-muted-foreground">{progress}</span>}
+                                <Button onClick={handleCommit} disabled={isWorking || pendingWrites === 0}>
+                                    {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                    Importar {pendingWrites} registro(s)
+                                </Button>
+                            </div>
+                        </div>
+                        {(counts.error || 0) > 0 && (
+                            <p className="text-xs text-muted-foreground">Linhas com erro são ignoradas; corrija a planilha e importe novamente.</p>
+                        )}
+                    </>
+                )}
+
+                {step === 'done' && result && (
+                    <div className="space-y-4">
+                        <div className="flex items-center gap-3 rounded-lg border p-4">
+                            <CheckCircle2 className="h-6 w-6 text-emerald-600" />
+                            <div className="text-sm">
+                                <p><strong>{result.created}</strong> cadastrado(s) • <strong>{result.updated}</strong> atualizado(s)</p>
+                                {result.failed.length > 0 && <p className="text-red-600">{result.failed.length} linha(s) não puderam ser gravadas</p>}
+                            </div>
+                        </div>
+                        {result.failed.length > 0 && (
+                            <ScrollArea className="max-h-[30vh] pr-4">
+                                <div className="space-y-1 text-xs">
+                                    {result.failed.map(failure => (
+                                        <p key={failure.rowNumber}>
+                                            <span className="text-muted-foreground">Linha {failure.rowNumber}:</span> {failure.message}
+                                        </p>
+                                    ))}
+                                </div>
+                            </ScrollArea>
+                        )}
+                        <div className="flex justify-end">
+                            <Button onClick={() => handleOpenChange(false)}>Fechar</Button>
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
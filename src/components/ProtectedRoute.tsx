@@ -3,14 +3,18 @@ import { useAuth } from '@/hooks/useAuth';
 import { useUserRole } from '@/hooks/useUserRole';
 import { Loader2 } from 'lucide-react';
 
+export type Portal = 'agente' | 'cliente';
+
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  // Agents and client viewers have their own portals; everything else redirects them there and vice versa
+  portal?: Portal;
 }
 
-export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, requireAdmin = false, portal }: ProtectedRouteProps) {
   const { user, loading: authLoading } = useAuth();
-  const { role, loading: roleLoading, isAdmin, isApproved, fetchError } = useUserRole();
+  const { role, loading: roleLoading, isAdmin, isAgente, isClienteVisualizacao, isApproved, fetchError } = useUserRole();
   const location = useLocation();
 
   if (authLoading || roleLoading) {
@@ -36,6 +40,11 @@ export function ProtectedRoute({ children, requireAdmin = false }: ProtectedRout
     return <Navigate to="/pending-approval" replace />;
   }
 
+  const userPortal: Portal | undefined = isAgente ? 'agente' : isClienteVisualizacao ? 'cliente' : undefined;
+  if (portal !== userPortal) {
+    return <Navigate to={userPortal ? `/${userPortal}` : '/dashboard'} replace />;
+  }
+
   if (requireAdmin && !isAdmin) {
     return <Navigate to="/dashboard" replace />;
   }
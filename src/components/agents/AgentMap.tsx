@@ -12,6 +12,7 @@ import { Search, MapPin, UserCheck, Phone, Shield, Navigation, Loader2, Pencil }
 import { toast } from 'sonner';
 import { NewDemandDialog } from './NewDemandDialog';
 import { useGeocoding } from '@/hooks/useGeocoding';
+import { calculateDistance } from '@/lib/geoUtils';
 
 // Fix for default marker icons in Leaflet with Vite
 import markerIcon from 'leaflet/dist/images/marker-icon.png';
@@ -146,20 +147,6 @@ export function AgentMap({ onSelect, onEdit }: AgentMapProps) {
         }
     };
 
-    const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-        const R = 6371; // Radius of the earth in km
-        const dLat = deg2rad(lat2 - lat1);
-        const dLon = deg2rad(lon2 - lon1);
-        const a =
-            Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-            Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-            Math.sin(dLon / 2) * Math.sin(dLon / 2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-        return R * c; // Distance in km
-    };
-
-    const deg2rad = (deg: number) => deg * (Math.PI / 180);
-
     const handleSearch = async (e?: React.FormEvent) => {
         if (e) e.preventDefault();
         if (!searchQuery) return;
@@ -34,10 +34,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { cpfField, formatCpfOrCnpj, isDuplicate, maskCpf, maskPlate, plateField } from '@/lib/documentUtils';
 
 const agentSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório').max(255),
-  document: z.string().max(20).optional().nullable(),
+  document: cpfField.optional().nullable(),
   phone: z.string().min(1, 'Telefone é obrigatório').max(20),
   email: z.string().email('E-mail inválido').optional().or(z.literal('')),
   cep: z.string().max(10).optional(),
@@ -47,7 +48,7 @@ const agentSchema = z.object({
   city: z.string().max(150).optional(),
   state: z.string().max(2).optional(),
   is_armed: z.boolean().default(false),
-  vehicle_plate: z.string().max(10).optional(),
+  vehicle_plate: plateField.optional(),
   status: z.enum(['ativo', 'inativo']).default('ativo'),
   notes: z.string().max(1000).optional(),
   pix_key: z.string().max(100).optional(),
@@ -199,10 +200,15 @@ export function EditAgentDialog({ agentId, open, onOpenChange, onSuccess }: Edit
     if (!agentId) return;
     setIsLoading(true);
     try {
+      if (data.document && await isDuplicate('agent_document', data.document, agentId)) {
+        form.setError('document', { message: 'Já existe um agente com este CPF' });
+        return;
+      }
+
       const fullAddress = buildFullAddress(data);
       const { error } = await supabase.from('agents').update({
         name: data.name,
-        document: data.document,
+        document: data.document ? formatCpfOrCnpj(data.document) : null,
         phone: data.phone,
         email: data.email || null,
         address: fullAddress || null,
@@ -268,7 +274,7 @@ export function EditAgentDialog({ agentId, open, onOpenChange, onSuccess }: Edit
               <FormField control={form.control} name="document" render={({ field }) => (
                 <FormItem>
                   <FormLabel>CPF</FormLabel>
-                  <FormControl><Input placeholder="000.000.000-00" {...field} value={field.value ?? ''} /></FormControl>
+                  <FormControl><Input placeholder="000.000.000-00" {...field} onChange={(e) => field.onChange(maskCpf(e.target.value))} value={field.value ?? ''} /></FormControl>
                   <FormMessage />
                 </FormItem>
               )} />
@@ -392,7 +398,7 @@ export function EditAgentDialog({ agentId, open, onOpenChange, onSuccess }: Edit
                 <FormField control={form.control} name="vehicle_plate" render={({ field }) => (
                   <FormItem>
                     <FormLabel>Placa do Veículo</FormLabel>
-                    <FormControl><Input placeholder="ABC-1234" {...field} /></FormControl>
+                    <FormControl><Input placeholder="ABC1D23" {...field} onChange={(e) => field.onChange(maskPlate(e.target.value))} /></FormControl>
                     <FormMessage />
                   </FormItem>
                 )} />
@@ -26,10 +26,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ClientVehiclesSection } from '@/components/clients/ClientVehiclesSection';
+import { cpfOrCnpjField, formatCpfOrCnpj, isDuplicate, maskCpfOrCnpj } from '@/lib/documentUtils';
 
 const clientSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório').max(255),
-  document: z.string().min(1, 'Documento é obrigatório').max(20),
+  document: cpfOrCnpjField,
   contact_name: z.string().max(255).optional(),
   contact_phone: z.string().max(20).optional(),
   contact_email: z.string().email('E-mail inválido').optional().or(z.literal('')),
@@ -40,6 +41,7 @@ const clientSchema = z.object({
   city: z.string().min(1, 'Cidade é obrigatória').max(100),
   state: z.string().min(2, 'Estado é obrigatório').max(2),
   notes: z.string().max(1000).optional(),
+  payment_term_days: z.coerce.number().int().min(0, 'Prazo inválido').max(180, 'Prazo máximo de 180 dias').default(30),
   status: z.enum(['ativo', 'inativo', 'pre_cadastro']).default('ativo'),
 });
 
@@ -62,6 +64,7 @@ export function EditClientDialog({ clientId, open, onOpenChange, onSuccess }: Ed
       name: '', document: '', contact_name: '', contact_phone: '',
       contact_email: '', cep: '', street: '', street_number: '',
       neighborhood: '', city: '', state: '', notes: '',
+      payment_term_days: 30,
       status: 'ativo',
     },
   });
@@ -89,6 +92,7 @@ export function EditClientDialog({ clientId, open, onOpenChange, onSuccess }: Ed
           city: data.city,
           state: data.state,
           notes: data.notes || '',
+          payment_term_days: data.payment_term_days ?? 30,
           status: (data as any).status || 'ativo',
         });
       }
@@ -124,12 +128,17 @@ export function EditClientDialog({ clientId, open, onOpenChange, onSuccess }: Ed
     if (!clientId) return;
     setIsLoading(true);
     try {
+      if (await isDuplicate('client_document', data.document, clientId)) {
+        form.setError('document', { message: 'Já existe um cliente com este documento' });
+        return;
+      }
+
       const fullAddress = [data.street, data.street_number, data.neighborhood, data.city, data.state]
         .filter(Boolean).join(', ');
 
       const { error } = await supabase.from('clients').update({
         name: data.name,
-        document: data.document,
+        document: formatCpfOrCnpj(data.document),
         contact_name: data.contact_name || null,
         contact_phone: data.contact_phone || null,
         contact_email: data.contact_email || null,
@@ -141,6 +150,7 @@ export function EditClientDialog({ clientId, open, onOpenChange, onSuccess }: Ed
         city: data.city,
         state: data.state,
         notes: data.notes || null,
+        payment_term_days: data.payment_term_days,
         status: data.status,
       } as any).eq('id', clientId);
 
@@ -179,7 +189,7 @@ export function EditClientDialog({ clientId, open, onOpenChange, onSuccess }: Ed
               <FormField control={form.control} name="document" render={({ field }) => (
                 <FormItem>
                   <FormLabel>CNPJ / CPF *</FormLabel>
-                  <FormControl><Input placeholder="00.000.000/0000-00" {...field} /></FormControl>
+                  <FormControl><Input placeholder="00.000.000/0000-00" {...field} onChange={(e) => field.onChange(maskCpfOrCnpj(e.target.value))} /></FormControl>
                   <FormMessage />
                 </FormItem>
               )} />
@@ -209,6 +219,14 @@ export function EditClientDialog({ clientId, open, onOpenChange, onSuccess }: Ed
                 </FormItem>
               )} />
 
+              <FormField control={form.control} name="payment_term_days" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prazo de Pagamento (dias)</FormLabel>
+                  <FormControl><Input type="number" min={0} max={180} placeholder="30" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+
               {/* Endereço */}
               <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
                 <h3 className="text-sm font-semibold">Endereço</h3>
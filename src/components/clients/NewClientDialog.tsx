@@ -26,10 +26,11 @@ import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Switch } from '@/components/ui/switch';
+import { cpfOrCnpjField, formatCpfOrCnpj, isDuplicate, maskCpfOrCnpj } from '@/lib/documentUtils';
 
 const clientSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório').max(255),
-  document: z.string().min(1, 'Documento é obrigatório').max(20),
+  document: cpfOrCnpjField,
   contact_name: z.string().max(255).optional(),
   contact_phone: z.string().max(20).optional(),
   contact_email: z.string().email('E-mail inválido').optional().or(z.literal('')),
@@ -41,6 +42,7 @@ const clientSchema = z.object({
   state: z.string().min(2, 'Estado é obrigatório').max(2),
   notes: z.string().max(1000).optional(),
   is_alarme: z.boolean().default(false),
+  payment_term_days: z.coerce.number().int().min(0, 'Prazo inválido').max(180, 'Prazo máximo de 180 dias').default(30),
   status: z.enum(['ativo', 'pre_cadastro']).default('ativo'),
 });
 
@@ -63,6 +65,7 @@ export function NewClientDialog({ open, onOpenChange, onSuccess }: NewClientDial
       contact_email: '', cep: '', street: '', street_number: '',
       neighborhood: '', city: '', state: '', notes: '',
       is_alarme: false,
+      payment_term_days: 30,
       status: 'ativo',
     },
   });
@@ -92,12 +95,17 @@ export function NewClientDialog({ open, onOpenChange, onSuccess }: NewClientDial
   const onSubmit = async (data: ClientFormData) => {
     setIsLoading(true);
     try {
+      if (await isDuplicate('client_document', data.document)) {
+        form.setError('document', { message: 'Já existe um cliente com este documento' });
+        return;
+      }
+
       const fullAddress = [data.street, data.street_number, data.neighborhood, data.city, data.state]
         .filter(Boolean).join(', ');
 
       const { data: insertedClient, error } = await supabase.from('clients').insert({
         name: data.name,
-        document: data.document,
+        document: formatCpfOrCnpj(data.document),
         contact_name: data.contact_name || null,
         contact_phone: data.contact_phone || null,
         contact_email: data.contact_email || null,
@@ -109,6 +117,7 @@ export function NewClientDialog({ open, onOpenChange, onSuccess }: NewClientDial
         city: data.city,
         state: data.state,
         notes: data.notes || null,
+        payment_term_days: data.payment_term_days,
         status: data.status,
       } as any).select().single();
 
@@ -163,7 +172,7 @@ export function NewClientDialog({ open, onOpenChange, onSuccess }: NewClientDial
               <FormField control={form.control} name="document" render={({ field }) => (
                 <FormItem>
                   <FormLabel>CNPJ / CPF *</FormLabel>
-                  <FormControl><Input placeholder="00.000.000/0000-00" {...field} /></FormControl>
+                  <FormControl><Input placeholder="00.000.000/0000-00" {...field} onChange={(e) => field.onChange(maskCpfOrCnpj(e.target.value))} /></FormControl>
                   <FormMessage />
                 </FormItem>
               )} />
@@ -194,6 +203,14 @@ export function NewClientDialog({ open, onOpenChange, onSuccess }: NewClientDial
                 </FormItem>
               )} />
 
+              <FormField control={form.control} name="payment_term_days" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prazo de Pagamento (dias)</FormLabel>
+                  <FormControl><Input type="number" min={0} max={180} placeholder="30" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )} />
+
               {/* Endereço */}
               <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
                 <h3 className="text-sm font-semibold">Endereço</h3>
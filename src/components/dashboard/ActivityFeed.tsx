@@ -1,75 +1,87 @@
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { 
-  PlusCircle, 
-  CheckCircle2, 
-  Clock, 
-  XCircle, 
+import {
+  PlusCircle,
+  CheckCircle2,
+  Clock,
+  XCircle,
   ArrowUpRight,
-  Activity
+  Activity,
+  Pencil,
+  UserRoundCog,
+  Camera,
+  Wallet,
+  Receipt
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
-
-interface ActivityItem {
-  id: string;
-  code: string;
-  status: string;
-  updated_at: string;
-  client_name: string;
-  type: 'creation' | 'update' | 'completion' | 'cancellation';
-}
+import { supabase } from "@/integrations/supabase/client";
+import {
+  actorName,
+  describeTicketEvent,
+  fetchActorNames,
+  fetchTicketEvents,
+  type TicketEvent,
+} from "@/lib/ticketEvents";
 
 interface ActivityFeedProps {
-  tickets: any[];
   title?: string;
   onViewDetails: (id: string) => void;
 }
 
-const ActivityFeed = ({ tickets, title = "Atividades Recentes", onViewDetails }: ActivityFeedProps) => {
-  // Process tickets to create a feed
-  const feedItems: ActivityItem[] = tickets
-    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
-    .slice(0, 15)
-    .map(t => {
-      let type: ActivityItem['type'] = 'update';
-      if (t.status === 'aberto' && t.created_at === t.updated_at) type = 'creation';
-      if (t.status === 'finalizado') type = 'completion';
-      if (t.status === 'cancelado') type = 'cancellation';
+const FEED_SIZE = 15;
+
+// Several events land together when a ticket is saved; reload once per burst
+const REFRESH_DEBOUNCE_MS = 500;
 
-      return {
-        id: t.id,
-        code: t.code,
-        status: t.status,
-        updated_at: t.updated_at,
-        client_name: t.clients?.name || 'Cliente',
-        type
-      };
-    });
+const ActivityFeed = ({ title = "Atividades Recentes", onViewDetails }: ActivityFeedProps) => {
+  const [events, setEvents] = useState<TicketEvent[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
 
-  const getIcon = (type: ActivityItem['type']) => {
-    switch (type) {
-      case 'creation': return <PlusCircle className="h-4 w-4 text-blue-500" />;
-      case 'completion': return <CheckCircle2 className="h-4 w-4 text-emerald-500" />;
-      case 'cancellation': return <XCircle className="h-4 w-4 text-rose-500" />;
-      default: return <Clock className="h-4 w-4 text-amber-500" />;
+  const fetchEvents = useCallback(async () => {
+    try {
+      const data = await fetchTicketEvents({ limit: FEED_SIZE });
+      setEvents(data);
+      setActorNames(await fetchActorNames(data));
+    } catch (error) {
+      console.error('Erro ao carregar atividades:', error);
     }
-  };
+  }, []);
+
+  useEffect(() => { fetchEvents(); }, [fetchEvents]);
 
-  const getLabel = (type: ActivityItem['type'], code: string, client: string) => {
-    switch (type) {
-      case 'creation': return (
-        <span>Novo chamado <span className="font-bold text-foreground">{code}</span> aberto para <span className="font-medium text-foreground">{client}</span></span>
-      );
-      case 'completion': return (
-        <span>Chamado <span className="font-bold text-foreground">{code}</span> foi <span className="text-emerald-600 font-semibold">concluído</span></span>
-      );
-      case 'cancellation': return (
-        <span>Chamado <span className="font-bold text-foreground">{code}</span> foi <span className="text-rose-600 font-semibold">cancelado</span></span>
-      );
-      default: return (
-        <span>Chamado <span className="font-bold text-foreground">{code}</span> de <span className="font-medium text-foreground">{client}</span> atualizado</span>
-      );
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const channel = supabase
+      .channel('activity-feed')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'ticket_events' }, () => {
+        clearTimeout(timeout);
+        timeout = setTimeout(fetchEvents, REFRESH_DEBOUNCE_MS);
+      })
+      .subscribe();
+
+    return () => {
+      clearTimeout(timeout);
+      supabase.removeChannel(channel);
+    };
+  }, [fetchEvents]);
+
+  const getIcon = (event: TicketEvent) => {
+    switch (event.event_type) {
+      case 'criado': return <PlusCircle className="h-4 w-4 text-blue-500" />;
+      case 'status_alterado':
+        if (event.data.to === 'finalizado') return <CheckCircle2 className="h-4 w-4 text-emerald-500" />;
+        if (event.data.to === 'cancelado') return <XCircle className="h-4 w-4 text-rose-500" />;
+        return <Clock className="h-4 w-4 text-amber-500" />;
+      case 'agente_alterado':
+      case 'apoio_adicionado':
+      case 'apoio_removido': return <UserRoundCog className="h-4 w-4 text-indigo-500" />;
+      case 'foto_adicionada':
+      case 'foto_removida': return <Camera className="h-4 w-4 text-sky-500" />;
+      case 'pagamento_agente': return <Wallet className="h-4 w-4 text-emerald-500" />;
+      case 'faturamento': return <Receipt className="h-4 w-4 text-emerald-500" />;
+      default: return <Pencil className="h-4 w-4 text-amber-500" />;
     }
   };
 
@@ -84,28 +96,32 @@ const ActivityFeed = ({ tickets, title = "Atividades Recentes", onViewDetails }:
       <CardContent className="flex-1 p-0">
         <ScrollArea className="h-[400px] px-6">
           <div className="space-y-6 pb-6 pt-2">
-            {feedItems.length > 0 ? (
-              feedItems.map((item, index) => (
-                <div key={`${item.id}-${index}`} className="flex gap-4 relative">
+            {events.length > 0 ? (
+              events.map((event, index) => (
+                <div key={event.id} className="flex gap-4 relative">
                   {/* Timeline line */}
-                  {index !== feedItems.length - 1 && (
+                  {index !== events.length - 1 && (
                     <div className="absolute left-2 top-6 bottom-[-1.5rem] w-px bg-border" />
                   )}
-                  
+
                   <div className="z-10 mt-1 bg-background rounded-full p-0.5 border">
-                    {getIcon(item.type)}
+                    {getIcon(event)}
                   </div>
-                  
+
                   <div className="flex-1 space-y-1">
                     <p className="text-sm text-muted-foreground leading-snug">
-                      {getLabel(item.type, item.code, item.client_name)}
+                      <span className="font-bold text-foreground">{event.tickets?.code || 'Chamado'}</span>
+                      {event.tickets?.clients?.name && <> · <span className="font-medium text-foreground">{event.tickets.clients.name}</span></>}
+                      <br />
+                      {describeTicketEvent(event)}
                     </p>
                     <div className="flex items-center gap-2">
                       <span className="text-[10px] font-medium text-muted-foreground bg-muted/50 px-1.5 py-0.5 rounded">
-                        {formatDistanceToNow(new Date(item.updated_at), { addSuffix: true, locale: ptBR })}
+                        {formatDistanceToNow(new Date(event.created_at), { addSuffix: true, locale: ptBR })}
                       </span>
-                      <button 
-                        onClick={() => onViewDetails(item.id)}
+                      <span className="text-[10px] text-muted-foreground truncate">{actorName(event, actorNames)}</span>
+                      <button
+                        onClick={() => onViewDetails(event.ticket_id)}
                         className="text-[10px] text-primary hover:underline flex items-center gap-0.5"
                       >
                         Ver detalhes <ArrowUpRight className="h-2 w-2" />
@@ -1,11 +1,13 @@
-import { useEffect, useState, Fragment } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, Circle, Pane } from 'react-leaflet';
+import { useEffect, useMemo, useState, Fragment } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, useMap, Circle, Pane, Polyline } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Map as MapIcon, Navigation, Flame, Landmark } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { useAgentPositions } from '@/hooks/useAgentPositions';
+import { format } from 'date-fns';
 
 // Fix for default marker icons in Leaflet with Vite
 import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
@@ -31,6 +33,8 @@ const statusColors: Record<string, string> = {
   cancelado: '#6b7280', // gray-500
 };
 
+const AGENT_TRAIL_COLOR = '#a855f7'; // purple-500
+
 const DashboardMap = ({ tickets, onViewDetails }: DashboardMapProps) => {
   const [activeTickets, setActiveTickets] = useState<any[]>([]);
   const [heatmapTickets, setHeatmapTickets] = useState<any[]>([]);
@@ -53,6 +57,34 @@ const DashboardMap = ({ tickets, onViewDetails }: DashboardMapProps) => {
     setHeatmapTickets(allWithCoords);
   }, [tickets]);
 
+  const inProgressTicketIds = useMemo(
+    () => tickets.filter(t => t.status === 'em_andamento').map(t => t.id as string),
+    [tickets]
+  );
+  const agentTrails = useAgentPositions(inProgressTicketIds);
+
+  const createAgentIcon = (name: string) => {
+    return L.divIcon({
+      className: 'custom-icon',
+      html: `<div style="
+        background-color: ${AGENT_TRAIL_COLOR};
+        color: white;
+        width: 22px;
+        height: 22px;
+        border-radius: 50%;
+        border: 2px solid white;
+        box-shadow: 0 0 10px rgba(0,0,0,0.4);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-size: 11px;
+        font-weight: 700;
+      ">${(name.trim()[0] || 'A').toUpperCase()}</div>`,
+      iconSize: [22, 22],
+      iconAnchor: [11, 11],
+    });
+  };
+
   // Create custom icons based on status
   const createIcon = (status: string) => {
     return L.divIcon({
@@ -121,6 +153,10 @@ const DashboardMap = ({ tickets, onViewDetails }: DashboardMapProps) => {
                 <div className="h-2 w-2 rounded-full bg-amber-500 animate-pulse" />
                 <span className="text-[10px] font-bold text-amber-500 uppercase">Em Curso</span>
               </div>
+              <div className="flex items-center gap-1.5 px-2 py-1 bg-purple-500/10 rounded-full border border-purple-500/20">
+                <div className="h-2 w-2 rounded-full bg-purple-500" />
+                <span className="text-[10px] font-bold text-purple-500 uppercase">Agente</span>
+              </div>
             </div>
           )}
         </div>
@@ -163,6 +199,28 @@ const DashboardMap = ({ tickets, onViewDetails }: DashboardMapProps) => {
           
           <RecenterMap tickets={viewMode === 'markers' ? activeTickets : heatmapTickets} />
 
+          {viewMode === 'markers' && agentTrails.map((trail) => {
+            const current = trail.positions[trail.positions.length - 1];
+            return (
+              <Fragment key={`trail-${trail.ticket_id}-${trail.agent_id}`}>
+                <Polyline
+                  positions={trail.positions.map(p => [p.latitude, p.longitude] as [number, number])}
+                  pathOptions={{ color: AGENT_TRAIL_COLOR, weight: 3, opacity: 0.7, dashArray: '6 6' }}
+                />
+                <Marker position={[current.latitude, current.longitude]} icon={createAgentIcon(trail.agent_name)}>
+                  <Popup>
+                    <div className="p-1 space-y-1 min-w-[160px]">
+                      <p className="text-sm font-bold leading-tight">{trail.agent_name}</p>
+                      <p className="text-[10px] text-slate-400">
+                        {tickets.find(t => t.id === trail.ticket_id)?.code} • atualizado às {format(new Date(current.recorded_at), 'HH:mm')}
+                      </p>
+                    </div>
+                  </Popup>
+                </Marker>
+              </Fragment>
+            );
+          })}
+
           {viewMode === 'markers' ? (
             activeTickets.map((ticket) => (
               <Marker 
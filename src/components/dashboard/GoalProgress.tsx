@@ -1,18 +1,32 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { Target, TrendingUp, Zap, Award } from "lucide-react";
+import { Target, TrendingUp, TrendingDown, Zap, Award } from "lucide-react";
 
 interface GoalProgressProps {
-  current: number;
-  target: number;
+  // null when there is no data yet (e.g. no arrival recorded)
+  current: number | null;
+  // null when no goal is set for the month
+  target: number | null;
   title: string;
   icon: 'target' | 'zap' | 'efficiency';
   description?: string;
   unit?: string;
+  // For times: being under the target completes the goal
+  lowerIsBetter?: boolean;
+  // Same metric for the previous month
+  previous?: number | null;
 }
 
-const GoalProgress = ({ current, target, title, icon, description, unit = '' }: GoalProgressProps) => {
-  const percentage = Math.min(Math.round((current / target) * 100), 100);
+const getPercentage = (current: number | null, target: number | null, lowerIsBetter: boolean) => {
+  if (current === null || !target) return 0;
+  if (lowerIsBetter) return current <= target ? 100 : Math.round((target / current) * 100);
+  return Math.min(Math.round((current / target) * 100), 100);
+};
+
+const GoalProgress = ({ current, target, title, icon, description, unit = '', lowerIsBetter = false, previous = null }: GoalProgressProps) => {
+  const percentage = getPercentage(current, target, lowerIsBetter);
+  const change = current !== null && previous ? Math.round(((current - previous) / previous) * 100) : null;
+  const improved = change !== null && (lowerIsBetter ? change <= 0 : change >= 0);
   
   const getIcon = () => {
     switch (icon) {
@@ -36,14 +50,14 @@ const GoalProgress = ({ current, target, title, icon, description, unit = '' }:
           {title}
         </CardTitle>
         <span className="text-xs font-black text-foreground bg-muted px-2 py-0.5 rounded-full">
-          META: {target}{unit}
+          {target ? `META: ${target}${unit}` : 'SEM META'}
         </span>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex items-end justify-between">
           <div className="space-y-1">
             <span className="text-4xl font-black tracking-tighter">
-              {current}{unit}
+              {current === null ? '—' : `${current}${unit}`}
             </span>
             {description && (
               <p className="text-[10px] text-muted-foreground font-medium uppercase tracking-tight">
@@ -55,10 +69,12 @@ const GoalProgress = ({ current, target, title, icon, description, unit = '' }:
             <div className={`text-lg font-black ${percentage >= 100 ? 'text-emerald-500' : 'text-primary'}`}>
               {percentage}%
             </div>
-            <div className="flex items-center gap-1 text-[10px] text-emerald-500 font-bold uppercase">
-              <TrendingUp className="h-3 w-3" />
-              +12% vs mês ant.
-            </div>
+            {change !== null && (
+              <div className={`flex items-center gap-1 text-[10px] font-bold uppercase ${improved ? 'text-emerald-500' : 'text-rose-500'}`}>
+                {change >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                {change >= 0 ? '+' : ''}{change}% vs mês ant.
+              </div>
+            )}
           </div>
         </div>
         
@@ -83,7 +99,7 @@ const GoalProgress = ({ current, target, title, icon, description, unit = '' }:
         <div className="flex justify-between text-[10px] font-bold text-muted-foreground uppercase">
           <span>0</span>
           <span>50%</span>
-          <span>{target}</span>
+          <span>{target ?? '—'}</span>
         </div>
       </CardContent>
     </Card>
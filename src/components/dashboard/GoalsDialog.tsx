@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, parse } from 'date-fns';
+import { Loader2, Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  SERVICE_TYPE_LABELS,
+  fetchGoals,
+  goalMonth,
+  goalScopeLabel,
+  type OperationalGoal,
+} from '@/lib/operationalGoals';
+
+interface GoalsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+// Select items cannot carry an empty value
+const ALL = 'all';
+
+const EMPTY_FORM = {
+  id: null as string | null,
+  serviceType: ALL,
+  clientId: ALL,
+  ticketsTarget: '',
+  efficiencyTarget: '',
+  responseTimeTarget: '',
+};
+
+const toTarget = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function GoalsDialog({ open, onOpenChange, onSaved }: GoalsDialogProps) {
+  const { user } = useAuth();
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [goals, setGoals] = useState<OperationalGoal[]>([]);
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const monthDate = parse(month, 'yyyy-MM', new Date());
+
+  const loadGoals = useCallback(async () => {
+    setLoading(true);
+    try {
+      setGoals(await fetchGoals(parse(month, 'yyyy-MM', new Date())));
+    } catch (error: any) {
+      console.error('Erro ao carregar metas:', error);
+      toast.error('Erro ao carregar metas', { description: error?.message });
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    if (open) loadGoals();
+  }, [open, loadGoals]);
+
+  useEffect(() => {
+    if (!open) return;
+    supabase.from('clients').select('id, name').order('name').then(({ data }) => setClients(data || []));
+  }, [open]);
+
+  const handleEdit = (goal: OperationalGoal) => {
+    setForm({
+      id: goal.id,
+      serviceType: goal.service_type || ALL,
+      clientId: goal.client_id || ALL,
+      ticketsTarget: goal.tickets_target?.toString() ?? '',
+      efficiencyTarget: goal.efficiency_target?.toString() ?? '',
+      responseTimeTarget: goal.response_time_target?.toString() ?? '',
+    });
+  };
+
+  const handleSave = async () => {
+    const targets = {
+      tickets_target: toTarget(form.ticketsTarget),
+      efficiency_target: toTarget(form.efficiencyTarget),
+      response_time_target: toTarget(form.responseTimeTarget),
+    };
+    if (Object.values(targets).every((v) => v === null)) {
+      toast.error('Informe ao menos uma meta');
+      return;
+    }
+    if (targets.efficiency_target !== null && (targets.efficiency_target <= 0 || targets.efficiency_target > 100)) {
+      toast.error('A eficiência deve estar entre 1 e 100%');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        month: goalMonth(monthDate),
+        service_type: form.serviceType === ALL ? null : form.serviceType as OperationalGoal['service_type'],
+        client_id: form.clientId === ALL ? null : form.clientId,
+        ...targets,
+      };
+      const { error } = form.id
+        ? await supabase.from('operational_goals').update(values).eq('id', form.id)
+        : await supabase.from('operational_goals').insert({ ...values, created_by: user?.id });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('Já existe uma meta para este serviço e cliente no mês');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success('Meta salva');
+      setForm(EMPTY_FORM);
+      loadGoals();
+      onSaved();
+    } catch (error: any) {
+      console.error('Erro ao salvar meta:', error);
+      toast.error('Erro ao salvar meta', { description: error?.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from('operational_goals').delete().eq('id', id);
+      if (error) throw error;
+      toast.success('Meta removida');
+      if (form.id === id) setForm(EMPTY_FORM);
+      loadGoals();
+      onSaved();
+    } catch (error: any) {
+      console.error('Erro ao remover meta:', error);
+      toast.error('Erro ao remover meta', { description: error?.message });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Metas Operacionais</DialogTitle>
+          <DialogDescription>
+            Metas mensais de chamados finalizados, eficiência e tempo de resposta, gerais ou por serviço e cliente.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="w-48 space-y-2">
+            <Label htmlFor="goal-month">Mês</Label>
+            <Input
+              id="goal-month"
+              type="month"
+              value={month}
+              onChange={(e) => { if (e.target.value) { setMonth(e.target.value); setForm(EMPTY_FORM); } }}
+            />
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+          ) : goals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma meta cadastrada para este mês.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Escopo</TableHead>
+                  <TableHead className="text-right">Chamados</TableHead>
+                  <TableHead className="text-right">Eficiência</TableHead>
+                  <TableHead className="text-right">Resposta</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {goals.map((goal) => (
+                  <TableRow key={goal.id} className={form.id === goal.id ? 'bg-muted' : ''}>
+                    <TableCell className="font-medium">{goalScopeLabel(goal)}</TableCell>
+                    <TableCell className="text-right">{goal.tickets_target ?? '-'}</TableCell>
+                    <TableCell className="text-right">{goal.efficiency_target !== null ? `${goal.efficiency_target}%` : '-'}</TableCell>
+                    <TableCell className="text-right">{goal.response_time_target !== null ? `${goal.response_time_target} min` : '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(goal)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive hover:text-destructive" onClick={() => handleDelete(goal.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="rounded-lg border p-4 space-y-4">
+            <p className="text-sm font-semibold">{form.id ? 'Editar meta' : 'Nova meta'}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo de Serviço</Label>
+                <Select value={form.serviceType} onValueChange={(v) => setForm({ ...form, serviceType: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os serviços</SelectItem>
+                    {Object.entries(SERVICE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Cliente</Label>
+                <Select value={form.clientId} onValueChange={(v) => setForm({ ...form, clientId: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os clientes</SelectItem>
+                    {clients.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="goal-tickets">Chamados finalizados</Label>
+                <Input id="goal-tickets" type="number" min={1} value={form.ticketsTarget} onChange={(e) => setForm({ ...form, ticketsTarget: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="goal-efficiency">Eficiência (%)</Label>
+                <Input id="goal-efficiency" type="number" min={1} max={100} value={form.efficiencyTarget} onChange={(e) => setForm({ ...form, efficiencyTarget: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="goal-response">Tempo de resposta (min)</Label>
+                <Input id="goal-response" type="number" min={1} value={form.responseTimeTarget} onChange={(e) => setForm({ ...form, responseTimeTarget: e.target.value })} />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {form.id && <Button variant="outline" onClick={() => setForm(EMPTY_FORM)}>Cancelar edição</Button>}
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Salvar meta
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
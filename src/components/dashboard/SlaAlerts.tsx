@@ -0,0 +1,94 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowUpRight, ShieldCheck } from "lucide-react";
+import { useNow } from "@/hooks/useNow";
+import {
+  SLA_STATUS_COLORS,
+  SLA_STATUS_LABELS,
+  evaluateSla,
+  fetchSlaRules,
+  formatSlaMinutes,
+  isSlaAlert,
+  type SlaCheck,
+  type SlaRule,
+} from "@/lib/sla";
+
+interface SlaAlertsProps {
+  tickets: any[];
+  onViewDetails: (id: string) => void;
+}
+
+const describeCheck = (label: string, check: SlaCheck | null) =>
+  check && check.status !== 'cumprido' && check.status !== 'no_prazo'
+    ? `${label} ${formatSlaMinutes(check.minutes)} / ${formatSlaMinutes(check.limit)}`
+    : null;
+
+const SlaAlerts = ({ tickets, onViewDetails }: SlaAlertsProps) => {
+  const [rules, setRules] = useState<SlaRule[]>([]);
+  const now = useNow();
+
+  useEffect(() => {
+    fetchSlaRules()
+      .then(setRules)
+      .catch((error) => console.error('Erro ao carregar regras de SLA:', error));
+  }, []);
+
+  // Breaches first, then whoever has been waiting the longest
+  const alerts = useMemo(() => tickets
+    .map(ticket => ({ ticket, evaluation: evaluateSla(ticket, rules, now) }))
+    .filter(({ ticket, evaluation }) => isSlaAlert(ticket, evaluation))
+    .sort((a, b) =>
+      (a.evaluation?.status === 'violado' ? 0 : 1) - (b.evaluation?.status === 'violado' ? 0 : 1) ||
+      new Date(a.ticket.start_datetime).getTime() - new Date(b.ticket.start_datetime).getTime()
+    ), [tickets, rules, now]);
+
+  if (rules.length === 0) return null;
+
+  return (
+    <Card className="border-none shadow-md bg-card/60 backdrop-blur-md overflow-hidden">
+      <CardHeader className="pb-3 flex flex-row items-center justify-between">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-warning" />
+          Alertas de SLA
+        </CardTitle>
+        {alerts.length > 0 && <Badge variant="outline" className={SLA_STATUS_COLORS.violado}>{alerts.length}</Badge>}
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-2">
+            <ShieldCheck className="h-4 w-4 text-success" />
+            Nenhum chamado em andamento próximo do prazo.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+            {alerts.map(({ ticket, evaluation }) => evaluation && (
+              <button
+                key={ticket.id}
+                type="button"
+                onClick={() => onViewDetails(ticket.id)}
+                className="text-left rounded-lg border bg-background p-3 hover:shadow-md transition-shadow space-y-1"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-bold text-sm">{ticket.code || 'Sem ID'}</span>
+                  <Badge variant="outline" className={SLA_STATUS_COLORS[evaluation.status]}>
+                    {SLA_STATUS_LABELS[evaluation.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{ticket.clients?.name || 'Cliente'} • {ticket.city}/{ticket.state}</p>
+                <p className="text-xs font-medium">
+                  {[describeCheck('Chegada', evaluation.arrival), describeCheck('Duração', evaluation.duration)].filter(Boolean).join(' · ')}
+                </p>
+                <span className="text-[10px] text-primary flex items-center gap-0.5">
+                  Ver detalhes <ArrowUpRight className="h-2 w-2" />
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SlaAlerts;
@@ -102,27 +102,35 @@ const loadImage = (url: string): Promise<{ dataUrl: string; width: number; heigh
   });
 };
 
-export async function generateAgentPaymentPDF(data: PaymentPDFData): Promise<void> {
-  const pdf = new jsPDF('p', 'mm', 'a4');
+type BankingInfo = PaymentPDFData['bankingInfo'];
+
+const loadLogo = async () => {
+  try {
+    return await loadImage('/logo-fdg-red.png');
+  } catch (e) {
+    try {
+      return await loadImage('/logo-fdg.png');
+    } catch (fe) {
+      return null;
+    }
+  }
+};
+
+// Page background plus the dark header band with logo, title and company data
+const drawHeader = (
+  pdf: jsPDF,
+  logoImg: { dataUrl: string; width: number; height: number } | null,
+  title: string,
+  subtitleLines: string[]
+) => {
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const margin = 15;
-  const contentWidth = pageWidth - (margin * 2);
 
   // Background
   setColor(pdf, THEME.background);
   pdf.rect(0, 0, pageWidth, pageHeight, 'F');
 
-  // Load Logo
-  let logoImg: { dataUrl: string; width: number; height: number } | null = null;
-  try {
-    logoImg = await loadImage('/logo-fdg-red.png');
-  } catch (e) {
-    try {
-      logoImg = await loadImage('/logo-fdg.png');
-    } catch (fe) {}
-  }
-
   // --- HEADER ---
   setColor(pdf, THEME.primary);
   pdf.rect(0, 0, pageWidth, 45, 'F');
@@ -138,21 +146,23 @@ export async function generateAgentPaymentPDF(data: PaymentPDFData): Promise<voi
   setColor(pdf, THEME.white);
   pdf.setFont('helvetica', 'bold');
   pdf.setFontSize(18);
-  pdf.text('RECIBO DE HONORÁRIOS', margin + 42, 20);
+  pdf.text(title, margin + 42, 20);
   
   pdf.setFont('helvetica', 'normal');
   pdf.setFontSize(8);
-  pdf.text(`CHAMADO: ${data.ticketCode}`, margin + 42, 26);
-  pdf.text(`DATA DE EMISSÃO: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, margin + 42, 30);
+  subtitleLines.forEach((line, i) => pdf.text(line, margin + 42, 26 + i * 4));
 
   // Business Address in header
   pdf.setFontSize(7);
   pdf.text(COMPANY_INFO.address, margin + 42, 36);
   pdf.text(`CNPJ: ${COMPANY_INFO.cnpj} | ${COMPANY_INFO.email}`, margin + 42, 40);
+};
 
-  let y = 55;
+// --- IDENTIFICAÇÃO DO AGENTE ---
+const drawAgentIdentification = (pdf: jsPDF, y: number, agentName: string, agentDocument: string, bankingInfo: BankingInfo) => {
+  const margin = 15;
+  const contentWidth = pdf.internal.pageSize.getWidth() - (margin * 2);
 
-  // --- IDENTIFICAÇÃO DO AGENTE ---
   setColor(pdf, THEME.white);
   drawRoundedRect(pdf, margin, y, contentWidth, 38, 2, 'F');
   setColor(pdf, THEME.primary);
@@ -165,29 +175,56 @@ export async function generateAgentPaymentPDF(data: PaymentPDFData): Promise<voi
   
   setColor(pdf, THEME.primary);
   pdf.setFontSize(12);
-  pdf.text(data.agentName.toUpperCase(), margin + 6, y + 13);
+  pdf.text(agentName.toUpperCase(), margin + 6, y + 13);
   
   setColor(pdf, THEME.secondaryText);
   pdf.setFontSize(8);
-  pdf.text(`CPF/CNPJ: ${data.agentDocument || 'N/A'}`, margin + 6, y + 19);
+  pdf.text(`CPF/CNPJ: ${agentDocument || 'N/A'}`, margin + 6, y + 19);
 
   // PIX & Bank info Highlighted
   let identY = y + 26;
-  if (data.bankingInfo.pixKey) {
+  if (bankingInfo.pixKey) {
     setColor(pdf, {r: 255, g: 247, b: 237}); // Light amber bg
     pdf.roundedRect(margin + 4, identY - 4, contentWidth - 8, 6, 0.5, 0.5, 'F');
     setColor(pdf, THEME.accent); // Amber text
     pdf.setFont('helvetica', 'bold');
     pdf.setFontSize(9);
-    pdf.text(`PIX: ${data.bankingInfo.pixKey}`, margin + 6, identY);
+    pdf.text(`PIX: ${bankingInfo.pixKey}`, margin + 6, identY);
     identY += 7;
   }
   
   setColor(pdf, THEME.text);
   pdf.setFontSize(7.5);
   pdf.setFont('helvetica', 'normal');
-  const bankDetailsShort = `${data.bankingInfo.bankName || 'N/A'} | Ag: ${data.bankingInfo.bankAgency || '-'} | Cta: ${data.bankingInfo.bankAccount || '-'}`;
+  const bankDetailsShort = `${bankingInfo.bankName || 'N/A'} | Ag: ${bankingInfo.bankAgency || '-'} | Cta: ${bankingInfo.bankAccount || '-'}`;
   pdf.text(bankDetailsShort.toUpperCase(), margin + 6, identY);
+};
+
+const drawFooter = (pdf: jsPDF, note: string) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const footerY = pdf.internal.pageSize.getHeight() - 10;
+  pdf.setFontSize(6.5);
+  setColor(pdf, THEME.secondaryText);
+  const footerInfo = `${COMPANY_INFO.name}  •  CNPJ ${COMPANY_INFO.cnpj}  •  ${COMPANY_INFO.address}`;
+  pdf.text(note, pageWidth / 2, footerY - 4, { align: 'center' });
+  pdf.text(footerInfo, pageWidth / 2, footerY, { align: 'center' });
+};
+
+export async function generateAgentPaymentPDF(data: PaymentPDFData): Promise<void> {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const margin = 15;
+  const contentWidth = pageWidth - (margin * 2);
+
+  const logoImg = await loadLogo();
+  drawHeader(pdf, logoImg, 'RECIBO DE HONORÁRIOS', [
+    `CHAMADO: ${data.ticketCode}`,
+    `DATA DE EMISSÃO: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`,
+  ]);
+
+  let y = 55;
+
+  drawAgentIdentification(pdf, y, data.agentName, data.agentDocument, data.bankingInfo);
 
   y += 45;
 
@@ -333,14 +370,155 @@ export async function generateAgentPaymentPDF(data: PaymentPDFData): Promise<voi
   y += 18;
 
   // --- FOOTER ---
-  const footerY = pageHeight - 10;
-  pdf.setFontSize(6.5);
-  setColor(pdf, THEME.secondaryText);
-  const footerInfo = `${COMPANY_INFO.name}  •  CNPJ ${COMPANY_INFO.cnpj}  •  ${COMPANY_INFO.address}`;
-  pdf.text('Este documento serve como registro para fins de conferência de honorários e despesas.', pageWidth / 2, footerY - 4, { align: 'center' });
-  pdf.text(footerInfo, pageWidth / 2, footerY, { align: 'center' });
+  drawFooter(pdf, 'Este documento serve como registro para fins de conferência de honorários e despesas.');
 
   // Save PDF
   const fileName = `RECIBO_PAGAMENTO_${data.agentName.replace(/\s+/g, '_')}_${data.ticketCode}.pdf`;
   pdf.save(fileName);
 }
+
+export interface AgentStatementItem {
+  date: string;
+  ticketCode: string;
+  clientName: string;
+  roleLabel: string;
+  compensation: number;
+  expenses: number;
+  total: number;
+}
+
+interface AgentStatementPDFData {
+  agentName: string;
+  agentDocument: string;
+  periodStart: Date;
+  periodEnd: Date;
+  // Null while the run is still a draft
+  paidAt: Date | null;
+  items: AgentStatementItem[];
+  bankingInfo: BankingInfo;
+}
+
+/** Consolidated statement of every payment an agent receives in a payment run. */
+export async function generateAgentStatementPDF(data: AgentStatementPDFData): Promise<void> {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - (margin * 2);
+  const footerNote = 'Extrato consolidado de honorários e despesas do período.';
+
+  const logoImg = await loadLogo();
+  drawHeader(pdf, logoImg, 'EXTRATO DE HONORÁRIOS', [
+    `PERÍODO: ${format(data.periodStart, 'dd/MM/yyyy')} A ${format(data.periodEnd, 'dd/MM/yyyy')}`,
+    data.paidAt
+      ? `PAGO EM: ${format(data.paidAt, 'dd/MM/yyyy HH:mm')}`
+      : `DATA DE EMISSÃO: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`,
+  ]);
+
+  let y = 55;
+  drawAgentIdentification(pdf, y, data.agentName, data.agentDocument, data.bankingInfo);
+  y += 45;
+
+  const cols = {
+    date: margin + 6,
+    code: margin + 28,
+    client: margin + 52,
+    role: margin + 100,
+    compensation: margin + 138,
+    expenses: margin + 158,
+    total: margin + contentWidth - 4,
+  };
+
+  const nextPage = () => {
+    drawFooter(pdf, footerNote);
+    pdf.addPage();
+    setColor(pdf, THEME.background);
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+    y = 20;
+  };
+
+  const drawTableHeader = () => {
+    setColor(pdf, {r: 241, g: 245, b: 249});
+    pdf.rect(margin, y, contentWidth, 7, 'F');
+    setColor(pdf, THEME.secondaryText);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.text('DATA', cols.date, y + 5);
+    pdf.text('CHAMADO', cols.code, y + 5);
+    pdf.text('CLIENTE', cols.client, y + 5);
+    pdf.text('FUNÇÃO', cols.role, y + 5);
+    pdf.text('HONORÁRIOS', cols.compensation, y + 5, { align: 'right' });
+    pdf.text('DESPESAS', cols.expenses, y + 5, { align: 'right' });
+    pdf.text('TOTAL', cols.total, y + 5, { align: 'right' });
+    y += 12;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  setColor(pdf, THEME.primary);
+  pdf.text(`CHAMADOS DO PERÍODO (${data.items.length})`, margin, y);
+  y += 4;
+  drawTableHeader();
+
+  const sortedItems = [...data.items].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  for (const item of sortedItems) {
+    if (y > pageHeight - 45) {
+      nextPage();
+      drawTableHeader();
+    }
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    setColor(pdf, THEME.text);
+    pdf.text(format(new Date(item.date), 'dd/MM/yy'), cols.date, y);
+    pdf.text(item.ticketCode, cols.code, y);
+    pdf.text(pdf.splitTextToSize(item.clientName, 46)[0], cols.client, y);
+    pdf.text(item.roleLabel, cols.role, y);
+    pdf.text(formatCurrency(item.compensation), cols.compensation, y, { align: 'right' });
+    pdf.text(formatCurrency(item.expenses), cols.expenses, y, { align: 'right' });
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(formatCurrency(item.total), cols.total, y, { align: 'right' });
+
+    pdf.setDrawColor(241, 245, 249);
+    pdf.line(margin, y + 3, margin + contentWidth, y + 3);
+    y += 8;
+  }
+
+  const totals = data.items.reduce(
+    (acc, item) => ({
+      compensation: acc.compensation + item.compensation,
+      expenses: acc.expenses + item.expenses,
+      total: acc.total + item.total,
+    }),
+    { compensation: 0, expenses: 0, total: 0 }
+  );
+
+  if (y > pageHeight - 50) nextPage();
+
+  // TOTALS
+  y += 4;
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.text('Honorários', pageWidth - 102, y);
+  pdf.text(formatCurrency(totals.compensation), pageWidth - 18, y, { align: 'right' });
+  y += 6;
+  pdf.text('Despesas (pedágio, alimentação, outras)', pageWidth - 102, y);
+  pdf.text(formatCurrency(totals.expenses), pageWidth - 18, y, { align: 'right' });
+  y += 4;
+
+  setColor(pdf, THEME.primary);
+  drawRoundedRect(pdf, pageWidth - 105, y, 90, 12, 1, 'F');
+  setColor(pdf, THEME.white);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.text('TOTAL A RECEBER', pageWidth - 102, y + 8);
+  pdf.setFontSize(11);
+  pdf.text(formatCurrency(totals.total), pageWidth - 18, y + 8, { align: 'right' });
+
+  // --- FOOTER ---
+  drawFooter(pdf, footerNote);
+
+  const fileName = `EXTRATO_PAGAMENTO_${data.agentName.replace(/\s+/g, '_')}_${format(data.periodStart, 'yyyyMMdd')}_${format(data.periodEnd, 'yyyyMMdd')}.pdf`;
+  pdf.save(fileName);
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { format, startOfDay, endOfDay } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { DateRange } from 'react-day-picker';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DatePickerWithRange } from '@/components/dashboard/DateRangePicker';
+import { ArrowRight, ChevronDown, ChevronUp, History, Loader2, Search, X } from 'lucide-react';
+import {
+    AUDIT_ACTION_LABELS,
+    AUDIT_TABLE_LABELS,
+    diffAuditEntry,
+    fetchAuditLog,
+    formatAuditValue,
+    type AuditEntry,
+} from '@/lib/auditLog';
+
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Select items cannot carry an empty value
+const ALL = 'all';
+
+const ACTION_BADGES: Record<AuditEntry['action'], string> = {
+    INSERT: 'text-blue-700 border-blue-200 bg-blue-50',
+    UPDATE: 'text-amber-700 border-amber-200 bg-amber-50',
+    DELETE: 'text-red-600 border-red-200 bg-red-50',
+};
+
+interface Option {
+    id: string;
+    name: string;
+}
+
+export function AuditLogViewer() {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [users, setUsers] = useState<Option[]>([]);
+    const [agentNames, setAgentNames] = useState<Record<string, string>>({});
+    const [ticketInput, setTicketInput] = useState('');
+    const [ticketCode, setTicketCode] = useState('');
+    const [userId, setUserId] = useState<string>(ALL);
+    const [date, setDate] = useState<DateRange | undefined>(undefined);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [hasMore, setHasMore] = useState(false);
+
+    // A response that arrives after the filters changed again is dropped
+    const requestRef = useRef(0);
+
+    useEffect(() => {
+        const fetchOptions = async () => {
+            const [profilesResult, agentsResult] = await Promise.all([
+                supabase.from('profiles').select('user_id, name').order('name'),
+                supabase.from('agents').select('id, name'),
+            ]);
+            setUsers((profilesResult.data || []).map(p => ({ id: p.user_id, name: p.name })));
+            setAgentNames(Object.fromEntries((agentsResult.data || []).map(a => [a.id, a.name])));
+        };
+        fetchOptions();
+    }, []);
+
+    useEffect(() => {
+        const timeout = setTimeout(() => setTicketCode(ticketInput), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [ticketInput]);
+
+    const filters = useCallback(() => ({
+        ticketCode,
+        userId: userId === ALL ? null : userId,
+        from: date?.from ? startOfDay(date.from) : null,
+        to: date?.from ? endOfDay(date.to || date.from) : null,
+    }), [ticketCode, userId, date]);
+
+    const fetchEntries = useCallback(async () => {
+        const request = ++requestRef.current;
+        setLoading(true);
+        try {
+            const rows = await fetchAuditLog(filters(), null, PAGE_SIZE);
+            if (request !== requestRef.current) return;
+            setEntries(rows);
+            setHasMore(rows.length === PAGE_SIZE);
+        } catch (error: any) {
+            if (request !== requestRef.current) return;
+            console.error('Erro ao buscar auditoria:', error);
+            toast.error('Erro ao carregar auditoria', { description: error?.message });
+        } finally {
+            if (request === requestRef.current) setLoading(false);
+        }
+    }, [filters]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const handleLoadMore = async () => {
+        const last = entries[entries.length - 1];
+        if (!last) return;
+        const request = requestRef.current;
+        setLoadingMore(true);
+        try {
+            const rows = await fetchAuditLog(filters(), { changedAt: last.changed_at, id: last.id }, PAGE_SIZE);
+            if (request !== requestRef.current) return;
+            setEntries(prev => [...prev, ...rows]);
+            setHasMore(rows.length === PAGE_SIZE);
+        } catch (error: any) {
+            console.error('Erro ao buscar auditoria:', error);
+            toast.error('Erro ao carregar auditoria', { description: error?.message });
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const userName = (id: string | null) => id ? users.find(u => u.id === id)?.name || 'Usuário' : 'Sistema';
+    const hasFilters = !!ticketInput || userId !== ALL || !!date?.from;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col lg:flex-row gap-3">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                        placeholder="Código do chamado (ex.: FP-1234)"
+                        value={ticketInput}
+                        onChange={(e) => setTicketInput(e.target.value)}
+                        className="pl-9"
+                    />
+                </div>
+                <Select value={userId} onValueChange={setUserId}>
+                    <SelectTrigger className="w-full lg:w-[220px]">
+                        <SelectValue placeholder="Usuário" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ALL}>Todos os usuários</SelectItem>
+                        {users.map(u => <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <DatePickerWithRange date={date} setDate={setDate} />
+                {hasFilters && (
+                    <Button variant="ghost" onClick={() => { setTicketInput(''); setUserId(ALL); setDate(undefined); }}>
+                        <X className="h-4 w-4 mr-2" />
+                        Limpar
+                    </Button>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+            ) : entries.length === 0 ? (
+                <Card>
+                    <CardContent className="flex flex-col items-center justify-center py-12">
+                        <History className="h-12 w-12 text-muted-foreground mb-4" />
+                        <p className="text-lg font-medium text-foreground mb-2">Nenhuma alteração encontrada</p>
+                        <p className="text-sm text-muted-foreground">
+                            {hasFilters ? 'Tente outros filtros' : 'Alterações em valores de faturamento e honorários aparecem aqui'}
+                        </p>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="space-y-2">
+                    {entries.map((entry) => {
+                        const changes = diffAuditEntry(entry);
+                        const expanded = expandedId === entry.id;
+                        return (
+                            <Card key={entry.id}>
+                                <CardContent className="p-0">
+                                    <button
+                                        type="button"
+                                        className="w-full flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-3 text-left hover:bg-muted/50"
+                                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                                    >
+                                        <span className="text-xs text-muted-foreground w-32 shrink-0">
+                                            {format(new Date(entry.changed_at), "dd/MM/yyyy HH:mm:ss", { locale: ptBR })}
+                                        </span>
+                                        <span className="font-semibold text-sm">{entry.ticket_code || 'Chamado excluído'}</span>
+                                        <Badge variant="outline">{AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name}</Badge>
+                                        <Badge variant="outline" className={ACTION_BADGES[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                                        <span className="text-sm text-muted-foreground flex-1 truncate">
+                                            {changes.length} {changes.length === 1 ? 'campo' : 'campos'} · {userName(entry.changed_by)}
+                                        </span>
+                                        {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                    </button>
+                                    {expanded && (
+                                        <div className="border-t overflow-x-auto">
+                                            <table className="w-full text-sm">
+                                                <thead>
+                                                    <tr className="bg-muted/30 text-left">
+                                                        <th className="px-4 py-2 font-semibold">Campo</th>
+                                                        <th className="px-4 py-2 font-semibold">Antes</th>
+                                                        <th className="w-6" />
+                                                        <th className="px-4 py-2 font-semibold">Depois</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody className="divide-y">
+                                                    {changes.map((change) => (
+                                                        <tr key={change.field}>
+                                                            <td className="px-4 py-2 text-muted-foreground">{change.label}</td>
+                                                            <td className="px-4 py-2 font-mono text-red-600 dark:text-red-400">
+                                                                {entry.action === 'INSERT' ? '—' : formatAuditValue(change.field, change.before, agentNames)}
+                                                            </td>
+                                                            <td><ArrowRight className="h-3 w-3 text-muted-foreground" /></td>
+                                                            <td className="px-4 py-2 font-mono text-emerald-600 dark:text-emerald-400">
+                                                                {entry.action === 'DELETE' ? '—' : formatAuditValue(change.field, change.after, agentNames)}
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                    {hasMore && (
+                        <div className="flex justify-center pt-2">
+                            <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Carregar mais
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
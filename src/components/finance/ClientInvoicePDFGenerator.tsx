@@ -104,27 +104,33 @@ const loadImage = (url: string): Promise<{ dataUrl: string; width: number; heigh
   });
 };
 
-export async function generateClientInvoicePDF(data: InvoicePDFData): Promise<void> {
-  const pdf = new jsPDF('p', 'mm', 'a4');
+const loadLogo = async () => {
+  try {
+    return await loadImage('/logo-fdg-red.png');
+  } catch (e) {
+    try {
+      return await loadImage('/logo-fdg.png');
+    } catch (fe) {
+      return null;
+    }
+  }
+};
+
+// Page background plus the dark header band with logo, title and company data
+const drawHeader = (
+  pdf: jsPDF,
+  logoImg: { dataUrl: string; width: number; height: number } | null,
+  title: string,
+  subtitleLines: string[]
+) => {
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const margin = 15;
-  const contentWidth = pageWidth - (margin * 2);
 
   // Background
   setColor(pdf, THEME.background);
   pdf.rect(0, 0, pageWidth, pageHeight, 'F');
 
-  // Load Logo
-  let logoImg: { dataUrl: string; width: number; height: number } | null = null;
-  try {
-    logoImg = await loadImage('/logo-fdg-red.png');
-  } catch (e) {
-    try {
-      logoImg = await loadImage('/logo-fdg.png');
-    } catch (fe) { /* ignore */ }
-  }
-
   // --- HEADER ---
   setColor(pdf, THEME.primary);
   pdf.rect(0, 0, pageWidth, 45, 'F');
@@ -140,17 +146,40 @@ export async function generateClientInvoicePDF(data: InvoicePDFData): Promise<vo
   setColor(pdf, THEME.white);
   pdf.setFont('helvetica', 'bold');
   pdf.setFontSize(18);
-  pdf.text('DEMONSTRATIVO DE FATURAMENTO', margin + 42, 20);
+  pdf.text(title, margin + 42, 20);
   
   pdf.setFont('helvetica', 'normal');
   pdf.setFontSize(8);
-  pdf.text(`CHAMADO: ${data.ticketCode}`, margin + 42, 26);
-  pdf.text(`DATA DE EMISSÃO: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`, margin + 42, 30);
+  subtitleLines.forEach((line, i) => pdf.text(line, margin + 42, 26 + i * 4));
 
   // Business Address in header
   pdf.setFontSize(7);
   pdf.text(COMPANY_INFO.address, margin + 42, 36);
   pdf.text(`CNPJ: ${COMPANY_INFO.cnpj} | ${COMPANY_INFO.email}`, margin + 42, 40);
+};
+
+const drawFooter = (pdf: jsPDF) => {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const footerY = pdf.internal.pageSize.getHeight() - 10;
+  pdf.setFontSize(6.5);
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFont('helvetica', 'normal');
+  const footerInfo = `${COMPANY_INFO.name}  •  CNPJ ${COMPANY_INFO.cnpj}  •  ${COMPANY_INFO.address}`;
+  pdf.text(footerInfo, pageWidth / 2, footerY, { align: 'center' });
+};
+
+export async function generateClientInvoicePDF(data: InvoicePDFData): Promise<void> {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - (margin * 2);
+
+  const logoImg = await loadLogo();
+  drawHeader(pdf, logoImg, 'DEMONSTRATIVO DE FATURAMENTO', [
+    `CHAMADO: ${data.ticketCode}`,
+    `DATA DE EMISSÃO: ${format(new Date(), 'dd/MM/yyyy HH:mm')}`,
+  ]);
 
   let y = 55;
 
@@ -402,14 +431,374 @@ export async function generateClientInvoicePDF(data: InvoicePDFData): Promise<vo
   pdf.text(pdf.splitTextToSize(footerText, contentWidth - 10), margin + 5, y + 8);
 
   // --- FOOTER ---
-  const footerY = pageHeight - 10;
-  pdf.setFontSize(6.5);
-  setColor(pdf, THEME.secondaryText);
-  pdf.setFont('helvetica', 'normal');
-  const footerInfo = `${COMPANY_INFO.name}  •  CNPJ ${COMPANY_INFO.cnpj}  •  ${COMPANY_INFO.address}`;
-  pdf.text(footerInfo, pageWidth / 2, footerY, { align: 'center' });
+  drawFooter(pdf);
 
   // Save PDF
   const fileName = `FATURAMENTO_${data.clientName.replace(/\s+/g, '_')}_${data.ticketCode}.pdf`;
   pdf.save(fileName);
 }
+
+export interface MonthlyInvoiceItem {
+  date: string;
+  ticketCode: string;
+  vehiclePlate: string | null;
+  serviceType: string;
+  baseValue: number;
+  // Extra hours and extra km, already multiplied by their rates
+  extras: number;
+  discountAddition: number;
+  total: number;
+}
+
+interface MonthlyInvoicePDFData {
+  invoiceNumber: string;
+  clientName: string;
+  clientDocument: string | null;
+  periodStart: Date;
+  periodEnd: Date;
+  issuedAt: Date;
+  dueDate: Date | null;
+  items: MonthlyInvoiceItem[];
+}
+
+/** Consolidated invoice (fatura) with one line per ticket of the client in the period. */
+export async function generateClientMonthlyInvoicePDF(data: MonthlyInvoicePDFData): Promise<void> {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - (margin * 2);
+
+  const logoImg = await loadLogo();
+  drawHeader(pdf, logoImg, `FATURA ${data.invoiceNumber}`, [
+    `PERÍODO: ${format(data.periodStart, 'dd/MM/yyyy')} A ${format(data.periodEnd, 'dd/MM/yyyy')}`,
+    `DATA DE EMISSÃO: ${format(data.issuedAt, 'dd/MM/yyyy HH:mm')}` +
+      (data.dueDate ? `  •  VENCIMENTO: ${format(data.dueDate, 'dd/MM/yyyy')}` : ''),
+  ]);
+
+  let y = 55;
+
+  // --- IDENTIFICAÇÃO DO CLIENTE ---
+  setColor(pdf, THEME.white);
+  drawRoundedRect(pdf, margin, y, contentWidth, 25, 2, 'F');
+  setColor(pdf, THEME.primary);
+  pdf.rect(margin, y, 1.5, 25, 'F');
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(7);
+  setColor(pdf, THEME.secondaryText);
+  pdf.text('CLIENTE', margin + 6, y + 6);
+
+  setColor(pdf, THEME.primary);
+  pdf.setFontSize(12);
+  pdf.text(data.clientName.toUpperCase(), margin + 6, y + 13);
+
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFontSize(8);
+  pdf.text(`CNPJ/CPF: ${data.clientDocument || 'N/A'}  •  CHAMADOS: ${data.items.length}`, margin + 6, y + 19);
+
+  y += 32;
+
+  const cols = {
+    date: margin + 4,
+    code: margin + 22,
+    plate: margin + 46,
+    service: margin + 66,
+    base: margin + 122,
+    extras: margin + 142,
+    adjustments: margin + 160,
+    total: margin + contentWidth - 4,
+  };
+
+  const nextPage = () => {
+    drawFooter(pdf);
+    pdf.addPage();
+    setColor(pdf, THEME.background);
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+    y = 20;
+  };
+
+  const drawTableHeader = () => {
+    setColor(pdf, {r: 241, g: 245, b: 249});
+    pdf.rect(margin, y, contentWidth, 7, 'F');
+    setColor(pdf, THEME.secondaryText);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.text('DATA', cols.date, y + 5);
+    pdf.text('CHAMADO', cols.code, y + 5);
+    pdf.text('PLACA', cols.plate, y + 5);
+    pdf.text('SERVIÇO', cols.service, y + 5);
+    pdf.text('FRANQUIA', cols.base, y + 5, { align: 'right' });
+    pdf.text('EXCEDENTES', cols.extras, y + 5, { align: 'right' });
+    pdf.text('AJUSTES', cols.adjustments, y + 5, { align: 'right' });
+    pdf.text('TOTAL', cols.total, y + 5, { align: 'right' });
+    y += 12;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  setColor(pdf, THEME.primary);
+  pdf.text('DETALHAMENTO DOS CHAMADOS', margin, y);
+  y += 4;
+  drawTableHeader();
+
+  const sortedItems = [...data.items].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  for (const item of sortedItems) {
+    if (y > pageHeight - 45) {
+      nextPage();
+      drawTableHeader();
+    }
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7.5);
+    setColor(pdf, THEME.text);
+    pdf.text(format(new Date(item.date), 'dd/MM/yy'), cols.date, y);
+    pdf.text(item.ticketCode, cols.code, y);
+    pdf.text(item.vehiclePlate || '-', cols.plate, y);
+    pdf.text(pdf.splitTextToSize(item.serviceType, 34)[0], cols.service, y);
+    pdf.text(formatCurrency(item.baseValue), cols.base, y, { align: 'right' });
+    pdf.text(formatCurrency(item.extras), cols.extras, y, { align: 'right' });
+    pdf.text(formatCurrency(item.discountAddition), cols.adjustments, y, { align: 'right' });
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(formatCurrency(item.total), cols.total, y, { align: 'right' });
+
+    pdf.setDrawColor(241, 245, 249);
+    pdf.line(margin, y + 3, margin + contentWidth, y + 3);
+    y += 8;
+  }
+
+  const totals = data.items.reduce(
+    (acc, item) => ({
+      base: acc.base + item.baseValue,
+      extras: acc.extras + item.extras,
+      adjustments: acc.adjustments + item.discountAddition,
+      total: acc.total + item.total,
+    }),
+    { base: 0, extras: 0, adjustments: 0, total: 0 }
+  );
+
+  if (y > pageHeight - 70) nextPage();
+
+  // TOTALS
+  y += 4;
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.text('Franquias', pageWidth - 100, y);
+  pdf.text(formatCurrency(totals.base), pageWidth - 18, y, { align: 'right' });
+  y += 6;
+  pdf.text('Horas e KM excedentes', pageWidth - 100, y);
+  pdf.text(formatCurrency(totals.extras), pageWidth - 18, y, { align: 'right' });
+  y += 6;
+  pdf.text('Ajustes / Acréscimos', pageWidth - 100, y);
+  pdf.text(formatCurrency(totals.adjustments), pageWidth - 18, y, { align: 'right' });
+  y += 4;
+
+  setColor(pdf, THEME.primary);
+  drawRoundedRect(pdf, pageWidth - 100, y, 85, 12, 1, 'F');
+  setColor(pdf, THEME.white);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.text('TOTAL DA FATURA', pageWidth - 97, y + 8);
+  pdf.setFontSize(11);
+  pdf.text(formatCurrency(totals.total), pageWidth - 18, y + 8, { align: 'right' });
+
+  y += 20;
+
+  // --- FOOTER NOTE ---
+  setColor(pdf, {r: 241, g: 245, b: 249});
+  drawRoundedRect(pdf, margin, y, contentWidth, 20, 1, 'F');
+
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFontSize(7);
+  pdf.setFont('helvetica', 'italic');
+  const footerText = 'Fatura consolidada dos serviços de pronta resposta prestados no período. Este documento não substitui a Nota Fiscal, que será emitida conforme os prazos acordados.';
+  pdf.text(pdf.splitTextToSize(footerText, contentWidth - 10), margin + 5, y + 8);
+
+  drawFooter(pdf);
+
+  const fileName = `FATURA_${data.invoiceNumber}_${data.clientName.replace(/\s+/g, '_')}.pdf`;
+  pdf.save(fileName);
+}
+
+export interface StatementEntry {
+  reference: string;
+  kind: 'fatura' | 'chamado';
+  referenceDate: Date;
+  dueDate: Date;
+  daysOverdue: number;
+  amount: number;
+}
+
+interface ClientStatementPDFData {
+  clientName: string;
+  clientDocument: string | null;
+  // Open amount per aging bucket, in display order
+  buckets: { label: string; amount: number }[];
+  entries: StatementEntry[];
+}
+
+/** Statement of everything the client still owes, with aging and due dates, for collection. */
+export async function generateClientStatementPDF(data: ClientStatementPDFData): Promise<void> {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - (margin * 2);
+  const today = new Date();
+
+  const logoImg = await loadLogo();
+  drawHeader(pdf, logoImg, 'EXTRATO DE DÉBITOS', [
+    `POSIÇÃO EM: ${format(today, 'dd/MM/yyyy')}`,
+    `DATA DE EMISSÃO: ${format(today, 'dd/MM/yyyy HH:mm')}`,
+  ]);
+
+  let y = 55;
+
+  // --- IDENTIFICAÇÃO DO CLIENTE ---
+  setColor(pdf, THEME.white);
+  drawRoundedRect(pdf, margin, y, contentWidth, 25, 2, 'F');
+  setColor(pdf, THEME.primary);
+  pdf.rect(margin, y, 1.5, 25, 'F');
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(7);
+  setColor(pdf, THEME.secondaryText);
+  pdf.text('CLIENTE', margin + 6, y + 6);
+
+  setColor(pdf, THEME.primary);
+  pdf.setFontSize(12);
+  pdf.text(data.clientName.toUpperCase(), margin + 6, y + 13);
+
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFontSize(8);
+  pdf.text(`CNPJ/CPF: ${data.clientDocument || 'N/A'}`, margin + 6, y + 19);
+
+  y += 32;
+
+  // --- AGING ---
+  const bucketW = contentWidth / data.buckets.length;
+  setColor(pdf, THEME.white);
+  drawRoundedRect(pdf, margin, y, contentWidth, 18, 2, 'F');
+  data.buckets.forEach((bucket, i) => {
+    const bx = margin + bucketW * i + 6;
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    setColor(pdf, THEME.secondaryText);
+    pdf.text(bucket.label.toUpperCase(), bx, y + 7);
+    pdf.setFontSize(10);
+    setColor(pdf, THEME.text);
+    pdf.text(formatCurrency(bucket.amount), bx, y + 13);
+  });
+
+  y += 26;
+
+  const cols = {
+    reference: margin + 4,
+    kind: margin + 34,
+    date: margin + 60,
+    due: margin + 88,
+    overdue: margin + 116,
+    amount: margin + contentWidth - 4,
+  };
+
+  const nextPage = () => {
+    drawFooter(pdf);
+    pdf.addPage();
+    setColor(pdf, THEME.background);
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+    y = 20;
+  };
+
+  const drawTableHeader = () => {
+    setColor(pdf, {r: 241, g: 245, b: 249});
+    pdf.rect(margin, y, contentWidth, 7, 'F');
+    setColor(pdf, THEME.secondaryText);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(7);
+    pdf.text('REFERÊNCIA', cols.reference, y + 5);
+    pdf.text('TIPO', cols.kind, y + 5);
+    pdf.text('EMISSÃO', cols.date, y + 5);
+    pdf.text('VENCIMENTO', cols.due, y + 5);
+    pdf.text('SITUAÇÃO', cols.overdue, y + 5);
+    pdf.text('VALOR', cols.amount, y + 5, { align: 'right' });
+    y += 12;
+  };
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  setColor(pdf, THEME.primary);
+  pdf.text(`DOCUMENTOS EM ABERTO (${data.entries.length})`, margin, y);
+  y += 4;
+  drawTableHeader();
+
+  const sortedEntries = [...data.entries].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  for (const entry of sortedEntries) {
+    if (y > pageHeight - 45) {
+      nextPage();
+      drawTableHeader();
+    }
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    setColor(pdf, THEME.text);
+    pdf.text(entry.reference, cols.reference, y);
+    pdf.text(entry.kind === 'fatura' ? 'Fatura' : 'Chamado', cols.kind, y);
+    pdf.text(format(entry.referenceDate, 'dd/MM/yyyy'), cols.date, y);
+    pdf.text(format(entry.dueDate, 'dd/MM/yyyy'), cols.due, y);
+    if (entry.daysOverdue > 0) {
+      pdf.setFont('helvetica', 'bold');
+      setColor(pdf, {r: 220, g: 38, b: 38});
+      pdf.text(`Vencido há ${entry.daysOverdue} dia(s)`, cols.overdue, y);
+    } else {
+      pdf.text('A vencer', cols.overdue, y);
+    }
+    pdf.setFont('helvetica', 'bold');
+    setColor(pdf, THEME.text);
+    pdf.text(formatCurrency(entry.amount), cols.amount, y, { align: 'right' });
+
+    pdf.setDrawColor(241, 245, 249);
+    pdf.line(margin, y + 3, margin + contentWidth, y + 3);
+    y += 8;
+  }
+
+  const total = data.entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const overdue = data.entries.filter(entry => entry.daysOverdue > 0).reduce((sum, entry) => sum + entry.amount, 0);
+
+  if (y > pageHeight - 60) nextPage();
+
+  // TOTALS
+  y += 4;
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.text('Valor vencido', pageWidth - 100, y);
+  pdf.text(formatCurrency(overdue), pageWidth - 18, y, { align: 'right' });
+  y += 4;
+
+  setColor(pdf, THEME.primary);
+  drawRoundedRect(pdf, pageWidth - 100, y, 85, 12, 1, 'F');
+  setColor(pdf, THEME.white);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(8);
+  pdf.text('TOTAL EM ABERTO', pageWidth - 97, y + 8);
+  pdf.setFontSize(11);
+  pdf.text(formatCurrency(total), pageWidth - 18, y + 8, { align: 'right' });
+
+  y += 20;
+
+  // --- FOOTER NOTE ---
+  setColor(pdf, {r: 241, g: 245, b: 249});
+  drawRoundedRect(pdf, margin, y, contentWidth, 20, 1, 'F');
+
+  setColor(pdf, THEME.secondaryText);
+  pdf.setFontSize(7);
+  pdf.setFont('helvetica', 'italic');
+  const footerText = `Caso algum dos valores acima já tenha sido pago, por favor desconsidere este aviso e envie o comprovante para ${COMPANY_INFO.email}.`;
+  pdf.text(pdf.splitTextToSize(footerText, contentWidth - 10), margin + 5, y + 8);
+
+  drawFooter(pdf);
+
+  const fileName = `EXTRATO_DEBITOS_${data.clientName.replace(/\s+/g, '_')}_${format(today, 'yyyyMMdd')}.pdf`;
+  pdf.save(fileName);
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, Download, FileSpreadsheet } from 'lucide-react';
+import { buildCnab240, type CnabPayer, type CnabPayment } from '@/lib/cnabUtils';
+import type { AgentPaymentGroup } from '@/lib/paymentRunUtils';
+
+// The paying account rarely changes, so it is remembered on this browser
+const PAYER_STORAGE_KEY = 'fdg-cnab-payer';
+const SEQUENCE_STORAGE_KEY = 'fdg-cnab-sequence';
+
+const defaultPayer: CnabPayer = {
+    bankCode: '',
+    agency: '',
+    agencyDigit: '',
+    account: '',
+    accountDigit: '',
+    agreement: '',
+    companyName: 'FALCO PEREGRINUS',
+    companyDocument: '59.355.128/0001-10',
+};
+
+const loadPayer = (): CnabPayer => {
+    try {
+        const stored = localStorage.getItem(PAYER_STORAGE_KEY);
+        return stored ? { ...defaultPayer, ...JSON.parse(stored) } : defaultPayer;
+    } catch {
+        return defaultPayer;
+    }
+};
+
+interface CnabExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // One transfer is generated per agent
+    groups: AgentPaymentGroup[];
+}
+
+const PAYER_FIELDS: { name: keyof CnabPayer; label: string; className?: string }[] = [
+    { name: 'bankCode', label: 'Banco (código)' },
+    { name: 'agreement', label: 'Convênio', className: 'col-span-2' },
+    { name: 'agency', label: 'Agência' },
+    { name: 'agencyDigit', label: 'DV Agência' },
+    { name: 'account', label: 'Conta' },
+    { name: 'accountDigit', label: 'DV Conta' },
+    { name: 'companyName', label: 'Empresa', className: 'col-span-2' },
+    { name: 'companyDocument', label: 'CNPJ' },
+];
+
+export function CnabExportDialog({ open, onOpenChange, groups }: CnabExportDialogProps) {
+    const [payer, setPayer] = useState<CnabPayer>(defaultPayer);
+    const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [fileSequence, setFileSequence] = useState(1);
+
+    useEffect(() => {
+        if (!open) return;
+        setPayer(loadPayer());
+        setFileSequence(Number(localStorage.getItem(SEQUENCE_STORAGE_KEY) || 0) + 1);
+    }, [open]);
+
+    const payments: CnabPayment[] = groups.map(group => {
+        const first = group.items[0];
+        return {
+            reference: `${format(parseISO(paymentDate), 'yyMMdd')}${group.agentId.replace(/-/g, '').slice(0, 8).toUpperCase()}`,
+            payeeName: group.agentName,
+            payeeDocument: first.agentDocument,
+            pixKey: first.pixKey,
+            bankName: first.bankName,
+            bankAgency: first.bankAgency,
+            bankAccount: first.bankAccount,
+            amount: group.total,
+        };
+    });
+
+    const payerComplete = !!(payer.bankCode && payer.agency && payer.account && payer.companyDocument);
+
+    const handleExport = () => {
+        try {
+            const { content, included, skipped } = buildCnab240(payer, payments, {
+                paymentDate: parseISO(paymentDate),
+                fileSequence,
+            });
+
+            if (included.length === 0) {
+                toast.error('Nenhum pagamento pôde ser incluído no arquivo.');
+                return;
+            }
+
+            const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `CNAB240_PAGAMENTOS_${format(parseISO(paymentDate), 'yyyyMMdd')}_${String(fileSequence).padStart(6, '0')}.rem`;
+            link.click();
+            URL.revokeObjectURL(url);
+
+            localStorage.setItem(PAYER_STORAGE_KEY, JSON.stringify(payer));
+            localStorage.setItem(SEQUENCE_STORAGE_KEY, String(fileSequence));
+
+            if (skipped.length > 0) {
+                toast.warning(`Arquivo gerado com ${included.length} transferência(s). ${skipped.length} agente(s) ficaram de fora.`);
+            } else {
+                toast.success(`Arquivo CNAB gerado com ${included.length} transferência(s).`);
+            }
+            onOpenChange(false);
+        } catch (error) {
+            console.error('Erro ao gerar arquivo CNAB:', error);
+            toast.error('Erro ao gerar arquivo CNAB');
+        }
+    };
+
+    // Preview which agents will be left out before generating
+    const preview = payerComplete
+        ? buildCnab240(payer, payments, { paymentDate: parseISO(paymentDate), fileSequence })
+        : null;
+    const skippedReasons = new Map(preview?.skipped.map(s => [s.payment.reference, s.reason]));
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl max-h-[95vh] overflow-y-auto border-none bg-zinc-950 text-zinc-100">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-bold tracking-tight text-white flex items-center gap-2">
+                        <FileSpreadsheet className="w-5 h-5 text-primary" />
+                        Arquivo CNAB 240
+                    </DialogTitle>
+                    <DialogDescription className="text-zinc-400">
+                        Remessa de pagamentos para envio ao banco: PIX quando o agente tem chave, TED ou crédito em conta caso contrário.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    <div className="rounded-lg border border-zinc-800 bg-zinc-900/50 p-4 space-y-3">
+                        <p className="text-xs font-bold uppercase text-zinc-300">Conta pagadora</p>
+                        <div className="grid grid-cols-4 gap-3">
+                            {PAYER_FIELDS.map(({ name, label, className }) => (
+                                <div key={name} className={className}>
+                                    <Label className="text-[10px] uppercase text-zinc-500">{label}</Label>
+                                    <Input
+                                        value={payer[name]}
+                                        onChange={(e) => setPayer(prev => ({ ...prev, [name]: e.target.value }))}
+                                        className="h-8 text-xs bg-zinc-950 border-zinc-800"
+                                    />
+                                </div>
+                            ))}
+                            <div>
+                                <Label className="text-[10px] uppercase text-zinc-500">Sequencial (NSA)</Label>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={fileSequence}
+                                    onChange={(e) => setFileSequence(Math.max(1, Number(e.target.value) || 1))}
+                                    className="h-8 text-xs bg-zinc-950 border-zinc-800"
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div>
+                        <Label className="text-[10px] uppercase text-zinc-500">Data do pagamento</Label>
+                        <Input
+                            type="date"
+                            value={paymentDate}
+                            onChange={(e) => e.target.value && setPaymentDate(e.target.value)}
+                            className="h-8 text-xs bg-zinc-950 border-zinc-800 w-48"
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        {payments.map(payment => {
+                            const reason = skippedReasons.get(payment.reference);
+                            return (
+                                <div
+                                    key={payment.reference}
+                                    className={`flex items-center justify-between rounded-md border px-3 py-2 text-xs ${reason ? 'border-orange-500/40 bg-orange-500/10' : 'border-zinc-800 bg-zinc-900/50'}`}
+                                >
+                                    <div>
+                                        <p className="font-bold text-white">{payment.payeeName}</p>
+                                        <p className={reason ? 'text-orange-400 flex items-center gap-1' : 'text-zinc-500'}>
+                                            {reason && <AlertTriangle className="w-3 h-3" />}
+                                            {reason || (payment.pixKey ? `PIX: ${payment.pixKey}` : `${payment.bankName} | Ag: ${payment.bankAgency} | Cta: ${payment.bankAccount}`)}
+                                        </p>
+                                    </div>
+                                    <span className="font-mono font-bold">
+                                        {payment.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <Button type="button" className="w-full" disabled={!payerComplete || payments.length === 0} onClick={handleExport}>
+                        <Download className="w-4 h-4 mr-2" />
+                        Gerar arquivo de remessa
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
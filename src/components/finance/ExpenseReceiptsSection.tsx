@@ -0,0 +1,277 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { parseSafeNumber } from '@/lib/numberUtils';
+import { CheckCircle2, FileText, Image, Loader2, Paperclip, Trash2, XCircle } from 'lucide-react';
+import {
+    EXPENSE_TYPES,
+    EXPENSE_TYPE_LABELS,
+    deleteExpenseReceipt,
+    isExpenseApproved,
+    openExpenseReceipt,
+    uploadExpenseReceipt,
+    type ExpenseAmounts,
+    type ExpenseApproval,
+    type ExpenseReceipt,
+    type ExpenseType,
+} from '@/lib/expenseReceipts';
+
+interface ExpenseReceiptsSectionProps {
+    ticketId: string;
+    agentId: string;
+    // Current expense values; when omitted every expense line is listed without review
+    amounts?: ExpenseAmounts;
+    // Admins approve or reject each expense line
+    canReview?: boolean;
+    disabled?: boolean;
+    onReviewed?: () => void;
+}
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function ExpenseReceiptsSection({ ticketId, agentId, amounts, canReview = false, disabled = false, onReviewed }: ExpenseReceiptsSectionProps) {
+    const { user } = useAuth();
+    const [receipts, setReceipts] = useState<ExpenseReceipt[]>([]);
+    const [approvals, setApprovals] = useState<ExpenseApproval[]>([]);
+    const [receiptAmounts, setReceiptAmounts] = useState<Partial<Record<ExpenseType, string>>>({});
+    const [busyType, setBusyType] = useState<ExpenseType | null>(null);
+    const fileInputs = useRef<Partial<Record<ExpenseType, HTMLInputElement | null>>>({});
+
+    const fetchReceipts = useCallback(async () => {
+        try {
+            const [{ data: receiptRows, error: receiptsError }, { data: approvalRows, error: approvalsError }] = await Promise.all([
+                supabase
+                    .from('expense_receipts')
+                    .select('id, expense_type, file_path, file_name, mime_type, amount, uploaded_by, created_at')
+                    .eq('ticket_id', ticketId)
+                    .eq('agent_id', agentId)
+                    .order('created_at'),
+                supabase
+                    .from('expense_approvals')
+                    .select('expense_type, amount, status, notes, reviewed_at')
+                    .eq('ticket_id', ticketId)
+                    .eq('agent_id', agentId),
+            ]);
+
+            if (receiptsError) throw receiptsError;
+            if (approvalsError) throw approvalsError;
+            setReceipts((receiptRows || []) as ExpenseReceipt[]);
+            setApprovals((approvalRows || []) as ExpenseApproval[]);
+        } catch (error) {
+            console.error('Erro ao buscar comprovantes:', error);
+        }
+    }, [ticketId, agentId]);
+
+    useEffect(() => {
+        fetchReceipts();
+    }, [fetchReceipts]);
+
+    const handleUpload = async (expenseType: ExpenseType, files: FileList | null) => {
+        const file = files?.[0];
+        if (!file || !user) return;
+
+        if (!file.type.startsWith('image/') && file.type !== 'application/pdf') {
+            toast.error('Envie uma foto ou um PDF do comprovante.');
+            return;
+        }
+
+        setBusyType(expenseType);
+        try {
+            const typedAmount = receiptAmounts[expenseType];
+            await uploadExpenseReceipt({
+                ticketId,
+                agentId,
+                expenseType,
+                file,
+                amount: typedAmount ? parseSafeNumber(typedAmount) : null,
+                userId: user.id,
+            });
+
+            toast.success('Comprovante enviado.');
+            setReceiptAmounts(prev => ({ ...prev, [expenseType]: '' }));
+            fetchReceipts();
+        } catch (error: any) {
+            console.error('Erro ao enviar comprovante:', error);
+            toast.error('Erro ao enviar comprovante', { description: error?.message });
+        } finally {
+            setBusyType(null);
+            const input = fileInputs.current[expenseType];
+            if (input) input.value = '';
+        }
+    };
+
+    const handleOpen = async (receipt: ExpenseReceipt) => {
+        try {
+            await openExpenseReceipt(receipt);
+        } catch (error) {
+            console.error('Erro ao abrir comprovante:', error);
+            toast.error('Erro ao abrir comprovante');
+        }
+    };
+
+    const handleDelete = async (receipt: ExpenseReceipt) => {
+        try {
+            await deleteExpenseReceipt(receipt);
+            fetchReceipts();
+        } catch (error: any) {
+            console.error('Erro ao remover comprovante:', error);
+            toast.error('Erro ao remover comprovante', { description: error?.message });
+        }
+    };
+
+    const handleReview = async (expenseType: ExpenseType, status: ExpenseApproval['status']) => {
+        if (!amounts || !user) return;
+
+        setBusyType(expenseType);
+        try {
+            const { error } = await supabase.from('expense_approvals').upsert({
+                ticket_id: ticketId,
+                agent_id: agentId,
+                expense_type: expenseType,
+                amount: amounts[expenseType],
+                status,
+                reviewed_by: user.id,
+                reviewed_at: new Date().toISOString(),
+            }, { onConflict: 'ticket_id,agent_id,expense_type' });
+
+            if (error) throw error;
+            toast.success(status === 'aprovado' ? 'Despesa aprovada.' : 'Despesa rejeitada.');
+            fetchReceipts();
+            onReviewed?.();
+        } catch (error: any) {
+            console.error('Erro ao revisar despesa:', error);
+            toast.error('Erro ao revisar despesa', { description: error?.message });
+        } finally {
+            setBusyType(null);
+        }
+    };
+
+    const renderReviewBadge = (expenseType: ExpenseType, amount: number) => {
+        const approval = approvals.find(a => a.expense_type === expenseType);
+        if (isExpenseApproved(approval, amount)) {
+            return <Badge variant="outline" className="text-[9px] h-4 py-0 uppercase text-emerald-500 border-emerald-500/30">Aprovada</Badge>;
+        }
+        if (approval?.status === 'rejeitado' && Number(approval.amount) === amount) {
+            return <Badge variant="outline" className="text-[9px] h-4 py-0 uppercase text-red-500 border-red-500/30">Rejeitada</Badge>;
+        }
+        // An approval for an older value no longer counts
+        return <Badge variant="outline" className="text-[9px] h-4 py-0 uppercase text-amber-500 border-amber-500/30">Pendente</Badge>;
+    };
+
+    return (
+        <div className="space-y-3">
+            {EXPENSE_TYPES.map(expenseType => {
+                const amount = amounts?.[expenseType] ?? 0;
+                const typeReceipts = receipts.filter(r => r.expense_type === expenseType);
+                const needsReview = !!amounts && amount > 0;
+                const isBusy = busyType === expenseType;
+
+                return (
+                    <div key={expenseType} className="rounded-lg border border-zinc-500/20 p-3 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs font-bold uppercase">{EXPENSE_TYPE_LABELS[expenseType]}</span>
+                                {amounts && <span className="text-xs font-mono text-muted-foreground">{formatCurrency(amount)}</span>}
+                                {needsReview && renderReviewBadge(expenseType, amount)}
+                            </div>
+                            {canReview && needsReview && (
+                                <div className="flex gap-1">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 px-2 text-[11px] text-emerald-500 hover:text-emerald-600"
+                                        disabled={isBusy}
+                                        onClick={() => handleReview(expenseType, 'aprovado')}
+                                    >
+                                        <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                                        Aprovar
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 px-2 text-[11px] text-red-500 hover:text-red-600"
+                                        disabled={isBusy}
+                                        onClick={() => handleReview(expenseType, 'rejeitado')}
+                                    >
+                                        <XCircle className="h-3.5 w-3.5 mr-1" />
+                                        Rejeitar
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+
+                        {typeReceipts.length === 0 ? (
+                            <p className="text-[11px] text-muted-foreground">
+                                {needsReview ? 'Nenhum comprovante anexado para esta despesa.' : 'Nenhum comprovante anexado.'}
+                            </p>
+                        ) : (
+                            <div className="space-y-1">
+                                {typeReceipts.map(receipt => (
+                                    <div key={receipt.id} className="flex items-center justify-between gap-2 text-[11px]">
+                                        <button
+                                            type="button"
+                                            className="flex items-center gap-1.5 min-w-0 text-left hover:underline"
+                                            onClick={() => handleOpen(receipt)}
+                                        >
+                                            {receipt.mime_type === 'application/pdf'
+                                                ? <FileText className="h-3.5 w-3.5 flex-shrink-0" />
+                                                : <Image className="h-3.5 w-3.5 flex-shrink-0" />}
+                                            <span className="truncate">{receipt.file_name}</span>
+                                        </button>
+                                        <div className="flex items-center gap-2 flex-shrink-0 text-muted-foreground">
+                                            {receipt.amount != null && <span className="font-mono">{formatCurrency(Number(receipt.amount))}</span>}
+                                            <span>{format(new Date(receipt.created_at), 'dd/MM HH:mm')}</span>
+                                            {!disabled && (canReview || receipt.uploaded_by === user?.id) && (
+                                                <button type="button" className="hover:text-red-500" onClick={() => handleDelete(receipt)}>
+                                                    <Trash2 className="h-3.5 w-3.5" />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {!disabled && (
+                            <div className="flex gap-2">
+                                <Input
+                                    className="h-8 text-xs font-mono bg-transparent"
+                                    type="text"
+                                    inputMode="decimal"
+                                    placeholder="Valor do comprovante (opcional)"
+                                    value={receiptAmounts[expenseType] || ''}
+                                    onChange={(e) => setReceiptAmounts(prev => ({ ...prev, [expenseType]: e.target.value }))}
+                                />
+                                <input
+                                    ref={el => { fileInputs.current[expenseType] = el; }}
+                                    type="file"
+                                    accept="image/*,application/pdf"
+                                    className="hidden"
+                                    onChange={(e) => handleUpload(expenseType, e.target.files)}
+                                />
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-8 text-xs bg-transparent flex-shrink-0"
+                                    disabled={isBusy}
+                                    onClick={() => fileInputs.current[expenseType]?.click()}
+                                >
+                                    {isBusy ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Paperclip className="h-3.5 w-3.5 mr-1" />}
+                                    Anexar
+                                </Button>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
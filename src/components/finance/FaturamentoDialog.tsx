@@ -16,20 +16,15 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { parseSafeNumber } from '@/lib/numberUtils';
+import { fetchPricingRules, getEffectiveServiceType, resolvePricing } from '@/lib/pricingUtils';
+import { fetchGpsKmByAgent, hasKmDiscrepancy, resolveKm, type KmSource } from '@/lib/geoUtils';
 import { Button } from '@/components/ui/button';
 import { Calculator, Info, Car, Clock, FileText, User, Link as LinkIcon, Copy } from 'lucide-react';
 import { generateClientInvoicePDF } from './ClientInvoicePDFGenerator';
+import { KmSourceToggle } from './KmSourceToggle';
 
 const optionalNumber = z.number().or(z.string().transform(v => v === '' ? undefined : Number(v))).optional();
 
-const ALARME_PRICING = {
-    base: 180,
-    includedHours: 0.5,
-    includedKm: 50,
-    extraHourRate: 40,
-    extraKmRate: 2.50,
-};
-
 const faturamentoSchema = z.object({
     revenue_base_value: optionalNumber,
     revenue_included_hours: optionalNumber,
@@ -60,12 +55,15 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
         role: string; 
         hours: number; 
         km: number;
+        gpsKm: number | null;
         startTime: Date | null;
         endTime: Date | null;
         startKm: number;
         endKm: number;
     }[]>([]);
 
+    const [kmSource, setKmSource] = useState<KmSource>('odometro');
+
     // Real stats from the ticket to calculate over
     const [ticketStats, setTicketStats] = useState({
         durationHours: 0,
@@ -94,33 +92,41 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
     const fetchTicketData = async () => {
         setIsFetching(true);
         try {
-            const { data: ticket, error } = await supabase
+            const ticketQuery = supabase
                 .from('tickets')
                 .select(`
                   id, code, km_start, km_end, service_type,
+                  plan_id, client_id, start_datetime,
                   main_agent_arrival, main_agent_departure,
                   revenue_base_value, revenue_included_hours, revenue_included_km,
                   revenue_extra_hour_rate, revenue_extra_km_rate, revenue_discount_addition,
-                  revenue_total,
+                  revenue_total, revenue_km_source, main_agent_id,
                   city, state, coordinates_lat, coordinates_lng,
                   main_agent:agents!tickets_main_agent_id_fkey ( name ),
-                  plans ( name ),
+                  plans ( name, service_type ),
                   clients ( name ),
                   vehicles ( tractor_plate ),
                   ticket_support_agents (
-                    arrival, departure, km_start, km_end,
+                    agent_id, arrival, departure, km_start, km_end,
                     agent:agents ( name )
                   )
                 `)
                 .eq('id', ticketId)
                 .single();
 
+            const [{ data: ticket, error }, pricingRules, gpsKmByAgent] = await Promise.all([
+                ticketQuery,
+                fetchPricingRules(),
+                fetchGpsKmByAgent(ticketId!),
+            ]);
+
             if (error) throw error;
 
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const ticketPlanName = (ticket as any).plans?.name ?? null;
-            setPlanName(ticketPlanName);
-            const isAlarme = ticket.service_type === 'alarme' || (ticketPlanName?.toLowerCase().includes('alarme') ?? false);
+            const ticketPlan = (ticket as any).plans;
+            setPlanName(ticketPlan?.name ?? null);
+            const serviceType = getEffectiveServiceType(ticketPlan, ticket.service_type);
+            const isAlarme = serviceType === 'alarme';
             setIsAlarmPlan(isAlarme);
 
             setContextInfo({
@@ -146,6 +152,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                 role: string; 
                 hours: number; 
                 km: number;
+                gpsKm: number | null;
                 startTime: Date | null;
                 endTime: Date | null;
                 startKm: number;
@@ -167,6 +174,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                 role: 'Principal',
                 hours: m_diff > 0 ? m_diff / (1000 * 60 * 60) : 0,
                 km: m_km,
+                gpsKm: gpsKmByAgent[ticket.main_agent_id] ?? null,
                 startTime: m_arrival ? new Date(m_arrival) : null,
                 endTime: m_departure ? new Date(m_departure) : null,
                 startKm: m_startKm,
@@ -189,6 +197,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                     role: `Apoio ${idx + 1}`,
                     hours: s_diff > 0 ? s_diff / (1000 * 60 * 60) : 0,
                     km: s_km,
+                    gpsKm: gpsKmByAgent[sa.agent_id] ?? null,
                     startTime: s_arrival ? new Date(s_arrival) : null,
                     endTime: s_departure ? new Date(s_departure) : null,
                     startKm: s_startKm,
@@ -201,18 +210,28 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
 
             setAgentBreakdown(breakdown);
             setTicketStats({ durationHours, totalKm: totalKmList });
+            setKmSource((ticket.revenue_km_source as KmSource) || 'odometro');
+
+            const rates = resolvePricing(pricingRules, {
+                target: 'cliente',
+                planId: ticket.plan_id,
+                serviceType,
+                clientId: ticket.client_id,
+                date: ticket.start_datetime,
+            });
 
+            // Alarm tickets still holding the generic 500 / 3h / R$90 defaults are treated as not set
             const useAlarmDefaults = isAlarme;
             const savedBaseValue = Number(ticket.revenue_base_value);
             const savedIncludedHours = Number(ticket.revenue_included_hours);
             const savedExtraHourRate = Number(ticket.revenue_extra_hour_rate);
 
             form.reset({
-                revenue_base_value: useAlarmDefaults ? ((ticket.revenue_base_value != null && savedBaseValue !== 500) ? savedBaseValue : ALARME_PRICING.base) : (ticket.revenue_base_value ?? 500),
-                revenue_included_hours: useAlarmDefaults ? ((ticket.revenue_included_hours != null && savedIncludedHours !== 3) ? savedIncludedHours : ALARME_PRICING.includedHours) : (ticket.revenue_included_hours ?? 3),
-                revenue_included_km: ticket.revenue_included_km ?? (isAlarme ? ALARME_PRICING.includedKm : 50),
-                revenue_extra_hour_rate: useAlarmDefaults ? ((ticket.revenue_extra_hour_rate != null && savedExtraHourRate !== 90) ? savedExtraHourRate : ALARME_PRICING.extraHourRate) : (ticket.revenue_extra_hour_rate ?? 90),
-                revenue_extra_km_rate: ticket.revenue_extra_km_rate ?? (isAlarme ? ALARME_PRICING.extraKmRate : 2.5),
+                revenue_base_value: useAlarmDefaults ? ((ticket.revenue_base_value != null && savedBaseValue !== 500) ? savedBaseValue : rates.base) : (ticket.revenue_base_value ?? rates.base),
+                revenue_included_hours: useAlarmDefaults ? ((ticket.revenue_included_hours != null && savedIncludedHours !== 3) ? savedIncludedHours : rates.includedHours) : (ticket.revenue_included_hours ?? rates.includedHours),
+                revenue_included_km: ticket.revenue_included_km ?? rates.includedKm,
+                revenue_extra_hour_rate: useAlarmDefaults ? ((ticket.revenue_extra_hour_rate != null && savedExtraHourRate !== 90) ? savedExtraHourRate : rates.extraHourRate) : (ticket.revenue_extra_hour_rate ?? rates.extraHourRate),
+                revenue_extra_km_rate: ticket.revenue_extra_km_rate ?? rates.extraKmRate,
                 revenue_discount_addition: ticket.revenue_discount_addition ?? 0,
                 revenue_total: ticket.revenue_total ?? 0,
             });
@@ -232,7 +251,15 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
     const extraKmRate = form.watch('revenue_extra_km_rate') || 0;
     const discountAddition = form.watch('revenue_discount_addition') || 0;
 
-    const extraKm = Math.max(0, ticketStats.totalKm - includedKm);
+    // GPS total falls back to the odometer for agents without a trail
+    const hasGpsTrail = agentBreakdown.some(agent => agent.gpsKm != null);
+    const gpsTotalKm = hasGpsTrail
+        ? agentBreakdown.reduce((sum, agent) => sum + resolveKm(agent.km, agent.gpsKm, 'gps'), 0)
+        : null;
+    const kmDiscrepancy = hasKmDiscrepancy(ticketStats.totalKm, gpsTotalKm);
+    const billedKm = resolveKm(ticketStats.totalKm, gpsTotalKm, kmSource);
+
+    const extraKm = Math.max(0, billedKm - includedKm);
     const costExtraKm = extraKm * extraKmRate;
     const extraHours = Math.max(0, ticketStats.durationHours - includedHours);
     const costExtraHours = extraHours * extraHourRate;
@@ -252,7 +279,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
             coordinates_lat: contextInfo.coordinates_lat,
             coordinates_lng: contextInfo.coordinates_lng,
             durationHours: ticketStats.durationHours,
-            totalKm: ticketStats.totalKm,
+            totalKm: billedKm,
             baseValue,
             includedHours,
             includedKm,
@@ -262,7 +289,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
             extraKm,
             discountAddition,
             total: calculatedTotal,
-            agentBreakdown: agentBreakdown
+            agentBreakdown: agentBreakdown.map(agent => ({ ...agent, km: resolveKm(agent.km, agent.gpsKm, kmSource) }))
         });
     };
 
@@ -277,7 +304,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
             const v_adjust = parseSafeNumber(data.revenue_discount_addition);
 
             const ex_h = Math.max(0, ticketStats.durationHours - v_inc_h);
-            const ex_km = Math.max(0, ticketStats.totalKm - v_inc_km);
+            const ex_km = Math.max(0, billedKm - v_inc_km);
             const finalTotal = v_base + (ex_h * v_extra_h_rate) + (ex_km * v_extra_km_rate) + v_adjust;
 
             const { error } = await supabase.from('tickets').update({
@@ -288,6 +315,7 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                 revenue_extra_km_rate: v_extra_km_rate,
                 revenue_discount_addition: v_adjust,
                 revenue_total: finalTotal,
+                revenue_km_source: kmSource,
             }).eq('id', ticketId);
 
             if (error) throw error;
@@ -449,14 +477,24 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                                             <div className="space-y-3">
                                                 <p className="text-sm font-medium text-zinc-300">Distância Total</p>
                                                 <div className="bg-zinc-950 p-4 rounded-xl border border-zinc-800/50 text-center relative overflow-hidden group">
-                                                    <p className="text-2xl font-black text-white relative z-10">{ticketStats.totalKm.toFixed(0)} KM</p>
+                                                    <p className="text-2xl font-black text-white relative z-10">{billedKm.toFixed(0)} KM</p>
                                                     <p className="text-[10px] text-zinc-500 font-bold uppercase relative z-10">Percorrido</p>
                                                     <div className="absolute inset-0 bg-primary/5 opacity-0 group-hover:opacity-100 transition-opacity" />
                                                 </div>
-                                                {renderProgressBar(ticketStats.totalKm, includedKm, true)}
+                                                {renderProgressBar(billedKm, includedKm, true)}
                                             </div>
                                         </div>
 
+                                        {hasGpsTrail && (
+                                            <KmSourceToggle
+                                                odometerKm={ticketStats.totalKm}
+                                                gpsKm={gpsTotalKm}
+                                                discrepancy={kmDiscrepancy}
+                                                value={kmSource}
+                                                onChange={setKmSource}
+                                            />
+                                        )}
+
                                         <div className="bg-zinc-900/40 p-4 rounded-lg border border-zinc-800/50 border-dashed">
                                             <div className="flex items-center gap-2 mb-4">
                                                 <Info className="w-4 h-4 text-primary" />
@@ -472,7 +510,8 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                                                                 <span className="text-[9px] text-zinc-500 font-normal">({agent.role})</span>
                                                             </span>
                                                             {(() => {
-                                                                const agentExtraKm = ticketStats.totalKm > 0 ? (agent.km / ticketStats.totalKm) * extraKm : 0;
+                                                                const agentKm = resolveKm(agent.km, agent.gpsKm, kmSource);
+                                                                const agentExtraKm = billedKm > 0 ? (agentKm / billedKm) * extraKm : 0;
                                                                 const agentExtraHours = ticketStats.durationHours > 0 ? (agent.hours / ticketStats.durationHours) * extraHours : 0;
                                                                 const agentTotalCost = (agentExtraKm * extraKmRate) + (agentExtraHours * extraHourRate);
                                                                 
@@ -509,6 +548,11 @@ export function FaturamentoDialog({ ticketId, open, onOpenChange, onSuccess }: F
                                                                     <p>Início: {agent.startKm.toFixed(0)} KM</p>
                                                                     <p>Fim: {agent.endKm.toFixed(0)} KM</p>
                                                                     <p className="text-primary font-bold mt-1">Total: {agent.km.toFixed(0)} KM</p>
+                                                                    {agent.gpsKm != null && (
+                                                                        <p className={hasKmDiscrepancy(agent.km, agent.gpsKm) ? 'text-orange-400 font-bold' : 'text-zinc-500'}>
+                                                                            GPS: {agent.gpsKm.toFixed(0)} KM
+                                                                        </p>
+                                                                    )}
                                                                 </div>
                                                             </div>
                                                         </div>
@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from '@/components/ui/dialog';
+import {
+    Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FileText, Receipt } from 'lucide-react';
+import { toInvoiceItem, downloadClientInvoice } from '@/lib/invoiceUtils';
+import { generateClientMonthlyInvoicePDF } from './ClientInvoicePDFGenerator';
+
+interface InvoiceDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Finalizado tickets of the period still pending and not on any invoice
+    tickets: any[];
+    periodStart: Date;
+    periodEnd: Date;
+    onSuccess: () => void;
+}
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function InvoiceDialog({ open, onOpenChange, tickets, periodStart, periodEnd, onSuccess }: InvoiceDialogProps) {
+    const [clientId, setClientId] = useState<string>('');
+    const [excludedTicketIds, setExcludedTicketIds] = useState<Set<string>>(new Set());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const clients = Object.values(
+        tickets.reduce<Record<string, { id: string; name: string; count: number }>>((acc, t) => {
+            if (!acc[t.client_id]) acc[t.client_id] = { id: t.client_id, name: t.clients?.name || '-', count: 0 };
+            acc[t.client_id].count++;
+            return acc;
+        }, {})
+    ).sort((a, b) => a.name.localeCompare(b.name));
+
+    useEffect(() => {
+        if (!open) return;
+        setClientId('');
+        setExcludedTicketIds(new Set());
+    }, [open]);
+
+    const clientTickets = tickets
+        .filter(t => t.client_id === clientId)
+        .sort((a, b) => new Date(a.start_datetime).getTime() - new Date(b.start_datetime).getTime());
+    const selectedTickets = clientTickets.filter(t => !excludedTicketIds.has(t.id));
+    const selectedTotal = selectedTickets.reduce((sum, t) => sum + (Number(t.revenue_total) || 0), 0);
+
+    const toggleTicket = (ticketId: string) => {
+        setExcludedTicketIds(prev => {
+            const next = new Set(prev);
+            if (next.has(ticketId)) next.delete(ticketId);
+            else next.add(ticketId);
+            return next;
+        });
+    };
+
+    const handlePreview = () => {
+        const first = selectedTickets[0];
+        generateClientMonthlyInvoicePDF({
+            invoiceNumber: 'PRÉVIA',
+            clientName: first?.clients?.name || 'Cliente',
+            clientDocument: first?.clients?.document || null,
+            periodStart,
+            periodEnd,
+            issuedAt: new Date(),
+            dueDate: null,
+            items: selectedTickets.map(toInvoiceItem),
+        });
+    };
+
+    const handleIssue = async () => {
+        if (selectedTickets.length === 0) return;
+        setIsSubmitting(true);
+        try {
+            const { data: invoiceId, error } = await supabase.rpc('create_client_invoice', {
+                _client_id: clientId,
+                _period_start: format(periodStart, 'yyyy-MM-dd'),
+                _period_end: format(periodEnd, 'yyyy-MM-dd'),
+                _ticket_ids: selectedTickets.map(t => t.id),
+            });
+
+            if (error) throw error;
+
+            toast.success(`Fatura emitida com ${selectedTickets.length} chamado(s).`);
+            onSuccess();
+            onOpenChange(false);
+            await downloadClientInvoice(invoiceId);
+        } catch (error: any) {
+            console.error('Erro ao emitir fatura:', error);
+            toast.error(error?.message || 'Erro ao emitir fatura');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[95vh] overflow-y-auto p-0 gap-0 border-none bg-zinc-950 text-zinc-100">
+                <div className="p-6 border-b border-zinc-800/50 space-y-4">
+                    <DialogHeader>
+                        <DialogTitle className="text-2xl font-bold tracking-tight text-white flex items-center gap-2">
+                            <Receipt className="w-6 h-6 text-primary" />
+                            Emitir Fatura
+                        </DialogTitle>
+                        <DialogDescription className="text-zinc-400">
+                            Chamados finalizados e não faturados de {format(periodStart, 'dd/MM/yyyy')} a {format(periodEnd, 'dd/MM/yyyy')}.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <Select value={clientId} onValueChange={(value) => { setClientId(value); setExcludedTicketIds(new Set()); }}>
+                        <SelectTrigger className="bg-zinc-900 border-zinc-800">
+                            <SelectValue placeholder="Selecione o cliente" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {clients.map(client => (
+                                <SelectItem key={client.id} value={client.id}>
+                                    {client.name} ({client.count})
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="p-6 space-y-2">
+                    {clients.length === 0 ? (
+                        <p className="text-sm text-zinc-500 text-center py-8">Nenhum chamado a faturar no período.</p>
+                    ) : !clientId ? (
+                        <p className="text-sm text-zinc-500 text-center py-8">Selecione um cliente para listar os chamados.</p>
+                    ) : clientTickets.map(ticket => {
+                        const included = !excludedTicketIds.has(ticket.id);
+                        return (
+                            <div
+                                key={ticket.id}
+                                className={`flex items-center justify-between rounded-lg border px-4 py-3 transition-colors ${included ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-900 bg-zinc-950 opacity-50'}`}
+                            >
+                                <div className="flex items-center gap-3">
+                                    <Checkbox checked={included} onCheckedChange={() => toggleTicket(ticket.id)} />
+                                    <div>
+                                        <p className="text-sm font-bold text-white">Chamado {ticket.code || '-'}</p>
+                                        <p className="text-[11px] text-zinc-500">
+                                            {format(new Date(ticket.start_datetime), 'dd/MM/yy HH:mm')}
+                                            {ticket.vehicles?.tractor_plate && ` · ${ticket.vehicles.tractor_plate}`}
+                                        </p>
+                                    </div>
+                                </div>
+                                <span className="font-mono font-bold">{formatCurrency(Number(ticket.revenue_total) || 0)}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-6 border-t border-zinc-800/50 flex flex-col sm:flex-row items-center justify-between gap-4">
+                    <div>
+                        <p className="text-[10px] uppercase font-bold text-zinc-500 tracking-widest">Total da fatura</p>
+                        <p className="text-2xl font-black text-white">{formatCurrency(selectedTotal)}</p>
+                        <p className="text-[11px] text-zinc-500">{selectedTickets.length} chamado(s)</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            className="border-zinc-800 bg-zinc-900 text-zinc-200 hover:bg-zinc-800"
+                            disabled={selectedTickets.length === 0}
+                            onClick={handlePreview}
+                        >
+                            <FileText className="w-4 h-4 mr-2" />
+                            Prévia
+                        </Button>
+                        <Button
+                            type="button"
+                            className="bg-emerald-600 hover:bg-emerald-700"
+                            disabled={selectedTickets.length === 0 || isSubmitting}
+                            onClick={handleIssue}
+                        >
+                            <Receipt className="w-4 h-4 mr-2" />
+                            {isSubmitting ? 'Emitindo...' : 'Emitir Fatura'}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
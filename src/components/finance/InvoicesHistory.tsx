@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Ban, CheckCircle2, ChevronDown, ChevronUp, FileText, Receipt } from 'lucide-react';
+import { downloadClientInvoice } from '@/lib/invoiceUtils';
+
+interface Invoice {
+    id: string;
+    number: string;
+    period_start: string;
+    period_end: string;
+    status: string;
+    total_amount: number;
+    ticket_count: number;
+    issued_at: string;
+    due_date: string | null;
+    received_at: string | null;
+    cancelled_at: string | null;
+    clients: { name: string } | null;
+}
+
+interface InvoicesHistoryProps {
+    // Bumped by the parent after a new invoice is issued
+    refreshKey: number;
+    onChanged: () => void;
+}
+
+const INVOICES_LIMIT = 30;
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+    emitida: { label: 'Em aberto', className: 'text-amber-700 border-amber-200 bg-amber-50' },
+    recebida: { label: 'Recebida', className: 'text-emerald-700 border-emerald-200 bg-emerald-50' },
+    cancelada: { label: 'Cancelada', className: 'text-red-600 border-red-200 bg-red-50' },
+};
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function InvoicesHistory({ refreshKey, onChanged }: InvoicesHistoryProps) {
+    const [invoices, setInvoices] = useState<Invoice[]>([]);
+    const [expanded, setExpanded] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchInvoices();
+    }, [refreshKey]);
+
+    const fetchInvoices = async () => {
+        try {
+            const { data, error } = await supabase
+                .from('invoices')
+                .select('id, number, period_start, period_end, status, total_amount, ticket_count, issued_at, due_date, received_at, cancelled_at, clients(name)')
+                .order('issued_at', { ascending: false })
+                .limit(INVOICES_LIMIT);
+
+            if (error) throw error;
+            setInvoices((data || []) as Invoice[]);
+        } catch (error) {
+            console.error('Erro ao buscar faturas:', error);
+        }
+    };
+
+    const runAction = async (invoice: Invoice, action: 'receive_client_invoice' | 'cancel_client_invoice', successMessage: string) => {
+        setBusyId(invoice.id);
+        try {
+            const { error } = await supabase.rpc(action, { _invoice_id: invoice.id });
+            if (error) throw error;
+
+            toast.success(successMessage);
+            fetchInvoices();
+            onChanged();
+        } catch (error: any) {
+            console.error('Erro ao atualizar fatura:', error);
+            toast.error(error?.message || 'Erro ao atualizar fatura');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDownload = async (invoice: Invoice) => {
+        try {
+            await downloadClientInvoice(invoice.id);
+        } catch (error) {
+            console.error('Erro ao gerar PDF da fatura:', error);
+            toast.error('Erro ao gerar PDF da fatura');
+        }
+    };
+
+    if (invoices.length === 0) return null;
+
+    return (
+        <div className="space-y-4">
+            <Button
+                variant="ghost"
+                className="w-full flex items-center justify-between py-6 px-4 bg-muted/30 hover:bg-muted/50 rounded-xl"
+                onClick={() => setExpanded(!expanded)}
+            >
+                <div className="flex items-center gap-3">
+                    <div className="bg-primary/10 p-2 rounded-lg">
+                        <Receipt className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="text-left">
+                        <span className="font-bold text-foreground">Faturas</span>
+                        <p className="text-xs text-muted-foreground">Últimas {invoices.length} faturas emitidas</p>
+                    </div>
+                </div>
+                {expanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+            </Button>
+
+            {expanded && (
+                <div className="space-y-3 animate-in slide-in-from-top-4 duration-300">
+                    {invoices.map(invoice => {
+                        const badge = STATUS_BADGES[invoice.status] || STATUS_BADGES.emitida;
+                        const isOpen = invoice.status === 'emitida';
+                        const isOverdue = isOpen && !!invoice.due_date && differenceInCalendarDays(new Date(), parseISO(invoice.due_date)) > 0;
+                        return (
+                            <Card key={invoice.id} className={invoice.status === 'cancelada' ? 'opacity-60 shadow-none' : 'shadow-none border-primary/20'}>
+                                <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-bold">{invoice.number}</span>
+                                            <span className="text-sm text-muted-foreground">{invoice.clients?.name}</span>
+                                            <Badge variant="outline" className={`text-[9px] h-4 py-0 uppercase ${badge.className}`}>
+                                                {badge.label}
+                                            </Badge>
+                                            {isOverdue && (
+                                                <Badge variant="outline" className="text-[9px] h-4 py-0 uppercase text-red-600 border-red-200 bg-red-50">
+                                                    Vencida
+                                                </Badge>
+                                            )}
+                                        </div>
+                                        <p className="text-[11px] text-muted-foreground mt-0.5">
+                                            {format(parseISO(invoice.period_start), 'dd/MM/yyyy')} a {format(parseISO(invoice.period_end), 'dd/MM/yyyy')}
+                                            {' · '}{invoice.ticket_count} chamado(s) · Emitida em {format(new Date(invoice.issued_at), 'dd/MM/yy HH:mm')}
+                                            {invoice.due_date && ` · Vencimento ${format(parseISO(invoice.due_date), 'dd/MM/yy')}`}
+                                            {invoice.received_at && ` · Recebida em ${format(new Date(invoice.received_at), 'dd/MM/yy HH:mm')}`}
+                                            {invoice.cancelled_at && ` · Cancelada em ${format(new Date(invoice.cancelled_at), 'dd/MM/yy HH:mm')}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-lg font-black text-foreground mr-2">{formatCurrency(Number(invoice.total_amount) || 0)}</span>
+                                        {invoice.status !== 'cancelada' && (
+                                            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => handleDownload(invoice)}>
+                                                <FileText className="h-3.5 w-3.5 mr-1" />
+                                                PDF
+                                            </Button>
+                                        )}
+                                        {isOpen && (
+                                            <Button
+                                                size="sm"
+                                                className="h-8 text-xs bg-emerald-600 hover:bg-emerald-700"
+                                                disabled={busyId === invoice.id}
+                                                onClick={() => runAction(invoice, 'receive_client_invoice', `Fatura ${invoice.number} marcada como recebida.`)}
+                                            >
+                                                <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                                                Recebida
+                                            </Button>
+                                        )}
+                                        {isOpen && (
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="h-8 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+                                                        disabled={busyId === invoice.id}
+                                                    >
+                                                        <Ban className="h-3.5 w-3.5 mr-1" />
+                                                        Cancelar
+                                                    </Button>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                        <AlertDialogTitle>Cancelar Fatura {invoice.number}</AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            Os {invoice.ticket_count} chamado(s) desta fatura voltarão para a lista a receber e poderão ser faturados novamente. Deseja continuar?
+                                                        </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                        <AlertDialogCancel>Voltar</AlertDialogCancel>
+                                                        <AlertDialogAction
+                                                            onClick={() => runAction(invoice, 'cancel_client_invoice', `Fatura ${invoice.number} cancelada.`)}
+                                                            className="bg-red-600 hover:bg-red-700"
+                                                        >
+                                                            Cancelar Fatura
+                                                        </AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        )}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+import { AlertTriangle, Satellite } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { KM_SOURCE_LABELS, type KmSource } from '@/lib/geoUtils';
+
+interface KmSourceToggleProps {
+    odometerKm: number;
+    // null when the agent(s) did not record a GPS trail
+    gpsKm: number | null;
+    discrepancy: boolean;
+    value: KmSource;
+    onChange: (value: KmSource) => void;
+}
+
+export function KmSourceToggle({ odometerKm, gpsKm, discrepancy, value, onChange }: KmSourceToggleProps) {
+    const options: { source: KmSource; km: number | null }[] = [
+        { source: 'odometro', km: odometerKm },
+        { source: 'gps', km: gpsKm },
+    ];
+
+    return (
+        <div className={cn(
+            'rounded-lg border p-3 space-y-3',
+            discrepancy ? 'border-orange-500/40 bg-orange-500/10' : 'border-zinc-800/50 bg-zinc-900/50'
+        )}>
+            <div className="flex items-center gap-2">
+                {discrepancy ? (
+                    <AlertTriangle className="w-4 h-4 text-orange-400" />
+                ) : (
+                    <Satellite className="w-4 h-4 text-zinc-400" />
+                )}
+                <p className={cn('text-xs font-bold uppercase', discrepancy ? 'text-orange-400' : 'text-zinc-300')}>
+                    {discrepancy ? 'Divergência entre odômetro e GPS' : 'Fonte da quilometragem'}
+                </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {options.map(({ source, km }) => (
+                    <button
+                        key={source}
+                        type="button"
+                        disabled={km == null}
+                        onClick={() => onChange(source)}
+                        className={cn(
+                            'rounded-md border p-2 text-left transition-colors disabled:opacity-40 disabled:cursor-not-allowed',
+                            value === source
+                                ? 'border-primary bg-primary/10 text-white'
+                                : 'border-zinc-800 bg-zinc-950 text-zinc-400 hover:border-zinc-700'
+                        )}
+                    >
+                        <p className="text-[10px] font-bold uppercase">{KM_SOURCE_LABELS[source]}</p>
+                        <p className="text-sm font-mono font-semibold">
+                            {km == null ? 'Sem trajeto' : `${km.toFixed(1)} km`}
+                        </p>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -18,18 +18,21 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { parseSafeNumber } from '@/lib/numberUtils';
-import { Clock, MapPin, Calculator, Info, User, Car, FileText, Ban, Clock3 } from 'lucide-react';
+import { Clock, MapPin, Calculator, Info, User, Car, FileText, Ban, Clock3, Paperclip } from 'lucide-react';
 import { generateAgentPaymentPDF } from './AgentPaymentPDFGenerator';
+import { KmSourceToggle } from './KmSourceToggle';
+import { ExpenseReceiptsSection } from './ExpenseReceiptsSection';
 
 const optionalNumber = z.number().or(z.string().transform(v => v === '' ? undefined : Number(v))).optional();
 
 import { 
-    ARMED_PRICING, 
-    UNARMED_PRICING, 
-    ALARME_PRICING, 
-    getIsArmedByPlan,
-    calculateAgentHonorary
+    fetchPricingRules,
+    getEffectiveServiceType,
+    resolvePricing,
+    type AgentRole,
 } from '@/lib/pricingUtils';
+import { getIsArmedByPlan, PLAN_COMPOSITION_COLUMNS } from '@/lib/planUtils';
+import { fetchGpsKmByAgent, hasKmDiscrepancy, resolveKm, type KmSource } from '@/lib/geoUtils';
 
 const compensationSchema = z.object({
     compensation_base_value: optionalNumber,
@@ -48,7 +51,7 @@ type CompensationFormData = z.infer<typeof compensationSchema>;
 interface PagamentoAgenteDialogProps {
     ticketId: string | null;
     agentId: string | null;
-    agentRole: 'principal' | 'apoio_1' | 'apoio_2';
+    agentRole: AgentRole;
     open: boolean;
     onOpenChange: (open: boolean) => void;
     onSuccess: () => void;
@@ -80,6 +83,8 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
         totalKm: 0,
         durationHours: 0,
     });
+    const [gpsKm, setGpsKm] = useState<number | null>(null);
+    const [kmSource, setKmSource] = useState<KmSource>('odometro');
 
     const form = useForm<CompensationFormData>({
         resolver: zodResolver(compensationSchema),
@@ -123,15 +128,20 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                 bank_account_type: agent.bank_account_type,
             });
 
-            const { data: ticket, error } = await supabase
-                .from('tickets')
-                .select('*, plans(name), clients(name), vehicles(tractor_plate)')
-                .eq('id', ticketId)
-                .single();
+            const [{ data: ticket, error }, pricingRules, gpsKmByAgent] = await Promise.all([
+                supabase
+                    .from('tickets')
+                    .select(`*, plans(name, ${PLAN_COMPOSITION_COLUMNS}), clients(name), vehicles(tractor_plate)`)
+                    .eq('id', ticketId)
+                    .single(),
+                fetchPricingRules(),
+                fetchGpsKmByAgent(ticketId!),
+            ]);
 
             if (error) throw error;
 
-            const ticketPlanName = (ticket as any).plans?.name ?? null;
+            const ticketPlan = ticket.plans;
+            const ticketPlanName = ticketPlan?.name ?? null;
             setPlanName(ticketPlanName);
             setContextInfo({
                 clientName: (ticket as any).clients?.name || 'Não informado',
@@ -139,7 +149,8 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                 code: ticket.code || '-'
             });
 
-            const isAlarme = ticketPlanName?.toLowerCase().includes('alarme') ?? false;
+            const serviceType = getEffectiveServiceType(ticketPlan, ticket.service_type);
+            const isAlarme = serviceType === 'alarme';
             setIsAlarmPlan(isAlarme);
 
             let startTime = null;
@@ -163,7 +174,8 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                     total: ticket.main_agent_compensation_total,
                     toll: ticket.toll_cost,
                     food: ticket.food_cost,
-                    other: ticket.other_costs
+                    other: ticket.other_costs,
+                    kmSource: ticket.main_agent_km_source,
                 };
             } else {
                 const { data: supportAgent, error: supportError } = await supabase
@@ -190,7 +202,8 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                     total: supportAgent.compensation_total,
                     toll: supportAgent.toll_cost,
                     food: supportAgent.food_cost,
-                    other: supportAgent.other_costs
+                    other: supportAgent.other_costs,
+                    kmSource: supportAgent.km_source,
                 };
             }
 
@@ -198,19 +211,29 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
             const durationHours = startTime && endTime ? (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60) : 0;
 
             setDetailedStats({ startTime, endTime, startKm, endKm, totalKm, durationHours });
-
-            const agentIsArmedByPlan = getIsArmedByPlan(ticketPlanName, agentRole, !!agent.is_armed);
-            const pricing = agentIsArmedByPlan ? ARMED_PRICING : UNARMED_PRICING;
+            setGpsKm(gpsKmByAgent[agentId!] ?? null);
+            setKmSource((existingValues.kmSource as KmSource) || 'odometro');
+
+            const agentIsArmedByPlan = getIsArmedByPlan(ticketPlan, agentRole, !!agent.is_armed);
+            const pricing = resolvePricing(pricingRules, {
+                target: 'agente',
+                planId: ticket.plan_id,
+                serviceType,
+                clientId: ticket.client_id,
+                agentRole,
+                isArmed: agentIsArmedByPlan,
+                date: ticket.start_datetime,
+            });
 
             // If existing total is 0 or null, we treat it as "not set" and initialize with defaults
             const isNotSet = !existingValues.total || existingValues.total === 0;
 
             form.reset({
-                compensation_base_value: (!isNotSet ? existingValues.base : null) ?? (isAlarme ? ALARME_PRICING.base : pricing.base),
-                compensation_included_hours: (!isNotSet ? existingValues.incHours : null) ?? (isAlarme ? ALARME_PRICING.includedHours : pricing.includedHours),
-                compensation_included_km: (!isNotSet ? existingValues.incKm : null) ?? (isAlarme ? ALARME_PRICING.includedKm : pricing.includedKm),
-                compensation_extra_hour_rate: (!isNotSet ? existingValues.extraRate : null) ?? (isAlarme ? ALARME_PRICING.extraHourRate : pricing.extraHourRate),
-                compensation_extra_km_rate: (!isNotSet ? existingValues.extraKmRate : null) ?? (isAlarme ? ALARME_PRICING.extraKmRate : pricing.extraKmRate),
+                compensation_base_value: (!isNotSet ? existingValues.base : null) ?? pricing.base,
+                compensation_included_hours: (!isNotSet ? existingValues.incHours : null) ?? pricing.includedHours,
+                compensation_included_km: (!isNotSet ? existingValues.incKm : null) ?? pricing.includedKm,
+                compensation_extra_hour_rate: (!isNotSet ? existingValues.extraRate : null) ?? pricing.extraHourRate,
+                compensation_extra_km_rate: (!isNotSet ? existingValues.extraKmRate : null) ?? pricing.extraKmRate,
                 compensation_total: existingValues.total ?? 0,
                 toll_cost: existingValues.toll ?? 0,
                 food_cost: existingValues.food ?? 0,
@@ -242,7 +265,10 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
     const foodCost = form.watch('food_cost') || 0;
     const otherCosts = form.watch('other_costs') || 0;
 
-    const extraKm = Math.max(0, detailedStats.totalKm - includedKm);
+    const kmDiscrepancy = hasKmDiscrepancy(detailedStats.totalKm, gpsKm);
+    const paidKm = resolveKm(detailedStats.totalKm, gpsKm, kmSource);
+
+    const extraKm = Math.max(0, paidKm - includedKm);
     const extraHours = Math.max(0, detailedStats.durationHours - includedHours);
 
     const costExtraKm = extraKm * extraKmRate;
@@ -263,7 +289,7 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
             const val_other = parseSafeNumber(data.other_costs);
 
             const ex_h = Math.max(0, detailedStats.durationHours - val_inc_h);
-            const ex_km = Math.max(0, detailedStats.totalKm - val_inc_km);
+            const ex_km = Math.max(0, paidKm - val_inc_km);
             const totalHon = val_base + (ex_h * val_extra_h_rate) + (ex_km * val_extra_km_rate);
 
             if (agentRole === 'principal') {
@@ -276,7 +302,8 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                     main_agent_compensation_total: totalHon,
                     toll_cost: val_toll,
                     food_cost: val_food,
-                    other_costs: val_other
+                    other_costs: val_other,
+                    main_agent_km_source: kmSource,
                 }).eq('id', ticketId);
                 if (error) throw error;
             } else {
@@ -289,7 +316,8 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                     compensation_total: totalHon,
                     toll_cost: val_toll,
                     food_cost: val_food,
-                    other_costs: val_other
+                    other_costs: val_other,
+                    km_source: kmSource,
                 }).eq('ticket_id', ticketId).eq('agent_id', agentId);
                 if (error) throw error;
             }
@@ -475,13 +503,22 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                                             <div className="grid grid-cols-2 gap-4">
                                                 <div className="bg-zinc-950 p-3 rounded border border-zinc-800/50 text-center">
                                                     <p className="text-[10px] text-zinc-500 uppercase font-bold mb-1">KM Total</p>
-                                                    <p className="text-lg font-bold text-zinc-300">{detailedStats.totalKm}</p>
+                                                    <p className="text-lg font-bold text-zinc-300">{Number(paidKm.toFixed(1))}</p>
                                                 </div>
                                                 <div className="bg-zinc-950 p-3 rounded border border-zinc-800/50 text-center">
                                                     <p className="text-[10px] text-zinc-500 uppercase font-bold mb-1">KM Excedente</p>
-                                                    <p className={`text-lg font-bold ${extraKm > 0 ? 'text-orange-400' : 'text-zinc-600'}`}>{extraKm}</p>
+                                                    <p className={`text-lg font-bold ${extraKm > 0 ? 'text-orange-400' : 'text-zinc-600'}`}>{Number(extraKm.toFixed(1))}</p>
                                                 </div>
                                             </div>
+                                            {gpsKm != null && (
+                                                <KmSourceToggle
+                                                    odometerKm={detailedStats.totalKm}
+                                                    gpsKm={gpsKm}
+                                                    discrepancy={kmDiscrepancy}
+                                                    value={kmSource}
+                                                    onChange={setKmSource}
+                                                />
+                                            )}
                                         </div>
 
                                         <div className="h-px bg-zinc-800/50 border-t border-dashed border-zinc-700/30" />
@@ -511,6 +548,28 @@ export function PagamentoAgenteDialog({ ticketId, agentId, agentRole, open, onOp
                                         <div className="h-px bg-zinc-800/50 border-t border-dashed border-zinc-700/30" />
 
                                     </section>
+
+                                    {/* Comprovantes de Despesas Section */}
+                                    {ticketId && agentId && (
+                                        <section className="space-y-4">
+                                            <div>
+                                                <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest flex items-center gap-2">
+                                                    <Paperclip className="w-3.5 h-3.5" />
+                                                    Comprovantes de Despesas
+                                                </h3>
+                                                <p className="text-[11px] text-zinc-500 mt-1">
+                                                    Cada despesa precisa ser aprovada pelo valor salvo antes de o pagamento ser marcado como pago.
+                                                </p>
+                                            </div>
+                                            <ExpenseReceiptsSection
+                                                ticketId={ticketId}
+                                                agentId={agentId}
+                                                amounts={{ pedagio: tollCost, alimentacao: foodCost, outros: otherCosts }}
+                                                canReview
+                                                onReviewed={onSuccess}
+                                            />
+                                        </section>
+                                    )}
                                 </div>
 
                                 {/* Right Side: Parameters & Final Total */}
@@ -0,0 +1,221 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from '@/components/ui/dialog';
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CheckCircle2, CreditCard, FileSpreadsheet, FileText, Layers, User } from 'lucide-react';
+import { CnabExportDialog } from './CnabExportDialog';
+import { downloadAgentStatement, groupPaymentsByAgent, type PaymentRunItem } from '@/lib/paymentRunUtils';
+
+interface PaymentRunDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Pending payments of the selected period
+    items: PaymentRunItem[];
+    periodStart: Date;
+    periodEnd: Date;
+    onSuccess: () => void;
+}
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function PaymentRunDialog({ open, onOpenChange, items, periodStart, periodEnd, onSuccess }: PaymentRunDialogProps) {
+    const [excludedAgentIds, setExcludedAgentIds] = useState<Set<string>>(new Set());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [cnabDialogOpen, setCnabDialogOpen] = useState(false);
+
+    useEffect(() => {
+        if (open) setExcludedAgentIds(new Set());
+    }, [open]);
+
+    const groups = groupPaymentsByAgent(items);
+    const selectedGroups = groups.filter(g => !excludedAgentIds.has(g.agentId));
+    const selectedItems = selectedGroups.flatMap(g => g.items);
+    const selectedTotal = selectedGroups.reduce((sum, g) => sum + g.total, 0);
+
+    const toggleAgent = (agentId: string) => {
+        setExcludedAgentIds(prev => {
+            const next = new Set(prev);
+            if (next.has(agentId)) next.delete(agentId);
+            else next.add(agentId);
+            return next;
+        });
+    };
+
+    const handleConfirm = async () => {
+        if (selectedItems.length === 0) return;
+        setIsSubmitting(true);
+        try {
+            const { error } = await supabase.rpc('confirm_agent_payment_run', {
+                _period_start: format(periodStart, 'yyyy-MM-dd'),
+                _period_end: format(periodEnd, 'yyyy-MM-dd'),
+                _items: selectedItems.map(item => ({
+                    ticket_id: item.ticketId,
+                    agent_id: item.agentId,
+                    agent_role: item.agentRole,
+                    compensation: item.compensationTotal,
+                    expenses: item.tollCost + item.foodCost + item.otherCosts,
+                })),
+            });
+
+            if (error) throw error;
+
+            toast.success(`Lote confirmado: ${selectedItems.length} pagamento(s) de ${selectedGroups.length} agente(s).`);
+            onSuccess();
+            onOpenChange(false);
+        } catch (error: any) {
+            console.error('Erro ao confirmar lote de pagamento:', error);
+            toast.error(error?.message || 'Erro ao confirmar lote de pagamento');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[95vh] overflow-y-auto p-0 gap-0 border-none bg-zinc-950 text-zinc-100">
+                <div className="p-6 border-b border-zinc-800/50">
+                    <DialogHeader>
+                        <DialogTitle className="text-2xl font-bold tracking-tight text-white flex items-center gap-2">
+                            <Layers className="w-6 h-6 text-primary" />
+                            Lote de Pagamento
+                        </DialogTitle>
+                        <DialogDescription className="text-zinc-400">
+                            Pagamentos pendentes de {format(periodStart, 'dd/MM/yyyy')} a {format(periodEnd, 'dd/MM/yyyy')}, agrupados por agente.
+                        </DialogDescription>
+                    </DialogHeader>
+                </div>
+
+                <div className="p-6 space-y-3">
+                    {groups.length === 0 ? (
+                        <p className="text-sm text-zinc-500 text-center py-8">Nenhum pagamento pendente no período.</p>
+                    ) : groups.map(group => {
+                        const first = group.items[0];
+                        const included = !excludedAgentIds.has(group.agentId);
+                        return (
+                            <div
+                                key={group.agentId}
+                                className={`rounded-lg border p-4 transition-colors ${included ? 'border-zinc-800 bg-zinc-900/50' : 'border-zinc-900 bg-zinc-950 opacity-50'}`}
+                            >
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="flex items-start gap-3">
+                                        <Checkbox
+                                            checked={included}
+                                            onCheckedChange={() => toggleAgent(group.agentId)}
+                                            className="mt-1"
+                                        />
+                                        <div>
+                                            <p className="text-sm font-bold text-white flex items-center gap-2">
+                                                <User className="w-3.5 h-3.5 text-zinc-400" />
+                                                {group.agentName}
+                                            </p>
+                                            <p className="text-[11px] text-zinc-500">
+                                                {group.items.length} chamado(s): {group.items.map(i => i.ticketCode).join(', ')}
+                                            </p>
+                                            <p className="text-[11px] text-zinc-400 flex items-center gap-1 mt-1">
+                                                <CreditCard className="w-3 h-3" />
+                                                {first.pixKey ? `PIX: ${first.pixKey}` : first.bankName ? `${first.bankName} | Ag: ${first.bankAgency || '-'} | Cta: ${first.bankAccount || '-'}` : 'Sem dados bancários'}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex flex-col items-end gap-2">
+                                        <span className="text-lg font-black text-white">{formatCurrency(group.total)}</span>
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 text-xs text-zinc-300 hover:bg-zinc-800"
+                                            onClick={() => downloadAgentStatement(group, periodStart, periodEnd, null)}
+                                        >
+                                            <FileText className="w-3.5 h-3.5 mr-1" />
+                                            Extrato
+                                        </Button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-6 border-t border-zinc-800/50 flex flex-col sm:flex-row items-center justify-between gap-4">
+                    <div>
+                        <p className="text-[10px] uppercase font-bold text-zinc-500 tracking-widest">Total do lote</p>
+                        <p className="text-2xl font-black text-white">{formatCurrency(selectedTotal)}</p>
+                        <p className="text-[11px] text-zinc-500">{selectedItems.length} pagamento(s) · {selectedGroups.length} agente(s)</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            type="button"
+                            variant="outline"
+                            className="border-zinc-800 bg-zinc-900 text-zinc-200 hover:bg-zinc-800"
+                            disabled={selectedGroups.length === 0}
+                            onClick={async () => {
+                                for (const group of selectedGroups) {
+                                    await downloadAgentStatement(group, periodStart, periodEnd, null);
+                                }
+                            }}
+                        >
+                            <FileText className="w-4 h-4 mr-2" />
+                            Baixar Extratos
+                        </Button>
+                        <Button
+                            type="button"
+                            variant="outline"
+                            className="border-zinc-800 bg-zinc-900 text-zinc-200 hover:bg-zinc-800"
+                            disabled={selectedGroups.length === 0}
+                            onClick={() => setCnabDialogOpen(true)}
+                        >
+                            <FileSpreadsheet className="w-4 h-4 mr-2" />
+                            Arquivo CNAB
+                        </Button>
+                        <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                                <Button
+                                    type="button"
+                                    className="bg-emerald-600 hover:bg-emerald-700"
+                                    disabled={selectedItems.length === 0 || isSubmitting}
+                                >
+                                    <CheckCircle2 className="w-4 h-4 mr-2" />
+                                    {isSubmitting ? 'Confirmando...' : 'Confirmar Lote'}
+                                </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                                <AlertDialogHeader>
+                                    <AlertDialogTitle>Confirmar Lote de Pagamento</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                        {selectedItems.length} pagamento(s) de {selectedGroups.length} agente(s), totalizando {formatCurrency(selectedTotal)}, serão marcados como pagos. O lote poderá ser estornado depois.
+                                    </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                    <AlertDialogCancel>Voltar</AlertDialogCancel>
+                                    <AlertDialogAction onClick={handleConfirm} className="bg-emerald-600 hover:bg-emerald-700">
+                                        Confirmar Lote
+                                    </AlertDialogAction>
+                                </AlertDialogFooter>
+                            </AlertDialogContent>
+                        </AlertDialog>
+                    </div>
+                </div>
+            </DialogContent>
+
+            <CnabExportDialog
+                open={cnabDialogOpen}
+                onOpenChange={setCnabDialogOpen}
+                groups={selectedGroups}
+            />
+        </Dialog>
+    );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
+    AlertDialogDescription, AlertDialogFooter, AlertDialogHeader,
+    AlertDialogTitle, AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { ChevronDown, ChevronUp, FileText, Layers, Undo2 } from 'lucide-react';
+import {
+    downloadAgentStatement,
+    getAgentRoleLabel,
+    groupPaymentsByAgent,
+    type PaymentRunItem,
+} from '@/lib/paymentRunUtils';
+
+interface PaymentRun {
+    id: string;
+    period_start: string;
+    period_end: string;
+    status: string;
+    total_amount: number;
+    item_count: number;
+    agent_count: number;
+    paid_at: string;
+    reversed_at: string | null;
+    items: PaymentRunItem[];
+}
+
+interface PaymentRunsHistoryProps {
+    // Bumped by the parent after a new run is confirmed
+    refreshKey: number;
+    onReversed: () => void;
+}
+
+const RUNS_LIMIT = 20;
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function PaymentRunsHistory({ refreshKey, onReversed }: PaymentRunsHistoryProps) {
+    const [runs, setRuns] = useState<PaymentRun[]>([]);
+    const [expanded, setExpanded] = useState(false);
+    const [reversingId, setReversingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchRuns();
+    }, [refreshKey]);
+
+    const fetchRuns = async () => {
+        try {
+            const { data, error } = await supabase
+                .from('agent_payment_runs')
+                .select([
+                    'id', 'period_start', 'period_end', 'status', 'total_amount', 'item_count', 'agent_count', 'paid_at', 'reversed_at',
+                    'agent_payment_run_items(ticket_id,agent_id,agent_role,compensation,expenses,amount,' +
+                    'tickets(code,start_datetime,clients(name)),' +
+                    'agents(name,document,pix_key,bank_name,bank_agency,bank_account,bank_account_type))'
+                ].join(','))
+                .order('paid_at', { ascending: false })
+                .limit(RUNS_LIMIT);
+
+            if (error) throw error;
+
+            setRuns((data || []).map((run: any) => ({
+                ...run,
+                items: (run.agent_payment_run_items || []).map((item: any) => ({
+                    ticketId: item.ticket_id,
+                    agentId: item.agent_id,
+                    ticketCode: item.tickets?.code || '-',
+                    clientName: item.tickets?.clients?.name || '-',
+                    startDatetime: item.tickets?.start_datetime,
+                    agentName: item.agents?.name || 'Agente',
+                    agentDocument: item.agents?.document || null,
+                    agentRole: item.agent_role,
+                    agentRoleLabel: getAgentRoleLabel(item.agent_role),
+                    pixKey: item.agents?.pix_key || null,
+                    bankName: item.agents?.bank_name || null,
+                    bankAgency: item.agents?.bank_agency || null,
+                    bankAccount: item.agents?.bank_account || null,
+                    bankAccountType: item.agents?.bank_account_type || null,
+                    compensationTotal: Number(item.compensation) || 0,
+                    // The run keeps expenses as a single snapshot value
+                    tollCost: Number(item.expenses) || 0,
+                    foodCost: 0,
+                    otherCosts: 0,
+                    totalCost: Number(item.amount) || 0,
+                })),
+            })));
+        } catch (error) {
+            console.error('Erro ao buscar lotes de pagamento:', error);
+        }
+    };
+
+    const handleReverse = async (run: PaymentRun) => {
+        setReversingId(run.id);
+        try {
+            const { error } = await supabase.rpc('reverse_agent_payment_run', { _run_id: run.id });
+            if (error) throw error;
+
+            toast.success('Lote estornado. Os pagamentos voltaram para pendente.');
+            fetchRuns();
+            onReversed();
+        } catch (error: any) {
+            console.error('Erro ao estornar lote:', error);
+            toast.error(error?.message || 'Erro ao estornar lote de pagamento');
+        } finally {
+            setReversingId(null);
+        }
+    };
+
+    const downloadStatements = async (run: PaymentRun) => {
+        for (const group of groupPaymentsByAgent(run.items)) {
+            await downloadAgentStatement(group, parseISO(run.period_start), parseISO(run.period_end), new Date(run.paid_at));
+        }
+    };
+
+    if (runs.length === 0) return null;
+
+    return (
+        <div className="space-y-4">
+            <Button
+                variant="ghost"
+                className="w-full flex items-center justify-between py-6 px-4 bg-muted/30 hover:bg-muted/50 rounded-xl"
+                onClick={() => setExpanded(!expanded)}
+            >
+                <div className="flex items-center gap-3">
+                    <div className="bg-primary/10 p-2 rounded-lg">
+                        <Layers className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="text-left">
+                        <span className="font-bold text-foreground">Lotes de Pagamento</span>
+                        <p className="text-xs text-muted-foreground">Últimos {runs.length} lotes confirmados</p>
+                    </div>
+                </div>
+                {expanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+            </Button>
+
+            {expanded && (
+                <div className="space-y-3 animate-in slide-in-from-top-4 duration-300">
+                    {runs.map(run => {
+                        const isReversed = run.status === 'estornado';
+                        return (
+                            <Card key={run.id} className={isReversed ? 'opacity-60 shadow-none' : 'shadow-none border-primary/20'}>
+                                <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-sm font-bold">
+                                                {format(parseISO(run.period_start), 'dd/MM/yyyy')} a {format(parseISO(run.period_end), 'dd/MM/yyyy')}
+                                            </span>
+                                            <Badge
+                                                variant="outline"
+                                                className={`text-[9px] h-4 py-0 uppercase ${isReversed ? 'text-red-600 border-red-200 bg-red-50' : 'text-emerald-700 border-emerald-200 bg-emerald-50'}`}
+                                            >
+                                                {isReversed ? 'Estornado' : 'Pago'}
+                                            </Badge>
+                                        </div>
+                                        <p className="text-[11px] text-muted-foreground mt-0.5">
+                                            Pago em {format(new Date(run.paid_at), 'dd/MM/yy HH:mm')} · {run.item_count} pagamento(s) · {run.agent_count} agente(s)
+                                            {run.reversed_at && ` · Estornado em ${format(new Date(run.reversed_at), 'dd/MM/yy HH:mm')}`}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-lg font-black text-foreground mr-2">{formatCurrency(Number(run.total_amount) || 0)}</span>
+                                        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => downloadStatements(run)}>
+                                            <FileText className="h-3.5 w-3.5 mr-1" />
+                                            Extratos
+                                        </Button>
+                                        {!isReversed && (
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="h-8 text-xs text-red-600 hover:text-red-700 hover:bg-red-50"
+                                                        disabled={reversingId === run.id}
+                                                    >
+                                                        <Undo2 className="h-3.5 w-3.5 mr-1" />
+                                                        Estornar
+                                                    </Button>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                        <AlertDialogTitle>Estornar Lote</AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            Os {run.item_count} pagamento(s) deste lote voltarão para pendente. Deseja continuar?
+                                                        </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                        <AlertDialogCancel>Voltar</AlertDialogCancel>
+                                                        <AlertDialogAction onClick={() => handleReverse(run)} className="bg-red-600 hover:bg-red-700">
+                                                            Estornar Lote
+                                                        </AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        )}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Copy, QrCode } from 'lucide-react';
+import { buildPixBrCode } from '@/lib/pixUtils';
+
+export interface PixPayment {
+    agentName: string;
+    agentCity: string | null;
+    pixKey: string;
+    amount: number;
+    ticketCode: string;
+}
+
+interface PixQrDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    payment: PixPayment | null;
+}
+
+export function PixQrDialog({ open, onOpenChange, payment }: PixQrDialogProps) {
+    const brCode = payment
+        ? buildPixBrCode({
+            pixKey: payment.pixKey,
+            receiverName: payment.agentName,
+            receiverCity: payment.agentCity || '',
+            amount: payment.amount,
+            txid: payment.ticketCode,
+            description: `Chamado ${payment.ticketCode}`,
+        })
+        : '';
+
+    const copyBrCode = () => {
+        navigator.clipboard.writeText(brCode);
+        toast.success('PIX copia e cola copiado!');
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-md border-none bg-zinc-950 text-zinc-100">
+                <DialogHeader>
+                    <DialogTitle className="text-xl font-bold tracking-tight text-white flex items-center gap-2">
+                        <QrCode className="w-5 h-5 text-primary" />
+                        PIX para {payment?.agentName}
+                    </DialogTitle>
+                    <DialogDescription className="text-zinc-400">
+                        Chamado {payment?.ticketCode} • {payment?.amount.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {payment && (
+                    <div className="space-y-4">
+                        <div className="flex justify-center rounded-lg bg-white p-4">
+                            <QRCodeSVG value={brCode} size={220} level="M" />
+                        </div>
+                        <div className="space-y-2">
+                            <p className="text-[10px] uppercase font-bold text-zinc-500 tracking-widest">PIX Copia e Cola</p>
+                            <Textarea
+                                readOnly
+                                value={brCode}
+                                className="font-mono text-[11px] bg-zinc-900 border-zinc-800 text-zinc-200 resize-none"
+                                rows={4}
+                                onFocus={(e) => e.target.select()}
+                            />
+                            <Button type="button" className="w-full" onClick={copyBrCode}>
+                                <Copy className="w-4 h-4 mr-2" />
+                                Copiar código
+                            </Button>
+                        </div>
+                        <p className="text-[11px] text-zinc-500">Chave: {payment.pixKey}</p>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
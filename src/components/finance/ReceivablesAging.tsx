@@ -0,0 +1,243 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, ChevronDown, ChevronUp, Clock, FileText, Mail, Phone } from 'lucide-react';
+import {
+    AGING_BUCKETS,
+    AGING_BUCKET_LABELS,
+    buildAgingReport,
+    getTicketDueDate,
+    type AgingBucket,
+    type AgingClientInfo,
+    type ClientAging,
+    type Receivable,
+} from '@/lib/agingUtils';
+import { generateClientStatementPDF } from './ClientInvoicePDFGenerator';
+
+interface ReceivablesAgingProps {
+    // Bumped by the parent whenever receivables change (invoice issued, payment received...)
+    refreshKey: number;
+}
+
+const CLIENT_COLUMNS = 'name,document,contact_name,contact_phone,contact_email,payment_term_days';
+
+const BUCKET_STYLES: Record<AgingBucket, string> = {
+    '0-30': 'text-emerald-700',
+    '31-60': 'text-amber-600',
+    '61-90': 'text-orange-600',
+    '90+': 'text-red-600',
+};
+
+const formatCurrency = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export function ReceivablesAging({ refreshKey }: ReceivablesAgingProps) {
+    const [report, setReport] = useState<ClientAging[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [expandedClientId, setExpandedClientId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchReceivables();
+    }, [refreshKey]);
+
+    // Aging covers every open amount, regardless of the period selected in Financeiro
+    const fetchReceivables = async () => {
+        setLoading(true);
+        try {
+            const [invoicesRes, ticketsRes] = await Promise.all([
+                supabase
+                    .from('invoices')
+                    .select(`id, number, client_id, issued_at, due_date, total_amount, clients(${CLIENT_COLUMNS})`)
+                    .eq('status', 'emitida'),
+                supabase
+                    .from('tickets')
+                    .select(`id, code, client_id, start_datetime, end_datetime, revenue_total, clients(${CLIENT_COLUMNS})`)
+                    .eq('status', 'finalizado')
+                    .is('invoice_id', null)
+                    .or('revenue_status.is.null,revenue_status.eq.pendente'),
+            ]);
+
+            if (invoicesRes.error) throw invoicesRes.error;
+            if (ticketsRes.error) throw ticketsRes.error;
+
+            const clients: Record<string, AgingClientInfo> = {};
+            const receivables: Receivable[] = [];
+
+            (invoicesRes.data || []).forEach((invoice: any) => {
+                if (invoice.clients) clients[invoice.client_id] = invoice.clients;
+                const issuedAt = new Date(invoice.issued_at);
+                receivables.push({
+                    id: invoice.id,
+                    kind: 'fatura',
+                    reference: invoice.number,
+                    clientId: invoice.client_id,
+                    clientName: invoice.clients?.name || '-',
+                    clientDocument: invoice.clients?.document || null,
+                    referenceDate: issuedAt,
+                    dueDate: invoice.due_date
+                        ? parseISO(invoice.due_date)
+                        : getTicketDueDate(issuedAt, invoice.clients?.payment_term_days),
+                    amount: Number(invoice.total_amount) || 0,
+                });
+            });
+
+            (ticketsRes.data || []).forEach((ticket: any) => {
+                const amount = Number(ticket.revenue_total) || 0;
+                if (amount <= 0) return;
+                if (ticket.clients) clients[ticket.client_id] = ticket.clients;
+                const endedAt = new Date(ticket.end_datetime || ticket.start_datetime);
+                receivables.push({
+                    id: ticket.id,
+                    kind: 'chamado',
+                    reference: ticket.code || '-',
+                    clientId: ticket.client_id,
+                    clientName: ticket.clients?.name || '-',
+                    clientDocument: ticket.clients?.document || null,
+                    referenceDate: endedAt,
+                    dueDate: getTicketDueDate(endedAt, ticket.clients?.payment_term_days),
+                    amount,
+                });
+            });
+
+            setReport(buildAgingReport(receivables, clients));
+        } catch (error) {
+            console.error('Erro ao carregar contas a receber:', error);
+            toast.error('Erro ao carregar contas a receber');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const downloadStatement = async (row: ClientAging) => {
+        try {
+            await generateClientStatementPDF({
+                clientName: row.clientName,
+                clientDocument: row.clientDocument,
+                buckets: AGING_BUCKETS.map(bucket => ({ label: AGING_BUCKET_LABELS[bucket], amount: row.buckets[bucket] })),
+                entries: row.receivables.map(r => ({
+                    reference: r.reference,
+                    kind: r.kind,
+                    referenceDate: r.referenceDate,
+                    dueDate: r.dueDate,
+                    daysOverdue: r.daysOverdue,
+                    amount: r.amount,
+                })),
+            });
+        } catch (error) {
+            console.error('Erro ao gerar extrato do cliente:', error);
+            toast.error('Erro ao gerar extrato do cliente');
+        }
+    };
+
+    const totals = AGING_BUCKETS.reduce(
+        (acc, bucket) => ({ ...acc, [bucket]: report.reduce((sum, row) => sum + row.buckets[bucket], 0) }),
+        {} as Record<AgingBucket, number>
+    );
+    const totalOverdue = report.reduce((sum, row) => sum + row.overdue, 0);
+
+    return (
+        <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {AGING_BUCKETS.map(bucket => (
+                    <Card key={bucket} className="shadow-sm">
+                        <CardContent className="pt-4">
+                            <p className={`text-xl font-bold ${BUCKET_STYLES[bucket]}`}>{formatCurrency(totals[bucket] || 0)}</p>
+                            <p className="text-xs text-muted-foreground font-medium">{AGING_BUCKET_LABELS[bucket]}</p>
+                        </CardContent>
+                    </Card>
+                ))}
+                <Card className="border-red-500/20 bg-red-500/10 dark:bg-red-500/5 shadow-sm">
+                    <CardContent className="pt-4">
+                        <p className="text-xl font-bold text-red-700">{formatCurrency(totalOverdue)}</p>
+                        <p className="text-xs text-red-600 font-medium">Vencido</p>
+                    </CardContent>
+                </Card>
+            </div>
+
+            {loading ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Carregando...</p>
+            ) : report.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">Nenhum valor em aberto.</p>
+            ) : (
+                <div className="border border-border rounded-lg overflow-hidden">
+                    <div className="hidden md:grid grid-cols-[2fr_repeat(4,1fr)_1fr_1fr_auto] gap-3 px-4 py-2 bg-muted/50 text-[10px] uppercase font-bold text-muted-foreground tracking-wider">
+                        <span>Cliente</span>
+                        {AGING_BUCKETS.map(bucket => <span key={bucket} className="text-right">{AGING_BUCKET_LABELS[bucket]}</span>)}
+                        <span className="text-right">Vencido</span>
+                        <span className="text-right">Total</span>
+                        <span className="w-24" />
+                    </div>
+                    {report.map(row => {
+                        const isExpanded = expandedClientId === row.clientId;
+                        return (
+                            <div key={row.clientId} className="border-t border-border first:border-t-0">
+                                <div className="grid grid-cols-2 md:grid-cols-[2fr_repeat(4,1fr)_1fr_1fr_auto] gap-3 px-4 py-3 items-center text-sm">
+                                    <button
+                                        className="flex items-center gap-2 text-left font-bold col-span-2 md:col-span-1"
+                                        onClick={() => setExpandedClientId(isExpanded ? null : row.clientId)}
+                                    >
+                                        {isExpanded ? <ChevronUp className="h-4 w-4 shrink-0" /> : <ChevronDown className="h-4 w-4 shrink-0" />}
+                                        <span className="truncate">{row.clientName}</span>
+                                        {row.overdue > 0 && <AlertTriangle className="h-3.5 w-3.5 text-red-600 shrink-0" />}
+                                    </button>
+                                    {AGING_BUCKETS.map(bucket => (
+                                        <span key={bucket} className={`text-right ${row.buckets[bucket] > 0 ? BUCKET_STYLES[bucket] : 'text-muted-foreground'}`}>
+                                            {formatCurrency(row.buckets[bucket])}
+                                        </span>
+                                    ))}
+                                    <span className={`text-right font-bold ${row.overdue > 0 ? 'text-red-600' : 'text-muted-foreground'}`}>{formatCurrency(row.overdue)}</span>
+                                    <span className="text-right font-black">{formatCurrency(row.total)}</span>
+                                    <Button variant="outline" size="sm" className="h-8 text-xs w-24" onClick={() => downloadStatement(row)}>
+                                        <FileText className="h-3.5 w-3.5 mr-1" />
+                                        Extrato
+                                    </Button>
+                                </div>
+
+                                {isExpanded && (
+                                    <div className="px-4 pb-4 space-y-3 animate-in slide-in-from-top-2 duration-200">
+                                        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                                            {row.contactName && <span className="font-medium text-foreground">{row.contactName}</span>}
+                                            {row.contactPhone && <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{row.contactPhone}</span>}
+                                            {row.contactEmail && <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{row.contactEmail}</span>}
+                                            {!row.contactName && !row.contactPhone && !row.contactEmail && <span>Sem contato cadastrado</span>}
+                                        </div>
+                                        <div className="space-y-1">
+                                            {row.receivables.map(r => (
+                                                <div key={r.id} className="flex items-center justify-between rounded-md bg-muted/30 px-3 py-2 text-xs">
+                                                    <div className="flex items-center gap-2">
+                                                        <Badge variant="outline" className="text-[9px] h-4 py-0 uppercase">{r.kind === 'fatura' ? 'Fatura' : 'Chamado'}</Badge>
+                                                        <span className="font-bold">{r.reference}</span>
+                                                        <span className="text-muted-foreground">
+                                                            Emissão {format(r.referenceDate, 'dd/MM/yy')} · Vencimento {format(r.dueDate, 'dd/MM/yy')}
+                                                        </span>
+                                                    </div>
+                                                    <div className="flex items-center gap-3">
+                                                        {r.daysOverdue > 0 ? (
+                                                            <span className="text-red-600 font-bold flex items-center gap-1">
+                                                                <AlertTriangle className="h-3 w-3" />
+                                                                Vencido há {r.daysOverdue}d
+                                                            </span>
+                                                        ) : (
+                                                            <span className="text-muted-foreground flex items-center gap-1">
+                                                                <Clock className="h-3 w-3" />
+                                                                A vencer
+                                                            </span>
+                                                        )}
+                                                        <span className="font-bold w-28 text-right">{formatCurrency(r.amount)}</span>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -22,11 +22,14 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { PlanCompositionFields } from './PlanCompositionFields';
+import { planCompositionSchema, defaultPlanComposition } from '@/lib/planUtils';
 
 const planSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório').max(100),
   category: z.string().max(50).optional(),
   description: z.string().max(500).optional(),
+  ...planCompositionSchema,
 });
 
 type PlanFormData = z.infer<typeof planSchema>;
@@ -47,6 +50,7 @@ export function EditPlanDialog({ planId, open, onOpenChange, onSuccess }: EditPl
       name: '',
       category: '',
       description: '',
+      ...defaultPlanComposition,
     },
   });
 
@@ -73,6 +77,11 @@ export function EditPlanDialog({ planId, open, onOpenChange, onSuccess }: EditPl
           name: data.name,
           category: data.category || '',
           description: data.description || '',
+          agent_count: data.agent_count,
+          principal_armed: data.principal_armed,
+          apoio_1_armed: data.apoio_1_armed,
+          apoio_2_armed: data.apoio_2_armed,
+          service_type: data.service_type,
         });
       }
     } catch (error) {
@@ -92,6 +101,11 @@ export function EditPlanDialog({ planId, open, onOpenChange, onSuccess }: EditPl
           name: data.name,
           category: data.category || null,
           description: data.description || null,
+          agent_count: data.agent_count,
+          principal_armed: data.principal_armed,
+          apoio_1_armed: data.apoio_1_armed,
+          apoio_2_armed: data.apoio_2_armed,
+          service_type: data.service_type,
         })
         .eq('id', planId);
 
@@ -146,6 +160,8 @@ export function EditPlanDialog({ planId, open, onOpenChange, onSuccess }: EditPl
               )}
             />
 
+            <PlanCompositionFields form={form} />
+
             <FormField
               control={form.control}
               name="description"
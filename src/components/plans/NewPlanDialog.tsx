@@ -22,11 +22,14 @@ import {
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { PlanCompositionFields } from './PlanCompositionFields';
+import { planCompositionSchema, defaultPlanComposition } from '@/lib/planUtils';
 
 const planSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório').max(100),
   category: z.string().max(50).optional(),
   description: z.string().max(500).optional(),
+  ...planCompositionSchema,
 });
 
 type PlanFormData = z.infer<typeof planSchema>;
@@ -46,6 +49,7 @@ export function NewPlanDialog({ open, onOpenChange, onSuccess }: NewPlanDialogPr
       name: '',
       category: '',
       description: '',
+      ...defaultPlanComposition,
     },
   });
 
@@ -56,6 +60,11 @@ export function NewPlanDialog({ open, onOpenChange, onSuccess }: NewPlanDialogPr
         name: data.name,
         category: data.category || null,
         description: data.description || null,
+        agent_count: data.agent_count,
+        principal_armed: data.principal_armed,
+        apoio_1_armed: data.apoio_1_armed,
+        apoio_2_armed: data.apoio_2_armed,
+        service_type: data.service_type,
       });
 
       if (error) throw error;
@@ -110,6 +119,8 @@ export function NewPlanDialog({ open, onOpenChange, onSuccess }: NewPlanDialogPr
               )}
             />
 
+            <PlanCompositionFields form={form} />
+
             <FormField
               control={form.control}
               name="description"
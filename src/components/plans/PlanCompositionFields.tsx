@@ -0,0 +1,126 @@
+import type { UseFormReturn } from 'react-hook-form';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ARMED_REQUIREMENT_LABELS,
+  PLAN_SLOTS,
+  PLAN_SLOT_LABELS,
+} from '@/lib/planUtils';
+
+// Radix Select does not accept empty values; a plan without a service type (null) shows as this sentinel
+const FROM_TICKET = 'chamado';
+
+const SERVICE_TYPE_LABELS: Record<string, string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acompanhamento Logístico',
+  sindicancia: 'Sindicância',
+};
+
+const SLOT_FIELD = {
+  principal: 'principal_armed',
+  apoio_1: 'apoio_1_armed',
+  apoio_2: 'apoio_2_armed',
+} as const;
+
+interface PlanCompositionFieldsProps {
+  form: UseFormReturn<any>;
+}
+
+export function PlanCompositionFields({ form }: PlanCompositionFieldsProps) {
+  const agentCount: number = form.watch('agent_count') || 1;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <FormField
+        control={form.control}
+        name="agent_count"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Agentes na Equipe *</FormLabel>
+            <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {[1, 2, 3].map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count} agente{count > 1 ? 's' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {PLAN_SLOTS.slice(0, agentCount).map((slot) => (
+          <FormField
+            key={slot}
+            control={form.control}
+            name={SLOT_FIELD[slot]}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-xs">{PLAN_SLOT_LABELS[slot]}</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="h-9 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(ARMED_REQUIREMENT_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+
+      <FormField
+        control={form.control}
+        name="service_type"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Precificar como</FormLabel>
+            <Select value={field.value ?? FROM_TICKET} onValueChange={(value) => field.onChange(value === FROM_TICKET ? null : value)}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={FROM_TICKET}>Tipo de serviço do chamado</SelectItem>
+                {Object.entries(SERVICE_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
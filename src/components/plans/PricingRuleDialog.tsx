@@ -0,0 +1,348 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { parseSafeNumber } from '@/lib/numberUtils';
+
+type ServiceType = Database['public']['Enums']['service_type'];
+
+// Radix Select does not accept empty values, so "any" is stored in the form as this sentinel
+const ANY = 'todos';
+
+const SERVICE_TYPE_LABELS: Record<string, string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acompanhamento Logístico',
+  sindicancia: 'Sindicância',
+};
+
+const ruleSchema = z.object({
+  name: z.string().max(100).optional(),
+  target: z.enum(['cliente', 'agente']),
+  plan_id: z.string(),
+  service_type: z.string(),
+  client_id: z.string(),
+  agent_role: z.string(),
+  is_armed: z.string(),
+  base_value: z.number().min(0),
+  included_hours: z.number().min(0),
+  included_km: z.number().min(0),
+  extra_hour_rate: z.number().min(0),
+  extra_km_rate: z.number().min(0),
+  effective_from: z.string().min(1, 'Informe o início da vigência'),
+  effective_to: z.string().optional(),
+}).refine(
+  (data) => !data.effective_to || data.effective_to >= data.effective_from,
+  { message: 'O fim da vigência deve ser posterior ao início', path: ['effective_to'] }
+);
+
+type RuleFormData = z.infer<typeof ruleSchema>;
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface PricingRuleDialogProps {
+  ruleId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  plans: Option[];
+  clients: Option[];
+}
+
+const emptyValues = (): RuleFormData => ({
+  name: '',
+  target: 'cliente',
+  plan_id: ANY,
+  service_type: ANY,
+  client_id: ANY,
+  agent_role: ANY,
+  is_armed: ANY,
+  base_value: 0,
+  included_hours: 3,
+  included_km: 50,
+  extra_hour_rate: 0,
+  extra_km_rate: 0,
+  effective_from: format(new Date(), 'yyyy-MM-dd'),
+  effective_to: '',
+});
+
+export function PricingRuleDialog({ ruleId, open, onOpenChange, onSuccess, plans, clients }: PricingRuleDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: emptyValues(),
+  });
+
+  const target = form.watch('target');
+
+  useEffect(() => {
+    if (!open) return;
+    if (ruleId) {
+      fetchRule();
+    } else {
+      form.reset(emptyValues());
+    }
+  }, [ruleId, open]);
+
+  const fetchRule = async () => {
+    if (!ruleId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .eq('id', ruleId)
+        .single();
+
+      if (error) throw error;
+
+      form.reset({
+        name: data.name || '',
+        target: data.target as 'cliente' | 'agente',
+        plan_id: data.plan_id || ANY,
+        service_type: data.service_type || ANY,
+        client_id: data.client_id || ANY,
+        agent_role: data.agent_role || ANY,
+        is_armed: data.is_armed === null ? ANY : String(data.is_armed),
+        base_value: Number(data.base_value) || 0,
+        included_hours: Number(data.included_hours) || 0,
+        included_km: Number(data.included_km) || 0,
+        extra_hour_rate: Number(data.extra_hour_rate) || 0,
+        extra_km_rate: Number(data.extra_km_rate) || 0,
+        effective_from: data.effective_from,
+        effective_to: data.effective_to || '',
+      });
+    } catch (error) {
+      console.error('Erro ao carregar regra de preço:', error);
+      toast.error('Erro ao carregar regra de preço');
+    }
+  };
+
+  const onSubmit = async (data: RuleFormData) => {
+    setIsLoading(true);
+    try {
+      const isAgentRule = data.target === 'agente';
+      const payload = {
+        name: data.name || null,
+        target: data.target,
+        plan_id: data.plan_id === ANY ? null : data.plan_id,
+        service_type: data.service_type === ANY ? null : data.service_type as ServiceType,
+        client_id: data.client_id === ANY ? null : data.client_id,
+        agent_role: !isAgentRule || data.agent_role === ANY ? null : data.agent_role,
+        is_armed: !isAgentRule || data.is_armed === ANY ? null : data.is_armed === 'true',
+        base_value: data.base_value,
+        included_hours: data.included_hours,
+        included_km: data.included_km,
+        extra_hour_rate: data.extra_hour_rate,
+        extra_km_rate: data.extra_km_rate,
+        effective_from: data.effective_from,
+        effective_to: data.effective_to || null,
+      };
+
+      const { error } = ruleId
+        ? await supabase.from('pricing_rules').update(payload).eq('id', ruleId)
+        : await supabase.from('pricing_rules').insert(payload);
+
+      if (error) throw error;
+
+      toast.success(ruleId ? 'Regra de preço atualizada!' : 'Regra de preço cadastrada!');
+      onOpenChange(false);
+      onSuccess();
+    } catch (error) {
+      console.error('Erro ao salvar regra de preço:', error);
+      toast.error('Erro ao salvar regra de preço');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderSelect = (
+    name: 'target' | 'plan_id' | 'service_type' | 'client_id' | 'agent_role' | 'is_armed',
+    label: string,
+    options: { value: string; label: string }[],
+    allowAny = true
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {allowAny && <SelectItem value={ANY}>Qualquer</SelectItem>}
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderNumber = (
+    name: 'base_value' | 'included_hours' | 'included_km' | 'extra_hour_rate' | 'extra_km_rate',
+    label: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="text"
+              inputMode="decimal"
+              {...field}
+              value={field.value ?? ''}
+              onChange={(e) => field.onChange(parseSafeNumber(e.target.value))}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ruleId ? 'Editar Regra de Preço' : 'Nova Regra de Preço'}</DialogTitle>
+          <DialogDescription>
+            Campos em "Qualquer" valem para todos. A regra mais específica vigente na data do chamado é aplicada.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrição</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Contrato Transportadora X 2026" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderSelect('target', 'Aplicação *', [
+                { value: 'cliente', label: 'Faturamento (cliente)' },
+                { value: 'agente', label: 'Honorário (agente)' },
+              ], false)}
+              {renderSelect('service_type', 'Tipo de Serviço', Object.entries(SERVICE_TYPE_LABELS).map(([value, label]) => ({ value, label })))}
+              {renderSelect('plan_id', 'Plano', plans.map((p) => ({ value: p.id, label: p.name })))}
+              {renderSelect('client_id', 'Cliente', clients.map((c) => ({ value: c.id, label: c.name })))}
+              {target === 'agente' && renderSelect('agent_role', 'Função do Agente', [
+                { value: 'principal', label: 'Principal' },
+                { value: 'apoio', label: 'Apoio' },
+              ])}
+              {target === 'agente' && renderSelect('is_armed', 'Armamento', [
+                { value: 'true', label: 'Armado' },
+                { value: 'false', label: 'Desarmado' },
+              ])}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {renderNumber('base_value', 'Valor Base (R$)')}
+              {renderNumber('included_hours', 'Franquia Horas')}
+              {renderNumber('included_km', 'Franquia KM')}
+              {renderNumber('extra_hour_rate', 'R$ Hora Extra')}
+              {renderNumber('extra_km_rate', 'R$ KM Extra')}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="effective_from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vigência Início *</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effective_to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vigência Fim</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="flex-1"
+                disabled={isLoading}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1" disabled={isLoading}>
+                {isLoading ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Pencil, Trash2, BadgeDollarSign } from 'lucide-react';
+import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
+import { PricingRuleDialog } from './PricingRuleDialog';
+import type { PricingRule } from '@/lib/pricingUtils';
+
+const SERVICE_TYPE_LABELS: Record<string, string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acomp. Logístico',
+  sindicancia: 'Sindicância',
+};
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface PricingRulesSectionProps {
+  plans: Option[];
+}
+
+const formatCurrency = (value: number) =>
+  Number(value).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const formatDate = (value: string) => format(parseISO(value), 'dd/MM/yyyy');
+
+export function PricingRulesSection({ plans }: PricingRulesSectionProps) {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [clients, setClients] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
+
+  // Delete state
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<string | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+    fetchClients();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .order('target')
+        .order('effective_from', { ascending: false });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Erro ao buscar regras de preço:', error);
+      toast.error('Erro ao carregar tabela de preços');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchClients = async () => {
+    const { data } = await supabase.from('clients').select('id, name').order('name');
+    if (data) setClients(data);
+  };
+
+  const handleNew = () => {
+    setSelectedRuleId(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (ruleId: string) => {
+    setSelectedRuleId(ruleId);
+    setDialogOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+
+    setDeleteLoading(true);
+    try {
+      const { error } = await supabase.from('pricing_rules').delete().eq('id', ruleToDelete);
+      if (error) throw error;
+
+      toast.success('Regra de preço excluída');
+      setRules(rules.filter(r => r.id !== ruleToDelete));
+    } catch (error) {
+      console.error('Erro ao excluir regra de preço:', error);
+      toast.error('Erro ao excluir regra de preço');
+    } finally {
+      setDeleteLoading(false);
+      setDeleteDialogOpen(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const describeScope = (rule: PricingRule) => {
+    const parts: string[] = [];
+    if (rule.client_id) parts.push(clients.find(c => c.id === rule.client_id)?.name || 'Cliente');
+    if (rule.plan_id) parts.push(plans.find(p => p.id === rule.plan_id)?.name || 'Plano');
+    if (rule.service_type) parts.push(SERVICE_TYPE_LABELS[rule.service_type] || rule.service_type);
+    if (rule.agent_role) parts.push(rule.agent_role === 'principal' ? 'Principal' : 'Apoio');
+    if (rule.is_armed !== null) parts.push(rule.is_armed ? 'Armado' : 'Desarmado');
+    return parts.length > 0 ? parts.join(' · ') : 'Todos';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-sm text-muted-foreground">
+          Valores de faturamento e honorário por plano, serviço, cliente e função do agente.
+        </p>
+        <Button onClick={handleNew}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Regra
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+        </div>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <BadgeDollarSign className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium text-foreground mb-2">Nenhuma regra de preço cadastrada</p>
+            <p className="text-sm text-muted-foreground">Sem regras, os cálculos usam os valores padrão do sistema</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Aplicação</TableHead>
+                  <TableHead>Escopo</TableHead>
+                  <TableHead className="text-right">Base</TableHead>
+                  <TableHead className="text-right">Franquia</TableHead>
+                  <TableHead className="text-right">Extras</TableHead>
+                  <TableHead>Vigência</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <Badge variant={rule.target === 'cliente' ? 'default' : 'secondary'}>
+                        {rule.target === 'cliente' ? 'Faturamento' : 'Honorário'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium text-sm">{describeScope(rule)}</p>
+                      {rule.name && <p className="text-xs text-muted-foreground">{rule.name}</p>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatCurrency(rule.base_value)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {Number(rule.included_hours)}h / {Number(rule.included_km)}km
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">
+                      {formatCurrency(rule.extra_hour_rate)}/h · {formatCurrency(rule.extra_km_rate)}/km
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {formatDate(rule.effective_from)} — {rule.effective_to ? formatDate(rule.effective_to) : 'atual'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(rule.id)}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                          onClick={() => {
+                            setRuleToDelete(rule.id);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PricingRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        ruleId={selectedRuleId}
+        onSuccess={fetchRules}
+        plans={plans}
+        clients={clients}
+      />
+
+      <DeleteAlertDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={handleConfirmDelete}
+        title="Excluir Regra de Preço"
+        description="Tem certeza que deseja excluir esta regra? Chamados novos passarão a usar a próxima regra aplicável."
+        loading={deleteLoading}
+      />
+    </div>
+  );
+}
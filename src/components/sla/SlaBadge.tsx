@@ -0,0 +1,27 @@
+import { AlertTriangle, Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { SLA_STATUS_COLORS, SLA_STATUS_LABELS, formatSlaMinutes, type SlaEvaluation } from '@/lib/sla';
+
+interface SlaBadgeProps {
+  evaluation: SlaEvaluation | null;
+}
+
+const describe = (evaluation: SlaEvaluation) =>
+  [
+    evaluation.arrival && `Chegada: ${formatSlaMinutes(evaluation.arrival.minutes)} de ${formatSlaMinutes(evaluation.arrival.limit)}`,
+    evaluation.duration && `Duração: ${formatSlaMinutes(evaluation.duration.minutes)} de ${formatSlaMinutes(evaluation.duration.limit)}`,
+    `Regra: ${evaluation.rule.name}`,
+  ].filter(Boolean).join('\n');
+
+/** Flags tickets at risk of, or in breach of, their SLA; renders nothing otherwise. */
+export function SlaBadge({ evaluation }: SlaBadgeProps) {
+  if (!evaluation || (evaluation.status !== 'em_risco' && evaluation.status !== 'violado')) return null;
+  const Icon = evaluation.status === 'violado' ? AlertTriangle : Timer;
+
+  return (
+    <Badge variant="outline" className={SLA_STATUS_COLORS[evaluation.status]} title={describe(evaluation)}>
+      <Icon className="h-3 w-3 mr-1" />
+      {SLA_STATUS_LABELS[evaluation.status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,302 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { SERVICE_TYPE_LABELS } from '@/lib/operationalGoals';
+
+type ServiceType = Database['public']['Enums']['service_type'];
+
+// Radix Select does not accept empty values, so "any" is stored in the form as this sentinel
+const ANY = 'todos';
+
+const minutesField = z.string().refine(
+  (value) => value.trim() === '' || (Number.isInteger(Number(value)) && Number(value) > 0),
+  'Informe um número inteiro de minutos'
+);
+
+const ruleSchema = z.object({
+  name: z.string().min(1, 'Nome é obrigatório').max(100),
+  client_id: z.string(),
+  plan_id: z.string(),
+  service_type: z.string(),
+  state: z.string().refine((value) => value === '' || /^[A-Z]{2}$/.test(value), 'Use a sigla do estado (ex.: SP)'),
+  max_arrival_minutes: minutesField,
+  max_duration_minutes: minutesField,
+  active: z.boolean(),
+}).refine(
+  (data) => data.client_id !== ANY || data.plan_id !== ANY,
+  { message: 'Vincule a regra a um cliente ou a um plano', path: ['client_id'] }
+).refine(
+  (data) => data.max_arrival_minutes.trim() !== '' || data.max_duration_minutes.trim() !== '',
+  { message: 'Informe ao menos um prazo', path: ['max_arrival_minutes'] }
+);
+
+type RuleFormData = z.infer<typeof ruleSchema>;
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface SlaRuleDialogProps {
+  ruleId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  plans: Option[];
+  clients: Option[];
+}
+
+const emptyValues = (): RuleFormData => ({
+  name: '',
+  client_id: ANY,
+  plan_id: ANY,
+  service_type: ANY,
+  state: '',
+  max_arrival_minutes: '',
+  max_duration_minutes: '',
+  active: true,
+});
+
+const toMinutes = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export function SlaRuleDialog({ ruleId, open, onOpenChange, onSuccess, plans, clients }: SlaRuleDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: emptyValues(),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    if (ruleId) {
+      fetchRule();
+    } else {
+      form.reset(emptyValues());
+    }
+  }, [ruleId, open]);
+
+  const fetchRule = async () => {
+    if (!ruleId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('sla_rules')
+        .select('*')
+        .eq('id', ruleId)
+        .single();
+
+      if (error) throw error;
+
+      form.reset({
+        name: data.name,
+        client_id: data.client_id || ANY,
+        plan_id: data.plan_id || ANY,
+        service_type: data.service_type || ANY,
+        state: data.state || '',
+        max_arrival_minutes: data.max_arrival_minutes?.toString() ?? '',
+        max_duration_minutes: data.max_duration_minutes?.toString() ?? '',
+        active: data.active,
+      });
+    } catch (error) {
+      console.error('Erro ao carregar regra de SLA:', error);
+      toast.error('Erro ao carregar regra de SLA');
+    }
+  };
+
+  const onSubmit = async (data: RuleFormData) => {
+    setIsLoading(true);
+    try {
+      const payload = {
+        name: data.name,
+        client_id: data.client_id === ANY ? null : data.client_id,
+        plan_id: data.plan_id === ANY ? null : data.plan_id,
+        service_type: data.service_type === ANY ? null : data.service_type as ServiceType,
+        state: data.state || null,
+        max_arrival_minutes: toMinutes(data.max_arrival_minutes),
+        max_duration_minutes: toMinutes(data.max_duration_minutes),
+        active: data.active,
+      };
+
+      const { error } = ruleId
+        ? await supabase.from('sla_rules').update(payload).eq('id', ruleId)
+        : await supabase.from('sla_rules').insert(payload);
+
+      if (error) throw error;
+
+      toast.success(ruleId ? 'Regra de SLA atualizada!' : 'Regra de SLA cadastrada!');
+      onOpenChange(false);
+      onSuccess();
+    } catch (error: any) {
+      console.error('Erro ao salvar regra de SLA:', error);
+      toast.error('Erro ao salvar regra de SLA', { description: error?.message });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderSelect = (
+    name: 'client_id' | 'plan_id' | 'service_type',
+    label: string,
+    options: { value: string; label: string }[]
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={ANY}>Qualquer</SelectItem>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderMinutes = (name: 'max_arrival_minutes' | 'max_duration_minutes', label: string, description: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" min={1} inputMode="numeric" {...field} />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{ruleId ? 'Editar Regra de SLA' : 'Nova Regra de SLA'}</DialogTitle>
+          <DialogDescription>
+            Vincule a regra a um cliente e/ou plano. Campos em "Qualquer" valem para todos; a regra ativa mais específica é aplicada ao chamado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nome *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex: Contrato Transportadora X - Capital" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderSelect('client_id', 'Cliente', clients.map((c) => ({ value: c.id, label: c.name })))}
+              {renderSelect('plan_id', 'Plano', plans.map((p) => ({ value: p.id, label: p.name })))}
+              {renderSelect('service_type', 'Tipo de Serviço', Object.entries(SERVICE_TYPE_LABELS).map(([value, label]) => ({ value, label })))}
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Estado (UF)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Qualquer"
+                        maxLength={2}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderMinutes('max_arrival_minutes', 'Prazo de chegada (min)', 'Do início do chamado à chegada do agente principal')}
+              {renderMinutes('max_duration_minutes', 'Duração máxima (min)', 'Do início ao encerramento do chamado')}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <FormLabel>Regra ativa</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="flex-1"
+                disabled={isLoading}
+              >
+                Cancelar
+              </Button>
+              <Button type="submit" className="flex-1" disabled={isLoading}>
+                {isLoading ? 'Salvando...' : 'Salvar'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,4 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 
@@ -15,6 +14,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Camera, Upload, X, Loader2 } from 'lucide-react';
+import { uploadTicketPhoto } from '@/lib/ticketPhotos';
 
 interface PhotoGroup {
   files: { file: File; preview: string }[];
@@ -138,27 +138,11 @@ export function AddPhotosDialog({ ticketId, open, onOpenChange, onSuccess }: Add
     try {
       for (const group of groups) {
         for (const photo of group.files) {
-          const fileName = `${ticketId}/${Date.now()}-${photo.file.name}`;
-
-          const { error: uploadError } = await supabase.storage
-            .from('ticket-photos')
-            .upload(fileName, photo.file);
-
-          if (uploadError) {
+          try {
+            await uploadTicketPhoto({ ticketId, file: photo.file, caption: group.caption || null, userId: user.id });
+          } catch (uploadError) {
             console.error('Erro ao fazer upload:', uploadError);
-            continue;
           }
-
-          const { data: urlData } = supabase.storage
-            .from('ticket-photos')
-            .getPublicUrl(fileName);
-
-          await supabase.from('ticket_photos').insert({
-            ticket_id: ticketId,
-            file_url: urlData.publicUrl,
-            caption: group.caption || null,
-            uploaded_by_user_id: user.id,
-          });
         }
       }
 
@@ -0,0 +1,62 @@
+import { useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, Polyline, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+interface AgentApproachMapProps {
+  positions: { latitude: number; longitude: number; recorded_at: string }[];
+  destination: { lat: number; lng: number } | null;
+}
+
+const dotIcon = (color: string, size: number) =>
+  L.divIcon({
+    className: 'custom-icon',
+    html: `<div style="
+      background-color: ${color};
+      width: ${size}px;
+      height: ${size}px;
+      border-radius: 50%;
+      border: 3px solid white;
+      box-shadow: 0 0 10px rgba(0,0,0,0.3);
+    "></div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+
+const agentIcon = dotIcon('#0ea5e9', 18); // sky-500
+const destinationIcon = dotIcon('#ef4444', 14); // red-500
+
+const FitBounds = ({ points }: { points: [number, number][] }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length > 0) {
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 15 });
+    }
+  }, [points, map]);
+  return null;
+};
+
+/** Read-only map for the public tracking page: the main agent's trail toward the occurrence. */
+export function AgentApproachMap({ positions, destination }: AgentApproachMapProps) {
+  const trail = positions.map(p => [p.latitude, p.longitude] as [number, number]);
+  const current = trail[trail.length - 1];
+  const points = destination ? [...trail, [destination.lat, destination.lng] as [number, number]] : trail;
+
+  return (
+    <MapContainer
+      center={current}
+      zoom={13}
+      style={{ height: '100%', width: '100%' }}
+      scrollWheelZoom={false}
+    >
+      <TileLayer
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      />
+      <FitBounds points={points} />
+      <Polyline positions={trail} pathOptions={{ color: '#0ea5e9', weight: 4, opacity: 0.7 }} />
+      {destination && <Marker position={[destination.lat, destination.lng]} icon={destinationIcon} />}
+      <Marker position={current} icon={agentIcon} />
+    </MapContainer>
+  );
+}
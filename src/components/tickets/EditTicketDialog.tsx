@@ -52,7 +52,22 @@ import {
 import { cn } from '@/lib/utils';
 import { AgentMap } from '@/components/agents/AgentMap';
 import { MapPin, Search, Loader2, Upload, X, Camera, Trash2, Check, ChevronsUpDown, Plus } from 'lucide-react';
-import { ALARME_PRICING, ALARME_CLIENT_PRICING, ARMED_PRICING, UNARMED_PRICING, getIsArmedByPlan } from '@/lib/pricingUtils';
+import { fetchPricingRules, getEffectiveServiceType, resolvePricing, type PricingRule } from '@/lib/pricingUtils';
+import {
+  getIsArmedByPlan,
+  getSlotRequirement,
+  validatePlanCrew,
+  ARMED_REQUIREMENT_LABELS,
+  PLAN_COMPOSITION_COLUMNS,
+  type PlanComposition,
+} from '@/lib/planUtils';
+import {
+  getAllowedStatuses,
+  transitionRequiresNote,
+  TICKET_STATUS_LABELS,
+  type TicketStatus,
+} from '@/lib/ticketStatus';
+import { deleteTicketPhoto, photoThumbnailUrl, uploadTicketPhoto } from '@/lib/ticketPhotos';
 
 // Converts a UTC ISO string from Supabase to a local datetime-local input value (YYYY-MM-DDTHH:mm)
 // WITHOUT re-converting to UTC — preserves the local (BRT) time the user entered
@@ -86,6 +101,7 @@ const optionalNumber = z.preprocess(
 
 const ticketSchema = z.object({
   status: z.enum(['aberto', 'em_andamento', 'finalizado', 'cancelado']),
+  status_note: z.string().max(500).optional(),
   client_id: z.string().min(1, 'Cliente é obrigatório'),
   vehicle_id: z.string().min(1, 'Veículo é obrigatório'),
   main_agent_id: z.string().min(1, 'Selecione um agente'),
@@ -159,7 +175,7 @@ interface Agent {
   is_armed: boolean | null;
 }
 
-interface Plan {
+interface Plan extends PlanComposition {
   id: string;
   name: string;
 }
@@ -171,7 +187,9 @@ interface Operator {
 
 interface ExistingPhoto {
   id: string;
+  ticket_id: string;
   file_url: string;
+  thumbnail_url: string | null;
   caption: string | null;
 }
 
@@ -199,12 +217,12 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
   const [agents, setAgents] = useState<Agent[]>([]);
   const [plans, setPlans] = useState<Plan[]>([]);
   const [operators, setOperators] = useState<Operator[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [originalStatus, setOriginalStatus] = useState<TicketStatus>('aberto');
   const [existingPhotos, setExistingPhotos] = useState<ExistingPhoto[]>([]);
   const [newPhotoGroups, setNewPhotoGroups] = useState<PhotoToUploadGroup[]>([]);
   const [openMainAgent, setOpenMainAgent] = useState(false);
   const [openClient, setOpenClient] = useState(false);
-  const [openSupport1, setOpenSupport1] = useState(false);
-  const [openSupport2, setOpenSupport2] = useState(false);
   const [isMapDialogOpen, setIsMapDialogOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
 
@@ -212,6 +230,7 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
     resolver: zodResolver(ticketSchema),
     defaultValues: {
       status: 'aberto',
+      status_note: '',
       client_id: '',
       vehicle_id: '',
       main_agent_id: '',
@@ -256,6 +275,9 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
   });
 
   const selectedClientId = form.watch('client_id');
+  const watchedStatus = form.watch('status');
+  const statusNeedsNote = transitionRequiresNote(originalStatus, watchedStatus);
+  const selectedPlan = plans.find(p => p.id === form.watch('plan_id')) || null;
   const coordLat = form.watch('coordinates_lat');
   const coordLng = form.watch('coordinates_lng');
 
@@ -354,12 +376,13 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
 
   const fetchData = async () => {
     try {
-      const [clientsRes, vehiclesRes, agentsRes, plansRes, operatorsRes] = await Promise.all([
+      const [clientsRes, vehiclesRes, agentsRes, plansRes, operatorsRes, rulesData] = await Promise.all([
         supabase.from('clients').select('id, name').order('name'),
         supabase.from('vehicles').select('id, description, client_id, plate_main'),
         supabase.from('agents').select('id, name, is_armed').eq('status', 'ativo').order('name'),
-        supabase.from('plans').select('id, name').order('name'),
+        supabase.from('plans').select(`id, name, ${PLAN_COMPOSITION_COLUMNS}`).order('name'),
         (supabase.from('operators' as any) as any).select('id, name').eq('active', true).order('name'),
+        fetchPricingRules(),
       ]);
 
       if (clientsRes.data) setClients(clientsRes.data);
@@ -367,11 +390,26 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
       if (agentsRes.data) setAgents(agentsRes.data);
       if (plansRes.data) setPlans(plansRes.data);
       if (operatorsRes.data) setOperators(operatorsRes.data);
+      setPricingRules(rulesData);
     } catch (error) {
       console.error('Erro ao buscar dados:', error);
     }
   };
 
+  const getAgentRates = (ticket: any, agentId: string, agentRole: string) => {
+    const plan = plans.find(p => p.id === ticket.plan_id);
+    const agentIsArmed = !!agents.find(a => a.id === agentId)?.is_armed;
+    return resolvePricing(pricingRules, {
+      target: 'agente',
+      planId: ticket.plan_id,
+      serviceType: getEffectiveServiceType(plan, ticket.service_type),
+      clientId: ticket.client_id,
+      agentRole,
+      isArmed: getIsArmedByPlan(plan, agentRole, agentIsArmed),
+      date: ticket.start_datetime,
+    });
+  };
+
   const fetchTicket = async () => {
     if (!ticketId) return;
 
@@ -415,8 +453,9 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
 
       if (data) {
         const ticket = data as any;
+        const mainAgentRates = getAgentRates(ticket, ticket.main_agent_id, 'principal');
         // Construct array from separate query result
-        const supportAgents = (supportAgentsData || [])?.map((sa: any) => ({
+        const supportAgents = (supportAgentsData || [])?.map((sa: any, index: number) => ({
           id: sa.id,
           agent_id: sa.agent_id,
           arrival: toLocalInput(sa.arrival),
@@ -426,17 +465,19 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
           toll_cost: sa.toll_cost || 0,
           food_cost: sa.food_cost || 0,
           other_costs: sa.other_costs || 0,
-          compensation_base_value: sa.compensation_base_value !== null ? sa.compensation_base_value : (data.service_type === 'alarme' ? ALARME_PRICING.base : (agents.find(a => a.id === sa.agent_id)?.is_armed ? ARMED_PRICING.base : UNARMED_PRICING.base)),
-          compensation_included_hours: sa.compensation_included_hours !== null ? sa.compensation_included_hours : (data.service_type === 'alarme' ? ALARME_PRICING.includedHours : (agents.find(a => a.id === sa.agent_id)?.is_armed ? ARMED_PRICING.includedHours : UNARMED_PRICING.includedHours)),
-          compensation_included_km: sa.compensation_included_km !== null ? sa.compensation_included_km : (data.service_type === 'alarme' ? ALARME_PRICING.includedKm : (agents.find(a => a.id === sa.agent_id)?.is_armed ? ARMED_PRICING.includedKm : UNARMED_PRICING.includedKm)),
-          compensation_extra_hour_rate: sa.compensation_extra_hour_rate !== null ? sa.compensation_extra_hour_rate : (data.service_type === 'alarme' ? ALARME_PRICING.extraHourRate : (agents.find(a => a.id === sa.agent_id)?.is_armed ? ARMED_PRICING.extraHourRate : UNARMED_PRICING.extraHourRate)),
-          compensation_extra_km_rate: sa.compensation_extra_km_rate !== null ? sa.compensation_extra_km_rate : (data.service_type === 'alarme' ? ALARME_PRICING.extraKmRate : (agents.find(a => a.id === sa.agent_id)?.is_armed ? ARMED_PRICING.extraKmRate : UNARMED_PRICING.extraKmRate)),
+          compensation_base_value: sa.compensation_base_value !== null ? sa.compensation_base_value : getAgentRates(ticket, sa.agent_id, `apoio_${index + 1}`).base,
+          compensation_included_hours: sa.compensation_included_hours !== null ? sa.compensation_included_hours : getAgentRates(ticket, sa.agent_id, `apoio_${index + 1}`).includedHours,
+          compensation_included_km: sa.compensation_included_km !== null ? sa.compensation_included_km : getAgentRates(ticket, sa.agent_id, `apoio_${index + 1}`).includedKm,
+          compensation_extra_hour_rate: sa.compensation_extra_hour_rate !== null ? sa.compensation_extra_hour_rate : getAgentRates(ticket, sa.agent_id, `apoio_${index + 1}`).extraHourRate,
+          compensation_extra_km_rate: sa.compensation_extra_km_rate !== null ? sa.compensation_extra_km_rate : getAgentRates(ticket, sa.agent_id, `apoio_${index + 1}`).extraKmRate,
           compensation_total: sa.compensation_total,
         })) || [];
 
 
+        setOriginalStatus(ticket.status);
         form.reset({
           status: ticket.status,
+          status_note: '',
           client_id: ticket.client_id,
           vehicle_id: ticket.vehicle_id,
           main_agent_id: ticket.main_agent_id,
@@ -466,11 +507,11 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
           revenue_extra_km_rate: ticket.revenue_extra_km_rate !== null ? Number(ticket.revenue_extra_km_rate) : 2.50,
           revenue_discount_addition: ticket.revenue_discount_addition !== null ? Number(ticket.revenue_discount_addition) : 0.00,
           revenue_total: ticket.revenue_total !== null ? Number(ticket.revenue_total) : 500.00,
-          main_agent_compensation_base_value: ticket.main_agent_compensation_base_value !== null ? Number(ticket.main_agent_compensation_base_value) : (ticket.service_type === 'alarme' ? ALARME_PRICING.base : (agents.find(a => a.id === ticket.main_agent_id)?.is_armed ? ARMED_PRICING.base : UNARMED_PRICING.base)),
-          main_agent_compensation_included_hours: ticket.main_agent_compensation_included_hours !== null ? Number(ticket.main_agent_compensation_included_hours) : (ticket.service_type === 'alarme' ? ALARME_PRICING.includedHours : (agents.find(a => a.id === ticket.main_agent_id)?.is_armed ? ARMED_PRICING.includedHours : UNARMED_PRICING.includedHours)),
-          main_agent_compensation_included_km: ticket.main_agent_compensation_included_km !== null ? Number(ticket.main_agent_compensation_included_km) : (ticket.service_type === 'alarme' ? ALARME_PRICING.includedKm : (agents.find(a => a.id === ticket.main_agent_id)?.is_armed ? ARMED_PRICING.includedKm : UNARMED_PRICING.includedKm)),
-          main_agent_compensation_extra_hour_rate: ticket.main_agent_compensation_extra_hour_rate !== null ? Number(ticket.main_agent_compensation_extra_hour_rate) : (ticket.service_type === 'alarme' ? ALARME_PRICING.extraHourRate : (agents.find(a => a.id === ticket.main_agent_id)?.is_armed ? ARMED_PRICING.extraHourRate : UNARMED_PRICING.extraHourRate)),
-          main_agent_compensation_extra_km_rate: ticket.main_agent_compensation_extra_km_rate !== null ? Number(ticket.main_agent_compensation_extra_km_rate) : (ticket.service_type === 'alarme' ? ALARME_PRICING.extraKmRate : (agents.find(a => a.id === ticket.main_agent_id)?.is_armed ? ARMED_PRICING.extraKmRate : UNARMED_PRICING.extraKmRate)),
+          main_agent_compensation_base_value: ticket.main_agent_compensation_base_value !== null ? Number(ticket.main_agent_compensation_base_value) : mainAgentRates.base,
+          main_agent_compensation_included_hours: ticket.main_agent_compensation_included_hours !== null ? Number(ticket.main_agent_compensation_included_hours) : mainAgentRates.includedHours,
+          main_agent_compensation_included_km: ticket.main_agent_compensation_included_km !== null ? Number(ticket.main_agent_compensation_included_km) : mainAgentRates.includedKm,
+          main_agent_compensation_extra_hour_rate: ticket.main_agent_compensation_extra_hour_rate !== null ? Number(ticket.main_agent_compensation_extra_hour_rate) : mainAgentRates.extraHourRate,
+          main_agent_compensation_extra_km_rate: ticket.main_agent_compensation_extra_km_rate !== null ? Number(ticket.main_agent_compensation_extra_km_rate) : mainAgentRates.extraKmRate,
           main_agent_compensation_total: ticket.main_agent_compensation_total !== null ? Number(ticket.main_agent_compensation_total) : 0,
         });
       }
@@ -486,7 +527,7 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
     try {
       const { data, error } = await supabase
         .from('ticket_photos')
-        .select('id, file_url, caption')
+        .select('id, ticket_id, file_url, thumbnail_url, caption')
         .eq('ticket_id', ticketId)
         .order('created_at');
 
@@ -497,36 +538,10 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
     }
   };
 
-  const handlePhotoDelete = async (photoId: string, fileUrl: string) => {
+  const handlePhotoDelete = async (photo: ExistingPhoto) => {
     try {
-      // Extract the storage path from the full URL
-      // URL format: https://xxx.supabase.co/storage/v1/object/public/ticket-photos/TICKET_ID/filename
-      const bucketName = 'ticket-photos';
-      const bucketMarker = `/public/${bucketName}/`;
-      const bucketIndex = fileUrl.indexOf(bucketMarker);
-      const storagePath = bucketIndex >= 0
-        ? fileUrl.slice(bucketIndex + bucketMarker.length)
-        : `${ticketId}/${fileUrl.split('/').pop()}`;
-
-      // Delete from storage
-      const { error: storageError } = await supabase.storage
-        .from(bucketName)
-        .remove([storagePath]);
-
-      if (storageError) {
-        console.error('Erro ao remover do storage:', storageError);
-        // Continue to delete DB record even if storage fails
-      }
-
-      // Delete from DB
-      const { error } = await supabase
-        .from('ticket_photos')
-        .delete()
-        .eq('id', photoId);
-
-      if (error) throw error;
-
-      setExistingPhotos(prev => prev.filter(p => p.id !== photoId));
+      await deleteTicketPhoto(photo);
+      setExistingPhotos(prev => prev.filter(p => p.id !== photo.id));
       toast.success('Foto removida com sucesso');
     } catch (error) {
       console.error('Erro ao remover foto:', error);
@@ -670,26 +685,11 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
 
     for (const group of newPhotoGroups) {
       for (const photo of group.files) {
-        const fileName = `${ticketId}/${Date.now()}-${photo.file.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from('ticket-photos')
-          .upload(fileName, photo.file);
-
-        if (uploadError) {
+        try {
+          await uploadTicketPhoto({ ticketId, file: photo.file, caption: group.caption || null, userId: user.id });
+        } catch (uploadError) {
           console.error('Erro ao fazer upload:', uploadError);
-          continue;
         }
-
-        const { data: urlData } = supabase.storage
-          .from('ticket-photos')
-          .getPublicUrl(fileName);
-
-        await supabase.from('ticket_photos').insert({
-          ticket_id: ticketId,
-          file_url: urlData.publicUrl,
-          caption: group.caption || null,
-          uploaded_by_user_id: user.id,
-        });
       }
     }
   };
@@ -709,9 +709,38 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
       }
     }
 
+    if (transitionRequiresNote(originalStatus, data.status) && !data.status_note?.trim()) {
+      toast.error('Informe o motivo da alteração de status');
+      return false;
+    }
+
+    const plan = plans.find(p => p.id === data.plan_id);
+    const crew = [
+      { agent_id: data.main_agent_id, role: 'principal' },
+      ...(data.support_agents || []).map((sa, index) => ({ agent_id: sa.agent_id, role: `apoio_${index + 1}` })),
+    ].map(({ agent_id, role }) => {
+      const agent = agents.find(a => a.id === agent_id);
+      return { role, isArmed: agent?.is_armed, name: agent?.name };
+    });
+    const crewError = validatePlanCrew(plan, crew);
+    if (crewError) {
+      toast.error(crewError);
+      return false;
+    }
+
     return true;
   };
 
+  const renderSlotRequirement = (role: string) => {
+    const requirement = getSlotRequirement(selectedPlan, role);
+    if (requirement === 'indiferente') return null;
+    return (
+      <span className="ml-2 font-normal normal-case text-xs text-muted-foreground">
+        ({ARMED_REQUIREMENT_LABELS[requirement]})
+      </span>
+    );
+  };
+
   const onSubmit = async (data: TicketFormData) => {
     if (!ticketId) return;
 
@@ -730,6 +759,7 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
         .from('tickets')
         .update({
           status: data.status,
+          status_change_note: data.status !== originalStatus ? data.status_note?.trim() || null : null,
           client_id: data.client_id,
           vehicle_id: data.vehicle_id,
           main_agent_id: data.main_agent_id,
@@ -915,10 +945,9 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="aberto">Aberto</SelectItem>
-                              <SelectItem value="em_andamento">Em Andamento</SelectItem>
-                              <SelectItem value="finalizado">Finalizado</SelectItem>
-                              <SelectItem value="cancelado">Cancelado</SelectItem>
+                              {getAllowedStatuses(originalStatus).map((status) => (
+                                <SelectItem key={status} value={status}>{TICKET_STATUS_LABELS[status]}</SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -926,6 +955,27 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
                       )}
                     />
 
+                    {statusNeedsNote && (
+                      <FormField
+                        control={form.control}
+                        name="status_note"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Motivo da alteração de status *</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                placeholder={`Por que o chamado passa de ${TICKET_STATUS_LABELS[originalStatus]} para ${TICKET_STATUS_LABELS[watchedStatus]}?`}
+                                className="resize-none"
+                                rows={2}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     <FormField
                       control={form.control}
                       name="client_id"
@@ -1223,7 +1273,10 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
                       {/* Agente Principal */}
                       <div className="space-y-4 p-4 border rounded-lg bg-primary/5 border-primary/20">
                         <div className="flex items-center justify-between">
-                          <h4 className="font-bold text-sm text-primary uppercase tracking-wider">Agente Principal</h4>
+                          <h4 className="font-bold text-sm text-primary uppercase tracking-wider">
+                            Agente Principal
+                            {renderSlotRequirement('principal')}
+                          </h4>
                           <Button
                             type="button"
                             variant="ghost"
@@ -1488,7 +1541,10 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
                               <Trash2 className="h-4 w-4" />
                             </Button>
 
-                            <h5 className="font-bold text-xs text-muted-foreground uppercase tracking-wider">Apoio {index + 1}</h5>
+                            <h5 className="font-bold text-xs text-muted-foreground uppercase tracking-wider">
+                              Apoio {index + 1}
+                              {renderSlotRequirement(`apoio_${index + 1}`)}
+                            </h5>
 
                             <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
                               <FormField
@@ -1754,7 +1810,7 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
                                 {group.photos.map((photo) => (
                                   <div key={photo.id} className="relative group aspect-[4/3]">
                                     <img
-                                      src={photo.file_url}
+                                      src={photoThumbnailUrl(photo)}
                                       alt={photo.caption || 'Foto do chamado'}
                                       className="w-full h-full object-cover rounded-lg border"
                                     />
@@ -1763,7 +1819,7 @@ export function EditTicketDialog({ ticketId, open, onOpenChange, onSuccess }: Ed
                                       variant="destructive"
                                       size="icon"
                                       className="absolute -top-2 -right-2 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                                      onClick={() => handlePhotoDelete(photo.id, photo.file_url)}
+                                      onClick={() => handlePhotoDelete(photo)}
                                     >
                                       <Trash2 className="h-3 w-3" />
                                     </Button>
@@ -8,7 +8,17 @@ import { useUserRole } from "@/hooks/useUserRole";
 import { useGeocoding } from "@/hooks/useGeocoding";
 import { toast } from 'sonner';
 import { format } from 'date-fns';
-import { ALARME_PRICING, ALARME_CLIENT_PRICING, ARMED_PRICING, UNARMED_PRICING, getIsArmedByPlan } from '@/lib/pricingUtils';
+import { fetchPricingRules, getEffectiveServiceType, resolvePricing, type PricingRule } from '@/lib/pricingUtils';
+import { rankAgentsForTicket, RANKABLE_AGENT_COLUMNS, type RankableAgent } from '@/lib/agentRanking';
+import { uploadTicketPhoto } from '@/lib/ticketPhotos';
+import {
+  getIsArmedByPlan,
+  getSlotRequirement,
+  validatePlanCrew,
+  ARMED_REQUIREMENT_LABELS,
+  PLAN_COMPOSITION_COLUMNS,
+  type PlanComposition,
+} from '@/lib/planUtils';
 
 import {
   Dialog,
@@ -19,6 +29,7 @@ import {
 } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
@@ -54,6 +65,17 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 
+const emptySupportAgent = () => ({
+  agent_id: '',
+  arrival: '',
+  departure: '',
+  km_start: 0,
+  km_end: 0,
+  toll_cost: 0,
+  food_cost: 0,
+  other_costs: 0
+});
+
 // Converts a datetime-local string (YYYY-MM-DDTHH:mm) to a UTC ISO string
 // using the browser's actual local timezone — works correctly for BRT and any other timezone
 const toSupabaseTimestamp = (localStr: string | null | undefined): string | null => {
@@ -132,16 +154,12 @@ interface Vehicle {
   client_id: string;
 }
 
-interface Plan {
+interface Plan extends PlanComposition {
   id: string;
   name: string;
 }
 
-interface Agent {
-  id: string;
-  name: string;
-  is_armed: boolean | null;
-}
+type Agent = RankableAgent;
 
 interface Operator {
   id: string;
@@ -160,6 +178,9 @@ interface NewTicketDialogProps {
   initialAgentId?: string;
 }
 
+// How many ranked agents are offered on top of the agent combobox
+const SUGGESTED_AGENTS_LIMIT = 5;
+
 const SERVICE_TYPE_LABELS = {
   alarme: 'Alarme',
   averiguacao: 'Averiguação',
@@ -178,13 +199,13 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
   const [filteredVehicles, setFilteredVehicles] = useState<Vehicle[]>([]);
   const [plans, setPlans] = useState<Plan[]>([]);
   const [agents, setAgents] = useState<Agent[]>([]);
+  const [busyAgentIds, setBusyAgentIds] = useState<Set<string>>(new Set());
   const [operators, setOperators] = useState<Operator[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
   const [photoGroups, setPhotoGroups] = useState<PhotoGroup[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [openAgent, setOpenAgent] = useState(false);
   const [openClient, setOpenClient] = useState(false);
-  const [openSupport1, setOpenSupport1] = useState(false);
-  const [openSupport2, setOpenSupport2] = useState(false);
   const [isMapDialogOpen, setIsMapDialogOpen] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
 
@@ -222,10 +243,24 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
   const selectedClientId = form.watch('client_id');
   const selectedVehicleId = form.watch('vehicle_id');
   const watchedServiceType = form.watch('service_type');
+  const watchedPlanId = form.watch('plan_id');
+  const watchedStartDatetime = form.watch('start_datetime');
   const coordLat = form.watch('coordinates_lat');
   const coordLng = form.watch('coordinates_lng');
 
   const selectedVehicle = filteredVehicles.find(v => v.id === selectedVehicleId);
+  const selectedPlan = plans.find(p => p.id === watchedPlanId) || null;
+
+  // Rank agents around the occurrence once both coordinates are filled in
+  const suggestedAgents = Number.isFinite(coordLat) && Number.isFinite(coordLng)
+    ? rankAgentsForTicket(agents, {
+      lat: coordLat!,
+      lng: coordLng!,
+      serviceType: watchedServiceType,
+      armedRequirement: getSlotRequirement(selectedPlan, 'principal'),
+      busyAgentIds,
+    }).slice(0, SUGGESTED_AGENTS_LIMIT)
+    : [];
 
   const calcDuration = (arrival: string, departure: string): string => {
     if (!arrival || !departure) return '-';
@@ -302,25 +337,40 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
     form.setValue('revenue_total', calculatedRevenueTotal);
   }, [calculatedRevenueTotal, form]);
 
+  // Apply the client's negotiated rates whenever the pricing context changes,
+  // without overwriting values the operator already typed in
   useEffect(() => {
-    if (watchedServiceType !== 'alarme') return;
-
-    const currentBase = Number(form.getValues('revenue_base_value') ?? 0);
-    const currentIncludedHours = Number(form.getValues('revenue_included_hours') ?? 0);
-    const currentExtraHourRate = Number(form.getValues('revenue_extra_hour_rate') ?? 0);
+    if (pricingRules.length === 0) return;
+
+    const rates = resolvePricing(pricingRules, {
+      target: 'cliente',
+      planId: watchedPlanId,
+      serviceType: getEffectiveServiceType(selectedPlan, watchedServiceType),
+      clientId: selectedClientId,
+      date: watchedStartDatetime,
+    });
 
-    if (currentBase === 500) {
-      form.setValue('revenue_base_value', ALARME_CLIENT_PRICING.base, { shouldDirty: true });
-    }
+    const apply = (name: 'revenue_base_value' | 'revenue_included_hours' | 'revenue_included_km' | 'revenue_extra_hour_rate' | 'revenue_extra_km_rate', value: number) => {
+      if (!form.getFieldState(name).isDirty) {
+        form.setValue(name, value);
+      }
+    };
 
-    if (currentIncludedHours === 3) {
-      form.setValue('revenue_included_hours', ALARME_CLIENT_PRICING.includedHours, { shouldDirty: true });
-    }
+    apply('revenue_base_value', rates.base);
+    apply('revenue_included_hours', rates.includedHours);
+    apply('revenue_included_km', rates.includedKm);
+    apply('revenue_extra_hour_rate', rates.extraHourRate);
+    apply('revenue_extra_km_rate', rates.extraKmRate);
+  }, [pricingRules, watchedPlanId, selectedPlan, watchedServiceType, selectedClientId, watchedStartDatetime, form]);
 
-    if (currentExtraHourRate === 90) {
-      form.setValue('revenue_extra_hour_rate', ALARME_CLIENT_PRICING.extraHourRate, { shouldDirty: true });
+  // Open one support slot per crew member the selected plan requires
+  useEffect(() => {
+    if (!selectedPlan) return;
+    const requiredSupport = selectedPlan.agent_count - 1;
+    for (let i = fields.length; i < requiredSupport; i++) {
+      append(emptySupportAgent());
     }
-  }, [watchedServiceType, form]);
+  }, [selectedPlan?.id]);
 
   useEffect(() => {
     if (open) {
@@ -361,8 +411,13 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
     try {
       const { data: clientsData } = await supabase.from('clients').select('id, name, city, state').eq('status', 'ativo').order('name');
       const { data: vehiclesData } = await supabase.from('vehicles').select('id, description, plate_main, client_id');
-      const { data: plansData } = await supabase.from('plans').select('id, name').order('name');
-      const { data: agentsData } = await supabase.from('agents').select('id, name, is_armed').eq('status', 'ativo').order('name');
+      const { data: plansData } = await supabase.from('plans').select(`id, name, ${PLAN_COMPOSITION_COLUMNS}`).order('name');
+      const { data: agentsData } = await supabase.from('agents').select(RANKABLE_AGENT_COLUMNS).eq('status', 'ativo').order('name');
+      const { data: openTicketsData } = await supabase
+        .from('tickets')
+        .select('main_agent_id, ticket_support_agents(agent_id)')
+        .in('status', ['aberto', 'em_andamento']);
+      const rulesData = await fetchPricingRules();
 
       // @ts-ignore - developers might be using a schema where operators is missing from generated types
       const { data: operatorsData } = await (supabase.from('operators' as any)
@@ -374,7 +429,16 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
       if (vehiclesData) setVehicles(vehiclesData);
       if (plansData) setPlans(plansData);
       if (agentsData) setAgents(agentsData);
+      if (openTicketsData) {
+        const busy = new Set<string>();
+        openTicketsData.forEach(t => {
+          busy.add(t.main_agent_id);
+          t.ticket_support_agents.forEach(sa => busy.add(sa.agent_id));
+        });
+        setBusyAgentIds(busy);
+      }
       if (operatorsData) setOperators(operatorsData);
+      setPricingRules(rulesData);
     } catch (error) {
       console.error('Erro ao carregar dados:', error);
       toast.error('Erro ao carregar dados do formulário');
@@ -527,9 +591,47 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
       }
     }
 
+    const plan = plans.find(p => p.id === data.plan_id);
+    const crew = [
+      { agent_id: data.main_agent_id, role: 'principal' },
+      ...(data.support_agents || []).map((sa, index) => ({ agent_id: sa.agent_id, role: `apoio_${index + 1}` })),
+    ].map(({ agent_id, role }) => {
+      const agent = agents.find(a => a.id === agent_id);
+      return { role, isArmed: agent?.is_armed, name: agent?.name };
+    });
+    const crewError = validatePlanCrew(plan, crew);
+    if (crewError) {
+      toast.error(crewError);
+      return false;
+    }
+
     return true;
   };
 
+  const getAgentRates = (data: TicketFormData, agentId: string, agentRole: string) => {
+    const plan = plans.find(p => p.id === data.plan_id);
+    const agentIsArmed = !!agents.find(a => a.id === agentId)?.is_armed;
+    return resolvePricing(pricingRules, {
+      target: 'agente',
+      planId: data.plan_id,
+      serviceType: getEffectiveServiceType(plan, data.service_type),
+      clientId: data.client_id,
+      agentRole,
+      isArmed: getIsArmedByPlan(plan, agentRole, agentIsArmed),
+      date: data.start_datetime,
+    });
+  };
+
+  const renderSlotRequirement = (role: string) => {
+    const requirement = getSlotRequirement(selectedPlan, role);
+    if (requirement === 'indiferente') return null;
+    return (
+      <span className="ml-2 font-normal normal-case text-xs text-muted-foreground">
+        ({ARMED_REQUIREMENT_LABELS[requirement]})
+      </span>
+    );
+  };
+
   const onSubmit = async (data: TicketFormData) => {
     if (!user) {
       toast.error('Usuário não autenticado');
@@ -546,6 +648,8 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
 
     setIsSubmitting(true);
     try {
+      const mainAgentRates = getAgentRates(data, data.main_agent_id, 'principal');
+
       const { data: ticket, error: ticketError } = await supabase
         .from('tickets')
         .insert({
@@ -573,28 +677,18 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
           created_by_user_id: user.id,
           code: null,
           operator_id: data.operator_id && data.operator_id !== 'none' && data.operator_id !== '' ? data.operator_id : null,
-          revenue_base_value: data.service_type === 'alarme'
-            ? (Number(data.revenue_base_value) === 500 ? ALARME_CLIENT_PRICING.base : Number(data.revenue_base_value) || ALARME_CLIENT_PRICING.base)
-            : data.revenue_base_value || 0,
-          revenue_included_hours: data.service_type === 'alarme'
-            ? (Number(data.revenue_included_hours) === 3 ? ALARME_CLIENT_PRICING.includedHours : Number(data.revenue_included_hours) || ALARME_CLIENT_PRICING.includedHours)
-            : data.revenue_included_hours || 0,
-          revenue_included_km: data.service_type === 'alarme'
-            ? Number(data.revenue_included_km) || ALARME_CLIENT_PRICING.includedKm
-            : data.revenue_included_km || 0,
-          revenue_extra_hour_rate: data.service_type === 'alarme'
-            ? (Number(data.revenue_extra_hour_rate) === 90 ? ALARME_CLIENT_PRICING.extraHourRate : Number(data.revenue_extra_hour_rate) || ALARME_CLIENT_PRICING.extraHourRate)
-            : data.revenue_extra_hour_rate || 0,
-          revenue_extra_km_rate: data.service_type === 'alarme'
-            ? Number(data.revenue_extra_km_rate) || ALARME_CLIENT_PRICING.extraKmRate
-            : data.revenue_extra_km_rate || 0,
+          revenue_base_value: data.revenue_base_value || 0,
+          revenue_included_hours: data.revenue_included_hours || 0,
+          revenue_included_km: data.revenue_included_km || 0,
+          revenue_extra_hour_rate: data.revenue_extra_hour_rate || 0,
+          revenue_extra_km_rate: data.revenue_extra_km_rate || 0,
           revenue_discount_addition: data.revenue_discount_addition || 0,
           revenue_total: data.revenue_total || 0,
-          main_agent_compensation_base_value: data.service_type === 'alarme' ? ALARME_PRICING.base : (agents.find(a => a.id === data.main_agent_id)?.is_armed ? ARMED_PRICING.base : UNARMED_PRICING.base),
-          main_agent_compensation_included_hours: data.service_type === 'alarme' ? ALARME_PRICING.includedHours : (agents.find(a => a.id === data.main_agent_id)?.is_armed ? ARMED_PRICING.includedHours : UNARMED_PRICING.includedHours),
-          main_agent_compensation_included_km: data.service_type === 'alarme' ? ALARME_PRICING.includedKm : (agents.find(a => a.id === data.main_agent_id)?.is_armed ? ARMED_PRICING.includedKm : UNARMED_PRICING.includedKm),
-          main_agent_compensation_extra_hour_rate: data.service_type === 'alarme' ? ALARME_PRICING.extraHourRate : (agents.find(a => a.id === data.main_agent_id)?.is_armed ? ARMED_PRICING.extraHourRate : UNARMED_PRICING.extraHourRate),
-          main_agent_compensation_extra_km_rate: data.service_type === 'alarme' ? ALARME_PRICING.extraKmRate : (agents.find(a => a.id === data.main_agent_id)?.is_armed ? ARMED_PRICING.extraKmRate : UNARMED_PRICING.extraKmRate),
+          main_agent_compensation_base_value: mainAgentRates.base,
+          main_agent_compensation_included_hours: mainAgentRates.includedHours,
+          main_agent_compensation_included_km: mainAgentRates.includedKm,
+          main_agent_compensation_extra_hour_rate: mainAgentRates.extraHourRate,
+          main_agent_compensation_extra_km_rate: mainAgentRates.extraKmRate,
         })
         .select()
         .single();
@@ -607,23 +701,26 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
       // Insert support agents (Wrapped in try/catch to allow partial success)
       if (data.support_agents && data.support_agents.length > 0) {
         try {
-          const supportAgentsData = data.support_agents.map(agent => ({
-            ticket_id: ticket.id,
-            agent_id: agent.agent_id,
-            arrival: toSupabaseTimestamp(agent.arrival),
-            departure: toSupabaseTimestamp(agent.departure),
-
-            km_start: agent.km_start || null,
-            km_end: agent.km_end || null,
-            toll_cost: agent.toll_cost || null,
-            food_cost: agent.food_cost || null,
-            other_costs: agent.other_costs || null,
-            compensation_base_value: data.service_type === 'alarme' ? ALARME_PRICING.base : (agents.find(a => a.id === agent.agent_id)?.is_armed ? ARMED_PRICING.base : UNARMED_PRICING.base),
-            compensation_included_hours: data.service_type === 'alarme' ? ALARME_PRICING.includedHours : (agents.find(a => a.id === agent.agent_id)?.is_armed ? ARMED_PRICING.includedHours : UNARMED_PRICING.includedHours),
-            compensation_included_km: data.service_type === 'alarme' ? ALARME_PRICING.includedKm : (agents.find(a => a.id === agent.agent_id)?.is_armed ? ARMED_PRICING.includedKm : UNARMED_PRICING.includedKm),
-            compensation_extra_hour_rate: data.service_type === 'alarme' ? ALARME_PRICING.extraHourRate : (agents.find(a => a.id === agent.agent_id)?.is_armed ? ARMED_PRICING.extraHourRate : UNARMED_PRICING.extraHourRate),
-            compensation_extra_km_rate: data.service_type === 'alarme' ? ALARME_PRICING.extraKmRate : (agents.find(a => a.id === agent.agent_id)?.is_armed ? ARMED_PRICING.extraKmRate : UNARMED_PRICING.extraKmRate),
-          }));
+          const supportAgentsData = data.support_agents.map((agent, index) => {
+            const rates = getAgentRates(data, agent.agent_id, `apoio_${index + 1}`);
+            return {
+              ticket_id: ticket.id,
+              agent_id: agent.agent_id,
+              arrival: toSupabaseTimestamp(agent.arrival),
+              departure: toSupabaseTimestamp(agent.departure),
+
+              km_start: agent.km_start || null,
+              km_end: agent.km_end || null,
+              toll_cost: agent.toll_cost || null,
+              food_cost: agent.food_cost || null,
+              other_costs: agent.other_costs || null,
+              compensation_base_value: rates.base,
+              compensation_included_hours: rates.includedHours,
+              compensation_included_km: rates.includedKm,
+              compensation_extra_hour_rate: rates.extraHourRate,
+              compensation_extra_km_rate: rates.extraKmRate,
+            };
+          });
 
           const { error: supportAgentsError } = await supabase
             .from('ticket_support_agents')
@@ -641,26 +738,11 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
       if (photoGroups.length > 0 && ticket) {
         for (const group of photoGroups) {
           for (const photo of group.files) {
-            const fileName = `${ticket.id}/${Date.now()}-${photo.file.name}`;
-            const { error: uploadError } = await supabase.storage
-              .from('ticket-photos')
-              .upload(fileName, photo.file);
-
-            if (uploadError) {
+            try {
+              await uploadTicketPhoto({ ticketId: ticket.id, file: photo.file, caption: group.caption || null, userId: user.id });
+            } catch (uploadError) {
               console.error('Erro ao fazer upload:', uploadError);
-              continue;
             }
-
-            const { data: urlData } = supabase.storage
-              .from('ticket-photos')
-              .getPublicUrl(fileName);
-
-            await supabase.from('ticket_photos').insert({
-              ticket_id: ticket.id,
-              file_url: urlData.publicUrl,
-              caption: group.caption || null,
-              uploaded_by_user_id: user.id,
-            });
           }
         }
       }
@@ -1019,7 +1101,10 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
                   {/* Agente Principal */}
                   <div className="space-y-4 p-4 border rounded-lg bg-primary/5 border-primary/20">
                     <div className="flex items-center justify-between border-b pb-2 mb-2">
-                      <h4 className="font-bold text-sm text-primary">Agente Principal</h4>
+                      <h4 className="font-bold text-sm text-primary">
+                        Agente Principal
+                        {renderSlotRequirement('principal')}
+                      </h4>
                       <Button
                         type="button"
                         variant="ghost"
@@ -1063,7 +1148,35 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
                                   <CommandInput placeholder="Pesquisar agente..." />
                                   <CommandList>
                                     <CommandEmpty>Agente não encontrado.</CommandEmpty>
-                                    <CommandGroup>
+                                    {suggestedAgents.length > 0 && (
+                                      <CommandGroup heading="Sugeridos (mais próximos)">
+                                        {suggestedAgents.map(({ agent, distanceKm, hasSkill, meetsArmed, isBusy }) => (
+                                          <CommandItem
+                                            key={`suggested-${agent.id}`}
+                                            value={`sugerido ${agent.name}`}
+                                            onSelect={() => {
+                                              form.setValue("main_agent_id", agent.id);
+                                              setOpenAgent(false);
+                                            }}
+                                          >
+                                            <Check
+                                              className={cn(
+                                                "mr-2 h-4 w-4",
+                                                agent.id === field.value ? "opacity-100" : "opacity-0"
+                                              )}
+                                            />
+                                            <span className="flex-1 truncate">{agent.name}</span>
+                                            <span className="ml-2 flex items-center gap-1 shrink-0">
+                                              {!hasSkill && <Badge variant="outline" className="text-[10px] px-1 py-0 text-orange-500 border-orange-500/40">Sem habilidade</Badge>}
+                                              {!meetsArmed && <Badge variant="outline" className="text-[10px] px-1 py-0 text-orange-500 border-orange-500/40">Não armado</Badge>}
+                                              {isBusy && <Badge variant="outline" className="text-[10px] px-1 py-0 text-yellow-500 border-yellow-500/40">Em chamado</Badge>}
+                                              <span className="text-[10px] font-mono text-muted-foreground">{distanceKm.toFixed(1)} km</span>
+                                            </span>
+                                          </CommandItem>
+                                        ))}
+                                      </CommandGroup>
+                                    )}
+                                    <CommandGroup heading={suggestedAgents.length > 0 ? "Todos os agentes" : undefined}>
                                       {agents.map((agent) => (
                                         <CommandItem
                                           key={agent.id}
@@ -1254,16 +1367,7 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
                         type="button"
                         variant="outline"
                         size="sm"
-                        onClick={() => append({
-                          agent_id: '',
-                          arrival: '',
-                          departure: '',
-                          km_start: 0,
-                          km_end: 0,
-                          toll_cost: 0,
-                          food_cost: 0,
-                          other_costs: 0
-                        })}
+                        onClick={() => append(emptySupportAgent())}
                       >
                         + Adicionar Apoio
                       </Button>
@@ -1281,7 +1385,10 @@ export function NewTicketDialog({ open, onOpenChange, onSuccess, initialAgentId
                           <X className="h-4 w-4" />
                         </Button>
 
-                        <h5 className="font-bold text-xs text-muted-foreground uppercase tracking-wider">Apoio {index + 1}</h5>
+                        <h5 className="font-bold text-xs text-muted-foreground uppercase tracking-wider">
+                          Apoio {index + 1}
+                          {renderSlotRequirement(`apoio_${index + 1}`)}
+                        </h5>
 
                         <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
                           <FormField
@@ -14,6 +14,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   FileText,
   MapPin,
@@ -36,8 +37,11 @@ import {
   Link as LinkIcon,
 } from 'lucide-react';
 import { AddPhotosDialog } from './AddPhotosDialog';
+import { TicketStatusTimeline } from './TicketStatusTimeline';
+import { TicketEventTimeline } from './TicketEventTimeline';
 import { useUserRole } from '@/hooks/useUserRole';
 import { generateTicketPDF, type TicketPDFData } from './TicketPDFGenerator';
+import { photoThumbnailUrl } from '@/lib/ticketPhotos';
 
 interface TicketDetailsProps {
   ticketId: string | null;
@@ -55,6 +59,7 @@ interface TicketFull {
   state: string;
   start_datetime: string;
   end_datetime: string | null;
+  updated_at: string;
   coordinates_lat: number | null;
   coordinates_lng: number | null;
   km_start: number | null;
@@ -120,7 +125,11 @@ interface TicketFull {
 interface TicketPhoto {
   id: string;
   file_url: string;
+  thumbnail_url: string | null;
   caption: string | null;
+  taken_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
   created_at: string;
 }
 
@@ -168,6 +177,7 @@ export function TicketDetails({ ticketId, open, onOpenChange, onEdit, onStatusCh
 
   useEffect(() => {
     if (ticketId && open) {
+      setActiveTab('detalhes');
       fetchTicketDetails();
       fetchTicketPhotos();
     }
@@ -281,7 +291,7 @@ export function TicketDetails({ ticketId, open, onOpenChange, onEdit, onStatusCh
       onStatusChange();
     } catch (error) {
       console.error('Erro ao atualizar status:', error);
-      toast.error('Erro ao atualizar status');
+      toast.error(`Erro ao atualizar status: ${(error as any).message || 'Erro desconhecido'}`);
     } finally {
       setUpdatingStatus(false);
     }
@@ -435,6 +445,7 @@ export function TicketDetails({ ticketId, open, onOpenChange, onEdit, onStatusCh
         },
         photos: (freshPhotos || []).map(p => ({
           file_url: p.file_url,
+          thumbnail_url: p.thumbnail_url,
           caption: p.caption,
           created_at: p.created_at
         }))
@@ -513,556 +524,590 @@ export function TicketDetails({ ticketId, open, onOpenChange, onEdit, onStatusCh
             )}
           </DialogHeader>
 
-          <div className="space-y-6">
-            {/* Info Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium flex items-center gap-2">
-                    <User className="h-4 w-4 text-primary" />
-                    Cliente
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="font-semibold">{ticket.clients?.name}</p>
-                  <p className="text-sm text-muted-foreground">{ticket.clients?.document}</p>
-                  {ticket.clients?.contact_phone && (
-                    <p className="text-sm text-muted-foreground">{ticket.clients.contact_phone}</p>
-                  )}
-                </CardContent>
-              </Card>
-
-              {ticket.service_type !== 'alarme' && ticket.vehicles?.description !== 'Base do Cliente' && (
-                <Card>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-sm font-medium flex items-center gap-2">
-                      <Truck className="h-4 w-4 text-primary" />
-                      Veículo
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-1">
-                    <p className="font-semibold text-primary">Cavalo Mecânico</p>
-                    {ticket.vehicles?.tractor_plate && (
-                      <p className="text-sm">
-                        Placa: <span className="font-bold">{ticket.vehicles.tractor_plate}</span>
-                        {ticket.vehicles.tractor_brand && ` - ${ticket.vehicles.tractor_brand}`}
-                        {ticket.vehicles.tractor_model && ` ${ticket.vehicles.tractor_model}`}
-                      </p>
-                    )}
-                    {ticket.vehicles?.trailer1_plate && (
-                      <p className="text-xs text-muted-foreground">
-                        Carreta 01: {ticket.vehicles.trailer1_plate} ({bodyTypeLabels[ticket.vehicles.trailer1_body_type || ''] || ticket.vehicles.trailer1_body_type})
-                      </p>
-                    )}
-                    {ticket.vehicles?.trailer2_plate && (
-                      <p className="text-xs text-muted-foreground">
-                        Carreta 02: {ticket.vehicles.trailer2_plate} ({bodyTypeLabels[ticket.vehicles.trailer2_body_type || ''] || ticket.vehicles.trailer2_body_type})
-                      </p>
-                    )}
-                    {ticket.vehicles?.trailer3_plate && (
-                      <p className="text-xs text-muted-foreground">
-                        Carreta 03: {ticket.vehicles.trailer3_plate} ({bodyTypeLabels[ticket.vehicles.trailer3_body_type || ''] || ticket.vehicles.trailer3_body_type})
-                      </p>
-                    )}
-                  </CardContent>
-                </Card>
-              )}
-
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium flex items-center gap-2">
-                    <Users className="h-4 w-4 text-primary" />
-                    Equipe
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2">
-                  <div>
-                    <p className="font-semibold">{ticket.main_agent?.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      Principal {ticket.main_agent?.is_armed ? '(Armado)' : '(Desarmado)'} • {ticket.plans?.name}
-                    </p>
-                    {ticket.main_agent?.vehicle_plate && (
-                      <p className="text-xs text-muted-foreground">Placa: {ticket.main_agent.vehicle_plate}</p>
-                    )}
-                    {(ticket.main_agent?.pix_key || ticket.main_agent?.bank_name) && (
-                      <div className="mt-1 pt-1 border-t border-border">
-                        {ticket.main_agent.pix_key && (
-                          <p className="text-xs text-muted-foreground">PIX: {ticket.main_agent.pix_key}</p>
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="detalhes">Detalhes</TabsTrigger>
+              <TabsTrigger value="linha_do_tempo">Linha do Tempo</TabsTrigger>
+              <TabsTrigger value="historico">Histórico</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="detalhes" className="mt-4">
+              <div className="space-y-6">
+                {/* Info Cards */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <User className="h-4 w-4 text-primary" />
+                        Cliente
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="font-semibold">{ticket.clients?.name}</p>
+                      <p className="text-sm text-muted-foreground">{ticket.clients?.document}</p>
+                      {ticket.clients?.contact_phone && (
+                        <p className="text-sm text-muted-foreground">{ticket.clients.contact_phone}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  {ticket.service_type !== 'alarme' && ticket.vehicles?.description !== 'Base do Cliente' && (
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardTitle className="text-sm font-medium flex items-center gap-2">
+                          <Truck className="h-4 w-4 text-primary" />
+                          Veículo
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-1">
+                        <p className="font-semibold text-primary">Cavalo Mecânico</p>
+                        {ticket.vehicles?.tractor_plate && (
+                          <p className="text-sm">
+                            Placa: <span className="font-bold">{ticket.vehicles.tractor_plate}</span>
+                            {ticket.vehicles.tractor_brand && ` - ${ticket.vehicles.tractor_brand}`}
+                            {ticket.vehicles.tractor_model && ` ${ticket.vehicles.tractor_model}`}
+                          </p>
                         )}
-                        {ticket.main_agent.bank_name && (
+                        {ticket.vehicles?.trailer1_plate && (
                           <p className="text-xs text-muted-foreground">
-                            {ticket.main_agent.bank_name}
-                            {ticket.main_agent.bank_agency && ` • Ag: ${ticket.main_agent.bank_agency}`}
-                            {ticket.main_agent.bank_account && ` • Conta: ${ticket.main_agent.bank_account}`}
-                            {ticket.main_agent.bank_account_type && ` (${ticket.main_agent.bank_account_type === 'corrente' ? 'CC' : 'CP'})`}
+                            Carreta 01: {ticket.vehicles.trailer1_plate} ({bodyTypeLabels[ticket.vehicles.trailer1_body_type || ''] || ticket.vehicles.trailer1_body_type})
                           </p>
                         )}
-                      </div>
-                    )}
-                  </div>
-                  {ticket.ticket_support_agents?.map((supportAgent, index) => (
-                    <div key={supportAgent.id} className="pt-1 border-t border-border">
-                      <p className="text-sm font-medium">{supportAgent.agent?.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {ticket.ticket_support_agents && ticket.ticket_support_agents.length > 1 ? `Agente de Apoio ${index + 1}` : 'Agente de Apoio'} {supportAgent.agent?.is_armed ? '(Armado)' : '(Desarmado)'}
-                        {supportAgent.arrival && ` • Chegada: ${format(new Date(supportAgent.arrival), 'HH:mm')}`}
-                        {supportAgent.departure && ` • Saída: ${format(new Date(supportAgent.departure), 'HH:mm')}`}
-                      </p>
-                    </div>
-                  ))}
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium flex items-center gap-2">
-                    <MapPin className="h-4 w-4 text-primary" />
-                    Localização
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="font-semibold">{ticket.city}, {ticket.state}</p>
-                  {ticket.coordinates_lat && ticket.coordinates_lng && (
-                    <p className="text-sm text-muted-foreground">
-                      {Number(ticket.coordinates_lat).toFixed(6)}, {Number(ticket.coordinates_lng).toFixed(6)}
-                    </p>
+                        {ticket.vehicles?.trailer2_plate && (
+                          <p className="text-xs text-muted-foreground">
+                            Carreta 02: {ticket.vehicles.trailer2_plate} ({bodyTypeLabels[ticket.vehicles.trailer2_body_type || ''] || ticket.vehicles.trailer2_body_type})
+                          </p>
+                        )}
+                        {ticket.vehicles?.trailer3_plate && (
+                          <p className="text-xs text-muted-foreground">
+                            Carreta 03: {ticket.vehicles.trailer3_plate} ({bodyTypeLabels[ticket.vehicles.trailer3_body_type || ''] || ticket.vehicles.trailer3_body_type})
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
                   )}
-                </CardContent>
-              </Card>
-            </div>
-
 
-            {/* Operation Details - Per Agent (KM & Time) */}
-            <Card className="border-none shadow-none bg-transparent p-0">
-              <CardHeader className="px-0 pt-4 pb-2">
-                <CardTitle className="text-xs font-semibold flex items-center gap-2 uppercase tracking-wider text-muted-foreground">
-                  <Navigation className="h-3.5 w-3.5" />
-                  Detalhamento da Operação
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="p-0 space-y-3">
-                <div className="grid grid-cols-1 gap-3">
-                  {/* Main Agent */}
-                  <div className="bg-card border rounded-md p-3 shadow-sm">
-                    <div className="flex items-center justify-between mb-3 border-b pb-2 border-dashed">
-                      <div className="flex items-center gap-2">
-                        <div className="bg-primary/10 p-1 rounded">
-                          <User className="h-3.5 w-3.5 text-primary" />
-                        </div>
-                        <div>
-                          <p className="text-xs font-bold text-foreground">{ticket.main_agent?.name}</p>
-                          <p className="text-[10px] text-muted-foreground uppercase">Agente Principal</p>
-                        </div>
-                      </div>
-                      <Badge variant={ticket.main_agent?.is_armed ? "secondary" : "outline"} className="text-[10px] h-5 px-1.5 font-normal">
-                        {ticket.main_agent?.is_armed ? 'Armado' : 'Desarmado'}
-                      </Badge>
-                    </div>
-                    {/* KM Grid */}
-                    <div className="grid grid-cols-3 gap-2 mb-2">
-                      <div className="bg-muted/30 rounded p-2 text-center">
-                        <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Inicial</span>
-                        <span className="text-xs font-semibold">{ticket.km_start ?? '-'}</span>
-                      </div>
-                      <div className="bg-muted/30 rounded p-2 text-center">
-                        <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Final</span>
-                        <span className="text-xs font-semibold">{ticket.km_end ?? '-'}</span>
-                      </div>
-                      <div className="bg-primary/5 rounded p-2 text-center border border-primary/10">
-                        <span className="text-[10px] text-primary/80 uppercase block mb-0.5 font-medium">Rodado</span>
-                        <span className="text-xs font-bold text-primary">
-                          {ticket.km_start && ticket.km_end
-                            ? `${Number(ticket.km_end) - Number(ticket.km_start)} km`
-                            : '-'}
-                        </span>
-                      </div>
-                    </div>
-                    {/* Time Grid */}
-                    <div className="grid grid-cols-3 gap-2 border-t pt-2 border-dashed">
-                      <div className="text-center">
-                        <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Chegada</span>
-                        <span className="text-xs font-semibold">
-                          {ticket.main_agent_arrival ? format(new Date(ticket.main_agent_arrival), 'HH:mm') : '-'}
-                        </span>
-                      </div>
-                      <div className="text-center">
-                        <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Saída</span>
-                        <span className="text-xs font-semibold">
-                          {ticket.main_agent_departure ? format(new Date(ticket.main_agent_departure), 'HH:mm') : '-'}
-                        </span>
-                      </div>
-                      <div className="text-center bg-muted/20 rounded">
-                        <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Tempo</span>
-                        <span className="text-xs font-bold">
-                          {(() => {
-                            if (!ticket.main_agent_arrival || !ticket.main_agent_departure) return '-';
-                            const start = new Date(ticket.main_agent_arrival);
-                            const end = new Date(ticket.main_agent_departure);
-                            const diff = end.getTime() - start.getTime();
-                            const hours = Math.floor(diff / (1000 * 60 * 60));
-                            const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-                            return `${hours}h ${minutes}m`;
-                          })()}
-                        </span>
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <Users className="h-4 w-4 text-primary" />
+                        Equipe
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <div>
+                        <p className="font-semibold">{ticket.main_agent?.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Principal {ticket.main_agent?.is_armed ? '(Armado)' : '(Desarmado)'} • {ticket.plans?.name}
+                        </p>
+                        {ticket.main_agent?.vehicle_plate && (
+                          <p className="text-xs text-muted-foreground">Placa: {ticket.main_agent.vehicle_plate}</p>
+                        )}
+                        {(ticket.main_agent?.pix_key || ticket.main_agent?.bank_name) && (
+                          <div className="mt-1 pt-1 border-t border-border">
+                            {ticket.main_agent.pix_key && (
+                              <p className="text-xs text-muted-foreground">PIX: {ticket.main_agent.pix_key}</p>
+                            )}
+                            {ticket.main_agent.bank_name && (
+                              <p className="text-xs text-muted-foreground">
+                                {ticket.main_agent.bank_name}
+                                {ticket.main_agent.bank_agency && ` • Ag: ${ticket.main_agent.bank_agency}`}
+                                {ticket.main_agent.bank_account && ` • Conta: ${ticket.main_agent.bank_account}`}
+                                {ticket.main_agent.bank_account_type && ` (${ticket.main_agent.bank_account_type === 'corrente' ? 'CC' : 'CP'})`}
+                              </p>
+                            )}
+                          </div>
+                        )}
                       </div>
-                    </div>
-                    {/* Costs Grid - Admin/Operador Only */}
-                    {(isAdmin || isOperador) && (
-                      <div className="grid grid-cols-4 gap-2 border-t pt-2 border-dashed">
-                        <div className="text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Pedágio</span>
-                          <span className="text-xs font-semibold">
-                            {ticket.toll_cost ? ticket.toll_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
-                          </span>
-                        </div>
-                        <div className="text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Alimentação</span>
-                          <span className="text-xs font-semibold">
-                            {ticket.food_cost ? ticket.food_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
-                          </span>
-                        </div>
-                        <div className="text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Outros</span>
-                          <span className="text-xs font-semibold">
-                            {ticket.other_costs ? ticket.other_costs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
-                          </span>
-                        </div>
-                        <div className="text-center bg-muted/20 rounded">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Total</span>
-                          <span className="text-xs font-bold">
-                            {((ticket.toll_cost || 0) + (ticket.food_cost || 0) + (ticket.other_costs || 0)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                          </span>
+                      {ticket.ticket_support_agents?.map((supportAgent, index) => (
+                        <div key={supportAgent.id} className="pt-1 border-t border-border">
+                          <p className="text-sm font-medium">{supportAgent.agent?.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {ticket.ticket_support_agents && ticket.ticket_support_agents.length > 1 ? `Agente de Apoio ${index + 1}` : 'Agente de Apoio'} {supportAgent.agent?.is_armed ? '(Armado)' : '(Desarmado)'}
+                            {supportAgent.arrival && ` • Chegada: ${format(new Date(supportAgent.arrival), 'HH:mm')}`}
+                            {supportAgent.departure && ` • Saída: ${format(new Date(supportAgent.departure), 'HH:mm')}`}
+                          </p>
                         </div>
-                      </div>
-                    )}
-                  </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <MapPin className="h-4 w-4 text-primary" />
+                        Localização
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="font-semibold">{ticket.city}, {ticket.state}</p>
+                      {ticket.coordinates_lat && ticket.coordinates_lng && (
+                        <p className="text-sm text-muted-foreground">
+                          {Number(ticket.coordinates_lat).toFixed(6)}, {Number(ticket.coordinates_lng).toFixed(6)}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
 
-                  {/* Support Agents */}
-                  {ticket.ticket_support_agents?.map((supportAgent, index) => (
-                    <div key={supportAgent.id} className="bg-card border rounded-md p-3 shadow-sm">
-                      <div className="flex items-center justify-between mb-3 border-b pb-2 border-dashed">
-                        <div className="flex items-center gap-2">
-                          <div className="bg-muted p-1 rounded">
-                            <Users className="h-3.5 w-3.5 text-muted-foreground" />
-                          </div>
-                          <div>
-                            <p className="text-xs font-bold text-foreground">{supportAgent.agent?.name}</p>
-                            <p className="text-[10px] text-muted-foreground uppercase">{ticket.ticket_support_agents && ticket.ticket_support_agents.length > 1 ? `Agente de Apoio ${index + 1}` : 'Agente de Apoio'}</p>
+
+                {/* Operation Details - Per Agent (KM & Time) */}
+                <Card className="border-none shadow-none bg-transparent p-0">
+                  <CardHeader className="px-0 pt-4 pb-2">
+                    <CardTitle className="text-xs font-semibold flex items-center gap-2 uppercase tracking-wider text-muted-foreground">
+                      <Navigation className="h-3.5 w-3.5" />
+                      Detalhamento da Operação
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="p-0 space-y-3">
+                    <div className="grid grid-cols-1 gap-3">
+                      {/* Main Agent */}
+                      <div className="bg-card border rounded-md p-3 shadow-sm">
+                        <div className="flex items-center justify-between mb-3 border-b pb-2 border-dashed">
+                          <div className="flex items-center gap-2">
+                            <div className="bg-primary/10 p-1 rounded">
+                              <User className="h-3.5 w-3.5 text-primary" />
+                            </div>
+                            <div>
+                              <p className="text-xs font-bold text-foreground">{ticket.main_agent?.name}</p>
+                              <p className="text-[10px] text-muted-foreground uppercase">Agente Principal</p>
+                            </div>
                           </div>
+                          <Badge variant={ticket.main_agent?.is_armed ? "secondary" : "outline"} className="text-[10px] h-5 px-1.5 font-normal">
+                            {ticket.main_agent?.is_armed ? 'Armado' : 'Desarmado'}
+                          </Badge>
                         </div>
-                        <Badge variant={supportAgent.agent?.is_armed ? "secondary" : "outline"} className="text-[10px] h-5 px-1.5 font-normal">
-                          {supportAgent.agent?.is_armed ? 'Armado' : 'Desarmado'}
-                        </Badge>
-                      </div>
-                      <div className="grid grid-cols-3 gap-2 mb-2">
-                        <div className="bg-muted/30 rounded p-2 text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Inicial</span>
-                          <span className="text-xs font-semibold">{supportAgent.km_start ?? '-'}</span>
-                        </div>
-                        <div className="bg-muted/30 rounded p-2 text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Final</span>
-                          <span className="text-xs font-semibold">{supportAgent.km_end ?? '-'}</span>
-                        </div>
-                        <div className="bg-muted/50 rounded p-2 text-center border border-muted">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5 font-medium">Rodado</span>
-                          <span className="text-xs font-bold">
-                            {supportAgent.km_start && supportAgent.km_end
-                              ? `${Number(supportAgent.km_end) - Number(supportAgent.km_start)} km`
-                              : '-'}
-                          </span>
-                        </div>
-                      </div>
-                      <div className="grid grid-cols-3 gap-2 border-t pt-2 border-dashed">
-                        <div className="text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Chegada</span>
-                          <span className="text-xs font-semibold">
-                            {supportAgent.arrival ? format(new Date(supportAgent.arrival), 'HH:mm') : '-'}
-                          </span>
-                        </div>
-                        <div className="text-center">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Saída</span>
-                          <span className="text-xs font-semibold">
-                            {supportAgent.departure ? format(new Date(supportAgent.departure), 'HH:mm') : '-'}
-                          </span>
-                        </div>
-                        <div className="text-center bg-muted/20 rounded">
-                          <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Tempo</span>
-                          <span className="text-xs font-bold">
-                            {(() => {
-                              if (!supportAgent.arrival || !supportAgent.departure) return '-';
-                              const start = new Date(supportAgent.arrival);
-                              const end = new Date(supportAgent.departure);
-                              const diff = end.getTime() - start.getTime();
-                              const hours = Math.floor(diff / (1000 * 60 * 60));
-                              const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-                              return `${hours}h ${minutes}m`;
-                            })()}
-                          </span>
-                        </div>
-                      </div>
-                      {/* Costs Grid - Admin/Operador Only */}
-                      {(isAdmin || isOperador) && (
-                        <div className="grid grid-cols-4 gap-2 border-t pt-2 border-dashed">
-                          <div className="text-center">
-                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Pedágio</span>
-                            <span className="text-xs font-semibold">
-                              {supportAgent.toll_cost ? supportAgent.toll_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                        {/* KM Grid */}
+                        <div className="grid grid-cols-3 gap-2 mb-2">
+                          <div className="bg-muted/30 rounded p-2 text-center">
+                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Inicial</span>
+                            <span className="text-xs font-semibold">{ticket.km_start ?? '-'}</span>
+                          </div>
+                          <div className="bg-muted/30 rounded p-2 text-center">
+                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Final</span>
+                            <span className="text-xs font-semibold">{ticket.km_end ?? '-'}</span>
+                          </div>
+                          <div className="bg-primary/5 rounded p-2 text-center border border-primary/10">
+                            <span className="text-[10px] text-primary/80 uppercase block mb-0.5 font-medium">Rodado</span>
+                            <span className="text-xs font-bold text-primary">
+                              {ticket.km_start && ticket.km_end
+                                ? `${Number(ticket.km_end) - Number(ticket.km_start)} km`
+                                : '-'}
                             </span>
                           </div>
+                        </div>
+                        {/* Time Grid */}
+                        <div className="grid grid-cols-3 gap-2 border-t pt-2 border-dashed">
                           <div className="text-center">
-                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Alimentação</span>
+                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Chegada</span>
                             <span className="text-xs font-semibold">
-                              {supportAgent.food_cost ? supportAgent.food_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                              {ticket.main_agent_arrival ? format(new Date(ticket.main_agent_arrival), 'HH:mm') : '-'}
                             </span>
                           </div>
                           <div className="text-center">
-                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Outros</span>
+                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Saída</span>
                             <span className="text-xs font-semibold">
-                              {supportAgent.other_costs ? supportAgent.other_costs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                              {ticket.main_agent_departure ? format(new Date(ticket.main_agent_departure), 'HH:mm') : '-'}
                             </span>
                           </div>
                           <div className="text-center bg-muted/20 rounded">
-                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Total</span>
+                            <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Tempo</span>
                             <span className="text-xs font-bold">
-                              {((supportAgent.toll_cost || 0) + (supportAgent.food_cost || 0) + (supportAgent.other_costs || 0)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              {(() => {
+                                if (!ticket.main_agent_arrival || !ticket.main_agent_departure) return '-';
+                                const start = new Date(ticket.main_agent_arrival);
+                                const end = new Date(ticket.main_agent_departure);
+                                const diff = end.getTime() - start.getTime();
+                                const hours = Math.floor(diff / (1000 * 60 * 60));
+                                const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+                                return `${hours}h ${minutes}m`;
+                              })()}
                             </span>
                           </div>
                         </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                        {/* Costs Grid - Admin/Operador Only */}
+                        {(isAdmin || isOperador) && (
+                          <div className="grid grid-cols-4 gap-2 border-t pt-2 border-dashed">
+                            <div className="text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Pedágio</span>
+                              <span className="text-xs font-semibold">
+                                {ticket.toll_cost ? ticket.toll_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                              </span>
+                            </div>
+                            <div className="text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Alimentação</span>
+                              <span className="text-xs font-semibold">
+                                {ticket.food_cost ? ticket.food_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                              </span>
+                            </div>
+                            <div className="text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Outros</span>
+                              <span className="text-xs font-semibold">
+                                {ticket.other_costs ? ticket.other_costs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                              </span>
+                            </div>
+                            <div className="text-center bg-muted/20 rounded">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Total</span>
+                              <span className="text-xs font-bold">
+                                {((ticket.toll_cost || 0) + (ticket.food_cost || 0) + (ticket.other_costs || 0)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </span>
+                            </div>
+                          </div>
+                        )}
+                      </div>
 
-                {/* Operational Summary */}
-                < div className="mt-2 text-sm space-y-2" >
-                  <div className="bg-secondary/5 rounded-lg p-3 border border-secondary/20 flex items-center justify-between">
-                    <div>
-                      <span className="text-[10px] uppercase text-muted-foreground font-semibold tracking-wider">KM Total (Equipe)</span>
-                      <p className="text-xs text-muted-foreground mt-0.5">Soma de todos os veículos</p>
+                      {/* Support Agents */}
+                      {ticket.ticket_support_agents?.map((supportAgent, index) => (
+                        <div key={supportAgent.id} className="bg-card border rounded-md p-3 shadow-sm">
+                          <div className="flex items-center justify-between mb-3 border-b pb-2 border-dashed">
+                            <div className="flex items-center gap-2">
+                              <div className="bg-muted p-1 rounded">
+                                <Users className="h-3.5 w-3.5 text-muted-foreground" />
+                              </div>
+                              <div>
+                                <p className="text-xs font-bold text-foreground">{supportAgent.agent?.name}</p>
+                                <p className="text-[10px] text-muted-foreground uppercase">{ticket.ticket_support_agents && ticket.ticket_support_agents.length > 1 ? `Agente de Apoio ${index + 1}` : 'Agente de Apoio'}</p>
+                              </div>
+                            </div>
+                            <Badge variant={supportAgent.agent?.is_armed ? "secondary" : "outline"} className="text-[10px] h-5 px-1.5 font-normal">
+                              {supportAgent.agent?.is_armed ? 'Armado' : 'Desarmado'}
+                            </Badge>
+                          </div>
+                          <div className="grid grid-cols-3 gap-2 mb-2">
+                            <div className="bg-muted/30 rounded p-2 text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Inicial</span>
+                              <span className="text-xs font-semibold">{supportAgent.km_start ?? '-'}</span>
+                            </div>
+                            <div className="bg-muted/30 rounded p-2 text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">KM Final</span>
+                              <span className="text-xs font-semibold">{supportAgent.km_end ?? '-'}</span>
+                            </div>
+                            <div className="bg-muted/50 rounded p-2 text-center border border-muted">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5 font-medium">Rodado</span>
+                              <span className="text-xs font-bold">
+                                {supportAgent.km_start && supportAgent.km_end
+                                  ? `${Number(supportAgent.km_end) - Number(supportAgent.km_start)} km`
+                                  : '-'}
+                              </span>
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-3 gap-2 border-t pt-2 border-dashed">
+                            <div className="text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Chegada</span>
+                              <span className="text-xs font-semibold">
+                                {supportAgent.arrival ? format(new Date(supportAgent.arrival), 'HH:mm') : '-'}
+                              </span>
+                            </div>
+                            <div className="text-center">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Saída</span>
+                              <span className="text-xs font-semibold">
+                                {supportAgent.departure ? format(new Date(supportAgent.departure), 'HH:mm') : '-'}
+                              </span>
+                            </div>
+                            <div className="text-center bg-muted/20 rounded">
+                              <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Tempo</span>
+                              <span className="text-xs font-bold">
+                                {(() => {
+                                  if (!supportAgent.arrival || !supportAgent.departure) return '-';
+                                  const start = new Date(supportAgent.arrival);
+                                  const end = new Date(supportAgent.departure);
+                                  const diff = end.getTime() - start.getTime();
+                                  const hours = Math.floor(diff / (1000 * 60 * 60));
+                                  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+                                  return `${hours}h ${minutes}m`;
+                                })()}
+                              </span>
+                            </div>
+                          </div>
+                          {/* Costs Grid - Admin/Operador Only */}
+                          {(isAdmin || isOperador) && (
+                            <div className="grid grid-cols-4 gap-2 border-t pt-2 border-dashed">
+                              <div className="text-center">
+                                <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Pedágio</span>
+                                <span className="text-xs font-semibold">
+                                  {supportAgent.toll_cost ? supportAgent.toll_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                                </span>
+                              </div>
+                              <div className="text-center">
+                                <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Alimentação</span>
+                                <span className="text-xs font-semibold">
+                                  {supportAgent.food_cost ? supportAgent.food_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                                </span>
+                              </div>
+                              <div className="text-center">
+                                <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Outros</span>
+                                <span className="text-xs font-semibold">
+                                  {supportAgent.other_costs ? supportAgent.other_costs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}
+                                </span>
+                              </div>
+                              <div className="text-center bg-muted/20 rounded">
+                                <span className="text-[10px] text-muted-foreground uppercase block mb-0.5">Total</span>
+                                <span className="text-xs font-bold">
+                                  {((supportAgent.toll_cost || 0) + (supportAgent.food_cost || 0) + (supportAgent.other_costs || 0)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                                </span>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      ))}
                     </div>
-                    <div className="text-right">
-                      <span className="text-lg font-bold text-primary tracking-tight">
-                        {(() => {
-                          const mainKm = (ticket.km_start && ticket.km_end) ? Number(ticket.km_end) - Number(ticket.km_start) : 0;
-                          const supportKm = ticket.ticket_support_agents?.reduce((acc, agent) => {
-                            const km = (agent.km_start && agent.km_end) ? Number(agent.km_end) - Number(agent.km_start) : 0;
-                            return acc + km;
-                          }, 0) || 0;
-                          return `${mainKm + supportKm} km`;
-                        })()}
-                      </span>
+
+                    {/* Operational Summary */}
+                    < div className="mt-2 text-sm space-y-2" >
+                      <div className="bg-secondary/5 rounded-lg p-3 border border-secondary/20 flex items-center justify-between">
+                        <div>
+                          <span className="text-[10px] uppercase text-muted-foreground font-semibold tracking-wider">KM Total (Equipe)</span>
+                          <p className="text-xs text-muted-foreground mt-0.5">Soma de todos os veículos</p>
+                        </div>
+                        <div className="text-right">
+                          <span className="text-lg font-bold text-primary tracking-tight">
+                            {(() => {
+                              const mainKm = (ticket.km_start && ticket.km_end) ? Number(ticket.km_end) - Number(ticket.km_start) : 0;
+                              const supportKm = ticket.ticket_support_agents?.reduce((acc, agent) => {
+                                const km = (agent.km_start && agent.km_end) ? Number(agent.km_end) - Number(agent.km_start) : 0;
+                                return acc + km;
+                              }, 0) || 0;
+                              return `${mainKm + supportKm} km`;
+                            })()}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="bg-secondary/10 rounded-lg p-3 border border-secondary/20 flex items-center justify-between">
+                        <div>
+                          <span className="text-[10px] uppercase text-muted-foreground font-semibold tracking-wider">Tempo Total de Operação</span>
+                          <p className="text-xs text-muted-foreground mt-0.5">Soma das horas de todos os agentes</p>
+                        </div>
+                        <div className="text-right">
+                          <span className="text-xl font-bold text-foreground tracking-tight">
+                            {(() => {
+                              let totalDiff = 0;
+                              if (ticket.main_agent_arrival && ticket.main_agent_departure) {
+                                totalDiff += new Date(ticket.main_agent_departure).getTime() - new Date(ticket.main_agent_arrival).getTime();
+                              }
+
+                              ticket.ticket_support_agents?.forEach(agent => {
+                                if (agent.arrival && agent.departure) {
+                                  totalDiff += new Date(agent.departure).getTime() - new Date(agent.arrival).getTime();
+                                }
+                              });
+
+                              const hours = Math.floor(totalDiff / (1000 * 60 * 60));
+                              const minutes = Math.floor((totalDiff % (1000 * 60 * 60)) / (1000 * 60));
+                              return totalDiff > 0 ? `${hours}h ${minutes}m` : '-';
+                            })()}
+                          </span>
+                        </div>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="bg-secondary/10 rounded-lg p-3 border border-secondary/20 flex items-center justify-between">
-                    <div>
-                      <span className="text-[10px] uppercase text-muted-foreground font-semibold tracking-wider">Tempo Total de Operação</span>
-                      <p className="text-xs text-muted-foreground mt-0.5">Soma das horas de todos os agentes</p>
+                  </CardContent>
+                </Card>
+
+                {/* Report */}
+                {ticket.detailed_report && (
+                  <Card>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <FileText className="h-4 w-4 text-primary" />
+                        Relatório Detalhado
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <p className="whitespace-pre-wrap text-sm">{ticket.detailed_report}</p>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Photos */}
+                <Card>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-sm font-medium flex items-center gap-2">
+                        <Image className="h-4 w-4 text-primary" />
+                        Fotos ({photos.length})
+                      </CardTitle>
                     </div>
-                    <div className="text-right">
-                      <span className="text-xl font-bold text-foreground tracking-tight">
+                  </CardHeader>
+                  <CardContent>
+                    {photos.length > 0 ? (
+                      <div className="space-y-4">
                         {(() => {
-                          let totalDiff = 0;
-                          if (ticket.main_agent_arrival && ticket.main_agent_departure) {
-                            totalDiff += new Date(ticket.main_agent_departure).getTime() - new Date(ticket.main_agent_arrival).getTime();
-                          }
-
-                          ticket.ticket_support_agents?.forEach(agent => {
-                            if (agent.arrival && agent.departure) {
-                              totalDiff += new Date(agent.departure).getTime() - new Date(agent.arrival).getTime();
+                          // Group photos by caption to match upload sessions
+                          const groups: { caption: string | null; photos: typeof photos }[] = [];
+                          for (const photo of photos) {
+                            const last = groups[groups.length - 1];
+                            if (last && last.caption === photo.caption) {
+                              last.photos.push(photo);
+                            } else {
+                              groups.push({ caption: photo.caption, photos: [photo] });
                             }
-                          });
-
-                          const hours = Math.floor(totalDiff / (1000 * 60 * 60));
-                          const minutes = Math.floor((totalDiff % (1000 * 60 * 60)) / (1000 * 60));
-                          return totalDiff > 0 ? `${hours}h ${minutes}m` : '-';
+                          }
+                          return groups.map((group, groupIndex) => (
+                            <div key={groupIndex} className="space-y-2">
+                              {group.caption && (
+                                <p className="text-xs font-medium text-muted-foreground">
+                                  {group.caption}
+                                </p>
+                              )}
+                              <div className="grid grid-cols-2 gap-3">
+                                {group.photos.map((photo) => (
+                                  <div key={photo.id} className="space-y-1">
+                                    <a
+                                      href={photo.file_url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="block"
+                                    >
+                                      <div className="relative w-full aspect-[4/3] overflow-hidden rounded-lg border border-border hover:opacity-80 transition-opacity bg-muted">
+                                        <img
+                                          src={photoThumbnailUrl(photo)}
+                                          alt={photo.caption || 'Foto do chamado'}
+                                          className="absolute inset-0 w-full h-full object-cover"
+                                        />
+                                      </div>
+                                    </a>
+                                    {(photo.taken_at || photo.latitude !== null) && (
+                                      <p className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                                        {photo.taken_at && format(new Date(photo.taken_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                                        {photo.latitude !== null && photo.longitude !== null && (
+                                          <a
+                                            href={`https://www.google.com/maps/search/?api=1&query=${photo.latitude},${photo.longitude}`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="inline-flex items-center gap-0.5 text-primary hover:underline"
+                                          >
+                                            <MapPin className="h-2.5 w-2.5" />
+                                            Local
+                                          </a>
+                                        )}
+                                      </p>
+                                    )}
+                                  </div>
+                                ))}
+                              </div>
+                              {groupIndex < groups.length - 1 && (
+                                <Separator className="mt-3" />
+                              )}
+                            </div>
+                          ));
                         })()}
-                      </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => setAddPhotosOpen(true)}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Adicionar Mais Fotos
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="text-center py-4 space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          Nenhuma foto adicionada
+                        </p>
+                        <Button variant="outline" size="sm" onClick={() => setAddPhotosOpen(true)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Adicionar Fotos
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Alarme: pricing info card - Admin/Operador Only */}
+                {ticket.service_type === 'alarme' && (isAdmin || isOperador) && (
+                  <div className="border border-orange-300 bg-orange-50 dark:bg-orange-950/20 dark:border-orange-800 rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <span className="text-lg">🔔</span>
+                      <h3 className="font-bold text-orange-700 dark:text-orange-400 text-sm">Condições do Plano — Acionamento de Alarme</h3>
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-6 gap-y-1.5 text-xs">
+                      <div className="flex justify-between"><span className="text-muted-foreground">Pacote base</span><strong>R$ 100,00</strong></div>
+                      <div className="flex justify-between"><span className="text-muted-foreground">Tempo incluso</span><strong>30 min</strong></div>
+                      <div className="flex justify-between"><span className="text-muted-foreground">KM incluso</span><strong>50 km</strong></div>
+                      <div className="flex justify-between"><span className="text-muted-foreground">Hora adicional</span><strong>R$ 20,00/h</strong></div>
+                      <div className="flex justify-between"><span className="text-muted-foreground">KM adicional</span><strong>R$ 1,50/km</strong></div>
+                      <div className="flex justify-between"><span className="text-muted-foreground">Pedágio</span><strong>Reembolso integral</strong></div>
                     </div>
+                    {(isAdmin || isOperador) && (
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 bg-muted/30 p-3 rounded-lg border border-dashed mt-4">
+                        <div className="space-y-1">
+                          <span className="text-[10px] uppercase text-muted-foreground font-bold">Pedágio</span>
+                          <p className="text-sm font-semibold">{ticket.toll_cost ? ticket.toll_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}</p>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="text-[10px] uppercase text-muted-foreground font-bold">Alimentação</span>
+                          <p className="text-sm font-semibold">{ticket.food_cost ? ticket.food_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}</p>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="text-[10px] uppercase text-muted-foreground font-bold">Outros</span>
+                          <p className="text-sm font-semibold">{ticket.other_costs ? ticket.other_costs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}</p>
+                        </div>
+                        <div className="space-y-1">
+                          <span className="text-[10px] uppercase text-muted-foreground font-bold text-primary">Sum (Total)</span>
+                          <p className="text-sm font-bold text-primary">
+                            {((ticket.toll_cost || 0) + (ticket.food_cost || 0) + (ticket.other_costs || 0)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    <p className="text-[10px] text-muted-foreground mt-2 border-t border-orange-200 dark:border-orange-800 pt-2">
+                      Prazo de pagamento: 1 dia útil após recebimento da documentação completa.
+                    </p>
                   </div>
-                </div>
+                )}
 
-              </CardContent>
-            </Card>
-
-            {/* Report */}
-            {ticket.detailed_report && (
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-sm font-medium flex items-center gap-2">
-                    <FileText className="h-4 w-4 text-primary" />
-                    Relatório Detalhado
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="whitespace-pre-wrap text-sm">{ticket.detailed_report}</p>
-                </CardContent>
-              </Card>
-            )}
+                {/* Actions */}
+                <div className="flex flex-wrap gap-2 justify-end">
+                  <Button variant="outline" onClick={() => onEdit(ticket.id)}>
+                    <Edit className="h-4 w-4 mr-2" />
+                    Editar
+                  </Button>
 
-            {/* Photos */}
-            <Card>
-              <CardHeader className="pb-2">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm font-medium flex items-center gap-2">
-                    <Image className="h-4 w-4 text-primary" />
-                    Fotos ({photos.length})
-                  </CardTitle>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {photos.length > 0 ? (
-                  <div className="space-y-4">
-                    {(() => {
-                      // Group photos by caption to match upload sessions
-                      const groups: { caption: string | null; photos: typeof photos }[] = [];
-                      for (const photo of photos) {
-                        const last = groups[groups.length - 1];
-                        if (last && last.caption === photo.caption) {
-                          last.photos.push(photo);
-                        } else {
-                          groups.push({ caption: photo.caption, photos: [photo] });
-                        }
-                      }
-                      return groups.map((group, groupIndex) => (
-                        <div key={groupIndex} className="space-y-2">
-                          {group.caption && (
-                            <p className="text-xs font-medium text-muted-foreground">
-                              {group.caption}
-                            </p>
-                          )}
-                          <div className="grid grid-cols-2 gap-3">
-                            {group.photos.map((photo) => (
-                              <div key={photo.id} className="space-y-1">
-                                <a
-                                  href={photo.file_url}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="block"
-                                >
-                                  <div className="relative w-full aspect-[4/3] overflow-hidden rounded-lg border border-border hover:opacity-80 transition-opacity bg-muted">
-                                    <img
-                                      src={photo.file_url}
-                                      alt={photo.caption || 'Foto do chamado'}
-                                      className="absolute inset-0 w-full h-full object-cover"
-                                    />
-                                  </div>
-                                </a>
-                              </div>
-                            ))}
-                          </div>
-                          {groupIndex < groups.length - 1 && (
-                            <Separator className="mt-3" />
-                          )}
-                        </div>
-                      ));
-                    })()}
+                  <Button
+                    variant="outline"
+                    onClick={handleGeneratePDF}
+                    disabled={generatingPDF}
+                  >
+                    <FileDown className="h-4 w-4 mr-2" />
+                    {generatingPDF ? 'Gerando...' : 'Gerar PDF'}
+                  </Button>
+
+
+
+                  {ticket.status === 'aberto' && (
                     <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full"
-                      onClick={() => setAddPhotosOpen(true)}
+                      onClick={() => updateStatus('em_andamento')}
+                      disabled={updatingStatus}
                     >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Adicionar Mais Fotos
+                      Iniciar Atendimento
                     </Button>
-                  </div>
-                ) : (
-                  <div className="text-center py-4 space-y-3">
-                    <p className="text-sm text-muted-foreground">
-                      Nenhuma foto adicionada
-                    </p>
-                    <Button variant="outline" size="sm" onClick={() => setAddPhotosOpen(true)}>
-                      <Plus className="h-4 w-4 mr-1" />
-                      Adicionar Fotos
+                  )}
+
+                  {ticket.status === 'em_andamento' && (
+                    <Button
+                      onClick={() => updateStatus('finalizado')}
+                      disabled={updatingStatus}
+                      className="bg-success hover:bg-success/90"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Finalizar Chamado
                     </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            {/* Alarme: pricing info card - Admin/Operador Only */}
-            {ticket.service_type === 'alarme' && (isAdmin || isOperador) && (
-              <div className="border border-orange-300 bg-orange-50 dark:bg-orange-950/20 dark:border-orange-800 rounded-lg p-4">
-                <div className="flex items-center gap-2 mb-3">
-                  <span className="text-lg">🔔</span>
-                  <h3 className="font-bold text-orange-700 dark:text-orange-400 text-sm">Condições do Plano — Acionamento de Alarme</h3>
-                </div>
-                <div className="grid grid-cols-2 gap-x-6 gap-y-1.5 text-xs">
-                  <div className="flex justify-between"><span className="text-muted-foreground">Pacote base</span><strong>R$ 100,00</strong></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Tempo incluso</span><strong>30 min</strong></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">KM incluso</span><strong>50 km</strong></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Hora adicional</span><strong>R$ 20,00/h</strong></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">KM adicional</span><strong>R$ 1,50/km</strong></div>
-                  <div className="flex justify-between"><span className="text-muted-foreground">Pedágio</span><strong>Reembolso integral</strong></div>
+                  )}
                 </div>
-                {(isAdmin || isOperador) && (
-                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 bg-muted/30 p-3 rounded-lg border border-dashed mt-4">
-                    <div className="space-y-1">
-                      <span className="text-[10px] uppercase text-muted-foreground font-bold">Pedágio</span>
-                      <p className="text-sm font-semibold">{ticket.toll_cost ? ticket.toll_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}</p>
-                    </div>
-                    <div className="space-y-1">
-                      <span className="text-[10px] uppercase text-muted-foreground font-bold">Alimentação</span>
-                      <p className="text-sm font-semibold">{ticket.food_cost ? ticket.food_cost.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}</p>
-                    </div>
-                    <div className="space-y-1">
-                      <span className="text-[10px] uppercase text-muted-foreground font-bold">Outros</span>
-                      <p className="text-sm font-semibold">{ticket.other_costs ? ticket.other_costs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : '-'}</p>
-                    </div>
-                    <div className="space-y-1">
-                      <span className="text-[10px] uppercase text-muted-foreground font-bold text-primary">Sum (Total)</span>
-                      <p className="text-sm font-bold text-primary">
-                        {((ticket.toll_cost || 0) + (ticket.food_cost || 0) + (ticket.other_costs || 0)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                      </p>
-                    </div>
-                  </div>
-                )}
-                <p className="text-[10px] text-muted-foreground mt-2 border-t border-orange-200 dark:border-orange-800 pt-2">
-                  Prazo de pagamento: 1 dia útil após recebimento da documentação completa.
-                </p>
               </div>
-            )}
-
-            {/* Actions */}
-            <div className="flex flex-wrap gap-2 justify-end">
-              <Button variant="outline" onClick={() => onEdit(ticket.id)}>
-                <Edit className="h-4 w-4 mr-2" />
-                Editar
-              </Button>
-
-              <Button
-                variant="outline"
-                onClick={handleGeneratePDF}
-                disabled={generatingPDF}
-              >
-                <FileDown className="h-4 w-4 mr-2" />
-                {generatingPDF ? 'Gerando...' : 'Gerar PDF'}
-              </Button>
+            </TabsContent>
 
+            <TabsContent value="linha_do_tempo" className="mt-4">
+              <TicketStatusTimeline ticketId={ticket.id} refreshKey={ticket.status} />
+            </TabsContent>
 
-
-              {ticket.status === 'aberto' && (
-                <Button
-                  onClick={() => updateStatus('em_andamento')}
-                  disabled={updatingStatus}
-                >
-                  Iniciar Atendimento
-                </Button>
-              )}
-
-              {ticket.status === 'em_andamento' && (
-                <Button
-                  onClick={() => updateStatus('finalizado')}
-                  disabled={updatingStatus}
-                  className="bg-success hover:bg-success/90"
-                >
-                  <CheckCircle className="h-4 w-4 mr-2" />
-                  Finalizar Chamado
-                </Button>
-              )}
-            </div>
-          </div>
+            <TabsContent value="historico" className="mt-4">
+              <TicketEventTimeline ticketId={ticket.id} refreshKey={`${ticket.updated_at}-${photos.length}`} />
+            </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog >
 
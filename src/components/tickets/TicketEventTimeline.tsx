@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import {
+  TICKET_EVENT_LABELS,
+  actorName,
+  describeTicketEvent,
+  fetchActorNames,
+  fetchTicketEvents,
+  type TicketEvent,
+} from '@/lib/ticketEvents';
+
+interface TicketEventTimelineProps {
+  ticketId: string;
+  // Changes whenever the ticket is saved so the history reloads
+  refreshKey?: string;
+}
+
+export function TicketEventTimeline({ ticketId, refreshKey }: TicketEventTimelineProps) {
+  const [events, setEvents] = useState<TicketEvent[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await fetchTicketEvents({ ticketId, limit: 500 });
+      setEvents(data);
+      setUserNames(await fetchActorNames(data));
+    } catch (error) {
+      console.error('Erro ao buscar histórico do chamado:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <History className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">Nenhuma atividade registrada</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6">
+      {events.map((event) => (
+        <li key={event.id} className="ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{TICKET_EVENT_LABELS[event.event_type] ?? event.event_type}</Badge>
+            <span className="text-sm">{describeTicketEvent(event)}</span>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {format(new Date(event.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            {' · '}
+            {actorName(event, userNames)}
+          </p>
+          {event.data.note && (
+            <p className="text-sm mt-2 whitespace-pre-wrap rounded-md bg-muted/50 p-2">{event.data.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
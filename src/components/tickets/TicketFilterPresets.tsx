@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { Bookmark, BookmarkPlus, Loader2, Pin, PinOff, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useTicketFilterPresets } from '@/hooks/useTicketFilterPresets';
+
+interface TicketFilterPresetsProps {
+  // Query string of the filters currently applied
+  currentQuery: string;
+  onApply: (query: string) => void;
+}
+
+export function TicketFilterPresets({ currentQuery, onApply }: TicketFilterPresetsProps) {
+  const { presets, savePreset, setPinned, deletePreset } = useTicketFilterPresets();
+  const [listOpen, setListOpen] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [pinned, setPinnedValue] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const openSave = () => {
+    setName(presets.find((p) => p.query === currentQuery)?.name || '');
+    setPinnedValue(true);
+    setSaveOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Informe um nome para o filtro');
+      return;
+    }
+    setSaving(true);
+    try {
+      await savePreset(name, currentQuery, pinned);
+      toast.success('Filtro salvo');
+      setSaveOpen(false);
+    } catch (error: any) {
+      console.error('Erro ao salvar filtro:', error);
+      toast.error('Erro ao salvar filtro', { description: error?.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTogglePin = async (id: string, value: boolean) => {
+    try {
+      await setPinned(id, value);
+    } catch (error: any) {
+      console.error('Erro ao fixar filtro:', error);
+      toast.error('Erro ao atualizar filtro', { description: error?.message });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePreset(id);
+      toast.success('Filtro removido');
+    } catch (error: any) {
+      console.error('Erro ao remover filtro:', error);
+      toast.error('Erro ao remover filtro', { description: error?.message });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Popover open={listOpen} onOpenChange={setListOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="h-4 w-4 mr-2" />
+            Filtros salvos
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-2">
+          {presets.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-2">Nenhum filtro salvo ainda.</p>
+          ) : (
+            <div className="space-y-1">
+              {presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className={`flex items-center gap-1 rounded-md px-2 py-1 hover:bg-muted ${preset.query === currentQuery ? 'bg-muted' : ''}`}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 text-left text-sm truncate"
+                    onClick={() => { onApply(preset.query); setListOpen(false); }}
+                  >
+                    {preset.name}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title={preset.pinned ? 'Desafixar da barra lateral' : 'Fixar na barra lateral'}
+                    onClick={() => handleTogglePin(preset.id, !preset.pinned)}
+                  >
+                    {preset.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-destructive hover:text-destructive"
+                    title="Excluir filtro"
+                    onClick={() => handleDelete(preset.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="outline" size="sm" onClick={openSave} disabled={!currentQuery}>
+        <BookmarkPlus className="h-4 w-4 mr-2" />
+        Salvar filtro
+      </Button>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Salvar filtro</DialogTitle>
+            <DialogDescription>Guarde os filtros atuais para reabrir esta lista com um clique.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="preset-name">Nome</Label>
+              <Input
+                id="preset-name"
+                placeholder="Ex.: Meus chamados abertos"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="preset-pinned">Fixar na barra lateral</Label>
+              <Switch id="preset-pinned" checked={pinned} onCheckedChange={setPinnedValue} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveOpen(false)}>Cancelar</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
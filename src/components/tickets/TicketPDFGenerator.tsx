@@ -98,6 +98,7 @@ interface TicketPDFData {
   };
   photos: Array<{
     file_url: string;
+    thumbnail_url?: string | null;
     caption: string | null;
   }>;
 }
@@ -975,7 +976,7 @@ export async function generateTicketPDF(data: TicketPDFData): Promise<void> {
         drawRoundedRect(pdf, xStr, yStr, photoW, photoH, 2, 'F');
 
         try {
-          const imgP = await loadImage(photo.file_url);
+          const imgP = await loadImage(photo.thumbnail_url || photo.file_url, PHOTO_MAX_SIZE);
           const padding = 2;
           const availableW = photoW - (padding * 2);
           const availableH = photoH - (padding * 2);
@@ -1041,21 +1042,26 @@ export async function generateTicketPDF(data: TicketPDFData): Promise<void> {
   pdf.save(`Relatorio_${data.code || 'FDG'}.pdf`);
 }
 
-async function loadImage(url: string): Promise<{ dataUrl: string; width: number; height: number }> {
+// Photo cells are half a page wide; older photos without a thumbnail are scaled down to this
+const PHOTO_MAX_SIZE = 800;
+
+// With maxSize the image is scaled down and encoded as JPEG, otherwise kept as PNG (logos need transparency)
+async function loadImage(url: string, maxSize?: number): Promise<{ dataUrl: string; width: number; height: number }> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = () => {
+      const scale = maxSize ? Math.min(1, maxSize / Math.max(img.width, img.height)) : 1;
       const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
       const ctx = canvas.getContext('2d');
       if (ctx) {
-        ctx.drawImage(img, 0, 0);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
         resolve({
-          dataUrl: canvas.toDataURL('image/png'),
-          width: img.width,
-          height: img.height
+          dataUrl: maxSize ? canvas.toDataURL('image/jpeg', 0.8) : canvas.toDataURL('image/png'),
+          width: canvas.width,
+          height: canvas.height
         });
       } else {
         reject(new Error('Failed to get canvas context'));
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, History } from 'lucide-react';
+import { TICKET_STATUS_LABELS, type TicketStatus } from '@/lib/ticketStatus';
+
+interface StatusHistoryEntry {
+  id: string;
+  from_status: TicketStatus | null;
+  to_status: TicketStatus;
+  changed_by: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface TicketStatusTimelineProps {
+  ticketId: string;
+  // Changes whenever the ticket status changes so the timeline reloads
+  refreshKey?: string;
+}
+
+const statusColors: Record<TicketStatus, string> = {
+  aberto: 'bg-info text-info-foreground',
+  em_andamento: 'bg-warning text-warning-foreground',
+  finalizado: 'bg-success text-success-foreground',
+  cancelado: 'bg-muted text-muted-foreground',
+};
+
+export function TicketStatusTimeline({ ticketId, refreshKey }: TicketStatusTimelineProps) {
+  const [entries, setEntries] = useState<StatusHistoryEntry[]>([]);
+  const [userNames, setUserNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [ticketId, refreshKey]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('ticket_status_history')
+        .select('id, from_status, to_status, changed_by, note, created_at')
+        .eq('ticket_id', ticketId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setEntries(data || []);
+
+      const userIds = [...new Set((data || []).map(e => e.changed_by).filter((id): id is string => !!id))];
+      if (userIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('user_id, name')
+          .in('user_id', userIds);
+
+        setUserNames(Object.fromEntries((profiles || []).map(p => [p.user_id, p.name])));
+      }
+    } catch (error) {
+      console.error('Erro ao buscar histórico de status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="h-6 w-6 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <History className="h-10 w-10 text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">Nenhuma alteração de status registrada</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6">
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-6">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            {entry.from_status ? (
+              <>
+                <Badge variant="outline">{TICKET_STATUS_LABELS[entry.from_status]}</Badge>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+              </>
+            ) : (
+              <span className="text-xs text-muted-foreground">Criado como</span>
+            )}
+            <Badge className={statusColors[entry.to_status]}>{TICKET_STATUS_LABELS[entry.to_status]}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {format(new Date(entry.created_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            {' · '}
+            {entry.changed_by ? userNames[entry.changed_by] || 'Usuário' : 'Sistema'}
+          </p>
+          {entry.note && (
+            <p className="text-sm mt-2 whitespace-pre-wrap rounded-md bg-muted/50 p-2">{entry.note}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -31,6 +31,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { isDuplicate, maskPlate, plateField } from '@/lib/documentUtils';
 
 const bodyTypeOptions = [
   { value: 'grade_baixa', label: 'Grade Baixa' },
@@ -43,14 +44,14 @@ const bodyTypeOptions = [
 ];
 
 const vehicleSchema = z.object({
-  tractor_plate: z.string().max(10).optional(),
+  tractor_plate: plateField.optional(),
   tractor_brand: z.string().max(50).optional(),
   tractor_model: z.string().max(50).optional(),
-  trailer1_plate: z.string().max(10).optional(),
+  trailer1_plate: plateField.optional(),
   trailer1_body_type: z.string().optional(),
-  trailer2_plate: z.string().max(10).optional(),
+  trailer2_plate: plateField.optional(),
   trailer2_body_type: z.string().optional(),
-  trailer3_plate: z.string().max(10).optional(),
+  trailer3_plate: plateField.optional(),
   trailer3_body_type: z.string().optional(),
   description: z.string().max(500).optional(),
   color: z.string().max(30).optional(),
@@ -132,6 +133,11 @@ export function EditVehicleDialog({ vehicleId, open, onOpenChange, onSuccess }:
 
     setIsLoading(true);
     try {
+      if (data.tractor_plate && await isDuplicate('vehicle_plate', data.tractor_plate, vehicleId)) {
+        form.setError('tractor_plate', { message: 'Já existe um veículo com esta placa' });
+        return;
+      }
+
       const description = `${data.tractor_plate || ''} ${data.tractor_brand || ''} ${data.tractor_model || ''}`.trim() || 'Veículo';
 
       const { error } = await supabase
@@ -189,7 +195,7 @@ export function EditVehicleDialog({ vehicleId, open, onOpenChange, onSuccess }:
                     <FormItem>
                       <FormLabel>Placa</FormLabel>
                       <FormControl>
-                        <Input placeholder="ABC-1234" {...field} />
+                        <Input placeholder="ABC1D23" {...field} onChange={(e) => field.onChange(maskPlate(e.target.value))} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -236,7 +242,7 @@ export function EditVehicleDialog({ vehicleId, open, onOpenChange, onSuccess }:
                     <FormItem>
                       <FormLabel>Placa</FormLabel>
                       <FormControl>
-                        <Input placeholder="XYZ-9876" {...field} />
+                        <Input placeholder="XYZ9876" {...field} onChange={(e) => field.onChange(maskPlate(e.target.value))} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -280,7 +286,7 @@ export function EditVehicleDialog({ vehicleId, open, onOpenChange, onSuccess }:
                     <FormItem>
                       <FormLabel>Placa</FormLabel>
                       <FormControl>
-                        <Input placeholder="XYZ-9876" {...field} />
+                        <Input placeholder="XYZ9876" {...field} onChange={(e) => field.onChange(maskPlate(e.target.value))} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -324,7 +330,7 @@ export function EditVehicleDialog({ vehicleId, open, onOpenChange, onSuccess }:
                     <FormItem>
                       <FormLabel>Placa</FormLabel>
                       <FormControl>
-                        <Input placeholder="XYZ-9876" {...field} />
+                        <Input placeholder="XYZ9876" {...field} onChange={(e) => field.onChange(maskPlate(e.target.value))} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
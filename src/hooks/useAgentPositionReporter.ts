@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Keep the trail useful without flooding the table: at most one point per interval
+const REPORT_INTERVAL_MS = 30_000;
+
+export type PositionReporterStatus = 'idle' | 'reporting' | 'denied' | 'unavailable';
+
+/**
+ * Watches the device position and records it in ticket_agent_positions while `enabled`.
+ * The insert policy only accepts points for tickets em_andamento where the user is an agent.
+ */
+export function useAgentPositionReporter(ticketId: string | undefined, agentId: string | null, enabled: boolean) {
+  const [status, setStatus] = useState<PositionReporterStatus>('idle');
+  const [lastReportedAt, setLastReportedAt] = useState<Date | null>(null);
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || !ticketId || !agentId) {
+      setStatus('idle');
+      return;
+    }
+
+    if (!('geolocation' in navigator)) {
+      setStatus('unavailable');
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        setStatus('reporting');
+        const now = Date.now();
+        if (now - lastSentRef.current < REPORT_INTERVAL_MS) return;
+        lastSentRef.current = now;
+
+        const { coords } = position;
+        const { error } = await supabase.from('ticket_agent_positions').insert({
+          ticket_id: ticketId,
+          agent_id: agentId,
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracy_meters: coords.accuracy,
+          heading: coords.heading,
+          speed_kmh: coords.speed != null ? coords.speed * 3.6 : null,
+          recorded_at: new Date(position.timestamp).toISOString(),
+        });
+
+        if (error) {
+          console.error('Erro ao registrar posição do agente:', error);
+          // Allow the next fix to retry instead of waiting a full interval
+          lastSentRef.current = 0;
+          return;
+        }
+        setLastReportedAt(new Date(now));
+      },
+      (error) => {
+        console.error('Erro de geolocalização:', error);
+        setStatus(error.code === error.PERMISSION_DENIED ? 'denied' : 'unavailable');
+      },
+      { enableHighAccuracy: true, maximumAge: 10_000, timeout: 60_000 }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+    };
+  }, [ticketId, agentId, enabled]);
+
+  return { status, lastReportedAt };
+}
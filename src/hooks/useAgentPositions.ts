@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AgentPosition {
+  latitude: number;
+  longitude: number;
+  recorded_at: string;
+}
+
+export interface AgentTrail {
+  ticket_id: string;
+  agent_id: string;
+  agent_name: string;
+  positions: AgentPosition[];
+}
+
+// Positions arrive every ~30s per agent; one refetch per burst is enough
+const REFRESH_DEBOUNCE_MS = 1_000;
+
+// The map draws the recent route only; the marker comes from the latest position
+const TRAIL_WINDOW_MS = 2 * 60 * 60 * 1000;
+// Stays under the 1000-row response cap, newest rows first
+const TRAIL_MAX_ROWS = 1000;
+
+/**
+ * Loads the recent GPS trail of every agent on the given tickets and keeps it live through Supabase Realtime.
+ * Trails are ordered oldest to newest and always end at the agent's current position, even when
+ * it is older than the trail window.
+ */
+export function useAgentPositions(ticketIds: string[]) {
+  const [trails, setTrails] = useState<AgentTrail[]>([]);
+  // Stable key so a new array with the same tickets does not resubscribe
+  const ticketIdsKey = [...ticketIds].sort().join(',');
+
+  useEffect(() => {
+    const ids = ticketIdsKey ? ticketIdsKey.split(',') : [];
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const fetchTrails = async () => {
+      if (ids.length === 0) {
+        setTrails([]);
+        return;
+      }
+
+      const [trailResult, latestResult] = await Promise.all([
+        supabase
+          .from('ticket_agent_positions')
+          .select('ticket_id, agent_id, latitude, longitude, recorded_at, agents(name)')
+          .in('ticket_id', ids)
+          .gte('recorded_at', new Date(Date.now() - TRAIL_WINDOW_MS).toISOString())
+          .order('recorded_at', { ascending: false })
+          .limit(TRAIL_MAX_ROWS),
+        supabase.rpc('get_latest_agent_positions', { _ticket_ids: ids }),
+      ]);
+
+      if (cancelled) return;
+      const error = trailResult.error || latestResult.error;
+      if (error) {
+        console.error('Erro ao buscar posições dos agentes:', error);
+        return;
+      }
+
+      const grouped = new Map<string, AgentTrail>();
+      for (const row of [...(trailResult.data || [])].reverse()) {
+        const key = `${row.ticket_id}:${row.agent_id}`;
+        if (!grouped.has(key)) {
+          grouped.set(key, {
+            ticket_id: row.ticket_id,
+            agent_id: row.agent_id,
+            agent_name: (row.agents as { name: string } | null)?.name || 'Agente',
+            positions: [],
+          });
+        }
+        grouped.get(key)!.positions.push({
+          latitude: row.latitude,
+          longitude: row.longitude,
+          recorded_at: row.recorded_at,
+        });
+      }
+
+      // Agents idle for longer than the window, or cut by the row cap, still get their marker
+      for (const latest of latestResult.data || []) {
+        const key = `${latest.ticket_id}:${latest.agent_id}`;
+        const position = { latitude: latest.latitude, longitude: latest.longitude, recorded_at: latest.recorded_at };
+        const trail = grouped.get(key);
+        if (!trail) {
+          grouped.set(key, {
+            ticket_id: latest.ticket_id,
+            agent_id: latest.agent_id,
+            agent_name: latest.agent_name || 'Agente',
+            positions: [position],
+          });
+        } else if (trail.positions[trail.positions.length - 1].recorded_at < latest.recorded_at) {
+          trail.positions.push(position);
+        }
+      }
+      setTrails(Array.from(grouped.values()));
+    };
+
+    fetchTrails();
+    if (ids.length === 0) return;
+
+    const channel = supabase
+      .channel('agent-positions')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'ticket_agent_positions' }, (payload) => {
+        if (!ids.includes((payload.new as { ticket_id: string }).ticket_id)) return;
+        clearTimeout(timeout);
+        timeout = setTimeout(fetchTrails, REFRESH_DEBOUNCE_MS);
+      })
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      supabase.removeChannel(channel);
+    };
+  }, [ticketIdsKey]);
+
+  return trails;
+}
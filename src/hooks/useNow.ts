@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+/** Current time, refreshed on an interval so time-based badges update without a refetch. */
+export function useNow(intervalMs = 60_000) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
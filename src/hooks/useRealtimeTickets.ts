@@ -0,0 +1,75 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { TICKET_STATUS_LABELS } from '@/lib/ticketStatus';
+
+type TicketRow = Database['public']['Tables']['tickets']['Row'];
+
+const WATCHED_TABLES = ['tickets', 'ticket_support_agents', 'ticket_photos'] as const;
+
+// A single save touches several tables; coalesce the burst into one refresh
+const REFRESH_DEBOUNCE_MS = 500;
+
+interface RealtimeTicketsOptions {
+  // Show toasts for new tickets and status changes
+  notify?: boolean;
+}
+
+/**
+ * Subscribes to ticket changes pushed by Supabase Realtime and calls `onChange` after each burst.
+ * `channelName` must be unique per mounted subscriber.
+ */
+export function useRealtimeTickets(
+  channelName: string,
+  onChange: () => void,
+  { notify = false }: RealtimeTicketsOptions = {}
+) {
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleRefresh = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => onChangeRef.current(), REFRESH_DEBOUNCE_MS);
+    };
+
+    const handleTicketChange = (payload: RealtimePostgresChangesPayload<TicketRow>) => {
+      if (notify) {
+        if (payload.eventType === 'INSERT') {
+          toast.info(`Novo chamado aberto: ${payload.new.code || ''}`.trim(), {
+            description: `${payload.new.city} - ${payload.new.state}`,
+          });
+        } else if (payload.eventType === 'UPDATE' && payload.old.status && payload.old.status !== payload.new.status) {
+          toast.info(`Chamado ${payload.new.code || ''}: status alterado`, {
+            description: `${TICKET_STATUS_LABELS[payload.old.status]} → ${TICKET_STATUS_LABELS[payload.new.status]}`,
+          });
+        }
+      }
+      scheduleRefresh();
+    };
+
+    let channel = supabase.channel(channelName);
+    for (const table of WATCHED_TABLES) {
+      channel = table === 'tickets'
+        ? channel.on<TicketRow>('postgres_changes', { event: '*', schema: 'public', table }, handleTicketChange)
+        : channel.on('postgres_changes', { event: '*', schema: 'public', table }, scheduleRefresh);
+    }
+    channel.subscribe((status) => {
+      if (status === 'CHANNEL_ERROR') {
+        console.error('Erro na assinatura em tempo real:', channelName);
+      }
+    });
+
+    return () => {
+      clearTimeout(timeout);
+      supabase.removeChannel(channel);
+    };
+  }, [channelName, notify]);
+}
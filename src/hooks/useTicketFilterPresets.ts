@@ -0,0 +1,56 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import type { Database } from '@/integrations/supabase/types';
+
+export type TicketFilterPreset = Database['public']['Tables']['ticket_filter_presets']['Row'];
+
+// Shared by the Tickets page and the sidebar, so a save shows up in both
+const PRESETS_QUERY_KEY = 'ticket-filter-presets';
+
+/**
+ * The current user's saved Tickets filters. `query` is the page query string,
+ * so `/tickets?${preset.query}` reopens the view.
+ */
+export function useTicketFilterPresets() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: presets = [], isLoading } = useQuery({
+    queryKey: [PRESETS_QUERY_KEY, user?.id],
+    enabled: !!user,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ticket_filter_presets')
+        .select('*')
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: [PRESETS_QUERY_KEY] });
+
+  /** Saving under an existing name replaces that preset. */
+  const savePreset = async (name: string, query: string, pinned: boolean) => {
+    const { error } = await supabase
+      .from('ticket_filter_presets')
+      .upsert({ user_id: user!.id, name: name.trim(), query, pinned }, { onConflict: 'user_id,name' });
+    if (error) throw error;
+    await refresh();
+  };
+
+  const setPinned = async (id: string, pinned: boolean) => {
+    const { error } = await supabase.from('ticket_filter_presets').update({ pinned }).eq('id', id);
+    if (error) throw error;
+    await refresh();
+  };
+
+  const deletePreset = async (id: string) => {
+    const { error } = await supabase.from('ticket_filter_presets').delete().eq('id', id);
+    if (error) throw error;
+    await refresh();
+  };
+
+  return { presets, loading: isLoading, savePreset, setPinned, deletePreset };
+}
@@ -56,6 +56,109 @@ export type Database = {
         }
         Relationships: []
       }
+      agent_payment_run_items: {
+        Row: {
+          agent_id: string
+          agent_role: string
+          amount: number
+          compensation: number
+          created_at: string
+          expenses: number
+          id: string
+          run_id: string
+          ticket_id: string
+        }
+        Insert: {
+          agent_id: string
+          agent_role: string
+          amount?: number
+          compensation?: number
+          created_at?: string
+          expenses?: number
+          id?: string
+          run_id: string
+          ticket_id: string
+        }
+        Update: {
+          agent_id?: string
+          agent_role?: string
+          amount?: number
+          compensation?: number
+          created_at?: string
+          expenses?: number
+          id?: string
+          run_id?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_payment_run_items_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_payment_run_items_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "agent_payment_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_payment_run_items_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_payment_runs: {
+        Row: {
+          agent_count: number
+          created_at: string
+          created_by: string | null
+          id: string
+          item_count: number
+          paid_at: string
+          period_end: string
+          period_start: string
+          reversed_at: string | null
+          reversed_by: string | null
+          status: string
+          total_amount: number
+        }
+        Insert: {
+          agent_count?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          item_count?: number
+          paid_at?: string
+          period_end: string
+          period_start: string
+          reversed_at?: string | null
+          reversed_by?: string | null
+          status?: string
+          total_amount?: number
+        }
+        Update: {
+          agent_count?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          item_count?: number
+          paid_at?: string
+          period_end?: string
+          period_start?: string
+          reversed_at?: string | null
+          reversed_by?: string | null
+          status?: string
+          total_amount?: number
+        }
+        Relationships: []
+      }
       agent_registrations: {
         Row: {
           address: string | null
@@ -196,6 +299,7 @@ export type Database = {
           street: string | null
           street_number: string | null
           updated_at: string
+          user_id: string | null
           vehicle_plate: string | null
           vehicle_type: string | null
         }
@@ -230,6 +334,7 @@ export type Database = {
           street?: string | null
           street_number?: string | null
           updated_at?: string
+          user_id?: string | null
           vehicle_plate?: string | null
           vehicle_type?: string | null
         }
@@ -264,11 +369,80 @@ export type Database = {
           street?: string | null
           street_number?: string | null
           updated_at?: string
+          user_id?: string | null
           vehicle_plate?: string | null
           vehicle_type?: string | null
         }
         Relationships: []
       }
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          record_id: string
+          table_name: string
+          ticket_code: string | null
+          ticket_id: string | null
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id: string
+          table_name: string
+          ticket_code?: string | null
+          ticket_id?: string | null
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          record_id?: string
+          table_name?: string
+          ticket_code?: string | null
+          ticket_id?: string | null
+        }
+        Relationships: []
+      }
+      client_users: {
+        Row: {
+          client_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_users_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       clients: {
         Row: {
           address: string | null
@@ -285,6 +459,7 @@ export type Database = {
           name: string
           neighborhood: string | null
           notes: string | null
+          payment_term_days: number
           state: string
           status: Database["public"]["Enums"]["client_status"]
           street: string | null
@@ -306,6 +481,7 @@ export type Database = {
           name: string
           neighborhood?: string | null
           notes?: string | null
+          payment_term_days?: number
           state: string
           status?: Database["public"]["Enums"]["client_status"]
           street?: string | null
@@ -327,6 +503,7 @@ export type Database = {
           name?: string
           neighborhood?: string | null
           notes?: string | null
+          payment_term_days?: number
           state?: string
           status?: Database["public"]["Enums"]["client_status"]
           street?: string | null
@@ -335,6 +512,223 @@ export type Database = {
         }
         Relationships: []
       }
+      expense_approvals: {
+        Row: {
+          agent_id: string
+          amount: number
+          expense_type: string
+          id: string
+          notes: string | null
+          reviewed_at: string
+          reviewed_by: string | null
+          status: string
+          ticket_id: string
+        }
+        Insert: {
+          agent_id: string
+          amount: number
+          expense_type: string
+          id?: string
+          notes?: string | null
+          reviewed_at?: string
+          reviewed_by?: string | null
+          status: string
+          ticket_id: string
+        }
+        Update: {
+          agent_id?: string
+          amount?: number
+          expense_type?: string
+          id?: string
+          notes?: string | null
+          reviewed_at?: string
+          reviewed_by?: string | null
+          status?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_approvals_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_approvals_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_receipts: {
+        Row: {
+          agent_id: string
+          amount: number | null
+          created_at: string
+          expense_type: string
+          file_name: string
+          file_path: string
+          id: string
+          mime_type: string | null
+          ticket_id: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          agent_id: string
+          amount?: number | null
+          created_at?: string
+          expense_type: string
+          file_name: string
+          file_path: string
+          id?: string
+          mime_type?: string | null
+          ticket_id: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          agent_id?: string
+          amount?: number | null
+          created_at?: string
+          expense_type?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          mime_type?: string | null
+          ticket_id?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_receipts_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_receipts_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          cancelled_at: string | null
+          client_id: string
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          id: string
+          issued_at: string
+          notes: string | null
+          number: string
+          period_end: string
+          period_start: string
+          received_at: string | null
+          status: string
+          ticket_count: number
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          issued_at?: string
+          notes?: string | null
+          number?: string
+          period_end: string
+          period_start: string
+          received_at?: string | null
+          status?: string
+          ticket_count?: number
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          issued_at?: string
+          notes?: string | null
+          number?: string
+          period_end?: string
+          period_start?: string
+          received_at?: string | null
+          status?: string
+          ticket_count?: number
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      operational_goals: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          created_by: string | null
+          efficiency_target: number | null
+          id: string
+          month: string
+          response_time_target: number | null
+          service_type: Database["public"]["Enums"]["service_type"] | null
+          tickets_target: number | null
+          updated_at: string
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          efficiency_target?: number | null
+          id?: string
+          month: string
+          response_time_target?: number | null
+          service_type?: Database["public"]["Enums"]["service_type"] | null
+          tickets_target?: number | null
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          efficiency_target?: number | null
+          id?: string
+          month?: string
+          response_time_target?: number | null
+          service_type?: Database["public"]["Enums"]["service_type"] | null
+          tickets_target?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "operational_goals_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       operators: {
         Row: {
           active: boolean | null
@@ -361,31 +755,121 @@ export type Database = {
       }
       plans: {
         Row: {
+          agent_count: number
+          apoio_1_armed: Database["public"]["Enums"]["armed_requirement"]
+          apoio_2_armed: Database["public"]["Enums"]["armed_requirement"]
           category: string | null
           created_at: string
           description: string | null
           id: string
           name: string
+          principal_armed: Database["public"]["Enums"]["armed_requirement"]
+          service_type: Database["public"]["Enums"]["service_type"] | null
           updated_at: string
         }
         Insert: {
+          agent_count?: number
+          apoio_1_armed?: Database["public"]["Enums"]["armed_requirement"]
+          apoio_2_armed?: Database["public"]["Enums"]["armed_requirement"]
           category?: string | null
           created_at?: string
           description?: string | null
           id?: string
           name: string
+          principal_armed?: Database["public"]["Enums"]["armed_requirement"]
+          service_type?: Database["public"]["Enums"]["service_type"] | null
           updated_at?: string
         }
         Update: {
+          agent_count?: number
+          apoio_1_armed?: Database["public"]["Enums"]["armed_requirement"]
+          apoio_2_armed?: Database["public"]["Enums"]["armed_requirement"]
           category?: string | null
           created_at?: string
           description?: string | null
           id?: string
           name?: string
+          principal_armed?: Database["public"]["Enums"]["armed_requirement"]
+          service_type?: Database["public"]["Enums"]["service_type"] | null
           updated_at?: string
         }
         Relationships: []
       }
+      pricing_rules: {
+        Row: {
+          agent_role: string | null
+          base_value: number
+          client_id: string | null
+          created_at: string
+          effective_from: string
+          effective_to: string | null
+          extra_hour_rate: number
+          extra_km_rate: number
+          id: string
+          included_hours: number
+          included_km: number
+          is_armed: boolean | null
+          name: string | null
+          plan_id: string | null
+          service_type: Database["public"]["Enums"]["service_type"] | null
+          target: string
+          updated_at: string
+        }
+        Insert: {
+          agent_role?: string | null
+          base_value?: number
+          client_id?: string | null
+          created_at?: string
+          effective_from?: string
+          effective_to?: string | null
+          extra_hour_rate?: number
+          extra_km_rate?: number
+          id?: string
+          included_hours?: number
+          included_km?: number
+          is_armed?: boolean | null
+          name?: string | null
+          plan_id?: string | null
+          service_type?: Database["public"]["Enums"]["service_type"] | null
+          target: string
+          updated_at?: string
+        }
+        Update: {
+          agent_role?: string | null
+          base_value?: number
+          client_id?: string | null
+          created_at?: string
+          effective_from?: string
+          effective_to?: string | null
+          extra_hour_rate?: number
+          extra_km_rate?: number
+          id?: string
+          included_hours?: number
+          included_km?: number
+          is_armed?: boolean | null
+          name?: string | null
+          plan_id?: string | null
+          service_type?: Database["public"]["Enums"]["service_type"] | null
+          target?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_rules_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pricing_rules_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -413,30 +897,227 @@ export type Database = {
         }
         Relationships: []
       }
+      sla_rules: {
+        Row: {
+          active: boolean
+          client_id: string | null
+          created_at: string
+          id: string
+          max_arrival_minutes: number | null
+          max_duration_minutes: number | null
+          name: string
+          plan_id: string | null
+          service_type: Database["public"]["Enums"]["service_type"] | null
+          state: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          max_arrival_minutes?: number | null
+          max_duration_minutes?: number | null
+          name: string
+          plan_id?: string | null
+          service_type?: Database["public"]["Enums"]["service_type"] | null
+          state?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          max_arrival_minutes?: number | null
+          max_duration_minutes?: number | null
+          name?: string
+          plan_id?: string | null
+          service_type?: Database["public"]["Enums"]["service_type"] | null
+          state?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_rules_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sla_rules_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_agent_positions: {
+        Row: {
+          accuracy_meters: number | null
+          agent_id: string
+          created_at: string
+          heading: number | null
+          id: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed_kmh: number | null
+          ticket_id: string
+        }
+        Insert: {
+          accuracy_meters?: number | null
+          agent_id: string
+          created_at?: string
+          heading?: number | null
+          id?: string
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          speed_kmh?: number | null
+          ticket_id: string
+        }
+        Update: {
+          accuracy_meters?: number | null
+          agent_id?: string
+          created_at?: string
+          heading?: number | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          speed_kmh?: number | null
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_agent_positions_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_agent_positions_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          data: Json
+          event_type: string
+          id: string
+          ticket_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          data?: Json
+          event_type: string
+          id?: string
+          ticket_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          data?: Json
+          event_type?: string
+          id?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_filter_presets: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          pinned: boolean
+          query: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          pinned?: boolean
+          query?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          pinned?: boolean
+          query?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       ticket_photos: {
         Row: {
           caption: string | null
           created_at: string
+          file_size: number | null
           file_url: string
+          height: number | null
           id: string
+          latitude: number | null
+          longitude: number | null
+          taken_at: string | null
+          thumbnail_url: string | null
           ticket_id: string
           uploaded_by_user_id: string
+          width: number | null
         }
         Insert: {
           caption?: string | null
           created_at?: string
+          file_size?: number | null
           file_url: string
+          height?: number | null
           id?: string
+          latitude?: number | null
+          longitude?: number | null
+          taken_at?: string | null
+          thumbnail_url?: string | null
           ticket_id: string
           uploaded_by_user_id: string
+          width?: number | null
         }
         Update: {
           caption?: string | null
           created_at?: string
+          file_size?: number | null
           file_url?: string
+          height?: number | null
           id?: string
+          latitude?: number | null
+          longitude?: number | null
+          taken_at?: string | null
+          thumbnail_url?: string | null
           ticket_id?: string
           uploaded_by_user_id?: string
+          width?: number | null
         }
         Relationships: [
           {
@@ -448,6 +1129,70 @@ export type Database = {
           },
         ]
       }
+      ticket_search_index: {
+        Row: {
+          document: unknown
+          ticket_id: string
+          updated_at: string
+        }
+        Insert: {
+          document: unknown
+          ticket_id: string
+          updated_at?: string
+        }
+        Update: {
+          document?: unknown
+          ticket_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_search_index_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["ticket_status"] | null
+          id: string
+          note: string | null
+          ticket_id: string
+          to_status: Database["public"]["Enums"]["ticket_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["ticket_status"] | null
+          id?: string
+          note?: string | null
+          ticket_id: string
+          to_status: Database["public"]["Enums"]["ticket_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["ticket_status"] | null
+          id?: string
+          note?: string | null
+          ticket_id?: string
+          to_status?: Database["public"]["Enums"]["ticket_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_status_history_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ticket_support_agents: {
         Row: {
           agent_id: string
@@ -463,6 +1208,7 @@ export type Database = {
           food_cost: number | null
           id: string
           km_end: number | null
+          km_source: string
           km_start: number | null
           other_costs: number | null
           paid_at: string | null
@@ -485,6 +1231,7 @@ export type Database = {
           food_cost?: number | null
           id?: string
           km_end?: number | null
+          km_source?: string
           km_start?: number | null
           other_costs?: number | null
           paid_at?: string | null
@@ -507,6 +1254,7 @@ export type Database = {
           food_cost?: number | null
           id?: string
           km_end?: number | null
+          km_source?: string
           km_start?: number | null
           other_costs?: number | null
           paid_at?: string | null
@@ -546,6 +1294,7 @@ export type Database = {
           end_datetime: string | null
           food_cost: number | null
           id: string
+          invoice_id: string | null
           km_end: number | null
           km_start: number | null
           main_agent_arrival: string | null
@@ -557,6 +1306,7 @@ export type Database = {
           main_agent_compensation_total: number | null
           main_agent_departure: string | null
           main_agent_id: string
+          main_agent_km_source: string
           main_agent_paid_at: string | null
           main_agent_payment_status: string
           operator_id: string | null
@@ -568,6 +1318,7 @@ export type Database = {
           revenue_extra_km_rate: number | null
           revenue_included_hours: number | null
           revenue_included_km: number | null
+          revenue_km_source: string
           revenue_paid_at: string | null
           revenue_status: string | null
           revenue_total: number | null
@@ -575,27 +1326,8 @@ export type Database = {
           start_datetime: string
           state: string
           status: Database["public"]["Enums"]["ticket_status"]
+          status_change_note: string | null
           summary: string | null
-          support_agent_1_arrival: string | null
-          support_agent_1_departure: string | null
-          support_agent_1_food_cost: number | null
-          support_agent_1_id: string | null
-          support_agent_1_km_end: number | null
-          support_agent_1_km_start: number | null
-          support_agent_1_other_costs: number | null
-          support_agent_1_paid_at: string | null
-          support_agent_1_payment_status: string
-          support_agent_1_toll_cost: number | null
-          support_agent_2_arrival: string | null
-          support_agent_2_departure: string | null
-          support_agent_2_food_cost: number | null
-          support_agent_2_id: string | null
-          support_agent_2_km_end: number | null
-          support_agent_2_km_start: number | null
-          support_agent_2_other_costs: number | null
-          support_agent_2_paid_at: string | null
-          support_agent_2_payment_status: string
-          support_agent_2_toll_cost: number | null
           toll_cost: number | null
           total_cost: number | null
           updated_at: string
@@ -614,6 +1346,7 @@ export type Database = {
           end_datetime?: string | null
           food_cost?: number | null
           id?: string
+          invoice_id?: string | null
           km_end?: number | null
           km_start?: number | null
           main_agent_arrival?: string | null
@@ -625,6 +1358,7 @@ export type Database = {
           main_agent_compensation_total?: number | null
           main_agent_departure?: string | null
           main_agent_id: string
+          main_agent_km_source?: string
           main_agent_paid_at?: string | null
           main_agent_payment_status?: string
           operator_id?: string | null
@@ -636,6 +1370,7 @@ export type Database = {
           revenue_extra_km_rate?: number | null
           revenue_included_hours?: number | null
           revenue_included_km?: number | null
+          revenue_km_source?: string
           revenue_paid_at?: string | null
           revenue_status?: string | null
           revenue_total?: number | null
@@ -643,27 +1378,8 @@ export type Database = {
           start_datetime: string
           state: string
           status?: Database["public"]["Enums"]["ticket_status"]
+          status_change_note?: string | null
           summary?: string | null
-          support_agent_1_arrival?: string | null
-          support_agent_1_departure?: string | null
-          support_agent_1_food_cost?: number | null
-          support_agent_1_id?: string | null
-          support_agent_1_km_end?: number | null
-          support_agent_1_km_start?: number | null
-          support_agent_1_other_costs?: number | null
-          support_agent_1_paid_at?: string | null
-          support_agent_1_payment_status?: string
-          support_agent_1_toll_cost?: number | null
-          support_agent_2_arrival?: string | null
-          support_agent_2_departure?: string | null
-          support_agent_2_food_cost?: number | null
-          support_agent_2_id?: string | null
-          support_agent_2_km_end?: number | null
-          support_agent_2_km_start?: number | null
-          support_agent_2_other_costs?: number | null
-          support_agent_2_paid_at?: string | null
-          support_agent_2_payment_status?: string
-          support_agent_2_toll_cost?: number | null
           toll_cost?: number | null
           total_cost?: number | null
           updated_at?: string
@@ -682,6 +1398,7 @@ export type Database = {
           end_datetime?: string | null
           food_cost?: number | null
           id?: string
+          invoice_id?: string | null
           km_end?: number | null
           km_start?: number | null
           main_agent_arrival?: string | null
@@ -693,6 +1410,7 @@ export type Database = {
           main_agent_compensation_total?: number | null
           main_agent_departure?: string | null
           main_agent_id?: string
+          main_agent_km_source?: string
           main_agent_paid_at?: string | null
           main_agent_payment_status?: string
           operator_id?: string | null
@@ -704,6 +1422,7 @@ export type Database = {
           revenue_extra_km_rate?: number | null
           revenue_included_hours?: number | null
           revenue_included_km?: number | null
+          revenue_km_source?: string
           revenue_paid_at?: string | null
           revenue_status?: string | null
           revenue_total?: number | null
@@ -711,27 +1430,8 @@ export type Database = {
           start_datetime?: string
           state?: string
           status?: Database["public"]["Enums"]["ticket_status"]
+          status_change_note?: string | null
           summary?: string | null
-          support_agent_1_arrival?: string | null
-          support_agent_1_departure?: string | null
-          support_agent_1_food_cost?: number | null
-          support_agent_1_id?: string | null
-          support_agent_1_km_end?: number | null
-          support_agent_1_km_start?: number | null
-          support_agent_1_other_costs?: number | null
-          support_agent_1_paid_at?: string | null
-          support_agent_1_payment_status?: string
-          support_agent_1_toll_cost?: number | null
-          support_agent_2_arrival?: string | null
-          support_agent_2_departure?: string | null
-          support_agent_2_food_cost?: number | null
-          support_agent_2_id?: string | null
-          support_agent_2_km_end?: number | null
-          support_agent_2_km_start?: number | null
-          support_agent_2_other_costs?: number | null
-          support_agent_2_paid_at?: string | null
-          support_agent_2_payment_status?: string
-          support_agent_2_toll_cost?: number | null
           toll_cost?: number | null
           total_cost?: number | null
           updated_at?: string
@@ -767,24 +1467,17 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tickets_support_agent_1_id_fkey"
-            columns: ["support_agent_1_id"]
-            isOneToOne: false
-            referencedRelation: "agents"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "tickets_support_agent_2_id_fkey"
-            columns: ["support_agent_2_id"]
+            foreignKeyName: "tickets_vehicle_id_fkey"
+            columns: ["vehicle_id"]
             isOneToOne: false
-            referencedRelation: "agents"
+            referencedRelation: "vehicles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tickets_vehicle_id_fkey"
-            columns: ["vehicle_id"]
+            foreignKeyName: "tickets_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "vehicles"
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
         ]
@@ -914,7 +1607,68 @@ export type Database = {
         Args: { new_password: string; target_user_id: string }
         Returns: Json
       }
+      agent_display_name: { Args: { _agent_id: string }; Returns: string }
+      agent_expenses_approved: {
+        Args: {
+          _agent_id: string
+          _food: number
+          _other: number
+          _ticket_id: string
+          _toll: number
+        }
+        Returns: boolean
+      }
+      cancel_client_invoice: { Args: { _invoice_id: string }; Returns: undefined }
+      confirm_agent_payment_run: {
+        Args: { _items: Json; _period_end: string; _period_start: string }
+        Returns: string
+      }
+      create_client_invoice: {
+        Args: {
+          _client_id: string
+          _due_date?: string
+          _notes?: string
+          _period_end: string
+          _period_start: string
+          _ticket_ids: string[]
+        }
+        Returns: string
+      }
+      current_agent_id: { Args: never; Returns: string }
+      current_client_id: { Args: never; Returns: string }
       delete_user: { Args: { target_user_id: string }; Returns: boolean }
+      document_in_use: {
+        Args: { _exclude_id?: string; _kind: string; _value: string }
+        Returns: boolean
+      }
+      get_client_portal_ticket: { Args: { _ticket_id: string }; Returns: Json }
+      get_client_portal_tickets: {
+        Args: never
+        Returns: {
+          city: string
+          code: string
+          end_datetime: string
+          id: string
+          photo_count: number
+          service_type: Database["public"]["Enums"]["service_type"]
+          start_datetime: string
+          state: string
+          status: Database["public"]["Enums"]["ticket_status"]
+          vehicle_description: string
+          vehicle_plate: string
+        }[]
+      }
+      get_latest_agent_positions: {
+        Args: { _ticket_ids: string[] }
+        Returns: {
+          agent_id: string
+          agent_name: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          ticket_id: string
+        }[]
+      }
       get_ticket_tracking_info: { Args: { p_ticket_id: string }; Returns: Json }
       has_role: {
         Args: {
@@ -923,10 +1677,52 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_ticket_agent: { Args: { _ticket_id: string }; Returns: boolean }
+      log_ticket_event: { Args: { _data?: Json; _event_type: string; _ticket_id: string }; Returns: undefined }
+      normalize_document: { Args: { _value: string }; Returns: string }
+      normalize_search_text: { Args: { _value: string }; Returns: string }
+      receive_client_invoice: { Args: { _invoice_id: string }; Returns: undefined }
+      refresh_ticket_search_index: { Args: { _ticket_ids: string[] }; Returns: undefined }
+      reverse_agent_payment_run: { Args: { _run_id: string }; Returns: undefined }
+      search_tickets: {
+        Args: {
+          _agent_id?: string
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _limit?: number
+          _only_mine?: boolean
+          _operator_id?: string
+          _plan_id?: string
+          _search?: string
+          _service_type?: Database["public"]["Enums"]["service_type"]
+          _start_from?: string
+          _start_to?: string
+          _status?: Database["public"]["Enums"]["ticket_status"]
+        }
+        Returns: {
+          city: string
+          client_id: string
+          client_name: string
+          code: string
+          created_at: string
+          end_datetime: string
+          id: string
+          main_agent_arrival: string
+          main_agent_name: string
+          plan_id: string
+          service_type: Database["public"]["Enums"]["service_type"]
+          start_datetime: string
+          state: string
+          status: Database["public"]["Enums"]["ticket_status"]
+        }[]
+      }
+      ticket_event_changed_fields: { Args: { _ignore: string[]; _new: Json; _old: Json }; Returns: string[] }
+      ticket_search_query: { Args: { _search: string }; Returns: unknown }
     }
     Enums: {
       agent_status: "ativo" | "inativo"
       app_role: "admin" | "operador" | "agente" | "cliente_visualizacao"
+      armed_requirement: "armado" | "desarmado" | "indiferente"
       body_type_enum:
         | "grade_baixa"
         | "grade_alta"
@@ -1073,6 +1869,7 @@ export const Constants = {
     Enums: {
       agent_status: ["ativo", "inativo"],
       app_role: ["admin", "operador", "agente", "cliente_visualizacao"],
+      armed_requirement: ["armado", "desarmado", "indiferente"],
       body_type_enum: [
         "grade_baixa",
         "grade_alta",
@@ -0,0 +1,72 @@
+import type { Database } from '@/integrations/supabase/types';
+import { calculateDistance } from '@/lib/geoUtils';
+import type { ArmedRequirement } from '@/lib/planUtils';
+
+type ServiceType = Database['public']['Enums']['service_type'];
+
+export interface RankableAgent {
+  id: string;
+  name: string;
+  is_armed: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+  has_alarm_skill: boolean | null;
+  has_investigation_skill: boolean | null;
+  has_preservation_skill: boolean | null;
+  has_logistics_skill: boolean | null;
+  has_auditing_skill: boolean | null;
+}
+
+export const RANKABLE_AGENT_COLUMNS =
+  'id, name, is_armed, latitude, longitude, has_alarm_skill, has_investigation_skill, has_preservation_skill, has_logistics_skill, has_auditing_skill';
+
+type SkillColumn = 'has_alarm_skill' | 'has_investigation_skill' | 'has_preservation_skill' | 'has_logistics_skill' | 'has_auditing_skill';
+
+const SERVICE_SKILL: Record<ServiceType, SkillColumn> = {
+  alarme: 'has_alarm_skill',
+  averiguacao: 'has_investigation_skill',
+  preservacao: 'has_preservation_skill',
+  acompanhamento_logistico: 'has_logistics_skill',
+  sindicancia: 'has_auditing_skill',
+};
+
+export interface AgentCandidate<T extends RankableAgent = RankableAgent> {
+  agent: T;
+  distanceKm: number;
+  hasSkill: boolean;
+  meetsArmed: boolean;
+  isBusy: boolean;
+}
+
+interface RankingContext {
+  lat: number;
+  lng: number;
+  serviceType: ServiceType;
+  armedRequirement: ArmedRequirement;
+  // Agents already on an 'aberto' / 'em_andamento' ticket
+  busyAgentIds: Set<string>;
+}
+
+// Number of failed criteria; 0 means the agent fully fits the ticket
+const penalty = (c: AgentCandidate) => Number(!c.hasSkill) + Number(!c.meetsArmed) + Number(c.isBusy);
+
+/**
+ * Ranks agents with a known location for a ticket at the given point.
+ * Agents that fit the service skill, the slot's armed requirement and are free come first;
+ * within the same fit, the closest wins. Agents without coordinates are left out.
+ */
+export function rankAgentsForTicket<T extends RankableAgent>(agents: T[], ctx: RankingContext): AgentCandidate<T>[] {
+  const skill = SERVICE_SKILL[ctx.serviceType];
+
+  return agents
+    .filter(agent => agent.latitude != null && agent.longitude != null)
+    .map(agent => ({
+      agent,
+      distanceKm: calculateDistance(ctx.lat, ctx.lng, agent.latitude!, agent.longitude!),
+      hasSkill: !!agent[skill],
+      // Same rule as validatePlanCrew: only an 'armado' slot rejects an agent
+      meetsArmed: ctx.armedRequirement !== 'armado' || !!agent.is_armed,
+      isBusy: ctx.busyAgentIds.has(agent.id),
+    }))
+    .sort((a, b) => penalty(a) - penalty(b) || a.distanceKm - b.distanceKm);
+}
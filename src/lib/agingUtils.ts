@@ -0,0 +1,125 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  '0-30': '0-30 dias',
+  '31-60': '31-60 dias',
+  '61-90': '61-90 dias',
+  '90+': '+90 dias',
+};
+
+// Clients without a configured term fall back to this
+export const DEFAULT_PAYMENT_TERM_DAYS = 30;
+
+// An open amount owed by a client: an issued invoice or a finished ticket not yet invoiced
+export interface Receivable {
+  id: string;
+  kind: 'fatura' | 'chamado';
+  reference: string;
+  clientId: string;
+  clientName: string;
+  clientDocument: string | null;
+  // Invoice date, or the ticket's end for tickets not yet invoiced
+  referenceDate: Date;
+  dueDate: Date;
+  amount: number;
+}
+
+export interface AgedReceivable extends Receivable {
+  ageDays: number;
+  bucket: AgingBucket;
+  daysOverdue: number;
+}
+
+export interface ClientAging {
+  clientId: string;
+  clientName: string;
+  clientDocument: string | null;
+  contactName: string | null;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  overdue: number;
+  oldestDays: number;
+  receivables: AgedReceivable[];
+}
+
+export interface AgingClientInfo {
+  name: string;
+  document: string | null;
+  contact_name: string | null;
+  contact_phone: string | null;
+  contact_email: string | null;
+  payment_term_days: number | null;
+}
+
+export const getAgingBucket = (ageDays: number): AgingBucket => {
+  if (ageDays <= 30) return '0-30';
+  if (ageDays <= 60) return '31-60';
+  if (ageDays <= 90) return '61-90';
+  return '90+';
+};
+
+/** Due date of a ticket billed without an invoice: its end plus the client's payment term. */
+export const getTicketDueDate = (endDatetime: Date, paymentTermDays: number | null | undefined) =>
+  addDays(endDatetime, paymentTermDays ?? DEFAULT_PAYMENT_TERM_DAYS);
+
+export const ageReceivable = (receivable: Receivable, today: Date): AgedReceivable => {
+  const ageDays = Math.max(0, differenceInCalendarDays(today, receivable.referenceDate));
+  return {
+    ...receivable,
+    ageDays,
+    bucket: getAgingBucket(ageDays),
+    daysOverdue: Math.max(0, differenceInCalendarDays(today, receivable.dueDate)),
+  };
+};
+
+/**
+ * Groups open receivables per client with the 0-30/31-60/61-90/90+ day buckets.
+ * Clients are ordered by overdue amount so the worst payers come first.
+ */
+export const buildAgingReport = (
+  receivables: Receivable[],
+  clients: Record<string, AgingClientInfo>,
+  today = new Date()
+): ClientAging[] => {
+  const report: Record<string, ClientAging> = {};
+
+  receivables.forEach(receivable => {
+    const aged = ageReceivable(receivable, today);
+    if (!report[aged.clientId]) {
+      const client = clients[aged.clientId];
+      report[aged.clientId] = {
+        clientId: aged.clientId,
+        clientName: client?.name || aged.clientName,
+        clientDocument: client?.document || aged.clientDocument,
+        contactName: client?.contact_name || null,
+        contactPhone: client?.contact_phone || null,
+        contactEmail: client?.contact_email || null,
+        buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 },
+        total: 0,
+        overdue: 0,
+        oldestDays: 0,
+        receivables: [],
+      };
+    }
+
+    const row = report[aged.clientId];
+    row.buckets[aged.bucket] += aged.amount;
+    row.total += aged.amount;
+    if (aged.daysOverdue > 0) row.overdue += aged.amount;
+    row.oldestDays = Math.max(row.oldestDays, aged.ageDays);
+    row.receivables.push(aged);
+  });
+
+  return Object.values(report)
+    .map(row => ({
+      ...row,
+      receivables: row.receivables.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime()),
+    }))
+    .sort((a, b) => b.overdue - a.overdue || b.total - a.total);
+};
@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type AuditValues = Record<string, string | number | boolean | null>;
+
+export type AuditEntry = Omit<Database['public']['Tables']['audit_log']['Row'], 'old_values' | 'new_values' | 'action'> & {
+    action: 'INSERT' | 'UPDATE' | 'DELETE';
+    old_values: AuditValues | null;
+    new_values: AuditValues | null;
+};
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+    tickets: 'Chamado',
+    ticket_support_agents: 'Agente de apoio',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditEntry['action'], string> = {
+    INSERT: 'Criação',
+    UPDATE: 'Alteração',
+    DELETE: 'Exclusão',
+};
+
+// Main agent and support agent columns share labels once the prefix is dropped
+const FIELD_LABELS: Record<string, string> = {
+    revenue_base_value: 'Faturamento: valor base',
+    revenue_discount_addition: 'Faturamento: desconto/acréscimo',
+    revenue_extra_hour_rate: 'Faturamento: hora extra',
+    revenue_extra_km_rate: 'Faturamento: KM extra',
+    revenue_included_hours: 'Faturamento: franquia horas',
+    revenue_included_km: 'Faturamento: franquia KM',
+    revenue_km_source: 'Faturamento: origem do KM',
+    revenue_total: 'Faturamento: total',
+    revenue_status: 'Faturamento: status',
+    main_agent_id: 'Agente principal',
+    agent_id: 'Agente',
+    compensation_base_value: 'Honorário: valor base',
+    compensation_extra_hour_rate: 'Honorário: hora extra',
+    compensation_extra_km_rate: 'Honorário: KM extra',
+    compensation_included_hours: 'Honorário: franquia horas',
+    compensation_included_km: 'Honorário: franquia KM',
+    compensation_total: 'Honorário: total',
+    km_source: 'Honorário: origem do KM',
+    payment_status: 'Pagamento: status',
+    toll_cost: 'Pedágio',
+    food_cost: 'Alimentação',
+    other_costs: 'Outros custos',
+};
+
+const MONEY_FIELDS = new Set([
+    'revenue_base_value', 'revenue_discount_addition', 'revenue_extra_hour_rate', 'revenue_extra_km_rate', 'revenue_total',
+    'compensation_base_value', 'compensation_extra_hour_rate', 'compensation_extra_km_rate', 'compensation_total',
+    'toll_cost', 'food_cost', 'other_costs',
+]);
+
+// Columns holding an agent id, shown with the agent's name
+export const AGENT_FIELDS = new Set(['main_agent_id', 'agent_id']);
+
+const baseField = (field: string) => field.replace(/^main_agent_(?!id$)/, '');
+
+export const auditFieldLabel = (field: string) => FIELD_LABELS[field] ?? FIELD_LABELS[baseField(field)] ?? field;
+
+export const formatAuditValue = (field: string, value: AuditValues[string] | undefined, agentNames: Record<string, string> = {}) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (AGENT_FIELDS.has(field)) return agentNames[String(value)] || 'Agente removido';
+    if (MONEY_FIELDS.has(baseField(field))) {
+        return Number(value).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    }
+    return String(value);
+};
+
+export interface AuditChange {
+    field: string;
+    label: string;
+    before: AuditValues[string] | undefined;
+    after: AuditValues[string] | undefined;
+}
+
+/**
+ * Columns that differ between the old and new snapshots. Creations and deletions
+ * list every column that holds a value.
+ */
+export const diffAuditEntry = (entry: AuditEntry): AuditChange[] => {
+    const before = entry.old_values ?? {};
+    const after = entry.new_values ?? {};
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return fields
+        .filter((field) => {
+            if (entry.action === 'UPDATE') return before[field] !== after[field];
+            const value = entry.action === 'INSERT' ? after[field] : before[field];
+            return value !== null && value !== undefined;
+        })
+        .map((field) => ({ field, label: auditFieldLabel(field), before: before[field], after: after[field] }));
+};
+
+export interface AuditFilters {
+    ticketCode: string;
+    userId: string | null;
+    from: Date | null;
+    to: Date | null;
+}
+
+export interface AuditCursor {
+    changedAt: string;
+    id: string;
+}
+
+/**
+ * Newest first. Pass the last row received as the cursor to get the next page; the id breaks
+ * ties between rows written by the same transaction (a payment run stamps them all alike).
+ */
+export const fetchAuditLog = async (filters: AuditFilters, cursor: AuditCursor | null, limit: number): Promise<AuditEntry[]> => {
+    let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('changed_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit);
+
+    if (filters.ticketCode.trim()) query = query.ilike('ticket_code', `%${filters.ticketCode.trim()}%`);
+    if (filters.userId) query = query.eq('changed_by', filters.userId);
+    if (filters.from) query = query.gte('changed_at', filters.from.toISOString());
+    if (filters.to) query = query.lte('changed_at', filters.to.toISOString());
+    if (cursor) {
+        query = query.or(`changed_at.lt."${cursor.changedAt}",and(changed_at.eq."${cursor.changedAt}",id.lt.${cursor.id})`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data as unknown as AuditEntry[]) || [];
+};
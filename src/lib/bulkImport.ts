@@ -0,0 +1,466 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '@/integrations/supabase/client';
+import { geocodeAddress } from '@/utils/geocoding';
+import { formatCpfOrCnpj, isValidCpf, isValidCpfOrCnpj, isValidPlate, normalizeDocument, normalizePlate, onlyDigits } from '@/lib/documentUtils';
+import { fetchAllRows } from '@/lib/queryUtils';
+
+export type ImportEntity = 'clientes' | 'veiculos' | 'agentes';
+
+type FieldType = 'text' | 'number' | 'boolean' | 'email' | 'uf' | 'cpf' | 'cpf_cnpj' | 'plate' | 'enum';
+
+type ImportValue = string | number | boolean | null;
+
+export interface ImportField {
+  key: string;
+  // Column header, the same used by the Excel exports
+  label: string;
+  type?: FieldType;
+  required?: boolean;
+  // Spreadsheet label -> stored value, for enum fields
+  options?: Record<string, string>;
+  aliases?: string[];
+}
+
+export interface ImportEntityConfig {
+  label: string;
+  fields: ImportField[];
+  // Address fields that trigger geocoding when they change
+  addressFields?: string[];
+}
+
+const BODY_TYPE_OPTIONS: Record<string, string> = {
+  'Grade Baixa': 'grade_baixa',
+  'Grade Alta': 'grade_alta',
+  'Baú': 'bau',
+  'Sider': 'sider',
+  'Frigorífico': 'frigorifico',
+  'Container': 'container',
+  'Prancha': 'prancha',
+};
+
+const trailerFields = (n: number): ImportField[] => [
+  { key: `trailer${n}_plate`, label: `Placa Carreta ${n}`, type: 'plate' },
+  { key: `trailer${n}_body_type`, label: `Carroceria Carreta ${n}`, type: 'enum', options: BODY_TYPE_OPTIONS },
+];
+
+export const IMPORT_ENTITIES: Record<ImportEntity, ImportEntityConfig> = {
+  clientes: {
+    label: 'Clientes',
+    fields: [
+      { key: 'name', label: 'Razão Social / Nome', required: true, aliases: ['Nome', 'Razão Social'] },
+      { key: 'document', label: 'CNPJ / CPF', type: 'cpf_cnpj', required: true, aliases: ['CNPJ', 'CPF', 'Documento'] },
+      { key: 'contact_name', label: 'Nome do Contato', aliases: ['Contato'] },
+      { key: 'contact_phone', label: 'Telefone' },
+      { key: 'contact_email', label: 'E-mail', type: 'email', aliases: ['Email'] },
+      { key: 'cep', label: 'CEP' },
+      { key: 'street', label: 'Rua / Logradouro', aliases: ['Rua', 'Logradouro'] },
+      { key: 'street_number', label: 'Número / Complemento', aliases: ['Número'] },
+      { key: 'neighborhood', label: 'Bairro' },
+      { key: 'city', label: 'Cidade', required: true },
+      { key: 'state', label: 'Estado (UF)', type: 'uf', required: true, aliases: ['UF', 'Estado'] },
+      { key: 'payment_term_days', label: 'Prazo de Pagamento (dias)', type: 'number', aliases: ['Prazo'] },
+      { key: 'notes', label: 'Observações' },
+    ],
+    addressFields: ['street', 'street_number', 'neighborhood', 'city', 'state'],
+  },
+  veiculos: {
+    label: 'Veículos',
+    fields: [
+      { key: 'client_document', label: 'CNPJ / CPF do Cliente', type: 'cpf_cnpj', aliases: ['CNPJ / CPF', 'CNPJ do Cliente'] },
+      { key: 'client_name', label: 'Cliente', aliases: ['Razão Social / Nome'] },
+      { key: 'tractor_plate', label: 'Placa Cavalo', type: 'plate', required: true, aliases: ['Placa'] },
+      { key: 'tractor_brand', label: 'Marca' },
+      { key: 'tractor_model', label: 'Modelo' },
+      { key: 'color', label: 'Cor' },
+      { key: 'year', label: 'Ano', type: 'number' },
+      ...trailerFields(1),
+      ...trailerFields(2),
+      ...trailerFields(3),
+    ],
+  },
+  agentes: {
+    label: 'Agentes',
+    fields: [
+      { key: 'name', label: 'Nome', required: true },
+      { key: 'document', label: 'CPF', type: 'cpf' },
+      { key: 'phone', label: 'Telefone', required: true },
+      { key: 'email', label: 'E-mail', type: 'email', aliases: ['Email'] },
+      { key: 'status', label: 'Status', type: 'enum', options: { 'Ativo': 'ativo', 'Inativo': 'inativo' } },
+      { key: 'performance_level', label: 'Desempenho', type: 'enum', options: { 'Ruim': 'ruim', 'Bom': 'bom', 'Ótimo': 'otimo' } },
+      { key: 'notes', label: 'Observações' },
+      { key: 'vehicle_type', label: 'Tipo de Veículo', type: 'enum', options: { 'Carro': 'carro', 'Moto': 'moto' } },
+      { key: 'vehicle_plate', label: 'Placa do Veículo', type: 'plate' },
+      { key: 'cep', label: 'CEP' },
+      { key: 'street', label: 'Rua / Logradouro', aliases: ['Rua', 'Logradouro'] },
+      { key: 'street_number', label: 'Número / Complemento', aliases: ['Número'] },
+      { key: 'neighborhood', label: 'Bairro' },
+      { key: 'city', label: 'Cidade' },
+      { key: 'state', label: 'Estado (UF)', type: 'uf', aliases: ['UF', 'Estado'] },
+      { key: 'latitude', label: 'Latitude', type: 'number' },
+      { key: 'longitude', label: 'Longitude', type: 'number' },
+      { key: 'is_armed', label: 'Armado', type: 'boolean' },
+      { key: 'has_alarm_skill', label: 'Alarme', type: 'boolean' },
+      { key: 'has_investigation_skill', label: 'Averiguação', type: 'boolean' },
+      { key: 'has_preservation_skill', label: 'Preservação', type: 'boolean' },
+      { key: 'has_logistics_skill', label: 'Logística', type: 'boolean' },
+      { key: 'has_auditing_skill', label: 'Sindicância', type: 'boolean' },
+      { key: 'pix_key', label: 'Chave PIX' },
+      { key: 'bank_name', label: 'Banco' },
+      { key: 'bank_account_type', label: 'Tipo de Conta', type: 'enum', options: { 'Conta Corrente': 'corrente', 'Conta Poupança': 'poupanca' } },
+      { key: 'bank_agency', label: 'Agência' },
+      { key: 'bank_account', label: 'Conta' },
+    ],
+    addressFields: ['street', 'street_number', 'neighborhood', 'city', 'state'],
+  },
+};
+
+const TABLES: Record<ImportEntity, 'clients' | 'vehicles' | 'agents'> = {
+  clientes: 'clients',
+  veiculos: 'vehicles',
+  agentes: 'agents',
+};
+
+// ─── Spreadsheet parsing ──────────────────────────────────────────────────────
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/** Reads the first sheet of an .xlsx / .xls / .csv file as text cells. */
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const matrix = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '', raw: false });
+  const headers = (matrix[0] || []).map((h) => String(h).trim());
+  const rows = matrix
+    .slice(1)
+    .filter((cells) => cells.some((c) => String(c).trim() !== ''))
+    .map((cells) => Object.fromEntries(headers.map((h, i) => [h, String(cells[i] ?? '').trim()])));
+
+  return { headers, rows };
+};
+
+/** Empty sheet with the import columns, for filling in from scratch. */
+export const downloadImportTemplate = (entity: ImportEntity) => {
+  const config = IMPORT_ENTITIES[entity];
+  const worksheet = XLSX.utils.aoa_to_sheet([config.fields.map((f) => f.label)]);
+  worksheet['!cols'] = config.fields.map((f) => ({ wch: f.label.length + 4 }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, config.label);
+  XLSX.writeFile(workbook, `modelo_importacao_${entity}.xlsx`);
+};
+
+const normalizeHeader = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// field key -> spreadsheet header
+export type ColumnMapping = Record<string, string>;
+
+/** Matches spreadsheet headers to fields by label or alias, ignoring case, accents and punctuation. */
+export const autoMapColumns = (entity: ImportEntity, headers: string[]): ColumnMapping => {
+  const byNormalized = new Map(headers.map((h) => [normalizeHeader(h), h]));
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  IMPORT_ENTITIES[entity].fields.forEach((field) => {
+    const header = [field.label, ...(field.aliases || [])]
+      .map((candidate) => byNormalized.get(normalizeHeader(candidate)))
+      .find((h) => h && !used.has(h));
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  });
+
+  return mapping;
+};
+
+// ─── Validation and dry run ───────────────────────────────────────────────────
+
+const BOOLEAN_VALUES: Record<string, boolean> = { sim: true, s: true, true: true, '1': true, x: true, nao: false, n: false, false: false, '0': false };
+
+// Exports write "-" for empty values
+const isBlank = (raw: string | undefined) => !raw || raw.trim() === '' || raw.trim() === '-';
+
+const parseCell = (field: ImportField, raw: string): { value?: ImportValue; error?: string } => {
+  const text = raw.trim();
+  switch (field.type) {
+    case 'number': {
+      // "1.234,5" uses the Brazilian decimal comma; "-23.55" keeps the dot
+      const value = text.includes(',') ? Number(text.replace(/\./g, '').replace(',', '.')) : Number(text);
+      return isNaN(value) ? { error: `${field.label}: número inválido` } : { value };
+    }
+    case 'boolean': {
+      const value = BOOLEAN_VALUES[normalizeHeader(text)];
+      return value === undefined ? { error: `${field.label}: use Sim ou Não` } : { value };
+    }
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text) ? { value: text.toLowerCase() } : { error: `${field.label}: e-mail inválido` };
+    case 'uf':
+      return /^[A-Za-z]{2}$/.test(text) ? { value: text.toUpperCase() } : { error: `${field.label}: use a sigla com 2 letras` };
+    case 'cpf':
+      return isValidCpf(onlyDigits(text)) ? { value: formatCpfOrCnpj(text) } : { error: `${field.label}: CPF inválido` };
+    case 'cpf_cnpj':
+      return isValidCpfOrCnpj(text) ? { value: formatCpfOrCnpj(text) } : { error: `${field.label}: CPF/CNPJ inválido` };
+    case 'plate':
+      return isValidPlate(text) ? { value: normalizePlate(text) } : { error: `${field.label}: placa inválida` };
+    case 'enum': {
+      const match = Object.entries(field.options || {}).find(
+        ([label, value]) => normalizeHeader(label) === normalizeHeader(text) || value === text.toLowerCase()
+      );
+      return match ? { value: match[1] } : { error: `${field.label}: valor "${text}" não reconhecido` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportChange {
+  label: string;
+  from: ImportValue;
+  to: ImportValue;
+}
+
+export interface ImportPlanRow {
+  // Spreadsheet line, counting the header as line 1
+  rowNumber: number;
+  action: ImportAction;
+  // Display name of the record (name or plate)
+  title: string;
+  values: Record<string, ImportValue>;
+  existingId?: string;
+  // Stored record an update row matched, for columns derived from fields the sheet left blank
+  existing?: Record<string, any>;
+  changes: ImportChange[];
+  errors: string[];
+}
+
+interface ExistingData {
+  records: Record<string, any>[];
+  clients: { id: string; name: string; document: string }[];
+}
+
+// Every stored record must be compared, so reads page past the 1000-row response cap
+const fetchExisting = async (entity: ImportEntity): Promise<ExistingData> => {
+  const clients = await fetchAllRows((from, to) =>
+    supabase.from('clients').select('id, name, document').order('id').range(from, to)
+  );
+  if (entity === 'clientes') return { records: clients, clients };
+
+  const records = await fetchAllRows((from, to) =>
+    supabase.from(TABLES[entity]).select('*').order('id').range(from, to)
+  );
+  return { records, clients };
+};
+
+// Agents may have no CPF; those are matched on name and phone instead
+const agentNamePhoneKey = (record: Record<string, any>): string | null =>
+  record.name && record.phone
+    ? `nome:${String(record.name).trim().toLowerCase().replace(/\s+/g, ' ')}|${onlyDigits(String(record.phone))}`
+    : null;
+
+// Normalized value used to match a row with an existing record
+const matchKey = (entity: ImportEntity, record: Record<string, any>): string | null => {
+  if (entity === 'veiculos') {
+    const plate = record.tractor_plate || record.plate_main;
+    return plate ? normalizePlate(String(plate)) : null;
+  }
+  const document = record.document ? normalizeDocument(String(record.document)) : '';
+  if (document) return `doc:${document}`;
+  return entity === 'agentes' ? agentNamePhoneKey(record) : null;
+};
+
+const sameValue = (type: FieldType | undefined, a: unknown, b: unknown) => {
+  if ((a ?? '') === '' && (b ?? '') === '') return true;
+  // Documents and plates are stored with or without punctuation
+  if (type === 'cpf' || type === 'cpf_cnpj') return normalizeDocument(String(a ?? '')) === normalizeDocument(String(b ?? ''));
+  if (type === 'plate') return normalizePlate(String(a ?? '')) === normalizePlate(String(b ?? ''));
+  if (typeof b === 'number') return Number(a) === b;
+  if (typeof b === 'boolean') return !!a === b;
+  return String(a ?? '').trim().toUpperCase() === String(b ?? '').trim().toUpperCase();
+};
+
+/**
+ * Dry run: validates every row and compares it with the stored records.
+ * Blank cells never overwrite stored values, so a partial sheet only updates what it carries.
+ */
+export const planImport = async (
+  entity: ImportEntity,
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  defaultClientId?: string
+): Promise<ImportPlanRow[]> => {
+  const config = IMPORT_ENTITIES[entity];
+  const existing = await fetchExisting(entity);
+  const existingByKey = new Map<string, Record<string, any>>();
+  existing.records.forEach((record) => {
+    // Agents with a CPF are also reachable by name and phone, for sheet rows that leave the CPF blank
+    const keys = [matchKey(entity, record), entity === 'agentes' ? agentNamePhoneKey(record) : null];
+    keys.forEach((key) => {
+      if (key && !existingByKey.has(key)) existingByKey.set(key, record);
+    });
+  });
+  const seenKeys = new Set<string>();
+
+  return rows.map((row, index) => {
+    const values: Record<string, ImportValue> = {};
+    const errors: string[] = [];
+
+    config.fields.forEach((field) => {
+      const header = mapping[field.key];
+      const raw = header ? row[header] : undefined;
+      if (isBlank(raw)) {
+        if (field.required) errors.push(`${field.label}: obrigatório`);
+        return;
+      }
+      const { value, error } = parseCell(field, raw!);
+      if (error) errors.push(error);
+      else values[field.key] = value ?? null;
+    });
+
+    const key = matchKey(entity, values);
+    const current = key ? existingByKey.get(key) : undefined;
+
+    if (entity === 'veiculos') {
+      const hasClientColumn = !!(values.client_document || values.client_name);
+      // The filtered client only fills rows that create a vehicle; updates keep the stored owner
+      const client = values.client_document
+        ? existing.clients.find((c) => normalizeDocument(c.document || '') === normalizeDocument(String(values.client_document)))
+        : values.client_name
+          ? existing.clients.find((c) => c.name.trim().toLowerCase() === String(values.client_name).trim().toLowerCase())
+          : current ? undefined : existing.clients.find((c) => c.id === defaultClientId);
+      if (client) values.client_id = client.id;
+      else if (hasClientColumn || !current) errors.push('Cliente não encontrado');
+      delete values.client_document;
+      delete values.client_name;
+    }
+
+    const title = String(values.name || values.tractor_plate || `Linha ${index + 2}`);
+    if (key && seenKeys.has(key)) errors.push('Registro repetido na planilha');
+    if (key) seenKeys.add(key);
+
+    if (errors.length > 0) {
+      return { rowNumber: index + 2, action: 'error', title, values, changes: [], errors };
+    }
+
+    if (!current) {
+      return { rowNumber: index + 2, action: 'create', title, values, changes: [], errors };
+    }
+
+    const clientName = (id: unknown) => existing.clients.find((c) => c.id === id)?.name ?? null;
+    const changes: ImportChange[] = Object.entries(values)
+      .filter(([field, value]) => !sameValue(config.fields.find((f) => f.key === field)?.type, current[field], value))
+      .map(([field, value]) => field === 'client_id'
+        ? { label: 'Cliente', from: clientName(current.client_id), to: clientName(value) }
+        : { label: config.fields.find((f) => f.key === field)!.label, from: current[field] ?? null, to: value });
+
+    return {
+      rowNumber: index + 2,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      title,
+      values,
+      existingId: current.id,
+      existing: current,
+      changes,
+      errors,
+    };
+  });
+};
+
+// ─── Commit ───────────────────────────────────────────────────────────────────
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { rowNumber: number; message: string }[];
+}
+
+const INSERT_BATCH_SIZE = 100;
+
+const fullAddress = (values: Record<string, ImportValue>) =>
+  [values.street, values.street_number, values.neighborhood, values.city, values.state].filter(Boolean).join(', ');
+
+/** Columns derived from the imported values, mirroring what the single-record dialogs store. */
+const withDerivedColumns = (entity: ImportEntity, row: ImportPlanRow) => {
+  const { values } = row;
+  const record: Record<string, ImportValue> = { ...values };
+  if (entity === 'veiculos') {
+    if (row.action === 'create' || values.tractor_brand || values.tractor_model) {
+      // Blank cells keep the stored brand and model, so they stay in the rebuilt description
+      const vehicle = { ...row.existing, ...values };
+      record.description = `${vehicle.tractor_plate || ''} ${vehicle.tractor_brand || ''} ${vehicle.tractor_model || ''}`.trim() || 'Veículo';
+    }
+    if (values.tractor_plate) record.plate_main = values.tractor_plate;
+  } else if (fullAddress(values)) {
+    record.address = fullAddress(values);
+  }
+  return record;
+};
+
+const needsGeocoding = (entity: ImportEntity, row: ImportPlanRow) => {
+  const addressFields = IMPORT_ENTITIES[entity].addressFields;
+  if (!addressFields || !row.values.city) return false;
+  // Coordinates typed in the sheet win over geocoding
+  if (row.values.latitude != null && row.values.longitude != null) return false;
+  if (row.action === 'create') return true;
+  const changedLabels = new Set(row.changes.map((c) => c.label));
+  return IMPORT_ENTITIES[entity].fields.some((f) => addressFields.includes(f.key) && changedLabels.has(f.label));
+};
+
+/**
+ * Writes the planned creates and updates. Addresses are geocoded first (one request per second),
+ * then new records are inserted in batches and updates are applied one by one.
+ */
+export const commitImport = async (
+  entity: ImportEntity,
+  plan: ImportPlanRow[],
+  onProgress?: (message: string) => void
+): Promise<ImportResult> => {
+  const table = TABLES[entity];
+  const rows = plan.filter((r) => r.action === 'create' || r.action === 'update');
+  const result: ImportResult = { created: 0, updated: 0, failed: [] };
+  const records = new Map<ImportPlanRow, Record<string, ImportValue>>(
+    rows.map((r) => [r, withDerivedColumns(entity, r)])
+  );
+
+  const toGeocode = rows.filter((r) => needsGeocoding(entity, r));
+  for (let i = 0; i < toGeocode.length; i++) {
+    const row = toGeocode[i];
+    onProgress?.(`Geocodificando endereços (${i + 1}/${toGeocode.length})...`);
+    const coords = await geocodeAddress(`${fullAddress(row.values)}, Brasil`, `${row.values.city}, ${row.values.state || ''}, BR`);
+    if (!coords) continue;
+    const record = records.get(row)!;
+    if (entity === 'clientes') {
+      record.default_coordinates_lat = coords.lat;
+      record.default_coordinates_lng = coords.lon;
+    } else {
+      record.latitude = coords.lat;
+      record.longitude = coords.lon;
+    }
+  }
+
+  const creates = rows.filter((r) => r.action === 'create');
+  for (let i = 0; i < creates.length; i += INSERT_BATCH_SIZE) {
+    const batch = creates.slice(i, i + INSERT_BATCH_SIZE);
+    onProgress?.(`Cadastrando registros (${Math.min(i + INSERT_BATCH_SIZE, creates.length)}/${creates.length})...`);
+    const { error } = await supabase.from(table).insert(batch.map((r) => records.get(r)!) as any);
+    if (error) batch.forEach((r) => result.failed.push({ rowNumber: r.rowNumber, message: error.message }));
+    else result.created += batch.length;
+  }
+
+  const updates = rows.filter((r) => r.action === 'update');
+  for (let i = 0; i < updates.length; i++) {
+    const row = updates[i];
+    onProgress?.(`Atualizando registros (${i + 1}/${updates.length})...`);
+    const { error } = await supabase.from(table).update(records.get(row)! as any).eq('id', row.existingId!);
+    if (error) result.failed.push({ rowNumber: row.rowNumber, message: error.message });
+    else result.updated += 1;
+  }
+
+  return result;
+};
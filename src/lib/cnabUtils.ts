@@ -0,0 +1,285 @@
+import { format } from 'date-fns';
+import { detectPixKey, type PixKeyType } from '@/lib/pixUtils';
+
+// CNAB 240 (FEBRABAN) remittance for supplier payments: one batch per payment method,
+// segment A for every transfer plus segment B carrying the PIX key when paying by PIX.
+
+export interface CnabPayer {
+  bankCode: string;
+  agency: string;
+  agencyDigit: string;
+  account: string;
+  accountDigit: string;
+  // Código do convênio assigned by the bank
+  agreement: string;
+  companyName: string;
+  companyDocument: string;
+}
+
+export interface CnabPayment {
+  // Our reference, echoed back in the bank's return file
+  reference: string;
+  payeeName: string;
+  payeeDocument: string | null;
+  pixKey: string | null;
+  bankName: string | null;
+  bankAgency: string | null;
+  bankAccount: string | null;
+  amount: number;
+}
+
+export interface CnabSkippedPayment {
+  payment: CnabPayment;
+  reason: string;
+}
+
+// Common banks by name, for agents that typed the bank name without its code
+const BANK_CODES: Record<string, string> = {
+  'banco do brasil': '001',
+  'bb': '001',
+  'santander': '033',
+  'banrisul': '041',
+  'inter': '077',
+  'caixa': '104',
+  'cef': '104',
+  'agibank': '121',
+  'stone': '197',
+  'btg': '208',
+  'original': '212',
+  'bradesco': '237',
+  'nubank': '260',
+  'nu pagamentos': '260',
+  'pagbank': '290',
+  'pagseguro': '290',
+  'mercado pago': '323',
+  'c6': '336',
+  'itau': '341',
+  'picpay': '380',
+  'safra': '422',
+  'pan': '623',
+  'sicredi': '748',
+  'sicoob': '756',
+};
+
+const normalizeText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/** Bank code from "341 - Itaú" style values or from a known bank name. */
+export function resolveBankCode(bankName: string | null | undefined): string | null {
+  if (!bankName) return null;
+  const leadingCode = bankName.trim().match(/^(\d{3})\b/);
+  if (leadingCode) return leadingCode[1];
+
+  const name = normalizeText(bankName);
+  const match = Object.keys(BANK_CODES)
+    .sort((a, b) => b.length - a.length)
+    .find(key => new RegExp(`\\b${key}\\b`).test(name));
+  return match ? BANK_CODES[match] : null;
+}
+
+// "1234-5" -> { number: '1234', digit: '5' }
+const splitDigit = (value: string | null | undefined, implicitDigit = false) => {
+  const clean = (value || '').trim().toUpperCase();
+  const match = clean.match(/^([\d.]+)[-\s]?([\dX])?$/);
+  if (!match) return null;
+  const number = match[1].replace(/\D/g, '');
+  const digit = match[2] || '';
+  // Accounts typed without a separator carry the digit as the last character
+  if (implicitDigit && !clean.includes('-') && !digit && number.length > 1) {
+    return { number: number.slice(0, -1), digit: number.slice(-1) };
+  }
+  return { number, digit };
+};
+
+const num = (value: string | number, length: number) => String(value).replace(/\D/g, '').slice(-length).padStart(length, '0');
+
+const alpha = (value: string | null | undefined, length: number) =>
+  normalizeText(value || '')
+    .toUpperCase()
+    .replace(/[^A-Z0-9 @._\-+/]/g, ' ')
+    .slice(0, length)
+    .padEnd(length, ' ');
+
+const blank = (length: number) => ' '.repeat(length);
+
+const money = (value: number, length: number) => num(Math.round(value * 100), length);
+
+const record = (...fields: string[]) => {
+  const line = fields.join('');
+  if (line.length !== 240) throw new Error(`Registro CNAB com ${line.length} posições`);
+  return line;
+};
+
+// Forma de lançamento / câmara centralizadora for each transfer type
+const METHODS = {
+  pix: { method: '45', clearing: '009' },
+  credito_conta: { method: '01', clearing: '000' },
+  ted: { method: '41', clearing: '018' },
+} as const;
+
+type CnabMethod = keyof typeof METHODS;
+
+const PIX_INITIATION: Record<PixKeyType, string> = {
+  telefone: '01',
+  email: '02',
+  cpf_cnpj: '03',
+  aleatoria: '04',
+};
+
+interface PreparedPayment {
+  payment: CnabPayment;
+  method: CnabMethod;
+  bankCode: string;
+  agency: { number: string; digit: string } | null;
+  account: { number: string; digit: string } | null;
+}
+
+const preparePayment = (payer: CnabPayer, payment: CnabPayment): PreparedPayment | string => {
+  if (payment.amount <= 0) return 'Valor zerado';
+
+  const bankCode = resolveBankCode(payment.bankName);
+  const agency = splitDigit(payment.bankAgency);
+  const account = splitDigit(payment.bankAccount, true);
+
+  if (payment.pixKey) {
+    return { payment, method: 'pix', bankCode: bankCode || '000', agency, account };
+  }
+  if (!bankCode || !agency || !account) {
+    return 'Sem chave PIX e dados bancários incompletos (banco, agência ou conta)';
+  }
+  if (!payment.payeeDocument) return 'CPF/CNPJ do agente não cadastrado';
+
+  return {
+    payment,
+    method: bankCode === num(payer.bankCode, 3) ? 'credito_conta' : 'ted',
+    bankCode,
+    agency,
+    account,
+  };
+};
+
+const documentType = (document: string | null) => (document && document.replace(/\D/g, '').length > 11 ? '2' : '1');
+
+interface CnabOptions {
+  paymentDate: Date;
+  // Número sequencial do arquivo (NSA), increases by one for every file sent to the bank
+  fileSequence: number;
+}
+
+/**
+ * Builds a CNAB 240 payment remittance. Payments that cannot be sent (no PIX key and
+ * incomplete bank data) are returned in `skipped` so the team can pay them by hand.
+ */
+export function buildCnab240(payer: CnabPayer, payments: CnabPayment[], { paymentDate, fileSequence }: CnabOptions) {
+  const now = new Date();
+  const bank = num(payer.bankCode, 3);
+  const companyDoc = num(payer.companyDocument, 14);
+  const companyDocType = documentType(payer.companyDocument);
+
+  const prepared: PreparedPayment[] = [];
+  const skipped: CnabSkippedPayment[] = [];
+  payments.forEach(payment => {
+    const result = preparePayment(payer, payment);
+    if (typeof result === 'string') skipped.push({ payment, reason: result });
+    else prepared.push(result);
+  });
+
+  const payerAccount = () =>
+    alpha(payer.agreement, 20) +
+    num(payer.agency, 5) +
+    alpha(payer.agencyDigit, 1) +
+    num(payer.account, 12) +
+    alpha(payer.accountDigit, 1) +
+    blank(1);
+
+  const lines: string[] = [];
+
+  // Header de arquivo
+  lines.push(record(
+    bank, '0000', '0', blank(9),
+    companyDocType, companyDoc,
+    payerAccount(),
+    alpha(payer.companyName, 30),
+    blank(30), blank(10),
+    '1', format(now, 'ddMMyyyy'), format(now, 'HHmmss'),
+    num(fileSequence, 6), '089', '01600',
+    blank(20), blank(20), blank(29),
+  ));
+
+  const methods = (Object.keys(METHODS) as CnabMethod[]).filter(m => prepared.some(p => p.method === m));
+
+  methods.forEach((method, batchIndex) => {
+    const batch = num(batchIndex + 1, 4);
+    const batchPayments = prepared.filter(p => p.method === method);
+    const batchLines: string[] = [];
+    let sequence = 0;
+
+    // Header de lote
+    batchLines.push(record(
+      bank, batch, '1', 'C', '20', METHODS[method].method, '046', blank(1),
+      companyDocType, companyDoc,
+      payerAccount(),
+      alpha(payer.companyName, 30),
+      blank(40),
+      blank(30), num(0, 5), blank(15), blank(20), num(0, 5), blank(3), blank(2),
+      '01', blank(6), blank(10),
+    ));
+
+    batchPayments.forEach(({ payment, bankCode, agency, account }) => {
+      // Segmento A
+      sequence++;
+      batchLines.push(record(
+        bank, batch, '3', num(sequence, 5), 'A', '0', '00',
+        METHODS[method].clearing,
+        num(bankCode, 3),
+        num(agency?.number || 0, 5), alpha(agency?.digit, 1),
+        num(account?.number || 0, 12), alpha(account?.digit, 1), blank(1),
+        alpha(payment.payeeName, 30),
+        alpha(payment.reference, 20),
+        format(paymentDate, 'ddMMyyyy'), 'BRL', num(0, 15),
+        money(payment.amount, 15),
+        blank(20), num(0, 8), num(0, 15),
+        blank(40), blank(2), blank(5), blank(2), blank(3), '0', blank(10),
+      ));
+
+      if (method !== 'pix' || !payment.pixKey) return;
+
+      // Segmento B (PIX)
+      const pix = detectPixKey(payment.pixKey);
+      sequence++;
+      batchLines.push(record(
+        bank, batch, '3', num(sequence, 5), 'B',
+        alpha(PIX_INITIATION[pix.type], 3),
+        documentType(payment.payeeDocument), num(payment.payeeDocument || 0, 14),
+        blank(35),
+        alpha(`PAGAMENTO ${payment.reference}`, 60),
+        pix.key.padEnd(99, ' ').slice(0, 99),
+        blank(6), num(0, 8),
+      ));
+    });
+
+    // Trailer de lote (counts header and trailer too)
+    const batchTotal = batchPayments.reduce((sum, p) => sum + p.payment.amount, 0);
+    batchLines.push(record(
+      bank, batch, '5', blank(9),
+      num(batchLines.length + 1, 6),
+      money(batchTotal, 18), num(0, 18), num(0, 6),
+      blank(165), blank(10),
+    ));
+
+    lines.push(...batchLines);
+  });
+
+  // Trailer de arquivo
+  lines.push(record(
+    bank, '9999', '9', blank(9),
+    num(methods.length, 6), num(lines.length + 1, 6), num(0, 6),
+    blank(205),
+  ));
+
+  return {
+    content: lines.join('\r\n') + '\r\n',
+    included: prepared.map(p => p.payment),
+    skipped,
+  };
+}
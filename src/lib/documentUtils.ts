@@ -0,0 +1,115 @@
+// Brazilian document (CPF / CNPJ) and license plate checks shared by forms, imports and PIX keys
+import * as z from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, '');
+
+/** Uppercase letters and digits only — CNPJs may carry letters since the 2026 format. */
+export const normalizeDocument = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const isValidCpf = (cpf: string) => {
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) return false;
+  const digit = (len: number) => {
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += Number(cpf[i]) * (len + 1 - i);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return digit(9) === Number(cpf[9]) && digit(10) === Number(cpf[10]);
+};
+
+/**
+ * Numeric and alphanumeric CNPJs: the 12 base characters may be letters, the two
+ * check digits are always numeric. Each character counts as its ASCII code minus 48.
+ */
+export const isValidCnpj = (cnpj: string) => {
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) return false;
+  const digit = (len: number) => {
+    // Weights run 2..9 from right to left
+    let sum = 0;
+    for (let i = 0; i < len; i++) sum += (cnpj.charCodeAt(i) - 48) * (((len - 1 - i) % 8) + 2);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return digit(12) === Number(cnpj[12]) && digit(13) === Number(cnpj[13]);
+};
+
+/** Accepts formatted or bare CPF / CNPJ values. */
+export const isValidCpfOrCnpj = (value: string) => {
+  const doc = normalizeDocument(value);
+  return doc.length === 11 ? isValidCpf(doc) : isValidCnpj(doc);
+};
+
+export const formatCpfOrCnpj = (value: string) => {
+  const doc = normalizeDocument(value);
+  if (/^\d{11}$/.test(doc)) return doc.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
+  if (doc.length === 14) return doc.replace(/(\w{2})(\w{3})(\w{3})(\w{4})(\w{2})/, '$1.$2.$3/$4-$5');
+  return value.trim();
+};
+
+// Input masks, applied while typing
+export const maskCpf = (value: string) => {
+  const digits = onlyDigits(value).slice(0, 11);
+  return digits
+    .replace(/^(\d{3})(\d)/, '$1.$2')
+    .replace(/^(\d{3})\.(\d{3})(\d)/, '$1.$2.$3')
+    .replace(/\.(\d{3})(\d{1,2})$/, '.$1-$2');
+};
+
+const maskCnpj = (doc: string) =>
+  doc
+    .slice(0, 14)
+    .replace(/^(\w{2})(\w)/, '$1.$2')
+    .replace(/^(\w{2})\.(\w{3})(\w)/, '$1.$2.$3')
+    .replace(/^(\w{2})\.(\w{3})\.(\w{3})(\w)/, '$1.$2.$3/$4')
+    .replace(/\/(\w{4})(\w{1,2})$/, '/$1-$2');
+
+/** CPF mask up to 11 digits, CNPJ mask beyond that or as soon as a letter is typed. */
+export const maskCpfOrCnpj = (value: string) => {
+  const doc = normalizeDocument(value);
+  return doc.length > 11 || /[A-Z]/.test(doc) ? maskCnpj(doc) : maskCpf(doc);
+};
+
+export const normalizePlate = (plate: string) => plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Old format (ABC1234) and Mercosul (ABC1D23)
+export const isValidPlate = (plate: string) => /^[A-Z]{3}\d[A-Z0-9]\d{2}$/.test(normalizePlate(plate));
+
+/** Plates are stored bare and uppercase, the same way the spreadsheet import saves them. */
+export const maskPlate = (value: string) => normalizePlate(value).slice(0, 7);
+
+// zod fields for the client, agent and vehicle forms
+export const cpfField = z
+  .string()
+  .trim()
+  .refine((v) => !v || isValidCpf(onlyDigits(v)), 'CPF inválido');
+
+export const cpfOrCnpjField = z
+  .string()
+  .trim()
+  .min(1, 'Documento é obrigatório')
+  .refine(isValidCpfOrCnpj, 'CPF/CNPJ inválido');
+
+// Parsed plates come out bare, so submit handlers can store them as is
+export const plateField = z
+  .string()
+  .trim()
+  .refine((v) => !v || isValidPlate(v), 'Placa inválida')
+  .transform(normalizePlate);
+
+export type DuplicateKind = 'client_document' | 'agent_document' | 'vehicle_plate';
+
+/**
+ * Checks whether a document or plate is already registered, ignoring punctuation and case.
+ * `excludeId` skips the record being edited.
+ */
+export const isDuplicate = async (kind: DuplicateKind, value: string, excludeId?: string): Promise<boolean> => {
+  if (!normalizeDocument(value)) return false;
+  const { data, error } = await supabase.rpc('document_in_use', {
+    _kind: kind,
+    _value: value,
+    _exclude_id: excludeId,
+  });
+  if (error) throw error;
+  return !!data;
+};
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ExpenseType = 'pedagio' | 'alimentacao' | 'outros';
+
+export const EXPENSE_TYPES: ExpenseType[] = ['pedagio', 'alimentacao', 'outros'];
+
+export const EXPENSE_TYPE_LABELS: Record<ExpenseType, string> = {
+  pedagio: 'Pedágio',
+  alimentacao: 'Alimentação',
+  outros: 'Outras despesas',
+};
+
+export const RECEIPTS_BUCKET = 'expense-receipts';
+
+export interface ExpenseReceipt {
+  id: string;
+  expense_type: ExpenseType;
+  file_path: string;
+  file_name: string;
+  mime_type: string | null;
+  amount: number | null;
+  uploaded_by: string | null;
+  created_at: string;
+}
+
+export interface ExpenseApproval {
+  expense_type: ExpenseType;
+  amount: number;
+  status: 'aprovado' | 'rejeitado';
+  notes: string | null;
+  reviewed_at: string;
+}
+
+// Expense values of one ticket agent (toll_cost, food_cost, other_costs)
+export type ExpenseAmounts = Record<ExpenseType, number>;
+
+/**
+ * Same rule as the database trigger that guards payments: every non-zero expense
+ * needs an approval for its current value.
+ */
+export const isExpenseApproved = (approval: Pick<ExpenseApproval, 'amount' | 'status'> | undefined, amount: number) =>
+  amount <= 0 || (!!approval && approval.status === 'aprovado' && Number(approval.amount) === amount);
+
+export const getUnapprovedExpenses = (
+  amounts: ExpenseAmounts,
+  approvals: Pick<ExpenseApproval, 'expense_type' | 'amount' | 'status'>[]
+): ExpenseType[] =>
+  EXPENSE_TYPES.filter(type => !isExpenseApproved(approvals.find(a => a.expense_type === type), amounts[type]));
+
+export const uploadExpenseReceipt = async (params: {
+  ticketId: string;
+  agentId: string;
+  expenseType: ExpenseType;
+  file: File;
+  amount: number | null;
+  userId: string;
+}) => {
+  const { ticketId, agentId, expenseType, file, amount, userId } = params;
+  const filePath = `${ticketId}/${agentId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`;
+
+  const { error: uploadError } = await supabase.storage.from(RECEIPTS_BUCKET).upload(filePath, file);
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from('expense_receipts').insert({
+    ticket_id: ticketId,
+    agent_id: agentId,
+    expense_type: expenseType,
+    file_path: filePath,
+    file_name: file.name,
+    mime_type: file.type || null,
+    amount,
+    uploaded_by: userId,
+  });
+
+  if (error) {
+    await supabase.storage.from(RECEIPTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+};
+
+/** Receipts live in a private bucket, so links are short-lived signed URLs. */
+export const openExpenseReceipt = async (receipt: Pick<ExpenseReceipt, 'file_path'>) => {
+  const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).createSignedUrl(receipt.file_path, 60 * 5);
+  if (error) throw error;
+  window.open(data.signedUrl, '_blank', 'noopener,noreferrer');
+};
+
+export const deleteExpenseReceipt = async (receipt: Pick<ExpenseReceipt, 'id' | 'file_path'>) => {
+  const { error } = await supabase.from('expense_receipts').delete().eq('id', receipt.id);
+  if (error) throw error;
+  await supabase.storage.from(RECEIPTS_BUCKET).remove([receipt.file_path]);
+};
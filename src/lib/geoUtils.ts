@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllRows } from '@/lib/queryUtils';
+
+const EARTH_RADIUS_KM = 6371;
+
+const deg2rad = (deg: number) => deg * (Math.PI / 180);
+
+/** Haversine distance in km between two coordinates */
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+};
+
+export interface TrailPoint {
+  latitude: number;
+  longitude: number;
+  accuracy_meters?: number | null;
+}
+
+// Fixes worse than this are usually cell-tower guesses and add phantom km
+const MAX_ACCURACY_METERS = 100;
+
+/** Sums the haversine distance between consecutive points of a trail, ignoring imprecise fixes. */
+export const calculateTrailKm = (points: TrailPoint[]) => {
+  const usable = points.filter(p => p.accuracy_meters == null || p.accuracy_meters <= MAX_ACCURACY_METERS);
+  let total = 0;
+  for (let i = 1; i < usable.length; i++) {
+    total += calculateDistance(usable[i - 1].latitude, usable[i - 1].longitude, usable[i].latitude, usable[i].longitude);
+  }
+  return total;
+};
+
+/** GPS km for each agent of a ticket (keyed by agent_id). Agents without positions are absent. */
+export async function fetchGpsKmByAgent(ticketId: string): Promise<Record<string, number>> {
+  // A long shift passes the 1000-row cap; a truncated trail would under-bill the km
+  let data;
+  try {
+    data = await fetchAllRows((from, to) => supabase
+      .from('ticket_agent_positions')
+      .select('agent_id, latitude, longitude, accuracy_meters')
+      .eq('ticket_id', ticketId)
+      .order('recorded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error('Erro ao buscar trajeto GPS:', error);
+    return {};
+  }
+
+  const byAgent: Record<string, TrailPoint[]> = {};
+  for (const row of data) {
+    (byAgent[row.agent_id] ??= []).push(row);
+  }
+
+  const result: Record<string, number> = {};
+  for (const [agentId, points] of Object.entries(byAgent)) {
+    if (points.length > 1) result[agentId] = calculateTrailKm(points);
+  }
+  return result;
+}
+
+export type KmSource = 'odometro' | 'gps';
+
+export const KM_SOURCE_LABELS: Record<KmSource, string> = {
+  odometro: 'Odômetro',
+  gps: 'GPS',
+};
+
+// Flag when odometer and GPS disagree by more than 20% and at least 10 km
+const KM_DISCREPANCY_RATIO = 0.2;
+const KM_DISCREPANCY_MIN = 10;
+
+export const hasKmDiscrepancy = (odometerKm: number, gpsKm: number | null) => {
+  if (gpsKm == null) return false;
+  const diff = Math.abs(odometerKm - gpsKm);
+  return diff > KM_DISCREPANCY_MIN && diff > Math.max(odometerKm, gpsKm) * KM_DISCREPANCY_RATIO;
+};
+
+/** Km to bill/pay for an agent given the chosen source; falls back to the odometer when there is no GPS trail. */
+export const resolveKm = (odometerKm: number, gpsKm: number | null, source: KmSource) =>
+  source === 'gps' && gpsKm != null ? gpsKm : odometerKm;
@@ -0,0 +1,58 @@
+import { parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { generateClientMonthlyInvoicePDF, type MonthlyInvoiceItem } from '@/components/finance/ClientInvoicePDFGenerator';
+
+// Ticket columns needed to build the invoice line items
+export const INVOICE_TICKET_COLUMNS = [
+    'id', 'code', 'start_datetime', 'service_type',
+    'revenue_base_value', 'revenue_discount_addition', 'revenue_total',
+    'vehicles(tractor_plate)',
+].join(',');
+
+const serviceTypeLabels: Record<string, string> = {
+    alarme: 'Alarme',
+    averiguacao: 'Averiguação',
+    preservacao: 'Preservação',
+    acompanhamento_logistico: 'Acompanhamento Logístico',
+    sindicancia: 'Sindicância',
+};
+
+/** Invoice line from a ticket's stored revenue breakdown; extras are whatever the base and adjustments do not explain. */
+export const toInvoiceItem = (ticket: any): MonthlyInvoiceItem => {
+    const baseValue = Number(ticket.revenue_base_value) || 0;
+    const discountAddition = Number(ticket.revenue_discount_addition) || 0;
+    const total = Number(ticket.revenue_total) || 0;
+    return {
+        date: ticket.start_datetime,
+        ticketCode: ticket.code || '-',
+        vehiclePlate: ticket.vehicles?.tractor_plate || null,
+        serviceType: serviceTypeLabels[ticket.service_type] || ticket.service_type,
+        baseValue,
+        extras: Math.max(0, total - baseValue - discountAddition),
+        discountAddition,
+        total,
+    };
+};
+
+/** Loads an issued invoice with its tickets and downloads the PDF. */
+export const downloadClientInvoice = async (invoiceId: string) => {
+    const { data: invoice, error } = await supabase
+        .from('invoices')
+        .select(`number, period_start, period_end, issued_at, due_date, clients(name, document), tickets(${INVOICE_TICKET_COLUMNS})`)
+        .eq('id', invoiceId)
+        .single();
+
+    if (error) throw error;
+
+    const inv = invoice as any;
+    await generateClientMonthlyInvoicePDF({
+        invoiceNumber: inv.number,
+        clientName: inv.clients?.name || 'Cliente',
+        clientDocument: inv.clients?.document || null,
+        periodStart: parseISO(inv.period_start),
+        periodEnd: parseISO(inv.period_end),
+        issuedAt: new Date(inv.issued_at),
+        dueDate: inv.due_date ? parseISO(inv.due_date) : null,
+        items: (inv.tickets || []).map(toInvoiceItem),
+    });
+};
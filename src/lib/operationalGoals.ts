@@ -0,0 +1,86 @@
+import { differenceInMinutes, format, isSameMonth, parseISO, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type OperationalGoal = Database['public']['Tables']['operational_goals']['Row'] & {
+  clients?: { name: string } | null;
+};
+
+export const SERVICE_TYPE_LABELS: Record<Database['public']['Enums']['service_type'], string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acompanhamento Logístico',
+  sindicancia: 'Sindicância',
+};
+
+/** Goals are stored against the first day of their month. */
+export const goalMonth = (date: Date) => format(startOfMonth(date), 'yyyy-MM-dd');
+
+export const goalScopeLabel = (goal: OperationalGoal) => {
+  const parts = [
+    goal.service_type ? SERVICE_TYPE_LABELS[goal.service_type] : 'Todos os serviços',
+    goal.client_id ? goal.clients?.name || 'Cliente' : null,
+  ].filter(Boolean);
+  return parts.join(' · ');
+};
+
+export const fetchGoals = async (month: Date): Promise<OperationalGoal[]> => {
+  const { data, error } = await supabase
+    .from('operational_goals')
+    .select('*, clients(name)')
+    .eq('month', goalMonth(month))
+    .order('service_type', { nullsFirst: true })
+    .order('client_id', { nullsFirst: true });
+  if (error) throw error;
+  return (data as OperationalGoal[]) || [];
+};
+
+interface GoalTicket {
+  status: string;
+  service_type: string;
+  client_id: string;
+  start_datetime: string;
+  main_agent_arrival: string | null;
+}
+
+/** Minutes from the scheduled start to the main agent's arrival, or null when unknown. */
+export const responseTimeMinutes = (ticket: GoalTicket): number | null => {
+  if (!ticket.main_agent_arrival || !ticket.start_datetime) return null;
+  const minutes = differenceInMinutes(parseISO(ticket.main_agent_arrival), parseISO(ticket.start_datetime));
+  // Arrivals logged before the start time are data-entry mistakes
+  return minutes >= 0 ? minutes : null;
+};
+
+export interface GoalMetrics {
+  total: number;
+  completed: number;
+  // Completed over all tickets in scope, in percent
+  efficiency: number;
+  // Average response time in minutes, null without any arrival recorded
+  responseTime: number | null;
+}
+
+/** Metrics for the month and scope (service type / client) of a goal; tickets count in the month they start. */
+export const computeGoalMetrics = (
+  tickets: GoalTicket[],
+  month: Date,
+  scope: Pick<OperationalGoal, 'service_type' | 'client_id'> | null
+): GoalMetrics => {
+  const inScope = tickets.filter((t) =>
+    isSameMonth(parseISO(t.start_datetime), month) &&
+    (!scope?.service_type || t.service_type === scope.service_type) &&
+    (!scope?.client_id || t.client_id === scope.client_id)
+  );
+  const completed = inScope.filter((t) => t.status === 'finalizado').length;
+  const responseTimes = inScope.map(responseTimeMinutes).filter((m): m is number => m !== null);
+
+  return {
+    total: inScope.length,
+    completed,
+    efficiency: inScope.length > 0 ? Math.round((completed / inScope.length) * 100) : 0,
+    responseTime: responseTimes.length > 0
+      ? Math.round(responseTimes.reduce((sum, m) => sum + m, 0) / responseTimes.length)
+      : null,
+  };
+};
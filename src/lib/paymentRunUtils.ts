@@ -0,0 +1,76 @@
+import { generateAgentStatementPDF } from '@/components/finance/AgentPaymentPDFGenerator';
+
+// One agent payment (main agent or support slot of a ticket); Financeiro's PaymentItem satisfies it
+export interface PaymentRunItem {
+    ticketId: string;
+    agentId: string;
+    ticketCode: string;
+    clientName: string;
+    startDatetime: string;
+    agentName: string;
+    agentDocument: string | null;
+    agentRole: string;
+    agentRoleLabel: string;
+    pixKey: string | null;
+    bankName: string | null;
+    bankAgency: string | null;
+    bankAccount: string | null;
+    bankAccountType: string | null;
+    compensationTotal: number;
+    tollCost: number;
+    foodCost: number;
+    otherCosts: number;
+    totalCost: number;
+}
+
+export interface AgentPaymentGroup {
+    agentId: string;
+    agentName: string;
+    items: PaymentRunItem[];
+    total: number;
+}
+
+/** Groups payments by agent, ordered by agent name. */
+export const groupPaymentsByAgent = (items: PaymentRunItem[]): AgentPaymentGroup[] => {
+    const groups: Record<string, AgentPaymentGroup> = {};
+    items.forEach(item => {
+        if (!groups[item.agentId]) {
+            groups[item.agentId] = { agentId: item.agentId, agentName: item.agentName, items: [], total: 0 };
+        }
+        groups[item.agentId].items.push(item);
+        groups[item.agentId].total += item.totalCost;
+    });
+    return Object.values(groups).sort((a, b) => a.agentName.localeCompare(b.agentName));
+};
+
+/** Consolidated statement PDF for one agent of a run; paidAt is null while the run is a draft. */
+export const downloadAgentStatement = (group: AgentPaymentGroup, periodStart: Date, periodEnd: Date, paidAt: Date | null) => {
+    const first = group.items[0];
+    return generateAgentStatementPDF({
+        agentName: group.agentName,
+        agentDocument: first.agentDocument || '',
+        periodStart,
+        periodEnd,
+        paidAt,
+        items: group.items.map(item => ({
+            date: item.startDatetime,
+            ticketCode: item.ticketCode,
+            clientName: item.clientName,
+            roleLabel: item.agentRoleLabel,
+            compensation: item.compensationTotal,
+            expenses: item.tollCost + item.foodCost + item.otherCosts,
+            total: item.totalCost,
+        })),
+        bankingInfo: {
+            pixKey: first.pixKey,
+            bankName: first.bankName,
+            bankAgency: first.bankAgency,
+            bankAccount: first.bankAccount,
+            bankAccountType: first.bankAccountType,
+        },
+    });
+};
+
+/** 'principal' -> 'Agente Principal', 'apoio_2' -> 'Apoio 2' (same labels Financeiro shows). */
+export const getAgentRoleLabel = (agentRole: string) =>
+    agentRole === 'principal' ? 'Agente Principal' : agentRole.replace(/^apoio_(\d+)$/, 'Apoio $1');
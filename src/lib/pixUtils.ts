@@ -0,0 +1,87 @@
+// Static PIX BR Code ("copia e cola") following the EMV QRCPS layout used by the Banco Central
+import { isValidCpf } from '@/lib/documentUtils';
+
+export type PixKeyType = 'telefone' | 'email' | 'cpf_cnpj' | 'aleatoria';
+
+const EVP_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Agents register the PIX key as free text, so the type is inferred from its shape.
+ * An 11-digit key is a CPF when its check digits match, otherwise a mobile number.
+ */
+export function detectPixKey(rawKey: string): { type: PixKeyType; key: string } {
+  const trimmed = rawKey.trim();
+
+  if (trimmed.includes('@')) return { type: 'email', key: trimmed.toLowerCase() };
+  if (EVP_REGEX.test(trimmed)) return { type: 'aleatoria', key: trimmed.toLowerCase() };
+
+  const digits = trimmed.replace(/\D/g, '');
+  if (trimmed.startsWith('+')) return { type: 'telefone', key: `+${digits}` };
+  if (digits.length === 14) return { type: 'cpf_cnpj', key: digits };
+  if (digits.length === 11 && isValidCpf(digits)) return { type: 'cpf_cnpj', key: digits };
+  if (digits.length === 13 && digits.startsWith('55')) return { type: 'telefone', key: `+${digits}` };
+  if (digits.length === 10 || digits.length === 11) return { type: 'telefone', key: `+55${digits}` };
+
+  return { type: 'aleatoria', key: trimmed };
+}
+
+// BR Code text fields only accept plain ASCII
+const sanitize = (value: string, maxLength: number) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .,/-]/g, '')
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength);
+
+const field = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+/** CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF), as required by field 63. */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+interface PixBrCodeParams {
+  pixKey: string;
+  receiverName: string;
+  receiverCity: string;
+  // Omitted or zero lets the payer type the amount
+  amount?: number;
+  // Shown to the receiver in the bank statement
+  txid?: string;
+  description?: string;
+}
+
+export function buildPixBrCode({ pixKey, receiverName, receiverCity, amount, txid, description }: PixBrCodeParams): string {
+  const { key } = detectPixKey(pixKey);
+  const cleanDescription = description ? sanitize(description, 40) : '';
+  const cleanTxid = txid ? txid.replace(/[^A-Za-z0-9]/g, '').slice(0, 25) : '';
+
+  const merchantAccount =
+    field('00', 'br.gov.bcb.pix') +
+    field('01', key) +
+    (cleanDescription ? field('02', cleanDescription) : '');
+
+  const payload =
+    field('00', '01') +
+    field('26', merchantAccount) +
+    field('52', '0000') +
+    field('53', '986') +
+    (amount && amount > 0 ? field('54', amount.toFixed(2)) : '') +
+    field('58', 'BR') +
+    field('59', sanitize(receiverName, 25) || 'RECEBEDOR') +
+    field('60', sanitize(receiverCity, 15) || 'BRASIL') +
+    field('62', field('05', cleanTxid || '***')) +
+    '6304';
+
+  return payload + crc16(payload);
+}
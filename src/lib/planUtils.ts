@@ -0,0 +1,126 @@
+import * as z from 'zod';
+import type { Database } from '@/integrations/supabase/types';
+
+export type ArmedRequirement = Database['public']['Enums']['armed_requirement'];
+
+export type ServiceType = Database['public']['Enums']['service_type'];
+
+export type PlanSlot = 'principal' | 'apoio_1' | 'apoio_2';
+
+/**
+ * Crew declared by a plan: how many agents it needs and the armed requirement of each slot.
+ * A plan with a service type (alarm plans) prices every ticket as that type.
+ */
+export interface PlanComposition {
+    agent_count: number;
+    principal_armed: ArmedRequirement;
+    apoio_1_armed: ArmedRequirement;
+    apoio_2_armed: ArmedRequirement;
+    service_type: ServiceType | null;
+}
+
+export const PLAN_COMPOSITION_COLUMNS = 'agent_count, principal_armed, apoio_1_armed, apoio_2_armed, service_type';
+
+const armedRequirement = z.enum(['armado', 'desarmado', 'indiferente']);
+
+// Zod shape shared by the plan create/edit forms
+export const planCompositionSchema = {
+    agent_count: z.number().int().min(1).max(3),
+    principal_armed: armedRequirement,
+    apoio_1_armed: armedRequirement,
+    apoio_2_armed: armedRequirement,
+    service_type: z.enum(['alarme', 'averiguacao', 'preservacao', 'acompanhamento_logistico', 'sindicancia']).nullable(),
+};
+
+export const defaultPlanComposition: PlanComposition = {
+    agent_count: 1,
+    principal_armed: 'indiferente',
+    apoio_1_armed: 'indiferente',
+    apoio_2_armed: 'indiferente',
+    service_type: null,
+};
+
+export const PLAN_SLOTS: PlanSlot[] = ['principal', 'apoio_1', 'apoio_2'];
+
+export const PLAN_SLOT_LABELS: Record<PlanSlot, string> = {
+    principal: 'Principal',
+    apoio_1: 'Apoio 1',
+    apoio_2: 'Apoio 2',
+};
+
+export const ARMED_REQUIREMENT_LABELS: Record<ArmedRequirement, string> = {
+    armado: 'Armado',
+    desarmado: 'Desarmado',
+    indiferente: 'Indiferente',
+};
+
+const SLOT_COLUMN: Record<PlanSlot, keyof Omit<PlanComposition, 'agent_count' | 'service_type'>> = {
+    principal: 'principal_armed',
+    apoio_1: 'apoio_1_armed',
+    apoio_2: 'apoio_2_armed',
+};
+
+/**
+ * Armed requirement of the slot an agent occupies. Slots beyond the plan's crew are 'indiferente'.
+ */
+export function getSlotRequirement(
+    plan: PlanComposition | null | undefined,
+    agentRole: PlanSlot | string
+): ArmedRequirement {
+    if (!plan) return 'indiferente';
+    const slotIndex = PLAN_SLOTS.indexOf(agentRole as PlanSlot);
+    if (slotIndex < 0 || slotIndex >= plan.agent_count) return 'indiferente';
+    return plan[SLOT_COLUMN[agentRole as PlanSlot]];
+}
+
+/**
+ * Determine if the agent acting in a given role should be priced as ARMED or UNARMED.
+ * The plan's slot requirement wins; 'indiferente' falls back to the agent's own registration.
+ */
+export function getIsArmedByPlan(
+    plan: PlanComposition | null | undefined,
+    agentRole: PlanSlot | string,
+    agentIsArmed: boolean
+): boolean {
+    const requirement = getSlotRequirement(plan, agentRole);
+    if (requirement === 'armado') return true;
+    if (requirement === 'desarmado') return false;
+    return agentIsArmed;
+}
+
+export function describePlanComposition(plan: PlanComposition): string {
+    return PLAN_SLOTS.slice(0, plan.agent_count)
+        .map((slot) => `${PLAN_SLOT_LABELS[slot]}: ${ARMED_REQUIREMENT_LABELS[getSlotRequirement(plan, slot)]}`)
+        .join(' · ');
+}
+
+interface CrewMember {
+    role: PlanSlot | string;
+    isArmed: boolean | null | undefined;
+    name?: string;
+}
+
+/**
+ * Checks a ticket crew against the plan composition.
+ * An armed agent may fill a 'desarmado' slot (they are simply paid as unarmed), the reverse is not allowed.
+ * Returns a user-facing error message, or null when the crew satisfies the plan.
+ */
+export function validatePlanCrew(plan: PlanComposition | null | undefined, crew: CrewMember[]): string | null {
+    if (!plan) return null;
+
+    if (crew.length < plan.agent_count) {
+        return `O plano exige ${plan.agent_count} agente(s), mas ${crew.length} foi(ram) informado(s).`;
+    }
+
+    for (const member of crew) {
+        const requirement = getSlotRequirement(plan, member.role);
+        const label = PLAN_SLOT_LABELS[member.role as PlanSlot] || member.role;
+        const who = member.name ? ` (${member.name})` : '';
+
+        if (requirement === 'armado' && !member.isArmed) {
+            return `O agente ${label}${who} precisa ser armado neste plano.`;
+        }
+    }
+
+    return null;
+}
@@ -1,65 +1,149 @@
-// Pricing for AGENT payment (alarme)
-export const ALARME_PRICING = {
-    base: 100,
-    includedHours: 0.5,
-    includedKm: 50,
-    extraHourRate: 20,
-    extraKmRate: 1.50,
-};
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { getIsArmedByPlan, type PlanComposition } from '@/lib/planUtils';
+
+export type PricingRule = Database['public']['Tables']['pricing_rules']['Row'];
+export type PricingTarget = 'cliente' | 'agente';
 
-// Pricing for CLIENT billing (alarme) - different from agent payment
-export const ALARME_CLIENT_PRICING = {
-    base: 180,
-    includedHours: 0.5, // 30 minutes
-    includedKm: 50,
-    extraHourRate: 40,
-    extraKmRate: 2.50,
+// Support agents are numbered from 1 with no upper bound (apoio_1, apoio_2, apoio_3, ...)
+export type AgentRole = 'principal' | `apoio_${number}`;
+
+export interface PricingRates {
+    base: number;
+    includedHours: number;
+    includedKm: number;
+    extraHourRate: number;
+    extraKmRate: number;
+}
+
+// Last-resort rates, only used when no rule in pricing_rules matches (e.g. empty table)
+const FALLBACK_PRICING: Record<PricingTarget, PricingRates> = {
+    cliente: { base: 500, includedHours: 3, includedKm: 50, extraHourRate: 90, extraKmRate: 2.50 },
+    agente: { base: 280, includedHours: 3, includedKm: 50, extraHourRate: 40, extraKmRate: 1.50 },
 };
 
-// Pricing per agent role based on armed/unarmed
-export const ARMED_PRICING = { base: 300, includedHours: 3, includedKm: 50, extraHourRate: 45, extraKmRate: 1.50 };
-export const UNARMED_PRICING = { base: 280, includedHours: 3, includedKm: 50, extraHourRate: 40, extraKmRate: 1.50 };
+export interface PricingContext {
+    target: PricingTarget;
+    planId?: string | null;
+    serviceType?: string | null;
+    clientId?: string | null;
+    agentRole?: AgentRole | string | null;
+    isArmed?: boolean | null;
+    date?: string | Date | null;
+}
+
+export async function fetchPricingRules(): Promise<PricingRule[]> {
+    const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .order('effective_from', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+}
 
 /**
- * Determine if the agent acting in a given role should be priced as ARMED or UNARMED,
- * based on the plan name and their role (principal or support).
+ * Rules store the agent role as 'principal' or 'apoio'; every support slot maps to 'apoio'.
  */
-export function getIsArmedByPlan(
-    planName: string | null | undefined,
-    agentRole: 'principal' | 'apoio_1' | 'apoio_2' | string,
-    agentIsArmed: boolean
-): boolean {
-    if (!planName) return agentIsArmed;
-    const name = planName.toLowerCase();
-    const isSupport = agentRole !== 'principal';
-
-    if (name.includes('armado + 1 desarmado') || name.includes('armado+1 desarmado')) {
-        return !isSupport; // principal=armed, support=unarmed
+export function toPricingRole(agentRole: string | null | undefined): 'principal' | 'apoio' | null {
+    if (!agentRole) return null;
+    return agentRole === 'principal' ? 'principal' : 'apoio';
+}
+
+const toDateKey = (date: string | Date | null | undefined): string => {
+    const d = date ? new Date(date) : new Date();
+    return (isNaN(d.getTime()) ? new Date() : d).toISOString().slice(0, 10);
+};
+
+/**
+ * Finds the most specific rule matching the context. A NULL key on a rule matches anything;
+ * a client-specific rule beats a plan rule, which beats a service type rule, and so on.
+ * Ties are broken by the most recent effective_from.
+ */
+export function findPricingRule(rules: PricingRule[], ctx: PricingContext): PricingRule | null {
+    const day = toDateKey(ctx.date);
+    const role = toPricingRole(ctx.agentRole);
+
+    let best: PricingRule | null = null;
+    let bestScore = -1;
+
+    for (const rule of rules) {
+        if (rule.target !== ctx.target) continue;
+        if (rule.effective_from > day) continue;
+        if (rule.effective_to && rule.effective_to < day) continue;
+        if (rule.client_id && rule.client_id !== ctx.clientId) continue;
+        if (rule.plan_id && rule.plan_id !== ctx.planId) continue;
+        if (rule.service_type && rule.service_type !== ctx.serviceType) continue;
+        if (rule.agent_role && rule.agent_role !== role) continue;
+        if (rule.is_armed !== null && rule.is_armed !== !!ctx.isArmed) continue;
+
+        const score =
+            (rule.client_id ? 16 : 0) +
+            (rule.plan_id ? 8 : 0) +
+            (rule.service_type ? 4 : 0) +
+            (rule.agent_role ? 2 : 0) +
+            (rule.is_armed !== null ? 1 : 0);
+
+        if (score > bestScore || (score === bestScore && best && rule.effective_from > best.effective_from)) {
+            best = rule;
+            bestScore = score;
+        }
     }
-    if (name.includes('2 agente') && name.includes('armado')) return true;  // 2 armed
-    if (name.includes('1 agente') && name.includes('armado') && !name.includes('desarmado')) return true;
-    if (name.includes('1 agente') && name.includes('desarmado') && !name.includes('armado + ')) return false;
-    return agentIsArmed; // fallback
+
+    return best;
+}
+
+/**
+ * Service type the ticket is priced as. A plan with its own service type (alarm plans) wins
+ * over the type the ticket was opened with.
+ */
+export const getEffectiveServiceType = (
+    plan: { service_type?: string | null } | null | undefined,
+    serviceType: string | null | undefined
+) => plan?.service_type ?? serviceType ?? null;
+
+export function resolvePricing(rules: PricingRule[], ctx: PricingContext): PricingRates {
+    const rule = findPricingRule(rules, ctx);
+    if (!rule) return FALLBACK_PRICING[ctx.target];
+
+    return {
+        base: Number(rule.base_value) || 0,
+        includedHours: Number(rule.included_hours) || 0,
+        includedKm: Number(rule.included_km) || 0,
+        extraHourRate: Number(rule.extra_hour_rate) || 0,
+        extraKmRate: Number(rule.extra_km_rate) || 0,
+    };
 }
 
 interface CalculationParams {
-    planName: string | null | undefined;
-    agentRole: 'principal' | 'apoio_1' | 'apoio_2' | string;
+    rules: PricingRule[];
+    planId?: string | null;
+    plan: PlanComposition | null | undefined;
+    serviceType?: string | null;
+    clientId?: string | null;
+    date?: string | Date | null;
+    agentRole: AgentRole | string;
     agentIsArmed: boolean;
     durationHours: number;
     totalKm: number;
 }
 
 export function calculateAgentHonorary(params: CalculationParams) {
-    const isAlarme = params.planName?.toLowerCase().includes('alarme') ?? false;
-    const agentIsArmedByPlan = getIsArmedByPlan(params.planName, params.agentRole, params.agentIsArmed);
-    const pricing = isAlarme ? ALARME_PRICING : (agentIsArmedByPlan ? ARMED_PRICING : UNARMED_PRICING);
+    const pricing = resolvePricing(params.rules, {
+        target: 'agente',
+        planId: params.planId,
+        serviceType: params.serviceType,
+        clientId: params.clientId,
+        agentRole: params.agentRole,
+        isArmed: getIsArmedByPlan(params.plan, params.agentRole, params.agentIsArmed),
+        date: params.date,
+    });
 
     const extraKm = Math.max(0, params.totalKm - pricing.includedKm);
     const extraHours = Math.max(0, params.durationHours - pricing.includedHours);
 
     const costExtraKm = extraKm * pricing.extraKmRate;
     const costExtraHours = extraHours * pricing.extraHourRate;
-    
+
     return pricing.base + costExtraHours + costExtraKm;
 }
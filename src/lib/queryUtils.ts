@@ -0,0 +1,19 @@
+// PostgREST caps every response (max-rows, 1000 on Supabase), without an error
+const PAGE_SIZE = 1000;
+
+/**
+ * Runs a select page by page with .range() until a page comes back empty, so results
+ * are not silently cut at the row cap. The query needs a total order (add the id as a
+ * tiebreaker) or rows can repeat or go missing between pages.
+ */
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await page(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) return rows;
+    rows.push(...data);
+  }
+}
@@ -0,0 +1,168 @@
+import { differenceInMinutes, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type SlaRule = Database['public']['Tables']['sla_rules']['Row'] & {
+  clients?: { name: string } | null;
+  plans?: { name: string } | null;
+};
+
+export type SlaStatus = 'cumprido' | 'no_prazo' | 'em_risco' | 'violado';
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  cumprido: 'SLA cumprido',
+  no_prazo: 'No prazo',
+  em_risco: 'SLA em risco',
+  violado: 'SLA violado',
+};
+
+export const SLA_STATUS_COLORS: Record<SlaStatus, string> = {
+  cumprido: 'bg-success/15 text-success border-success/30',
+  no_prazo: 'bg-info/15 text-info border-info/30',
+  em_risco: 'bg-warning/15 text-warning border-warning/30',
+  violado: 'bg-destructive/15 text-destructive border-destructive/30',
+};
+
+// A running ticket is flagged once this share of its limit has elapsed
+export const SLA_WARNING_RATIO = 0.8;
+
+const SEVERITY: Record<SlaStatus, number> = { cumprido: 0, no_prazo: 1, em_risco: 2, violado: 3 };
+
+export interface SlaTicket {
+  client_id: string;
+  plan_id: string | null;
+  service_type: string;
+  state: string;
+  status: string;
+  start_datetime: string;
+  main_agent_arrival: string | null;
+  end_datetime: string | null;
+}
+
+export interface SlaCheck {
+  status: SlaStatus;
+  // Elapsed minutes so far, or the final value once the milestone is reached
+  minutes: number;
+  limit: number;
+}
+
+export interface SlaEvaluation {
+  rule: SlaRule;
+  arrival: SlaCheck | null;
+  duration: SlaCheck | null;
+  status: SlaStatus;
+}
+
+export const fetchSlaRules = async (): Promise<SlaRule[]> => {
+  const { data, error } = await supabase
+    .from('sla_rules')
+    .select('*, clients(name), plans(name)')
+    .order('name');
+  if (error) throw error;
+  return (data as SlaRule[]) || [];
+};
+
+// Client beats plan, plan beats service type, service type beats state
+const specificity = (rule: SlaRule) =>
+  (rule.client_id ? 8 : 0) + (rule.plan_id ? 4 : 0) + (rule.service_type ? 2 : 0) + (rule.state ? 1 : 0);
+
+/** The most specific active rule matching the ticket, if any. */
+export const findSlaRule = (ticket: SlaTicket, rules: SlaRule[]): SlaRule | null => {
+  const matches = rules.filter((rule) =>
+    rule.active &&
+    (!rule.client_id || rule.client_id === ticket.client_id) &&
+    (!rule.plan_id || rule.plan_id === ticket.plan_id) &&
+    (!rule.service_type || rule.service_type === ticket.service_type) &&
+    (!rule.state || rule.state === ticket.state?.toUpperCase())
+  );
+  return matches.sort((a, b) => specificity(b) - specificity(a))[0] ?? null;
+};
+
+const checkLimit = (start: string, reachedAt: string | null, limit: number | null, running: boolean, now: Date): SlaCheck | null => {
+  if (!limit || !start) return null;
+  if (reachedAt) {
+    const minutes = differenceInMinutes(parseISO(reachedAt), parseISO(start));
+    return { status: minutes > limit ? 'violado' : 'cumprido', minutes, limit };
+  }
+  // Closed without the timestamp: nothing to measure
+  if (!running) return null;
+  const minutes = Math.max(differenceInMinutes(now, parseISO(start)), 0);
+  const status: SlaStatus = minutes > limit ? 'violado' : minutes >= limit * SLA_WARNING_RATIO ? 'em_risco' : 'no_prazo';
+  return { status, minutes, limit };
+};
+
+/** Evaluates arrival and duration against the matching rule. Cancelled tickets are not measured. */
+export const evaluateSla = (ticket: SlaTicket, rules: SlaRule[], now = new Date()): SlaEvaluation | null => {
+  if (ticket.status === 'cancelado') return null;
+  const rule = findSlaRule(ticket, rules);
+  if (!rule) return null;
+
+  const running = ticket.status === 'aberto' || ticket.status === 'em_andamento';
+  const arrival = checkLimit(ticket.start_datetime, ticket.main_agent_arrival, rule.max_arrival_minutes, running, now);
+  const duration = checkLimit(ticket.start_datetime, ticket.end_datetime, rule.max_duration_minutes, running, now);
+  const checks = [arrival, duration].filter((c): c is SlaCheck => c !== null);
+  if (checks.length === 0) return null;
+
+  const status = checks.reduce<SlaStatus>((worst, c) => (SEVERITY[c.status] > SEVERITY[worst] ? c.status : worst), 'cumprido');
+  return { rule, arrival, duration, status };
+};
+
+/** Running tickets that are close to, or past, one of their limits. */
+export const isSlaAlert = (ticket: SlaTicket, evaluation: SlaEvaluation | null) =>
+  (ticket.status === 'aberto' || ticket.status === 'em_andamento') &&
+  (evaluation?.status === 'em_risco' || evaluation?.status === 'violado');
+
+export interface SlaCompliance {
+  clientId: string;
+  clientName: string;
+  evaluated: number;
+  arrivalOnTime: number;
+  arrivalMeasured: number;
+  durationOnTime: number;
+  durationMeasured: number;
+  breached: number;
+  // Tickets without any breach, in percent
+  compliance: number;
+}
+
+/** Compliance per client over finished tickets that have a rule. */
+export const slaComplianceByClient = (
+  tickets: (SlaTicket & { client_name: string })[],
+  rules: SlaRule[]
+): SlaCompliance[] => {
+  const byClient: Record<string, SlaCompliance> = {};
+  tickets
+    .filter((t) => t.status === 'finalizado')
+    .forEach((ticket) => {
+      const evaluation = evaluateSla(ticket, rules);
+      if (!evaluation) return;
+      const row = byClient[ticket.client_id] ??= {
+        clientId: ticket.client_id,
+        clientName: ticket.client_name,
+        evaluated: 0,
+        arrivalOnTime: 0,
+        arrivalMeasured: 0,
+        durationOnTime: 0,
+        durationMeasured: 0,
+        breached: 0,
+        compliance: 0,
+      };
+      row.evaluated += 1;
+      if (evaluation.arrival) {
+        row.arrivalMeasured += 1;
+        if (evaluation.arrival.status !== 'violado') row.arrivalOnTime += 1;
+      }
+      if (evaluation.duration) {
+        row.durationMeasured += 1;
+        if (evaluation.duration.status !== 'violado') row.durationOnTime += 1;
+      }
+      if (evaluation.status === 'violado') row.breached += 1;
+    });
+
+  return Object.values(byClient)
+    .map((row) => ({ ...row, compliance: Math.round(((row.evaluated - row.breached) / row.evaluated) * 100) }))
+    .sort((a, b) => a.compliance - b.compliance || b.evaluated - a.evaluated);
+};
+
+export const formatSlaMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}min`;
@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { TICKET_STATUS_LABELS, type TicketStatus } from '@/lib/ticketStatus';
+
+export type TicketEventType =
+  | 'criado'
+  | 'status_alterado'
+  | 'editado'
+  | 'agente_alterado'
+  | 'apoio_adicionado'
+  | 'apoio_removido'
+  | 'foto_adicionada'
+  | 'foto_removida'
+  | 'pagamento_agente'
+  | 'faturamento';
+
+// Shape of `data` per event type, as written by the log_* triggers
+export interface TicketEventData {
+  status?: TicketStatus;
+  from?: string | null;
+  to?: string | null;
+  note?: string | null;
+  fields?: string[];
+  agent?: string | null;
+  role?: 'principal' | 'apoio';
+  caption?: string | null;
+  invoice?: string | null;
+}
+
+export type TicketEvent = Omit<Database['public']['Tables']['ticket_events']['Row'], 'event_type' | 'data'> & {
+  event_type: TicketEventType;
+  data: TicketEventData;
+  tickets?: { code: string | null; clients: { name: string } | null } | null;
+};
+
+export const TICKET_EVENT_LABELS: Record<TicketEventType, string> = {
+  criado: 'Chamado aberto',
+  status_alterado: 'Status alterado',
+  editado: 'Dados editados',
+  agente_alterado: 'Agente principal trocado',
+  apoio_adicionado: 'Apoio adicionado',
+  apoio_removido: 'Apoio removido',
+  foto_adicionada: 'Foto adicionada',
+  foto_removida: 'Foto removida',
+  pagamento_agente: 'Pagamento de agente',
+  faturamento: 'Faturamento',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  arrival: 'chegada',
+  city: 'cidade',
+  client_id: 'cliente',
+  coordinates_lat: 'localização',
+  coordinates_lng: 'localização',
+  departure: 'saída',
+  detailed_report: 'relatório',
+  end_datetime: 'término',
+  food_cost: 'alimentação',
+  km_end: 'KM final',
+  km_start: 'KM inicial',
+  main_agent_arrival: 'chegada do agente',
+  main_agent_departure: 'saída do agente',
+  operator_id: 'operador',
+  other_costs: 'outros custos',
+  plan_id: 'plano',
+  revenue_total: 'valor faturado',
+  service_type: 'tipo de serviço',
+  start_datetime: 'início',
+  state: 'estado',
+  summary: 'resumo',
+  toll_cost: 'pedágio',
+  vehicle_id: 'veículo',
+};
+
+const PAYMENT_LABELS: Record<string, string> = { pendente: 'Pendente', pago: 'Pago' };
+const REVENUE_LABELS: Record<string, string> = { pendente: 'Pendente', faturado: 'Faturado', recebido: 'Recebido' };
+
+/** Readable names of the fields changed in an "editado" event; compensation and revenue breakdowns collapse into one entry. */
+export const describeChangedFields = (fields: string[] = []) => {
+  const labels = fields.map((field) =>
+    FIELD_LABELS[field] ??
+    (field.includes('compensation') ? 'honorário' : field.startsWith('revenue_') ? 'faturamento' : field.replace(/_/g, ' '))
+  );
+  return [...new Set(labels)].join(', ');
+};
+
+/** One-line description of an event, without the actor. */
+export const describeTicketEvent = (event: TicketEvent): string => {
+  const { data } = event;
+  switch (event.event_type) {
+    case 'criado':
+      return data.status ? `Chamado aberto como ${TICKET_STATUS_LABELS[data.status]}` : 'Chamado aberto';
+    case 'status_alterado':
+      return `Status: ${TICKET_STATUS_LABELS[data.from as TicketStatus] ?? data.from} → ${TICKET_STATUS_LABELS[data.to as TicketStatus] ?? data.to}`;
+    case 'editado':
+      return data.agent
+        ? `Apoio ${data.agent} editado: ${describeChangedFields(data.fields)}`
+        : `Editado: ${describeChangedFields(data.fields)}`;
+    case 'agente_alterado':
+      return `Agente principal: ${data.from || '—'} → ${data.to || '—'}`;
+    case 'apoio_adicionado':
+      return `Agente de apoio ${data.agent || ''} adicionado`.replace(/\s+/g, ' ');
+    case 'apoio_removido':
+      return `Agente de apoio ${data.agent || ''} removido`.replace(/\s+/g, ' ');
+    case 'foto_adicionada':
+      return data.caption ? `Foto adicionada: ${data.caption}` : 'Foto adicionada';
+    case 'foto_removida':
+      return data.caption ? `Foto removida: ${data.caption}` : 'Foto removida';
+    case 'pagamento_agente':
+      return `Pagamento ${data.role === 'principal' ? 'do principal' : 'do apoio'} ${data.agent || ''}: ${PAYMENT_LABELS[data.from ?? 'pendente']} → ${PAYMENT_LABELS[data.to ?? 'pendente']}`.replace(/\s+/g, ' ');
+    case 'faturamento':
+      return `Faturamento: ${REVENUE_LABELS[data.from ?? 'pendente']} → ${REVENUE_LABELS[data.to ?? 'pendente']}${data.invoice ? ` (${data.invoice})` : ''}`;
+    default:
+      return TICKET_EVENT_LABELS[event.event_type] ?? event.event_type;
+  }
+};
+
+interface FetchTicketEventsOptions {
+  ticketId?: string;
+  limit?: number;
+}
+
+/** Latest events first, for one ticket or across every ticket the user can see. */
+export const fetchTicketEvents = async ({ ticketId, limit = 100 }: FetchTicketEventsOptions = {}): Promise<TicketEvent[]> => {
+  let query = supabase
+    .from('ticket_events')
+    .select('*, tickets(code, clients(name))')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (ticketId) query = query.eq('ticket_id', ticketId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as unknown as TicketEvent[]) || [];
+};
+
+/** Profile names of the users who made the changes, keyed by user id. */
+export const fetchActorNames = async (events: TicketEvent[]): Promise<Record<string, string>> => {
+  const userIds = [...new Set(events.map((e) => e.actor_id).filter((id): id is string => !!id))];
+  if (userIds.length === 0) return {};
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('user_id, name')
+    .in('user_id', userIds);
+
+  return Object.fromEntries((data || []).map((p) => [p.user_id, p.name]));
+};
+
+export const actorName = (event: TicketEvent, names: Record<string, string>) =>
+  event.actor_id ? names[event.actor_id] || 'Usuário' : 'Sistema';
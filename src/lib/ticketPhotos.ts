@@ -0,0 +1,273 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const PHOTOS_BUCKET = 'ticket-photos';
+
+// Full size stays sharp when opened on a monitor; the thumbnail covers the grids
+// (2x their cell width) and the PDF report (about 190 dpi in a half-page cell)
+const FULL_MAX_SIZE = 1920;
+const FULL_QUALITY = 0.82;
+const THUMBNAIL_MAX_SIZE = 640;
+const THUMBNAIL_QUALITY = 0.72;
+
+// The EXIF block sits in APP1, within the first 64 KB of a JPEG
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+export interface PhotoExif {
+  taken_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const EMPTY_EXIF: PhotoExif = { taken_at: null, latitude: null, longitude: null };
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>;
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): IfdEntries => {
+  const entries: IfdEntries = new Map();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      // Values up to 4 bytes are stored inline, larger ones at an offset from the TIFF header
+      valueOffset: entry + 8,
+    });
+  }
+  return entries;
+};
+
+const readAscii = (view: DataView, tiff: number, little: boolean, entry: { count: number; valueOffset: number } | undefined) => {
+  if (!entry) return null;
+  const start = entry.count > 4 ? tiff + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+  let text = '';
+  for (let i = 0; i < entry.count && start + i < view.byteLength; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim() || null;
+};
+
+// Degrees, minutes and seconds as three unsigned rationals
+const readCoordinate = (view: DataView, tiff: number, little: boolean, entry: { valueOffset: number } | undefined, ref: string | null) => {
+  if (!entry || !ref) return null;
+  const start = tiff + view.getUint32(entry.valueOffset, little);
+  if (start + 24 > view.byteLength) return null;
+  const rational = (i: number) => {
+    const denominator = view.getUint32(start + i * 8 + 4, little);
+    return denominator ? view.getUint32(start + i * 8, little) / denominator : 0;
+  };
+  const value = rational(0) + rational(1) / 60 + rational(2) / 3600;
+  return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+// "2026:03:14 09:26:53", in the camera's clock; the offset tag is optional
+const parseExifDate = (value: string | null, offset: string | null) => {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  if (!year) return null;
+  if (offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    return new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${offset}`).toISOString();
+  }
+  return new Date(year, month - 1, day, hour, minute, second).toISOString();
+};
+
+/** Capture time and GPS position from a JPEG's EXIF block. Missing or unreadable data comes back as null. */
+export const readPhotoExif = async (file: File): Promise<PhotoExif> => {
+  try {
+    const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return EMPTY_EXIF;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // Start of scan: image data follows, no more metadata segments
+      if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+
+      const isExif = marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966;
+      if (isExif) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+        const exifPointer = ifd0.get(TAG_EXIF_IFD);
+        const exif = exifPointer ? readIfd(view, tiff, view.getUint32(exifPointer.valueOffset, little), little) : new Map() as IfdEntries;
+        const gpsPointer = ifd0.get(TAG_GPS_IFD);
+        const gps = gpsPointer ? readIfd(view, tiff, view.getUint32(gpsPointer.valueOffset, little), little) : new Map() as IfdEntries;
+
+        const latitude = readCoordinate(view, tiff, little, gps.get(TAG_GPS_LATITUDE), readAscii(view, tiff, little, gps.get(TAG_GPS_LATITUDE_REF)));
+        const longitude = readCoordinate(view, tiff, little, gps.get(TAG_GPS_LONGITUDE), readAscii(view, tiff, little, gps.get(TAG_GPS_LONGITUDE_REF)));
+        // Phones without a fix write 0,0
+        const hasPosition = latitude !== null && longitude !== null && (latitude !== 0 || longitude !== 0);
+
+        return {
+          taken_at: parseExifDate(
+            readAscii(view, tiff, little, exif.get(TAG_DATETIME_ORIGINAL)) ?? readAscii(view, tiff, little, ifd0.get(TAG_DATETIME)),
+            readAscii(view, tiff, little, exif.get(TAG_OFFSET_TIME_ORIGINAL))
+          ),
+          latitude: hasPosition ? latitude : null,
+          longitude: hasPosition ? longitude : null,
+        };
+      }
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.error('Erro ao ler EXIF da foto:', error);
+  }
+  return EMPTY_EXIF;
+};
+
+// Browsers apply the EXIF orientation when decoding into an <img>, so drawing it
+// on a canvas already yields an upright picture
+const decodeImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Formato de imagem não suportado'));
+    };
+    img.src = url;
+  });
+
+const resizeImage = (img: HTMLImageElement, maxSize: number, quality: number): Promise<{ blob: Blob; width: number; height: number }> => {
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.round(img.naturalWidth * scale);
+  const height = Math.round(img.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Failed to get canvas context'));
+
+  // JPEG has no alpha; transparent PNG areas would turn black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width, height }) : reject(new Error('Falha ao comprimir imagem'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
+
+const uploadToBucket = async (path: string, body: Blob) => {
+  const { error } = await supabase.storage.from(PHOTOS_BUCKET).upload(path, body, { contentType: body.type || undefined });
+  if (error) throw error;
+  return supabase.storage.from(PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+/**
+ * Resizes and compresses the photo, uploads it with a thumbnail and records it in
+ * ticket_photos with its EXIF capture time and position. Formats the browser
+ * cannot decode (HEIC outside Safari) are uploaded as they are, without thumbnail.
+ */
+export const uploadTicketPhoto = async (params: {
+  ticketId: string;
+  file: File;
+  caption: string | null;
+  userId: string;
+}) => {
+  const { ticketId, file, caption, userId } = params;
+  const stamp = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const baseName = file.name.replace(/\.[^.]+$/, '').replace(/[^\w.-]/g, '_') || 'foto';
+
+  const exif = await readPhotoExif(file);
+
+  let full: { blob: Blob; width: number | null; height: number | null; ext: string } = {
+    blob: file,
+    width: null,
+    height: null,
+    ext: file.name.split('.').pop()?.toLowerCase() || 'jpg',
+  };
+  let thumbnail: Blob | null = null;
+  try {
+    const img = await decodeImage(file);
+    const resized = await resizeImage(img, FULL_MAX_SIZE, FULL_QUALITY);
+    // A small JPEG can grow when re-encoded; keep the original then
+    const keepOriginal = file.type === 'image/jpeg' && resized.width === img.naturalWidth && resized.blob.size >= file.size;
+    full = keepOriginal
+      ? { ...full, width: resized.width, height: resized.height }
+      : { ...resized, ext: 'jpg' };
+    thumbnail = (await resizeImage(img, THUMBNAIL_MAX_SIZE, THUMBNAIL_QUALITY)).blob;
+  } catch (error) {
+    console.error('Erro ao comprimir foto, enviando original:', error);
+  }
+
+  const filePath = `${ticketId}/${stamp}-${baseName}.${full.ext}`;
+  const thumbnailPath = `${ticketId}/thumbs/${stamp}-${baseName}.jpg`;
+  const uploaded: string[] = [];
+
+  try {
+    const fileUrl = await uploadToBucket(filePath, full.blob);
+    uploaded.push(filePath);
+    const thumbnailUrl = thumbnail ? await uploadToBucket(thumbnailPath, thumbnail) : null;
+    if (thumbnail) uploaded.push(thumbnailPath);
+
+    const { error } = await supabase.from('ticket_photos').insert({
+      ticket_id: ticketId,
+      file_url: fileUrl,
+      thumbnail_url: thumbnailUrl,
+      caption,
+      uploaded_by_user_id: userId,
+      width: full.width,
+      height: full.height,
+      file_size: full.blob.size,
+      ...exif,
+    });
+    if (error) throw error;
+  } catch (error) {
+    if (uploaded.length > 0) await supabase.storage.from(PHOTOS_BUCKET).remove(uploaded);
+    throw error;
+  }
+};
+
+// URL format: https://xxx.supabase.co/storage/v1/object/public/ticket-photos/TICKET_ID/filename
+const storagePathFromUrl = (url: string, ticketId: string) => {
+  const bucketMarker = `/public/${PHOTOS_BUCKET}/`;
+  const bucketIndex = url.indexOf(bucketMarker);
+  return bucketIndex >= 0
+    ? url.slice(bucketIndex + bucketMarker.length)
+    : `${ticketId}/${url.split('/').pop()}`;
+};
+
+/** Removes the photo row and its files. Storage failures are logged and do not block the row removal. */
+export const deleteTicketPhoto = async (photo: { id: string; ticket_id: string; file_url: string; thumbnail_url: string | null }) => {
+  const paths = [photo.file_url, photo.thumbnail_url]
+    .filter((url): url is string => !!url)
+    .map(url => storagePathFromUrl(url, photo.ticket_id));
+
+  const { error: storageError } = await supabase.storage.from(PHOTOS_BUCKET).remove(paths);
+  if (storageError) console.error('Erro ao remover do storage:', storageError);
+
+  const { error } = await supabase.from('ticket_photos').delete().eq('id', photo.id);
+  if (error) throw error;
+};
+
+/** Grids and reports use the thumbnail; photos uploaded before thumbnails existed fall back to the original. */
+export const photoThumbnailUrl = (photo: { file_url: string; thumbnail_url?: string | null }) =>
+  photo.thumbnail_url || photo.file_url;
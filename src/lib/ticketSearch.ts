@@ -0,0 +1,174 @@
+import { endOfDay, startOfDay, startOfMonth, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { TicketStatus } from '@/lib/ticketStatus';
+
+type ServiceType = Database['public']['Enums']['service_type'];
+
+export type TicketSearchRow = Database['public']['Functions']['search_tickets']['Returns'][number];
+
+export type TicketPeriod = 'hoje' | '7dias' | 'mes';
+
+// Relative periods keep saved presets such as "Alarmes de hoje" meaningful on later days
+export const TICKET_PERIOD_LABELS: Record<TicketPeriod, string> = {
+    hoje: 'Hoje',
+    '7dias': 'Últimos 7 dias',
+    mes: 'Este mês',
+};
+
+export const isTicketPeriod = (value: string): value is TicketPeriod => Object.keys(TICKET_PERIOD_LABELS).includes(value);
+
+/**
+ * Filters of the Tickets page. Empty strings mean "no filter"; dates are yyyy-MM-dd
+ * and are ignored while a relative period is set. `mine` is '1' for tickets created by the user.
+ */
+export interface TicketFilters {
+    search: string;
+    status: string;
+    serviceType: string;
+    planId: string;
+    agentId: string;
+    operatorId: string;
+    dateFrom: string;
+    dateTo: string;
+    period: string;
+    mine: string;
+}
+
+export const EMPTY_TICKET_FILTERS: TicketFilters = {
+    search: '',
+    status: '',
+    serviceType: '',
+    planId: '',
+    agentId: '',
+    operatorId: '',
+    dateFrom: '',
+    dateTo: '',
+    period: '',
+    mine: '',
+};
+
+// Short query-string keys so filtered lists can be shared as links
+const PARAM_KEYS: Record<keyof TicketFilters, string> = {
+    search: 'q',
+    status: 'status',
+    serviceType: 'servico',
+    planId: 'plano',
+    agentId: 'agente',
+    operatorId: 'operador',
+    dateFrom: 'de',
+    dateTo: 'ate',
+    period: 'periodo',
+    mine: 'meus',
+};
+
+export const filtersFromParams = (params: URLSearchParams): TicketFilters => {
+    const filters = { ...EMPTY_TICKET_FILTERS };
+    (Object.keys(PARAM_KEYS) as (keyof TicketFilters)[]).forEach((key) => {
+        filters[key] = params.get(PARAM_KEYS[key]) || '';
+    });
+    return filters;
+};
+
+/** Writes the filters into `params`, keeping unrelated keys. */
+export const filtersToParams = (filters: TicketFilters, params = new URLSearchParams()): URLSearchParams => {
+    const next = new URLSearchParams(params);
+    (Object.keys(PARAM_KEYS) as (keyof TicketFilters)[]).forEach((key) => {
+        const value = filters[key].trim();
+        if (value) next.set(PARAM_KEYS[key], value);
+        else next.delete(PARAM_KEYS[key]);
+    });
+    return next;
+};
+
+export const hasActiveFilters = (filters: TicketFilters) =>
+    (Object.keys(filters) as (keyof TicketFilters)[]).some((key) => filters[key].trim() !== '');
+
+/** Query string holding only the filters, as stored in saved presets. */
+export const filtersToQuery = (filters: TicketFilters) => filtersToParams(filters).toString();
+
+const periodRange = (period: TicketPeriod, now = new Date()) => ({
+    from: period === 'hoje' ? startOfDay(now) : period === '7dias' ? startOfDay(subDays(now, 6)) : startOfMonth(now),
+    to: endOfDay(now),
+});
+
+const startRange = (filters: TicketFilters) => {
+    if (isTicketPeriod(filters.period)) {
+        const { from, to } = periodRange(filters.period);
+        return { from: from.toISOString(), to: to.toISOString() };
+    }
+    return {
+        from: filters.dateFrom ? new Date(`${filters.dateFrom}T00:00:00`).toISOString() : undefined,
+        to: filters.dateTo ? new Date(`${filters.dateTo}T23:59:59.999`).toISOString() : undefined,
+    };
+};
+
+export interface TicketCursor {
+    createdAt: string;
+    id: string;
+}
+
+export const cursorAfter = (row: TicketSearchRow): TicketCursor => ({ createdAt: row.created_at, id: row.id });
+
+/**
+ * One page of the search_tickets RPC, newest first.
+ * Dates are taken in local time, matching what the user picked on screen.
+ */
+export const searchTickets = async (
+    filters: TicketFilters,
+    cursor: TicketCursor | null,
+    limit: number
+): Promise<TicketSearchRow[]> => {
+    const range = startRange(filters);
+    const { data, error } = await supabase.rpc('search_tickets', {
+        _search: filters.search.trim() || undefined,
+        _status: (filters.status || undefined) as TicketStatus | undefined,
+        _service_type: (filters.serviceType || undefined) as ServiceType | undefined,
+        _plan_id: filters.planId || undefined,
+        _agent_id: filters.agentId || undefined,
+        _operator_id: filters.operatorId || undefined,
+        _start_from: range.from,
+        _start_to: range.to,
+        _only_mine: filters.mine === '1' || undefined,
+        _cursor_created_at: cursor?.createdAt,
+        _cursor_id: cursor?.id,
+        _limit: limit,
+    });
+    if (error) throw error;
+    return data || [];
+};
+
+// Largest page the RPC returns
+const MAX_PAGE_SIZE = 1000;
+
+/**
+ * The first `count` rows for the filters, fetched page by page through the cursor. Used to
+ * refresh a list that was extended with "carregar mais" past the largest page.
+ */
+export const searchTicketsFirst = async (
+    filters: TicketFilters,
+    count: number
+): Promise<{ rows: TicketSearchRow[]; hasMore: boolean }> => {
+    const rows: TicketSearchRow[] = [];
+    let cursor: TicketCursor | null = null;
+    for (;;) {
+        const limit = Math.min(MAX_PAGE_SIZE, count - rows.length);
+        const page = await searchTickets(filters, cursor, limit);
+        rows.push(...page);
+        if (page.length < limit) return { rows, hasMore: false };
+        if (rows.length >= count) return { rows, hasMore: true };
+        cursor = cursorAfter(page[page.length - 1]);
+    }
+};
+
+/** Walks every page for the given filters; used by the Excel export. */
+export const searchAllTicketIds = async (filters: TicketFilters): Promise<string[]> => {
+    const ids: string[] = [];
+    let cursor: TicketCursor | null = null;
+    for (;;) {
+        const page = await searchTickets(filters, cursor, MAX_PAGE_SIZE);
+        ids.push(...page.map((row) => row.id));
+        if (page.length < MAX_PAGE_SIZE) return ids;
+        cursor = cursorAfter(page[page.length - 1]);
+    }
+};
@@ -0,0 +1,37 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type TicketStatus = Database['public']['Enums']['ticket_status'];
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+    aberto: 'Aberto',
+    em_andamento: 'Em Andamento',
+    finalizado: 'Finalizado',
+    cancelado: 'Cancelado',
+};
+
+/**
+ * Mirrors the transition rules enforced by the enforce_ticket_status_transition trigger.
+ * The database is the source of truth; this only drives the UI.
+ */
+const ALLOWED_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+    aberto: ['em_andamento', 'finalizado', 'cancelado'],
+    em_andamento: ['aberto', 'finalizado', 'cancelado'],
+    finalizado: ['em_andamento', 'cancelado'],
+    cancelado: ['aberto'],
+};
+
+export function getAllowedStatuses(from: TicketStatus): TicketStatus[] {
+    return [from, ...ALLOWED_TRANSITIONS[from]];
+}
+
+export function canTransition(from: TicketStatus, to: TicketStatus): boolean {
+    return from === to || ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Leaving a closed ticket (reopening) or cancelling one must be justified.
+ */
+export function transitionRequiresNote(from: TicketStatus, to: TicketStatus): boolean {
+    if (from === to) return false;
+    return from === 'finalizado' || from === 'cancelado' || to === 'cancelado';
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useRealtimeTickets } from '@/hooks/useRealtimeTickets';
+import { TICKET_STATUS_LABELS, type TicketStatus } from '@/lib/ticketStatus';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Calendar, ChevronRight, FileText, Loader2, MapPin, Truck, UserX } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+
+interface PortalAgent {
+  id: string;
+  name: string;
+}
+
+interface PortalTicket {
+  id: string;
+  code: string | null;
+  status: TicketStatus;
+  city: string;
+  state: string;
+  start_datetime: string;
+  service_type: string;
+  main_agent_id: string | null;
+  clients: { name: string } | null;
+  vehicles: { plate_main: string } | null;
+}
+
+const statusColors: Record<TicketStatus, string> = {
+  aberto: 'bg-info text-info-foreground',
+  em_andamento: 'bg-warning text-warning-foreground',
+  finalizado: 'bg-success text-success-foreground',
+  cancelado: 'bg-muted text-muted-foreground',
+};
+
+const serviceTypeLabels: Record<string, string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acompanhamento Logístico',
+};
+
+export default function AgentPortal() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [agent, setAgent] = useState<PortalAgent | null>(null);
+  const [tickets, setTickets] = useState<PortalTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTickets = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data: agentData, error: agentError } = await supabase
+        .from('agents')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (agentError) throw agentError;
+      setAgent(agentData);
+      if (!agentData) return;
+
+      // RLS already limits the 'agente' role to tickets where they are main or support agent
+      const { data, error } = await supabase
+        .from('tickets')
+        .select(`
+          id, code, status, city, state, start_datetime, service_type, main_agent_id,
+          clients (name),
+          vehicles (plate_main)
+        `)
+        .in('status', ['aberto', 'em_andamento'])
+        .order('start_datetime', { ascending: false });
+
+      if (error) throw error;
+      setTickets((data as PortalTicket[]) || []);
+    } catch (error) {
+      console.error('Erro ao carregar chamados do agente:', error);
+      toast.error('Erro ao carregar seus chamados');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchTickets();
+  }, [fetchTickets]);
+
+  useRealtimeTickets('agent-portal-tickets', fetchTickets);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!agent) {
+    return (
+      <Card className="mt-4">
+        <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+          <UserX className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Cadastro de agente não vinculado</h3>
+          <p className="text-sm text-muted-foreground">
+            Seu usuário ainda não está vinculado a um agente. Peça a um administrador para fazer o vínculo.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold">Olá, {agent.name.split(' ')[0]}</h1>
+        <p className="text-sm text-muted-foreground">
+          {tickets.length === 0
+            ? 'Você não tem chamados em aberto.'
+            : `${tickets.length} chamado(s) em aberto`}
+        </p>
+      </div>
+
+      {tickets.map((ticket) => (
+        <Card
+          key={ticket.id}
+          className="cursor-pointer active:scale-[0.99] transition-transform"
+          onClick={() => navigate(`/agente/chamado/${ticket.id}`)}
+        >
+          <CardHeader className="pb-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1 min-w-0 flex-1">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <FileText className="h-5 w-5 text-primary flex-shrink-0" />
+                  <span>{ticket.code || 'Sem ID'}</span>
+                </CardTitle>
+                <CardDescription className="truncate">{ticket.clients?.name}</CardDescription>
+              </div>
+              <Badge className={statusColors[ticket.status]}>
+                {TICKET_STATUS_LABELS[ticket.status]}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">{ticket.city}, {ticket.state}</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Calendar className="h-4 w-4 flex-shrink-0" />
+              <span>{format(new Date(ticket.start_datetime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}</span>
+            </div>
+            {ticket.vehicles?.plate_main && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Truck className="h-4 w-4 flex-shrink-0" />
+                <span>{ticket.vehicles.plate_main}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between pt-1">
+              <span className="text-xs text-muted-foreground">
+                {serviceTypeLabels[ticket.service_type]} • {ticket.main_agent_id === agent.id ? 'Agente principal' : 'Apoio'}
+              </span>
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
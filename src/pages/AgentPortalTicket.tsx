@@ -0,0 +1,417 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAgentPositionReporter } from '@/hooks/useAgentPositionReporter';
+import { useRealtimeTickets } from '@/hooks/useRealtimeTickets';
+import { parseSafeNumber } from '@/lib/numberUtils';
+import { TICKET_STATUS_LABELS, type TicketStatus } from '@/lib/ticketStatus';
+import { photoThumbnailUrl } from '@/lib/ticketPhotos';
+import { AddPhotosDialog } from '@/components/tickets/AddPhotosDialog';
+import { ExpenseReceiptsSection } from '@/components/finance/ExpenseReceiptsSection';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Camera, Clock, Loader2, LocateFixed, LocateOff, MapPin, Navigation, Paperclip, Save } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface FieldReport {
+  arrival: string;
+  departure: string;
+  km_start: string;
+  km_end: string;
+}
+
+interface PortalTicketDetails {
+  id: string;
+  code: string | null;
+  status: TicketStatus;
+  city: string;
+  state: string;
+  coordinates_lat: number | null;
+  coordinates_lng: number | null;
+  main_agent_id: string | null;
+  main_agent_arrival: string | null;
+  main_agent_departure: string | null;
+  km_start: number | null;
+  km_end: number | null;
+  clients: { name: string } | null;
+  vehicles: { plate_main: string; description: string } | null;
+  ticket_support_agents: {
+    agent_id: string;
+    arrival: string | null;
+    departure: string | null;
+    km_start: number | null;
+    km_end: number | null;
+  }[];
+  ticket_photos: { id: string; file_url: string; thumbnail_url: string | null; caption: string | null }[];
+}
+
+const toLocalInput = (isoString: string | null | undefined): string => {
+  if (!isoString) return '';
+  const d = new Date(isoString);
+  if (isNaN(d.getTime())) return '';
+  const YYYY = d.getFullYear();
+  const MM = String(d.getMonth() + 1).padStart(2, '0');
+  const DD = String(d.getDate()).padStart(2, '0');
+  const HH = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  return `${YYYY}-${MM}-${DD}T${HH}:${mm}`;
+};
+
+const toSupabaseTimestamp = (localValue: string): string | null => {
+  if (!localValue) return null;
+  const d = new Date(localValue);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+};
+
+const emptyReport: FieldReport = { arrival: '', departure: '', km_start: '', km_end: '' };
+
+export default function AgentPortalTicket() {
+  const { id } = useParams<{ id: string }>();
+  const [ticket, setTicket] = useState<PortalTicketDetails | null>(null);
+  const [agentId, setAgentId] = useState<string | null>(null);
+  const [report, setReport] = useState<FieldReport>(emptyReport);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [photosOpen, setPhotosOpen] = useState(false);
+
+  const isMainAgent = !!ticket && !!agentId && ticket.main_agent_id === agentId;
+  const savedDeparture = isMainAgent
+    ? ticket?.main_agent_departure
+    : ticket?.ticket_support_agents.find((sa) => sa.agent_id === agentId)?.departure;
+
+  // Share the position from dispatch until this agent records their departure
+  const { status: positionStatus, lastReportedAt } = useAgentPositionReporter(
+    ticket?.id,
+    agentId,
+    ticket?.status === 'em_andamento' && !savedDeparture
+  );
+
+  const fetchTicket = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const [{ data: currentAgentId, error: agentError }, { data, error }] = await Promise.all([
+        supabase.rpc('current_agent_id'),
+        supabase
+          .from('tickets')
+          .select(`
+            id, code, status, city, state, coordinates_lat, coordinates_lng, main_agent_id,
+            main_agent_arrival, main_agent_departure, km_start, km_end,
+            clients (name),
+            vehicles (plate_main, description),
+            ticket_support_agents (agent_id, arrival, departure, km_start, km_end),
+            ticket_photos (id, file_url, thumbnail_url, caption)
+          `)
+          .eq('id', id)
+          .maybeSingle(),
+      ]);
+
+      if (agentError) throw agentError;
+      if (error) throw error;
+
+      const details = data as PortalTicketDetails | null;
+      setAgentId(currentAgentId);
+      setTicket(details);
+      if (!details) return;
+
+      if (details.main_agent_id === currentAgentId) {
+        setReport({
+          arrival: toLocalInput(details.main_agent_arrival),
+          departure: toLocalInput(details.main_agent_departure),
+          km_start: details.km_start?.toString() ?? '',
+          km_end: details.km_end?.toString() ?? '',
+        });
+      } else {
+        const support = details.ticket_support_agents.find((sa) => sa.agent_id === currentAgentId);
+        setReport({
+          arrival: toLocalInput(support?.arrival),
+          departure: toLocalInput(support?.departure),
+          km_start: support?.km_start?.toString() ?? '',
+          km_end: support?.km_end?.toString() ?? '',
+        });
+      }
+    } catch (error) {
+      console.error('Erro ao carregar chamado:', error);
+      toast.error('Erro ao carregar chamado');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchTicket();
+  }, [fetchTicket]);
+
+  // Picks up status changes from the central, which turn position sharing on and off
+  useRealtimeTickets('agent-portal-ticket', fetchTicket);
+
+  const setNow = (field: 'arrival' | 'departure') => {
+    setReport((prev) => ({ ...prev, [field]: toLocalInput(new Date().toISOString()) }));
+  };
+
+  const handleSave = async () => {
+    if (!ticket || !agentId) return;
+
+    const kmStart = report.km_start ? parseSafeNumber(report.km_start) : null;
+    const kmEnd = report.km_end ? parseSafeNumber(report.km_end) : null;
+
+    if (kmStart !== null && kmEnd !== null && kmEnd < kmStart) {
+      toast.error('O KM final não pode ser menor que o KM inicial');
+      return;
+    }
+
+    if (report.arrival && report.departure && new Date(report.departure) < new Date(report.arrival)) {
+      toast.error('A saída não pode ser anterior à chegada');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = isMainAgent
+        ? await supabase
+            .from('tickets')
+            .update({
+              main_agent_arrival: toSupabaseTimestamp(report.arrival),
+              main_agent_departure: toSupabaseTimestamp(report.departure),
+              km_start: kmStart,
+              km_end: kmEnd,
+            })
+            .eq('id', ticket.id)
+        : await supabase
+            .from('ticket_support_agents')
+            .update({
+              arrival: toSupabaseTimestamp(report.arrival),
+              departure: toSupabaseTimestamp(report.departure),
+              km_start: kmStart,
+              km_end: kmEnd,
+            })
+            .eq('ticket_id', ticket.id)
+            .eq('agent_id', agentId);
+
+      if (error) throw error;
+      toast.success('Registro salvo com sucesso');
+      fetchTicket();
+    } catch (error: any) {
+      console.error('Erro ao salvar registro do agente:', error);
+      toast.error('Erro ao salvar registro', { description: error?.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!ticket) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/agente"><ArrowLeft className="h-4 w-4 mr-2" />Voltar</Link>
+        </Button>
+        <p className="text-center text-muted-foreground py-8">Chamado não encontrado.</p>
+      </div>
+    );
+  }
+
+  const isClosed = ticket.status === 'finalizado' || ticket.status === 'cancelado';
+
+  return (
+    <div className="space-y-4 pb-8">
+      <Button variant="ghost" size="sm" className="-ml-2" asChild>
+        <Link to="/agente"><ArrowLeft className="h-4 w-4 mr-2" />Meus chamados</Link>
+      </Button>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <CardTitle className="text-lg">{ticket.code || 'Sem ID'}</CardTitle>
+              <CardDescription className="truncate">{ticket.clients?.name}</CardDescription>
+            </div>
+            <Badge variant="outline">{TICKET_STATUS_LABELS[ticket.status]}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {ticket.vehicles && (
+            <p className="text-muted-foreground">
+              {ticket.vehicles.description} • <span className="font-medium text-foreground">{ticket.vehicles.plate_main}</span>
+            </p>
+          )}
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <MapPin className="h-4 w-4 flex-shrink-0" />
+            <span>{ticket.city}, {ticket.state}</span>
+          </div>
+          {ticket.coordinates_lat != null && ticket.coordinates_lng != null && (
+            <Button variant="outline" size="sm" className="w-full" asChild>
+              <a
+                href={`https://www.google.com/maps/dir/?api=1&destination=${ticket.coordinates_lat},${ticket.coordinates_lng}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Navigation className="h-4 w-4 mr-2" />
+                Abrir rota no mapa
+              </a>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {positionStatus !== 'idle' && (
+        <div
+          className={`flex items-center gap-2 rounded-md border px-3 py-2 text-xs ${
+            positionStatus === 'reporting'
+              ? 'border-success/40 bg-success/10 text-success'
+              : 'border-destructive/40 bg-destructive/10 text-destructive'
+          }`}
+        >
+          {positionStatus === 'reporting' ? <LocateFixed className="h-4 w-4" /> : <LocateOff className="h-4 w-4" />}
+          {positionStatus === 'reporting'
+            ? `Compartilhando localização${lastReportedAt ? ` • último envio ${lastReportedAt.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}` : ''}`
+            : positionStatus === 'denied'
+              ? 'Permita o acesso à localização para a central acompanhar seu deslocamento.'
+              : 'Localização indisponível neste dispositivo.'}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Meu registro {isMainAgent ? '(Agente principal)' : '(Apoio)'}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="arrival">Chegada</Label>
+            <div className="flex gap-2">
+              <Input
+                id="arrival"
+                type="datetime-local"
+                value={report.arrival}
+                disabled={isClosed}
+                onChange={(e) => setReport((prev) => ({ ...prev, arrival: e.target.value }))}
+              />
+              <Button type="button" variant="secondary" disabled={isClosed} onClick={() => setNow('arrival')}>
+                Agora
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="departure">Saída</Label>
+            <div className="flex gap-2">
+              <Input
+                id="departure"
+                type="datetime-local"
+                value={report.departure}
+                disabled={isClosed}
+                onChange={(e) => setReport((prev) => ({ ...prev, departure: e.target.value }))}
+              />
+              <Button type="button" variant="secondary" disabled={isClosed} onClick={() => setNow('departure')}>
+                Agora
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="km_start">KM inicial</Label>
+              <Input
+                id="km_start"
+                type="number"
+                inputMode="decimal"
+                value={report.km_start}
+                disabled={isClosed}
+                onChange={(e) => setReport((prev) => ({ ...prev, km_start: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="km_end">KM final</Label>
+              <Input
+                id="km_end"
+                type="number"
+                inputMode="decimal"
+                value={report.km_end}
+                disabled={isClosed}
+                onChange={(e) => setReport((prev) => ({ ...prev, km_end: e.target.value }))}
+              />
+            </div>
+          </div>
+          <Button className="w-full" onClick={handleSave} disabled={saving || isClosed}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Salvar registro
+          </Button>
+          {isClosed && (
+            <p className="text-xs text-muted-foreground text-center">
+              Este chamado está {TICKET_STATUS_LABELS[ticket.status].toLowerCase()} e não aceita novos registros.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Camera className="h-4 w-4" />
+              Fotos ({ticket.ticket_photos.length})
+            </CardTitle>
+            <Button size="sm" onClick={() => setPhotosOpen(true)} disabled={isClosed}>
+              Adicionar
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {ticket.ticket_photos.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma foto enviada.</p>
+          ) : (
+            <div className="grid grid-cols-3 gap-2">
+              {ticket.ticket_photos.map((photo) => (
+                <a key={photo.id} href={photo.file_url} target="_blank" rel="noopener noreferrer">
+                  <img
+                    src={photoThumbnailUrl(photo)}
+                    alt={photo.caption || 'Foto do chamado'}
+                    className="aspect-square w-full rounded-md object-cover"
+                    loading="lazy"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {agentId && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Paperclip className="h-4 w-4" />
+              Comprovantes de despesas
+            </CardTitle>
+            <CardDescription>Anexe fotos ou PDFs dos comprovantes de pedágio, alimentação e outras despesas.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ExpenseReceiptsSection
+              ticketId={ticket.id}
+              agentId={agentId}
+              disabled={ticket.status === 'cancelado'}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <AddPhotosDialog
+        ticketId={ticket.id}
+        open={photosOpen}
+        onOpenChange={setPhotosOpen}
+        onSuccess={fetchTicket}
+      />
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Search, Loader2, CheckCircle2, Shield } from 'lucide-react';
 import { toast } from 'sonner';
 import { geocodeAddress } from '@/utils/geocoding';
+import { cpfField, formatCpfOrCnpj, isDuplicate, maskCpf, maskPlate, plateField } from '@/lib/documentUtils';
 import {
     Form,
     FormControl,
@@ -29,7 +30,7 @@ import {
 
 const registrationSchema = z.object({
     name: z.string().min(1, 'Nome é obrigatório').max(255),
-    document: z.string().max(20).optional().or(z.literal('')),
+    document: cpfField.optional(),
     phone: z.string().min(1, 'Telefone é obrigatório').max(20),
     email: z.string().email('E-mail inválido').optional().or(z.literal('')),
     cep: z.string().max(10).optional(),
@@ -39,7 +40,7 @@ const registrationSchema = z.object({
     city: z.string().max(150).optional(),
     state: z.string().max(2).optional(),
     is_armed: z.boolean().default(false),
-    vehicle_plate: z.string().max(10).optional(),
+    vehicle_plate: plateField.optional(),
     vehicle_type: z.string().optional(),
     has_alarm_skill: z.boolean().default(false),
     has_investigation_skill: z.boolean().default(false),
@@ -141,9 +142,14 @@ export default function AgentRegistration() {
     const onSubmit = async (data: RegistrationFormData) => {
         setIsLoading(true);
         try {
+            if (data.document && await isDuplicate('agent_document', data.document)) {
+                form.setError('document', { message: 'Este CPF já está cadastrado ou aguardando análise' });
+                return;
+            }
+
             const { error } = await supabase.from('agent_registrations' as any).insert({
                 name: data.name,
-                document: data.document || null,
+                document: data.document ? formatCpfOrCnpj(data.document) : null,
                 phone: data.phone,
                 email: data.email || null,
                 // Composed address for backward compat
@@ -254,7 +260,7 @@ export default function AgentRegistration() {
                                             <FormItem>
                                                 <FormLabel className="text-foreground/80">CPF</FormLabel>
                                                 <FormControl>
-                                                    <Input placeholder="000.000.000-00" {...field} className="bg-background border-border text-foreground placeholder:text-muted-foreground/50 transition-colors" />
+                                                    <Input placeholder="000.000.000-00" {...field} onChange={(e) => field.onChange(maskCpf(e.target.value))} className="bg-background border-border text-foreground placeholder:text-muted-foreground/50 transition-colors" />
                                                 </FormControl>
                                                 <FormMessage />
                                             </FormItem>
@@ -424,7 +430,7 @@ export default function AgentRegistration() {
                                                 <FormItem>
                                                     <FormLabel className="text-foreground/80">Placa do Veículo</FormLabel>
                                                     <FormControl>
-                                                        <Input placeholder="ABC-1234" {...field} className="bg-background border-border text-foreground placeholder:text-muted-foreground/50 transition-colors" />
+                                                        <Input placeholder="ABC1D23" {...field} onChange={(e) => field.onChange(maskPlate(e.target.value))} className="bg-background border-border text-foreground placeholder:text-muted-foreground/50 transition-colors" />
                                                     </FormControl>
                                                     <FormMessage />
                                                 </FormItem>
@@ -13,7 +13,7 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Plus, Search, UserCheck, Phone, Mail, Shield, ShieldOff, Trash2, Car, Bike, Bell, Eye, Lock, Truck, ClipboardCheck, Map as MapIcon, List, Link2, UserPlus, ChevronLeft, ChevronRight, FileDown } from 'lucide-react';
+import { Plus, Search, UserCheck, Phone, Mail, Shield, ShieldOff, Trash2, Car, Bike, Bell, Eye, Lock, Truck, ClipboardCheck, Map as MapIcon, List, Link2, UserPlus, ChevronLeft, ChevronRight, FileDown, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { exportAgentsToExcel } from '@/utils/exportAgentsToExcel';
 import { NewAgentDialog } from '@/components/agents/NewAgentDialog';
@@ -23,6 +23,7 @@ import { AgentRegistrationReview } from '@/components/agents/AgentRegistrationRe
 import { AgentDemandsList } from '@/components/agents/AgentDemandsList';
 import { RoleGuard } from '@/components/RoleGuard';
 import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
+import { BulkImportDialog } from '@/components/BulkImportDialog';
 
 interface Agent {
   id: string;
@@ -64,6 +65,7 @@ const Agents = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [newDialogOpen, setNewDialogOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
   
@@ -268,6 +270,10 @@ const Agents = () => {
               <FileDown className="h-4 w-4 mr-2" />
               Exportar Excel
             </Button>
+            <Button variant="outline" onClick={() => setImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Importar
+            </Button>
             <Button variant="outline" onClick={copyRegistrationLink}>
               <Link2 className="h-4 w-4 mr-2" />
               Copiar Link de Cadastro
@@ -586,6 +592,8 @@ const Agents = () => {
         initialLng={prefilledAgentData?.longitude || null}
       />
 
+      <BulkImportDialog entity="agentes" open={importOpen} onOpenChange={setImportOpen} onSuccess={fetchAgents} />
+
       <EditAgentDialog
         agentId={selectedAgentId}
         open={editDialogOpen}
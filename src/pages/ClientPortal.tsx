@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { TICKET_STATUS_LABELS, type TicketStatus } from '@/lib/ticketStatus';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Building2, Calendar, Camera, FileText, Loader2, MapPin, Search, Truck } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+
+type ClientPortalTicket = Database['public']['Functions']['get_client_portal_tickets']['Returns'][number];
+
+interface ClientVehicle {
+  id: string;
+  description: string;
+  plate_main: string;
+  tractor_brand: string | null;
+  tractor_model: string | null;
+  trailer1_plate: string | null;
+  trailer2_plate: string | null;
+  trailer3_plate: string | null;
+}
+
+const statusColors: Record<TicketStatus, string> = {
+  aberto: 'bg-info text-info-foreground',
+  em_andamento: 'bg-warning text-warning-foreground',
+  finalizado: 'bg-success text-success-foreground',
+  cancelado: 'bg-muted text-muted-foreground',
+};
+
+const serviceTypeLabels: Record<string, string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acompanhamento Logístico',
+};
+
+export default function ClientPortal() {
+  const navigate = useNavigate();
+  const [clientName, setClientName] = useState<string | null>(null);
+  const [tickets, setTickets] = useState<ClientPortalTicket[]>([]);
+  const [vehicles, setVehicles] = useState<ClientVehicle[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPortalData = async () => {
+      try {
+        // RLS only exposes the client linked to the logged-in user
+        const [clientResult, ticketsResult, vehiclesResult] = await Promise.all([
+          supabase.from('clients').select('name').maybeSingle(),
+          supabase.rpc('get_client_portal_tickets'),
+          supabase
+            .from('vehicles')
+            .select('id, description, plate_main, tractor_brand, tractor_model, trailer1_plate, trailer2_plate, trailer3_plate')
+            .order('description'),
+        ]);
+
+        if (clientResult.error) throw clientResult.error;
+        if (ticketsResult.error) throw ticketsResult.error;
+        if (vehiclesResult.error) throw vehiclesResult.error;
+
+        setClientName(clientResult.data?.name ?? null);
+        setTickets(ticketsResult.data || []);
+        setVehicles(vehiclesResult.data || []);
+      } catch (error) {
+        console.error('Erro ao carregar portal do cliente:', error);
+        toast.error('Erro ao carregar seus dados');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPortalData();
+  }, []);
+
+  const filteredTickets = tickets.filter((ticket) => {
+    const term = searchTerm.toLowerCase();
+    return (
+      (ticket.code || '').toLowerCase().includes(term) ||
+      (ticket.vehicle_plate || '').toLowerCase().includes(term) ||
+      ticket.city.toLowerCase().includes(term)
+    );
+  });
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!clientName) {
+    return (
+      <Card className="mt-4">
+        <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+          <Building2 className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Usuário sem cliente vinculado</h3>
+          <p className="text-sm text-muted-foreground">
+            Seu usuário ainda não está vinculado a um cliente. Entre em contato com a Falco Peregrinus.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl lg:text-3xl font-bold">{clientName}</h1>
+        <p className="text-muted-foreground">Acompanhe os atendimentos realizados para sua empresa.</p>
+      </div>
+
+      <Tabs defaultValue="chamados">
+        <TabsList>
+          <TabsTrigger value="chamados">Chamados ({tickets.length})</TabsTrigger>
+          <TabsTrigger value="veiculos">Veículos ({vehicles.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="chamados" className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por código, placa ou cidade..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          {filteredTickets.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nenhum chamado encontrado.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {filteredTickets.map((ticket) => (
+                <Card
+                  key={ticket.id}
+                  className="hover:shadow-lg transition-shadow cursor-pointer"
+                  onClick={() => navigate(`/cliente/chamado/${ticket.id}`)}
+                >
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="space-y-1 min-w-0 flex-1">
+                        <CardTitle className="flex items-center gap-2 text-base">
+                          <FileText className="h-5 w-5 text-primary flex-shrink-0" />
+                          <span>{ticket.code || 'Sem ID'}</span>
+                        </CardTitle>
+                        <CardDescription className="truncate">
+                          {ticket.vehicle_description} • {ticket.vehicle_plate}
+                        </CardDescription>
+                      </div>
+                      <Badge className={statusColors[ticket.status]}>
+                        {TICKET_STATUS_LABELS[ticket.status]}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <MapPin className="h-4 w-4 flex-shrink-0" />
+                      <span className="truncate">{ticket.city}, {ticket.state}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Calendar className="h-4 w-4 flex-shrink-0" />
+                      <span>{format(new Date(ticket.start_datetime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{serviceTypeLabels[ticket.service_type]}</span>
+                      <span className="flex items-center gap-1">
+                        <Camera className="h-3 w-3" />
+                        {ticket.photo_count}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="veiculos">
+          {vehicles.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">Nenhum veículo cadastrado.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {vehicles.map((vehicle) => (
+                <Card key={vehicle.id}>
+                  <CardContent className="pt-6 space-y-1">
+                    <div className="flex items-center gap-2 font-medium">
+                      <Truck className="h-4 w-4 text-primary" />
+                      {vehicle.plate_main}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{vehicle.description}</p>
+                    {(vehicle.tractor_brand || vehicle.tractor_model) && (
+                      <p className="text-xs text-muted-foreground">
+                        {[vehicle.tractor_brand, vehicle.tractor_model].filter(Boolean).join(' ')}
+                      </p>
+                    )}
+                    {[vehicle.trailer1_plate, vehicle.trailer2_plate, vehicle.trailer3_plate].some(Boolean) && (
+                      <p className="text-xs text-muted-foreground">
+                        Carretas: {[vehicle.trailer1_plate, vehicle.trailer2_plate, vehicle.trailer3_plate].filter(Boolean).join(', ')}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
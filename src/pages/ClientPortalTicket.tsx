@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { TICKET_STATUS_LABELS, type TicketStatus } from '@/lib/ticketStatus';
+import { photoThumbnailUrl } from '@/lib/ticketPhotos';
+import { generateTicketPDF, type TicketPDFData } from '@/components/tickets/TicketPDFGenerator';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Camera, Clock, Download, FileText, Loader2, MapPin, Truck } from 'lucide-react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+
+// Shape returned by get_client_portal_ticket: operational fields only, no revenue or cost columns
+interface ClientTicketDetails {
+  id: string;
+  code: string | null;
+  status: TicketStatus;
+  service_type: string;
+  city: string;
+  state: string;
+  start_datetime: string;
+  end_datetime: string | null;
+  coordinates_lat: number | null;
+  coordinates_lng: number | null;
+  km_start: number | null;
+  km_end: number | null;
+  duration_minutes: number | null;
+  detailed_report: string | null;
+  main_agent_arrival: string | null;
+  main_agent_departure: string | null;
+  operator_name: string | null;
+  plan_name: string | null;
+  client: { name: string; contact_phone: string | null };
+  main_agent: { name: string | null; is_armed: boolean | null };
+  vehicle: {
+    description: string;
+    plate_main: string;
+    tractor_plate: string | null;
+    tractor_brand: string | null;
+    tractor_model: string | null;
+    trailer1_plate: string | null;
+    trailer1_body_type: string | null;
+    trailer2_plate: string | null;
+    trailer2_body_type: string | null;
+    trailer3_plate: string | null;
+    trailer3_body_type: string | null;
+  } | null;
+  support_agents: {
+    name: string;
+    is_armed: boolean | null;
+    arrival: string | null;
+    departure: string | null;
+    km_start: number | null;
+    km_end: number | null;
+  }[] | null;
+  photos: { id: string; file_url: string; thumbnail_url: string | null; caption: string | null; taken_at: string | null; created_at: string }[] | null;
+}
+
+const serviceTypeLabels: Record<string, string> = {
+  alarme: 'Alarme',
+  averiguacao: 'Averiguação',
+  preservacao: 'Preservação',
+  acompanhamento_logistico: 'Acompanhamento Logístico',
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? format(new Date(value), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR }) : '-';
+
+export default function ClientPortalTicket() {
+  const { id } = useParams<{ id: string }>();
+  const [ticket, setTicket] = useState<ClientTicketDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generatingPDF, setGeneratingPDF] = useState(false);
+
+  useEffect(() => {
+    const fetchTicket = async () => {
+      if (!id) return;
+      try {
+        const { data, error } = await supabase.rpc('get_client_portal_ticket', { _ticket_id: id });
+        if (error) throw error;
+        setTicket(data as unknown as ClientTicketDetails | null);
+      } catch (error) {
+        console.error('Erro ao carregar chamado do cliente:', error);
+        toast.error('Erro ao carregar chamado');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTicket();
+  }, [id]);
+
+  const handleDownloadReport = async () => {
+    if (!ticket) return;
+    setGeneratingPDF(true);
+    try {
+      // Cost fields are not available to clients; the report only uses them for internal totals
+      const pdfData: TicketPDFData = {
+        code: ticket.code,
+        operator_name: ticket.operator_name,
+        status: ticket.status,
+        city: ticket.city,
+        state: ticket.state,
+        start_datetime: ticket.start_datetime,
+        end_datetime: ticket.end_datetime,
+        coordinates_lat: ticket.coordinates_lat,
+        coordinates_lng: ticket.coordinates_lng,
+        km_start: ticket.km_start,
+        km_end: ticket.km_end,
+        toll_cost: null,
+        food_cost: null,
+        other_costs: null,
+        total_cost: null,
+        duration_minutes: ticket.duration_minutes,
+        detailed_report: ticket.detailed_report,
+        service_type: ticket.service_type,
+        client: ticket.client,
+        agent: {
+          name: ticket.main_agent.name || '',
+          is_armed: ticket.main_agent.is_armed,
+        },
+        main_agent_arrival: ticket.main_agent_arrival,
+        main_agent_departure: ticket.main_agent_departure,
+        ticket_support_agents: ticket.support_agents?.map((sa) => ({
+          agent: { name: sa.name, is_armed: sa.is_armed },
+          arrival: sa.arrival,
+          departure: sa.departure,
+          km_start: sa.km_start,
+          km_end: sa.km_end,
+          toll_cost: null,
+          food_cost: null,
+          other_costs: null,
+        })) || null,
+        vehicle: {
+          description: ticket.vehicle?.description || '',
+          tractor_plate: ticket.vehicle?.tractor_plate || ticket.vehicle?.plate_main || null,
+          tractor_brand: ticket.vehicle?.tractor_brand || null,
+          tractor_model: ticket.vehicle?.tractor_model || null,
+          trailer1_plate: ticket.vehicle?.trailer1_plate || null,
+          trailer1_body_type: ticket.vehicle?.trailer1_body_type || null,
+          trailer2_plate: ticket.vehicle?.trailer2_plate || null,
+          trailer2_body_type: ticket.vehicle?.trailer2_body_type || null,
+          trailer3_plate: ticket.vehicle?.trailer3_plate || null,
+          trailer3_body_type: ticket.vehicle?.trailer3_body_type || null,
+        },
+        plan: { name: ticket.plan_name || '' },
+        photos: (ticket.photos || []).map((p) => ({ file_url: p.file_url, thumbnail_url: p.thumbnail_url, caption: p.caption })),
+      };
+
+      await generateTicketPDF(pdfData);
+      toast.success('Relatório gerado com sucesso!');
+    } catch (error) {
+      console.error('Erro ao gerar PDF:', error);
+      toast.error('Erro ao gerar relatório');
+    } finally {
+      setGeneratingPDF(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!ticket) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/cliente"><ArrowLeft className="h-4 w-4 mr-2" />Voltar</Link>
+        </Button>
+        <p className="text-center text-muted-foreground py-8">Chamado não encontrado.</p>
+      </div>
+    );
+  }
+
+  const photos = ticket.photos || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button variant="ghost" size="sm" className="-ml-2" asChild>
+          <Link to="/cliente"><ArrowLeft className="h-4 w-4 mr-2" />Chamados</Link>
+        </Button>
+        {ticket.status === 'finalizado' && (
+          <Button onClick={handleDownloadReport} disabled={generatingPDF}>
+            {generatingPDF ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Baixar relatório
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5 text-primary" />
+                {ticket.code || 'Sem ID'}
+              </CardTitle>
+              <CardDescription>{serviceTypeLabels[ticket.service_type]}</CardDescription>
+            </div>
+            <Badge variant="outline">{TICKET_STATUS_LABELS[ticket.status]}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2 text-sm">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              {ticket.city}, {ticket.state}
+            </div>
+            {ticket.vehicle && (
+              <div className="flex items-center gap-2">
+                <Truck className="h-4 w-4 text-muted-foreground" />
+                {ticket.vehicle.description} • {ticket.vehicle.plate_main}
+              </div>
+            )}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              <span className="text-muted-foreground">Início:</span> {formatDateTime(ticket.start_datetime)}
+            </div>
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              <span className="text-muted-foreground">Chegada do agente:</span> {formatDateTime(ticket.main_agent_arrival)}
+            </div>
+            <div className="flex items-center gap-2">
+              <Clock className="h-4 w-4 text-muted-foreground" />
+              <span className="text-muted-foreground">Encerramento:</span> {formatDateTime(ticket.end_datetime)}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {ticket.detailed_report && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Relatório do atendimento</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm whitespace-pre-wrap">{ticket.detailed_report}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Camera className="h-4 w-4" />
+            Fotos ({photos.length})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {photos.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma foto registrada.</p>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {photos.map((photo) => (
+                <a key={photo.id} href={photo.file_url} target="_blank" rel="noopener noreferrer" className="space-y-1">
+                  <img
+                    src={photoThumbnailUrl(photo)}
+                    alt={photo.caption || 'Foto do chamado'}
+                    className="aspect-square w-full rounded-md object-cover"
+                    loading="lazy"
+                  />
+                  {photo.caption && <p className="text-xs text-muted-foreground truncate">{photo.caption}</p>}
+                  {photo.taken_at && <p className="text-[10px] text-muted-foreground">Capturada em {formatDateTime(photo.taken_at)}</p>}
+                </a>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,12 +4,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Plus, Search, Building2, MapPin, Trash2, FileSpreadsheet, CheckCircle2, XCircle, UserPlus } from 'lucide-react';
+import { Plus, Search, Building2, MapPin, Trash2, FileSpreadsheet, CheckCircle2, XCircle, UserPlus, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { NewClientDialog } from '@/components/clients/NewClientDialog';
 import { EditClientDialog } from '@/components/clients/EditClientDialog';
 import { Badge } from '@/components/ui/badge';
 import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
+import { BulkImportDialog } from '@/components/BulkImportDialog';
 import { exportClientsToExcel } from '@/utils/exportClientsToExcel';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
@@ -45,6 +46,7 @@ const Clients = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(true);
   const [newClientOpen, setNewClientOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editClientOpen, setEditClientOpen] = useState(false);
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<ClientStatus>('ativo');
@@ -188,6 +190,10 @@ const Clients = () => {
             <FileSpreadsheet className="h-4 w-4 mr-2" />
             Exportar Excel
           </Button>
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar
+          </Button>
           <Button onClick={() => setNewClientOpen(true)}>
             <Plus className="h-4 w-4 mr-2" />
             Novo Cliente
@@ -321,6 +327,7 @@ const Clients = () => {
       )}
 
       <NewClientDialog open={newClientOpen} onOpenChange={setNewClientOpen} onSuccess={fetchClients} />
+      <BulkImportDialog entity="clientes" open={importOpen} onOpenChange={setImportOpen} onSuccess={fetchClients} />
       <EditClientDialog open={editClientOpen} onOpenChange={setEditClientOpen} clientId={selectedClientId} onSuccess={fetchClients} />
       <DeleteAlertDialog
         open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}
@@ -5,8 +5,10 @@ import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Truck, CheckCircle2, Clock, Info, ExternalLink, RefreshCw, XCircle, Image as ImageIcon } from 'lucide-react';
+import { MapPin, Truck, CheckCircle2, Clock, Info, ExternalLink, RefreshCw, XCircle, Image as ImageIcon, Navigation } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { AgentApproachMap } from '@/components/tickets/AgentApproachMap';
+import { photoThumbnailUrl } from '@/lib/ticketPhotos';
 
 interface TrackingData {
   id: string;
@@ -24,8 +26,17 @@ interface TrackingData {
   vehicle_description: string | null;
   vehicle_plate: string | null;
   main_agent_first_name: string | null;
+  destination_lat: number | null;
+  destination_lng: number | null;
+  // Only filled while the main agent is on the way (em_andamento, no arrival yet)
+  main_agent_positions: {
+    latitude: number;
+    longitude: number;
+    recorded_at: string;
+  }[] | null;
   photos: {
     file_url: string;
+    thumbnail_url: string | null;
     caption: string | null;
     created_at: string;
   }[] | null;
@@ -78,13 +89,17 @@ const CustomerTracking = () => {
 
   useEffect(() => {
     fetchTrackingData();
+    if (!id) return;
 
-    // Auto refresh every 30 seconds
-    const interval = setInterval(() => {
-      fetchTrackingData(true);
-    }, 30000);
+    // Live refresh: the database broadcasts on this topic whenever the ticket or its photos change
+    const channel = supabase
+      .channel(`tracking:${id}`)
+      .on('broadcast', { event: 'ticket_changed' }, () => fetchTrackingData(true))
+      .subscribe();
 
-    return () => clearInterval(interval);
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [id]);
 
   if (loading) {
@@ -257,6 +272,30 @@ const CustomerTracking = () => {
           </CardContent>
         </Card>
 
+        {!isCanceled && data.main_agent_positions && data.main_agent_positions.length > 0 && (
+          <Card className="shadow-lg border-0 rounded-xl overflow-hidden">
+            <CardHeader className="bg-slate-50/50 border-b pb-4 px-6 flex flex-row items-center gap-2">
+              <Navigation className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg font-bold text-slate-800">Equipe a Caminho</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="h-[300px]">
+                <AgentApproachMap
+                  positions={data.main_agent_positions}
+                  destination={
+                    data.destination_lat != null && data.destination_lng != null
+                      ? { lat: data.destination_lat, lng: data.destination_lng }
+                      : null
+                  }
+                />
+              </div>
+              <p className="text-xs text-slate-400 px-6 py-3 text-center">
+                Última posição às {format(new Date(data.main_agent_positions[data.main_agent_positions.length - 1].recorded_at), "HH:mm", { locale: ptBR })}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {isCanceled ? (
           <Card className="border-red-100 bg-red-50 shadow-sm">
             <CardContent className="p-6 text-center">
@@ -327,7 +366,7 @@ const CustomerTracking = () => {
                 {data.photos.map((photo, i) => (
                   <div key={i} className="group relative aspect-square rounded-lg overflow-hidden border bg-slate-100 ring-offset-2 hover:ring-2 hover:ring-primary transition-all">
                     <img 
-                      src={photo.file_url} 
+                      src={photoThumbnailUrl(photo)} 
                       alt={photo.caption || `Foto ${i + 1}`} 
                       className="w-full h-full object-cover cursor-pointer"
                       onClick={() => window.open(photo.file_url, '_blank')}
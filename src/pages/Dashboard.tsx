@@ -1,30 +1,35 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import {
   FileText, Users, UserCheck, TrendingUp,
   Calendar, Clock, Filter, AlertCircle, CheckCircle2, XCircle,
   DollarSign, Building2, Zap, Activity, ArrowUpRight, ArrowDownRight,
-  Wallet, Layers, MapPin
+  Wallet, Layers, MapPin, Settings2
 } from 'lucide-react';
 import {
   StatusDistributionChart,
   TopClientsChart
 } from '@/components/dashboard/AnalyticsCharts';
 import ActivityFeed from '@/components/dashboard/ActivityFeed';
+import SlaAlerts from '@/components/dashboard/SlaAlerts';
 import DashboardMap from '@/components/dashboard/DashboardMap';
 import GoalProgress from '@/components/dashboard/GoalProgress';
+import { GoalsDialog } from '@/components/dashboard/GoalsDialog';
 import { DatePickerWithRange } from '@/components/dashboard/DateRangePicker';
-import { format, subDays, startOfMonth, startOfYear, isWithinInterval, endOfDay, startOfDay, endOfMonth } from 'date-fns';
+import { format, subDays, subMonths, startOfMonth, startOfYear, isWithinInterval, endOfDay, startOfDay, endOfMonth } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import {
   Select, SelectContent, SelectItem, SelectTrigger, SelectValue
 } from '@/components/ui/select';
 import { DateRange } from "react-day-picker";
 import { useUserRole } from '@/hooks/useUserRole';
+import { useRealtimeTickets } from '@/hooks/useRealtimeTickets';
 import { TicketDetails } from '@/components/tickets/TicketDetails';
 import { EditTicketDialog } from '@/components/tickets/EditTicketDialog';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { computeGoalMetrics, fetchGoals, goalScopeLabel, type OperationalGoal } from '@/lib/operationalGoals';
 
 interface Stats {
   totalTickets: number;
@@ -66,9 +71,37 @@ const Dashboard = () => {
   const [statusData, setStatusData] = useState<any[]>([]);
   const [topClientsData, setTopClientsData] = useState<any[]>([]);
   const [allTickets, setAllTickets] = useState<any[]>([]);
+  const [goals, setGoals] = useState<OperationalGoal[]>([]);
+  const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
+  const [goalsOpen, setGoalsOpen] = useState(false);
 
-  const fetchDashboardData = async () => {
-    setLoading(true);
+  // Goal cards always follow the current month, whatever the period filter says
+  const fetchCurrentGoals = useCallback(async () => {
+    try {
+      setGoals(await fetchGoals(new Date()));
+    } catch (err) {
+      console.error('Erro ao carregar metas:', err);
+    }
+  }, []);
+
+  useEffect(() => { fetchCurrentGoals(); }, [fetchCurrentGoals]);
+
+  // The general goal (no service type, no client) unless another one is picked
+  const selectedGoal = goals.find(g => g.id === selectedGoalId)
+    ?? goals.find(g => !g.service_type && !g.client_id)
+    ?? goals[0]
+    ?? null;
+
+  const goalMetrics = useMemo(() => {
+    const now = new Date();
+    return {
+      current: computeGoalMetrics(allTickets, now, selectedGoal),
+      previous: computeGoalMetrics(allTickets, subMonths(now, 1), selectedGoal),
+    };
+  }, [allTickets, selectedGoal]);
+
+  const fetchDashboardData = async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
       const { data: tickets, error: ticketsError } = await supabase
         .from('tickets')
@@ -132,7 +165,7 @@ const Dashboard = () => {
         }
 
         // Revenue
-        if (!t.revenue_status || t.revenue_status === 'pendente') pRevenue += (Number(t.revenue_total) || 0);
+        if (!t.revenue_status || t.revenue_status === 'pendente' || t.revenue_status === 'faturado') pRevenue += (Number(t.revenue_total) || 0);
         else if (t.revenue_status === 'recebido') rRevenue += (Number(t.revenue_total) || 0);
       });
 
@@ -179,6 +212,8 @@ const Dashboard = () => {
 
   useEffect(() => { fetchDashboardData(); }, [range, date]);
 
+  useRealtimeTickets('dashboard-tickets', () => fetchDashboardData(true), { notify: true });
+
   const handleEdit = (id: string) => { setSelectedTicketId(id); setEditOpen(true); };
   const fmt = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
 
@@ -258,9 +293,11 @@ const Dashboard = () => {
           {/* ── COMMAND CENTER MAP & FEED ── */}
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
             <div className="lg:col-span-8 h-[550px]"><DashboardMap tickets={allTickets} onViewDetails={(id) => { setSelectedTicketId(id); setDetailOpen(true); }} /></div>
-            <div className="lg:col-span-4 h-[550px]"><ActivityFeed tickets={allTickets} onViewDetails={(id) => { setSelectedTicketId(id); setDetailOpen(true); }} /></div>
+            <div className="lg:col-span-4 h-[550px]"><ActivityFeed onViewDetails={(id) => { setSelectedTicketId(id); setDetailOpen(true); }} /></div>
           </div>
 
+          <SlaAlerts tickets={allTickets} onViewDetails={(id) => { setSelectedTicketId(id); setDetailOpen(true); }} />
+
           {/* ── FINANCIAL HEALTH & GOALS ── */}
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
              {/* Painel de Saúde Financeira Premium */}
@@ -312,10 +349,32 @@ const Dashboard = () => {
                </Card>
              )}
 
-             <div className="lg:col-span-8 grid grid-cols-1 md:grid-cols-3 gap-6">
-                <GoalProgress title="Atendimentos Mensais" current={stats.completedTickets} target={150} icon="target" description="Meta de chamados finalizados" />
-                <GoalProgress title="Eficiência Operacional" current={Math.round((stats.completedTickets / (stats.totalTickets || 1)) * 100)} target={95} icon="efficiency" unit="%" description="Percentual de conclusão" />
-                <GoalProgress title="Tempo de Resposta" current={22} target={15} icon="zap" unit="min" description="Média de chegada ao local" />
+             <div className="lg:col-span-8 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                   <p className="text-xs font-black uppercase tracking-widest text-muted-foreground">
+                      Metas de {format(new Date(), 'MMMM', { locale: ptBR })}
+                   </p>
+                   <div className="flex items-center gap-2">
+                      {goals.length > 1 && (
+                        <Select value={selectedGoal?.id} onValueChange={setSelectedGoalId}>
+                          <SelectTrigger className="h-8 w-[240px] text-xs"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {goals.map(g => <SelectItem key={g.id} value={g.id}>{goalScopeLabel(g)}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      {isAdmin && (
+                        <Button variant="outline" size="sm" className="h-8" onClick={() => setGoalsOpen(true)}>
+                          <Settings2 className="h-4 w-4 mr-2" /> Metas
+                        </Button>
+                      )}
+                   </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                   <GoalProgress title="Atendimentos Mensais" current={goalMetrics.current.completed} previous={goalMetrics.previous.completed} target={selectedGoal?.tickets_target ?? null} icon="target" description="Meta de chamados finalizados" />
+                   <GoalProgress title="Eficiência Operacional" current={goalMetrics.current.efficiency} previous={goalMetrics.previous.efficiency} target={selectedGoal?.efficiency_target ?? null} icon="efficiency" unit="%" description="Percentual de conclusão" />
+                   <GoalProgress title="Tempo de Resposta" current={goalMetrics.current.responseTime} previous={goalMetrics.previous.responseTime} target={selectedGoal?.response_time_target ?? null} icon="zap" unit="min" lowerIsBetter description="Média do início à chegada do agente" />
+                </div>
              </div>
 
              <div className="lg:col-span-4 h-full">
@@ -343,6 +402,8 @@ const Dashboard = () => {
               <EditTicketDialog ticketId={selectedTicketId} open={editOpen} onOpenChange={setEditOpen} onSuccess={fetchDashboardData} />
             </>
           )}
+
+          {isAdmin && <GoalsDialog open={goalsOpen} onOpenChange={setGoalsOpen} onSaved={fetchCurrentGoals} />}
         </>
       )}
     </div>
@@ -20,12 +20,22 @@ import {
 import {
     DollarSign, CheckCircle2, Clock, Search, User, Users, CreditCard, Copy, Filter,
     FileText, HandCoins, Building2, Calculator, ChevronDown, ChevronUp, History,
-    Truck, Ban, Clock3, TrendingUp
+    Truck, Ban, Clock3, TrendingUp, Layers, QrCode, Receipt, AlertTriangle, FileSpreadsheet
 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { FaturamentoDialog } from '@/components/finance/FaturamentoDialog';
 import { PagamentoAgenteDialog } from '@/components/finance/PagamentoAgenteDialog';
-import { calculateAgentHonorary } from '@/lib/pricingUtils';
+import { PaymentRunDialog } from '@/components/finance/PaymentRunDialog';
+import { PaymentRunsHistory } from '@/components/finance/PaymentRunsHistory';
+import { PixQrDialog, type PixPayment } from '@/components/finance/PixQrDialog';
+import { InvoiceDialog } from '@/components/finance/InvoiceDialog';
+import { InvoicesHistory } from '@/components/finance/InvoicesHistory';
+import { ReceivablesAging } from '@/components/finance/ReceivablesAging';
+import { AuditLogViewer } from '@/components/finance/AuditLogViewer';
+import { calculateAgentHonorary, fetchPricingRules, getEffectiveServiceType, type AgentRole } from '@/lib/pricingUtils';
+import { PLAN_COMPOSITION_COLUMNS } from '@/lib/planUtils';
+import { getUnapprovedExpenses } from '@/lib/expenseReceipts';
+import { exportFinanceToExcel } from '@/utils/exportFinanceToExcel';
 
 interface PaymentItem {
     ticketId: string;
@@ -34,7 +44,9 @@ interface PaymentItem {
     clientName: string;
     startDatetime: string;
     agentName: string;
-    agentRole: 'principal' | 'apoio_1' | 'apoio_2';
+    agentDocument: string | null;
+    agentCity: string | null;
+    agentRole: AgentRole;
     agentRoleLabel: string;
     isArmed: boolean | null;
     pixKey: string | null;
@@ -47,6 +59,8 @@ interface PaymentItem {
     foodCost: number;
     otherCosts: number;
     totalCost: number;
+    // Every non-zero expense approved for its current value
+    expensesApproved: boolean;
     paymentStatus: string;
     paidAt: string | null;
     endDatetime: string | null;
@@ -92,7 +106,18 @@ const Financeiro = () => {
     // Pagamento Agente Dialog State
     const [pagamentoAgenteDialogOpen, setPagamentoAgenteDialogOpen] = useState(false);
     const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
-    const [selectedAgentRole, setSelectedAgentRole] = useState<'principal' | 'apoio_1' | 'apoio_2'>('principal');
+    const [selectedAgentRole, setSelectedAgentRole] = useState<AgentRole>('principal');
+
+    // Payment Run State
+    const [paymentRunDialogOpen, setPaymentRunDialogOpen] = useState(false);
+    const [paymentRunsRefreshKey, setPaymentRunsRefreshKey] = useState(0);
+
+    // PIX QR Code Dialog State
+    const [pixPayment, setPixPayment] = useState<PixPayment | null>(null);
+
+    // Client Invoice State
+    const [invoiceDialogOpen, setInvoiceDialogOpen] = useState(false);
+    const [invoicesRefreshKey, setInvoicesRefreshKey] = useState(0);
 
     useEffect(() => {
         fetchPayments();
@@ -105,6 +130,7 @@ const Financeiro = () => {
                 .from('tickets')
                 .select([
                     'id', 'code', 'start_datetime', 'end_datetime', 'status', 'service_type',
+                    'plan_id', 'client_id',
                     'toll_cost', 'food_cost', 'other_costs',
                     'main_agent_id',
                     'main_agent_arrival', 'main_agent_departure',
@@ -112,11 +138,13 @@ const Financeiro = () => {
                     'main_agent_payment_status', 'main_agent_paid_at',
                     'main_agent_compensation_total',
                     'revenue_status', 'revenue_paid_at', 'revenue_total',
-                    'plans(name)',
-                    'clients(name)',
+                    'revenue_base_value', 'revenue_discount_addition', 'invoice_id',
+                    `plans(name,${PLAN_COMPOSITION_COLUMNS})`,
+                    'clients(name,document)',
                     'vehicles(tractor_plate)',
-                    'main_agent:agents!tickets_main_agent_id_fkey(name,is_armed,pix_key,bank_name,bank_agency,bank_account,bank_account_type)',
-                    'ticket_support_agents(agent_id,arrival,departure,km_start,km_end,toll_cost,food_cost,other_costs,payment_status,paid_at,compensation_total,agent:agents(name,is_armed,pix_key,bank_name,bank_agency,bank_account,bank_account_type))'
+                    'expense_approvals(agent_id,expense_type,amount,status)',
+                    'main_agent:agents!tickets_main_agent_id_fkey(name,document,city,is_armed,pix_key,bank_name,bank_agency,bank_account,bank_account_type)',
+                    'ticket_support_agents(agent_id,arrival,departure,km_start,km_end,toll_cost,food_cost,other_costs,payment_status,paid_at,compensation_total,agent:agents(name,document,city,is_armed,pix_key,bank_name,bank_agency,bank_account,bank_account_type))'
                 ].join(','))
                 .eq('status', 'finalizado')
                 .order('start_datetime', { ascending: false });
@@ -130,7 +158,7 @@ const Financeiro = () => {
                 query = query.lte('start_datetime', endOfDay.toISOString());
             }
 
-            const { data, error } = await query;
+            const [{ data, error }, pricingRules] = await Promise.all([query, fetchPricingRules()]);
 
             if (error) {
                 console.error('Supabase error fetching payments:', error);
@@ -156,7 +184,12 @@ const Financeiro = () => {
                     // IF zero, calculate automatically
                     if (compensation === 0) {
                         compensation = calculateAgentHonorary({
-                            planName: ticket.plans?.name,
+                            rules: pricingRules,
+                            planId: ticket.plan_id,
+                            plan: ticket.plans,
+                            serviceType: getEffectiveServiceType(ticket.plans, ticket.service_type),
+                            clientId: ticket.client_id,
+                            date: ticket.start_datetime,
                             agentRole: 'principal',
                             agentIsArmed: !!ticket.main_agent.is_armed,
                             durationHours,
@@ -167,6 +200,7 @@ const Financeiro = () => {
                     const toll = Number(ticket.toll_cost) || 0;
                     const food = Number(ticket.food_cost) || 0;
                     const other = Number(ticket.other_costs) || 0;
+                    const mainApprovals = (ticket.expense_approvals || []).filter((a: any) => a.agent_id === ticket.main_agent_id);
                     paymentItems.push({
                         ticketId: ticket.id,
                         agentId: ticket.main_agent_id,
@@ -174,6 +208,8 @@ const Financeiro = () => {
                         clientName: ticket.clients?.name || '-',
                         startDatetime: ticket.start_datetime,
                         agentName: ticket.main_agent.name,
+                        agentDocument: ticket.main_agent.document,
+                        agentCity: ticket.main_agent.city,
                         agentRole: 'principal',
                         agentRoleLabel: 'Agente Principal',
                         isArmed: ticket.main_agent.is_armed,
@@ -187,6 +223,7 @@ const Financeiro = () => {
                         foodCost: food,
                         otherCosts: other,
                         totalCost: compensation + toll + food + other,
+                        expensesApproved: getUnapprovedExpenses({ pedagio: toll, alimentacao: food, outros: other }, mainApprovals).length === 0,
                         paymentStatus: ticket.main_agent_payment_status || 'pendente',
                         paidAt: ticket.main_agent_paid_at,
                         endDatetime: ticket.end_datetime,
@@ -217,7 +254,12 @@ const Financeiro = () => {
                             // IF zero, calculate automatically
                             if (compensation === 0) {
                                 compensation = calculateAgentHonorary({
-                                    planName: ticket.plans?.name,
+                                    rules: pricingRules,
+                                    planId: ticket.plan_id,
+                                    plan: ticket.plans,
+                                    serviceType: getEffectiveServiceType(ticket.plans, ticket.service_type),
+                                    clientId: ticket.client_id,
+                                    date: ticket.start_datetime,
                                     agentRole: `apoio_${index + 1}`,
                                     agentIsArmed: !!sa.agent.is_armed,
                                     durationHours,
@@ -228,6 +270,7 @@ const Financeiro = () => {
                             const toll = Number(sa.toll_cost) || 0;
                             const food = Number(sa.food_cost) || 0;
                             const other = Number(sa.other_costs) || 0;
+                            const supportApprovals = (ticket.expense_approvals || []).filter((a: any) => a.agent_id === sa.agent_id);
                             paymentItems.push({
                                 ticketId: ticket.id,
                                 agentId: sa.agent_id,
@@ -235,7 +278,9 @@ const Financeiro = () => {
                                 clientName: ticket.clients?.name || '-',
                                 startDatetime: ticket.start_datetime,
                                 agentName: sa.agent.name,
-                                agentRole: 'apoio_1',
+                                agentDocument: sa.agent.document,
+                                agentCity: sa.agent.city,
+                                agentRole: `apoio_${index + 1}`,
                                 agentRoleLabel: `Apoio ${index + 1}`,
                                 isArmed: sa.agent.is_armed,
                                 pixKey: sa.agent.pix_key,
@@ -248,6 +293,7 @@ const Financeiro = () => {
                                 foodCost: food,
                                 otherCosts: other,
                                 totalCost: compensation + toll + food + other,
+                                expensesApproved: getUnapprovedExpenses({ pedagio: toll, alimentacao: food, outros: other }, supportApprovals).length === 0,
                                 paymentStatus: sa.payment_status || 'pendente',
                                 paidAt: sa.paid_at,
                                 endDatetime: ticket.end_datetime,
@@ -284,7 +330,12 @@ const Financeiro = () => {
                     let compensation = Number(ticket.main_agent_compensation_total) || 0;
                     if (compensation === 0) {
                         compensation = calculateAgentHonorary({
-                            planName: ticket.plans?.name,
+                            rules: pricingRules,
+                            planId: ticket.plan_id,
+                            plan: ticket.plans,
+                            serviceType: getEffectiveServiceType(ticket.plans, ticket.service_type),
+                            clientId: ticket.client_id,
+                            date: ticket.start_datetime,
                             agentRole: 'principal',
                             agentIsArmed: !!ticket.main_agent.is_armed,
                             durationHours,
@@ -307,7 +358,12 @@ const Financeiro = () => {
                         let compensation = Number(sa.compensation_total) || 0;
                         if (compensation === 0) {
                             compensation = calculateAgentHonorary({
-                                planName: ticket.plans?.name,
+                                rules: pricingRules,
+                                planId: ticket.plan_id,
+                                plan: ticket.plans,
+                                serviceType: getEffectiveServiceType(ticket.plans, ticket.service_type),
+                                clientId: ticket.client_id,
+                                date: ticket.start_datetime,
                                 agentRole: `apoio_${index + 1}`,
                                 agentIsArmed: !!sa.agent?.is_armed,
                                 durationHours,
@@ -378,9 +434,9 @@ const Financeiro = () => {
 
             toast.success(`Pagamento de ${item.agentName} marcado como pago!`);
             fetchPayments();
-        } catch (error) {
+        } catch (error: any) {
             console.error('Erro ao marcar pagamento:', error);
-            toast.error('Erro ao atualizar pagamento');
+            toast.error(error?.message || 'Erro ao atualizar pagamento');
         }
     };
 
@@ -526,18 +582,41 @@ const Financeiro = () => {
         (t.clients?.name && t.clients.name.toLowerCase().includes(searchTerm.toLowerCase()));
 
     const pendingTickets = tickets.filter(t => (t.revenue_status || 'pendente') === 'pendente' && matchesFatSearch(t));
+    const invoicedTickets = tickets.filter(t => t.revenue_status === 'faturado' && matchesFatSearch(t));
+    const uninvoicedTickets = tickets.filter(t => (t.revenue_status || 'pendente') === 'pendente' && !t.invoice_id);
     const receivedTickets = tickets
         .filter(t => t.revenue_status === 'recebido' && matchesFatSearch(t))
         .sort((a, b) => new Date(b.revenue_paid_at || 0).getTime() - new Date(a.revenue_paid_at || 0).getTime());
 
+    // Invoiced tickets are still awaiting payment
     const pendingFaturamentoTotal = tickets
-        .filter(t => (t.revenue_status || 'pendente') === 'pendente')
+        .filter(t => (t.revenue_status || 'pendente') !== 'recebido')
         .reduce((sum, t) => sum + (Number(t.revenue_total) || 0), 0);
 
     const receivedFaturamentoTotal = tickets
         .filter(t => t.revenue_status === 'recebido')
         .reduce((sum, t) => sum + (Number(t.revenue_total) || 0), 0);
 
+    const handleExportExcel = () => {
+        if (items.length === 0 && tickets.length === 0) {
+            toast.error('Nenhum dado financeiro para exportar');
+            return;
+        }
+
+        exportFinanceToExcel({
+            pendingPayments: pendingItems,
+            paidPayments: paidItems,
+            revenueTickets: tickets.filter(matchesFatSearch),
+            profit: profitData.filter(p => matchesFatSearch({ code: p.code, clients: { name: p.clientName } })),
+        }, {
+            'Período': date?.from
+                ? `${format(date.from, 'dd/MM/yyyy')} a ${format(date.to || date.from, 'dd/MM/yyyy')}`
+                : 'Todo o período',
+            'Busca': searchTerm,
+        });
+        toast.success('Relatório financeiro exportado com sucesso!');
+    };
+
     return (
         <div className="space-y-6 animate-in fade-in duration-500">
             {/* Header */}
@@ -555,11 +634,15 @@ const Financeiro = () => {
                     <Button variant="outline" onClick={fetchPayments} disabled={loading}>
                         {loading ? 'Carregando...' : 'Atualizar'}
                     </Button>
+                    <Button variant="outline" onClick={handleExportExcel} disabled={loading}>
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        Exportar Excel
+                    </Button>
                 </div>
             </div>
 
             <Tabs defaultValue="pagamentos" className="w-full">
-                <TabsList className="grid w-full grid-cols-3 max-w-[550px]">
+                <TabsList className="grid w-full grid-cols-5 max-w-[920px]">
                     <TabsTrigger 
                         value="pagamentos" 
                         className="flex gap-2 items-center data-[state=active]:text-red-600 data-[state=active]:bg-red-50 dark:data-[state=active]:bg-red-950/30"
@@ -574,6 +657,13 @@ const Financeiro = () => {
                         <Building2 className="h-4 w-4" />
                         Faturamento (Clientes)
                     </TabsTrigger>
+                    <TabsTrigger 
+                        value="receber" 
+                        className="flex gap-2 items-center data-[state=active]:text-amber-600 data-[state=active]:bg-amber-50 dark:data-[state=active]:bg-amber-950/30"
+                    >
+                        <AlertTriangle className="h-4 w-4" />
+                        Contas a Receber
+                    </TabsTrigger>
                     <TabsTrigger 
                         value="balanco" 
                         className="flex gap-2 items-center data-[state=active]:text-blue-600 data-[state=active]:bg-blue-50 dark:data-[state=active]:bg-blue-950/30"
@@ -581,6 +671,13 @@ const Financeiro = () => {
                         <Calculator className="h-4 w-4" />
                         Balanço Geral
                     </TabsTrigger>
+                    <TabsTrigger 
+                        value="auditoria" 
+                        className="flex gap-2 items-center data-[state=active]:text-slate-700 data-[state=active]:bg-slate-100 dark:data-[state=active]:text-slate-200 dark:data-[state=active]:bg-slate-800/50"
+                    >
+                        <History className="h-4 w-4" />
+                        Auditoria
+                    </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="pagamentos" className="space-y-6">
@@ -637,16 +734,31 @@ const Financeiro = () => {
                     </div>
 
                     {/* Search */}
-                    <div className="relative">
-                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                        <Input
-                            placeholder="Buscar por agente, chamado ou cliente..."
-                            value={searchTerm}
-                            onChange={(e) => setSearchTerm(e.target.value)}
-                            className="pl-9"
-                        />
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Buscar por agente, chamado ou cliente..."
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                                className="pl-9"
+                            />
+                        </div>
+                        <Button
+                            className="gap-2"
+                            disabled={!date?.from || !date?.to || pendingCount === 0}
+                            onClick={() => setPaymentRunDialogOpen(true)}
+                        >
+                            <Layers className="h-4 w-4" />
+                            Lote de Pagamento
+                        </Button>
                     </div>
 
+                    <PaymentRunsHistory
+                        refreshKey={paymentRunsRefreshKey}
+                        onReversed={fetchPayments}
+                    />
+
                     {loading ? (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             {[1, 2, 3, 4].map(i => (
@@ -717,6 +829,11 @@ const Financeiro = () => {
                                                                         {getDeadlineInfo(item)?.label}
                                                                     </Badge>
                                                                 )}
+                                                                {!item.expensesApproved && (
+                                                                    <Badge variant="outline" className="text-[9px] py-0 h-4 text-orange-600 border-orange-200 bg-orange-50">
+                                                                        Despesas a aprovar
+                                                                    </Badge>
+                                                                )}
                                                             </div>
                                                         </div>
                                                     </CardHeader>
@@ -759,15 +876,32 @@ const Financeiro = () => {
                                                                 {item.pixKey && (
                                                                     <div className="flex items-center justify-between">
                                                                         <span className="text-xs font-medium truncate max-w-[150px]">PIX: {item.pixKey}</span>
-                                                                        <Button
-                                                                            variant="ghost"
-                                                                            size="sm"
-                                                                            className="h-6 px-2 text-primary hover:text-primary hover:bg-primary/10 transition-colors"
-                                                                            onClick={() => copyToClipboard(item.pixKey!)}
-                                                                        >
-                                                                            <Copy className="h-3 w-3 mr-1" />
-                                                                            <span className="text-[10px]">Copiar</span>
-                                                                        </Button>
+                                                                        <div className="flex items-center">
+                                                                            <Button
+                                                                                variant="ghost"
+                                                                                size="sm"
+                                                                                className="h-6 px-2 text-primary hover:text-primary hover:bg-primary/10 transition-colors"
+                                                                                onClick={() => copyToClipboard(item.pixKey!)}
+                                                                            >
+                                                                                <Copy className="h-3 w-3 mr-1" />
+                                                                                <span className="text-[10px]">Copiar</span>
+                                                                            </Button>
+                                                                            <Button
+                                                                                variant="ghost"
+                                                                                size="sm"
+                                                                                className="h-6 px-2 text-primary hover:text-primary hover:bg-primary/10 transition-colors"
+                                                                                onClick={() => setPixPayment({
+                                                                                    agentName: item.agentName,
+                                                                                    agentCity: item.agentCity,
+                                                                                    pixKey: item.pixKey!,
+                                                                                    amount: item.totalCost,
+                                                                                    ticketCode: item.ticketCode,
+                                                                                })}
+                                                                            >
+                                                                                <QrCode className="h-3 w-3 mr-1" />
+                                                                                <span className="text-[10px]">QR Code</span>
+                                                                            </Button>
+                                                                        </div>
                                                                     </div>
                                                                 )}
                                                             </div>
@@ -796,6 +930,8 @@ const Financeiro = () => {
                                                                     <Button
                                                                         size="sm"
                                                                         className="h-9 gap-1.5 text-xs font-bold bg-emerald-600 hover:bg-emerald-700"
+                                                                        disabled={!item.expensesApproved}
+                                                                        title={item.expensesApproved ? undefined : 'Aprove as despesas na calculadora antes de pagar'}
                                                                     >
                                                                         <CheckCircle2 className="h-3.5 w-3.5" />
                                                                         Pagar
@@ -1054,7 +1190,7 @@ const Financeiro = () => {
                                 <div className="bg-amber-500/20 p-2 rounded-lg"><Clock className="h-5 w-5 text-amber-600" /></div>
                                 <div>
                                     <p className="text-2xl font-bold text-amber-700">{pendingFaturamentoTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
-                                    <p className="text-xs text-amber-600 font-medium tracking-wide font-sans">{pendingTickets.length} Chamados a Receber</p>
+                                    <p className="text-xs text-amber-600 font-medium tracking-wide font-sans">{pendingTickets.length + invoicedTickets.length} Chamados a Receber</p>
                                 </div>
                             </CardContent>
                         </Card>
@@ -1069,16 +1205,31 @@ const Financeiro = () => {
                         </Card>
                     </div>
 
-                    <div className="relative">
-                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                        <Input
-                            placeholder="Buscar por chamado ou cliente..."
-                            value={searchTerm}
-                            onChange={(e) => setSearchTerm(e.target.value)}
-                            className="pl-9"
-                        />
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Buscar por chamado ou cliente..."
+                                value={searchTerm}
+                                onChange={(e) => setSearchTerm(e.target.value)}
+                                className="pl-9"
+                            />
+                        </div>
+                        <Button
+                            className="gap-2"
+                            disabled={!date?.from || !date?.to || uninvoicedTickets.length === 0}
+                            onClick={() => setInvoiceDialogOpen(true)}
+                        >
+                            <Receipt className="h-4 w-4" />
+                            Emitir Fatura
+                        </Button>
                     </div>
 
+                    <InvoicesHistory
+                        refreshKey={invoicesRefreshKey}
+                        onChanged={fetchPayments}
+                    />
+
                     <div className="space-y-6">
                         {pendingTickets.length > 0 && (
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -1106,6 +1257,29 @@ const Financeiro = () => {
                             </div>
                         )}
 
+                        {invoicedTickets.length > 0 && (
+                            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                                {invoicedTickets.map((ticket) => (
+                                    <Card key={ticket.id} className="border-border bg-card shadow-none">
+                                        <CardContent className="p-4 flex flex-col h-full space-y-3">
+                                            <div className="flex justify-between items-start border-b border-border/50 pb-2 mb-1">
+                                                <div>
+                                                    <h3 className="font-bold text-primary">Chamado {ticket.code || '-'}</h3>
+                                                    <p className="text-xs text-muted-foreground font-medium">{ticket.clients?.name}</p>
+                                                </div>
+                                                <Badge className="bg-blue-100 text-blue-700 text-[10px]">Faturado</Badge>
+                                            </div>
+                                            <div className="flex flex-col py-2">
+                                                <span className="text-[10px] text-muted-foreground uppercase font-bold tracking-wider">Valor Faturado</span>
+                                                <span className="text-lg font-black">{Number(ticket.revenue_total).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                            </div>
+                                            <p className="text-[11px] text-muted-foreground">Recebimento registrado pela fatura.</p>
+                                        </CardContent>
+                                    </Card>
+                                ))}
+                            </div>
+                        )}
+
                         {receivedTickets.length > 0 && (
                             <div className="mt-8 border border-border rounded-lg overflow-hidden">
                                 <button
@@ -1131,7 +1305,9 @@ const Financeiro = () => {
                                                     <p className="text-[10px] text-muted-foreground">{ticket.clients?.name} • {format(new Date(ticket.start_datetime), 'dd/MM/yy')}</p>
                                                     <div className="flex justify-between items-center pt-1">
                                                         <span className="text-sm font-bold text-emerald-700">{Number(ticket.revenue_total).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
-                                                        <Button size="sm" variant="ghost" className="h-6 text-[10px]" onClick={() => handleUndoRevenuePayment(ticket.id)}>Reverter</Button>
+                                                        {!ticket.invoice_id && (
+                                                            <Button size="sm" variant="ghost" className="h-6 text-[10px]" onClick={() => handleUndoRevenuePayment(ticket.id)}>Reverter</Button>
+                                                        )}
                                                     </div>
                                                 </CardContent>
                                             </Card>
@@ -1142,6 +1318,22 @@ const Financeiro = () => {
                         )}
                     </div>
                 </TabsContent>
+                <TabsContent value="receber" className="space-y-6">
+                    <div className="bg-amber-500/5 rounded-lg border border-amber-500/20 p-4 mt-4">
+                        <h2 className="text-lg font-bold text-amber-700 dark:text-amber-400 mb-1">Inadimplência por Cliente</h2>
+                        <p className="text-sm text-muted-foreground">Todos os valores em aberto, por idade e vencimento, independente do período selecionado.</p>
+                    </div>
+
+                    <ReceivablesAging refreshKey={invoicesRefreshKey} />
+                </TabsContent>
+                <TabsContent value="auditoria" className="space-y-6">
+                    <div className="bg-slate-500/5 rounded-lg border border-slate-500/20 p-4 mt-4">
+                        <h2 className="text-lg font-bold text-slate-700 dark:text-slate-300 mb-1">Auditoria Financeira</h2>
+                        <p className="text-sm text-muted-foreground">Alterações em valores de faturamento, honorários e custos, com o valor anterior, o novo, quem alterou e quando.</p>
+                    </div>
+
+                    <AuditLogViewer />
+                </TabsContent>
             </Tabs>
 
             <FaturamentoDialog
@@ -1151,6 +1343,40 @@ const Financeiro = () => {
                 onSuccess={fetchPayments}
             />
 
+            {date?.from && date?.to && (
+                <PaymentRunDialog
+                    open={paymentRunDialogOpen}
+                    onOpenChange={setPaymentRunDialogOpen}
+                    items={items.filter(i => i.paymentStatus === 'pendente' && i.expensesApproved)}
+                    periodStart={date.from}
+                    periodEnd={date.to}
+                    onSuccess={() => {
+                        fetchPayments();
+                        setPaymentRunsRefreshKey(k => k + 1);
+                    }}
+                />
+            )}
+
+            {date?.from && date?.to && (
+                <InvoiceDialog
+                    open={invoiceDialogOpen}
+                    onOpenChange={setInvoiceDialogOpen}
+                    tickets={uninvoicedTickets}
+                    periodStart={date.from}
+                    periodEnd={date.to}
+                    onSuccess={() => {
+                        fetchPayments();
+                        setInvoicesRefreshKey(k => k + 1);
+                    }}
+                />
+            )}
+
+            <PixQrDialog
+                open={!!pixPayment}
+                onOpenChange={(open) => !open && setPixPayment(null)}
+                payment={pixPayment}
+            />
+
             <PagamentoAgenteDialog
                 open={pagamentoAgenteDialogOpen}
                 onOpenChange={setPagamentoAgenteDialogOpen}
@@ -5,7 +5,7 @@ import {
     Users, UserCheck, Clock, TrendingUp, Calendar,
     BarChart3, Award, Zap, Timer, PieChart as PieChartIcon,
     DollarSign, Activity, Target, Layers, ArrowUpRight, ArrowDownRight,
-    AlertTriangle, Wallet, MapPin, Building2, Truck
+    AlertTriangle, Wallet, MapPin, Building2, Truck, FileSpreadsheet
 } from 'lucide-react';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
@@ -20,7 +20,11 @@ import { DatePickerWithRange } from '@/components/dashboard/DateRangePicker';
 import { DateRange } from "react-day-picker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { useUserRole } from '@/hooks/useUserRole';
+import { exportPerformanceToExcel } from '@/utils/exportPerformanceToExcel';
+import { fetchSlaRules, slaComplianceByClient, type SlaCompliance } from '@/lib/sla';
+import { toast } from 'sonner';
 
 const serviceTypeLabels: Record<string, string> = {
     alarme: 'Alarme',
@@ -35,6 +39,14 @@ interface RegionPerformance { city: string; state: string; count: number; }
 interface OperatorPerformance { id: string; name: string; count: number; }
 type FilterRange = '7days' | 'month' | 'year' | 'all' | 'custom';
 
+const RANGE_LABELS: Record<FilterRange, string> = {
+    '7days': 'Últimos 7 dias',
+    month: 'Este Mês',
+    year: 'Este Ano',
+    all: 'Todo o Período',
+    custom: 'Personalizado',
+};
+
 const Performance = () => {
     const { isAdmin } = useUserRole();
     const [loading, setLoading] = useState(true);
@@ -47,6 +59,7 @@ const Performance = () => {
     const [serviceDistribution, setServiceDistribution] = useState<any[]>([]);
     const [monthlyData, setMonthlyData] = useState<any[]>([]);
     const [serviceRevenueData, setServiceRevenueData] = useState<any[]>([]);
+    const [slaCompliance, setSlaCompliance] = useState<SlaCompliance[]>([]);
 
     const [globalStats, setGlobalStats] = useState({ avgCompletionTime: 0, totalFinished: 0, successRate: 0, totalKm: 0 });
     const [financialStats, setFinancialStats] = useState({
@@ -75,13 +88,18 @@ const Performance = () => {
         setLoading(true);
         try {
             const { data: tickets, error } = await supabase.from('tickets').select(`
-                *, main_agent:agents!tickets_main_agent_id_fkey(name), operator:operators(name),
+                *, main_agent:agents!tickets_main_agent_id_fkey(name), operator:operators(name), client:clients(name),
                 ticket_support_agents(km_start, km_end, compensation_total, toll_cost, food_cost, other_costs)
             `);
             if (error) throw error;
 
             const { data: allOperators } = await (supabase.from('operators' as any) as any).select('id, name');
             const opNameMap = Object.fromEntries(((allOperators as any[]) || []).map((o: any) => [o.id, o.name]));
+            // A failure here only empties the SLA table, the rest of the report still loads
+            const slaRules = await fetchSlaRules().catch((err) => {
+                console.error('Erro ao carregar regras de SLA:', err);
+                return [];
+            });
 
             const now = new Date();
             let filtered = tickets || [];
@@ -167,7 +185,7 @@ const Performance = () => {
             });
 
             const allFinished = (tickets || []).filter(t => t.status === 'finalizado');
-            const valorInadimplente = allFinished.filter(t => !t.revenue_status || t.revenue_status === 'pendente').reduce((s, t) => s + (Number(t.revenue_total) || 0), 0);
+            const valorInadimplente = allFinished.filter(t => !t.revenue_status || t.revenue_status === 'pendente' || t.revenue_status === 'faturado').reduce((s, t) => s + (Number(t.revenue_total) || 0), 0);
             const totalRevAll = allFinished.reduce((s, t) => s + (Number(t.revenue_total) || 0), 0);
             const receivedRev = allFinished.filter(t => t.revenue_status === 'recebido').reduce((s, t) => s + (Number(t.revenue_total) || 0), 0);
             const paidCosts = allFinished.reduce((s, t) => {
@@ -187,9 +205,10 @@ const Performance = () => {
                 opMap[opId].count += 1;
             });
             setOperatorRanking(Object.entries(opMap).map(([id, d]) => ({ id, name: d.name, count: d.count })).sort((a, b) => b.count - a.count));
-            setRegionRanking(Object.values(regionMap).sort((a, b) => b.count - a.count).slice(0, 10));
+            setRegionRanking(Object.values(regionMap).sort((a, b) => b.count - a.count));
             setServiceDistribution(Object.entries(serviceMap).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value));
             setMonthlyData(Object.entries(monthlyMap).map(([month, d]) => ({ month, receita: Math.round(d.revenue), custo: Math.round(d.cost), lucro: Math.round(d.revenue - d.cost), chamados: d.count })));
+            setSlaCompliance(slaComplianceByClient(finishedTickets.map(t => ({ ...t, client_name: (t.client as any)?.name || 'Cliente' })), slaRules));
             setServiceRevenueData(Object.entries(serviceRevMap).map(([name, d]) => ({ name, receita: Math.round(d.revenue), custo: Math.round(d.cost), margem: d.revenue > 0 ? Math.round(((d.revenue - d.cost) / d.revenue) * 100) : 0 })).sort((a, b) => b.receita - a.receita));
 
             const totalFinished = finishedTickets.length;
@@ -221,6 +240,23 @@ const Performance = () => {
 
     useEffect(() => { fetchPerformanceData(); }, [range, date]);
 
+    const handleExportExcel = () => {
+        exportPerformanceToExcel({
+            agents: agentRanking,
+            operators: operatorRanking,
+            regions: regionRanking,
+            services: serviceDistribution,
+            sla: slaCompliance,
+            serviceRevenue: isAdmin ? serviceRevenueData : undefined,
+            monthly: isAdmin ? monthlyData : undefined,
+        }, {
+            'Período': range === 'custom' && date?.from
+                ? `${format(date.from, 'dd/MM/yyyy')} a ${format(date.to || new Date(), 'dd/MM/yyyy')}`
+                : RANGE_LABELS[range],
+        });
+        toast.success('Relatório de desempenho exportado com sucesso!');
+    };
+
     return (
         <div className="space-y-10 animate-in fade-in duration-500">
 
@@ -238,15 +274,15 @@ const Performance = () => {
                         <Select value={range} onValueChange={(v: FilterRange) => setRange(v)}>
                             <SelectTrigger className="w-[140px] border-none focus:ring-0 shadow-none bg-transparent h-8 p-0"><SelectValue placeholder="Período" /></SelectTrigger>
                             <SelectContent>
-                                <SelectItem value="7days">Últimos 7 dias</SelectItem>
-                                <SelectItem value="month">Este Mês</SelectItem>
-                                <SelectItem value="year">Este Ano</SelectItem>
-                                <SelectItem value="all">Todo o Período</SelectItem>
-                                <SelectItem value="custom">Personalizado</SelectItem>
+                                {(Object.keys(RANGE_LABELS) as FilterRange[]).map(r => <SelectItem key={r} value={r}>{RANGE_LABELS[r]}</SelectItem>)}
                             </SelectContent>
                         </Select>
                     </div>
                     {range === 'custom' && <DatePickerWithRange date={date} setDate={setDate} className="animate-in slide-in-from-right-2 duration-300" />}
+                    <Button variant="outline" onClick={handleExportExcel} disabled={loading}>
+                        <FileSpreadsheet className="h-4 w-4 mr-2" />
+                        Exportar Excel
+                    </Button>
                 </div>
             </div>
 
@@ -474,7 +510,7 @@ const Performance = () => {
                                 <CardContent className="h-[360px] pt-4 overflow-auto">
                                     {regionRanking.length > 0 ? (
                                         <div className="space-y-3 pr-2">
-                                            {regionRanking.map((r, i) => (
+                                            {regionRanking.slice(0, 10).map((r, i) => (
                                                 <div key={i} className="flex items-center justify-between">
                                                     <div className="flex items-center gap-3">
                                                         <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center text-[10px] font-bold">{i + 1}</div>
@@ -531,6 +567,34 @@ const Performance = () => {
                             </div>
                         </CardContent>
                     </Card>
+
+                    {/* ══ SEÇÃO 7 — SLA POR CLIENTE ══ */}
+                    <Card className="shadow-xl border-none overflow-hidden">
+                        <CardHeader className="bg-muted/50 border-b"><CardTitle className="text-base flex items-center gap-2"><Timer className="h-4 w-4 text-primary" /> Cumprimento de SLA por Cliente</CardTitle></CardHeader>
+                        <CardContent className="p-0">
+                            {slaCompliance.length > 0 ? (
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-left">
+                                        <thead><tr className="border-b bg-muted/30"><th className="p-4 font-bold text-sm">Cliente</th><th className="p-4 font-bold text-sm text-center">Avaliados</th><th className="p-4 font-bold text-sm text-center">Chegada no Prazo</th><th className="p-4 font-bold text-sm text-center">Duração no Prazo</th><th className="p-4 font-bold text-sm text-center">Violações</th><th className="p-4 font-bold text-sm text-right">Cumprimento</th></tr></thead>
+                                        <tbody className="divide-y">
+                                            {slaCompliance.map((c) => (
+                                                <tr key={c.clientId} className="hover:bg-muted/50 transition-colors">
+                                                    <td className="p-4 font-semibold">{c.clientName}</td>
+                                                    <td className="p-4 text-center text-sm">{c.evaluated}</td>
+                                                    <td className="p-4 text-center text-sm">{c.arrivalMeasured > 0 ? `${c.arrivalOnTime}/${c.arrivalMeasured}` : '-'}</td>
+                                                    <td className="p-4 text-center text-sm">{c.durationMeasured > 0 ? `${c.durationOnTime}/${c.durationMeasured}` : '-'}</td>
+                                                    <td className="p-4 text-center"><span className={`px-3 py-1 rounded-full text-xs font-bold ${c.breached > 0 ? 'bg-red-500/10 text-red-600' : 'bg-muted text-muted-foreground'}`}>{c.breached}</span></td>
+                                                    <td className="p-4 text-right"><span className={`font-black ${c.compliance >= 95 ? 'text-emerald-600' : c.compliance >= 80 ? 'text-amber-600' : 'text-red-600'}`}>{c.compliance}%</span></td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ) : (
+                                <p className="p-6 text-sm text-muted-foreground">Nenhum chamado finalizado no período com regra de SLA aplicável.</p>
+                            )}
+                        </CardContent>
+                    </Card>
                 </>
             )}
         </div>
@@ -8,8 +8,11 @@ import { toast } from 'sonner';
 import { NewPlanDialog } from '@/components/plans/NewPlanDialog';
 import { EditPlanDialog } from '@/components/plans/EditPlanDialog';
 import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
+import { PricingRulesSection } from '@/components/plans/PricingRulesSection';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { describePlanComposition, type PlanComposition } from '@/lib/planUtils';
 
-interface Plan {
+interface Plan extends PlanComposition {
   id: string;
   name: string;
   category: string | null;
@@ -114,7 +117,7 @@ const Plans = () => {
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <div>
           <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-1">Planos</h1>
-          <p className="text-sm text-muted-foreground">Gerencie os planos operacionais</p>
+          <p className="text-sm text-muted-foreground">Gerencie os planos operacionais e a tabela de preços</p>
         </div>
         <Button onClick={() => setNewPlanOpen(true)}>
           <Plus className="h-4 w-4 mr-2" />
@@ -122,72 +125,88 @@ const Plans = () => {
         </Button>
       </div>
 
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-        <Input
-          placeholder="Buscar plano por nome..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-9"
-        />
-      </div>
-
-      {filteredPlans.length === 0 ? (
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-12">
-            <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
-            <p className="text-lg font-medium text-foreground mb-2">Nenhum plano encontrado</p>
-            <p className="text-sm text-muted-foreground mb-4">
-              {searchTerm ? 'Tente buscar com outros termos' : 'Comece cadastrando um novo plano'}
-            </p>
-            {!searchTerm && (
-              <Button onClick={() => setNewPlanOpen(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Cadastrar Plano
-              </Button>
-            )}
-          </CardContent>
-        </Card>
-      ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredPlans.map((plan) => (
-            <Card key={plan.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader className="pb-2">
-                <CardTitle className="flex items-center gap-2 text-base">
-                  <ClipboardList className="h-5 w-5 text-primary flex-shrink-0" />
-                  <span className="truncate">{plan.name}</span>
-                </CardTitle>
-                {plan.category && (
-                  <CardDescription className="text-xs">{plan.category}</CardDescription>
-                )}
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {plan.description && (
-                  <p className="text-sm text-muted-foreground line-clamp-2">{plan.description}</p>
-                )}
-                <div className="flex gap-2 pt-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => handleEdit(plan.id)}
-                  >
-                    Editar
+      <Tabs defaultValue="planos" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="planos">Planos</TabsTrigger>
+          <TabsTrigger value="precos">Tabela de Preços</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="planos" className="space-y-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Buscar plano por nome..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          {filteredPlans.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <ClipboardList className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-lg font-medium text-foreground mb-2">Nenhum plano encontrado</p>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {searchTerm ? 'Tente buscar com outros termos' : 'Comece cadastrando um novo plano'}
+                </p>
+                {!searchTerm && (
+                  <Button onClick={() => setNewPlanOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Cadastrar Plano
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-destructive hover:bg-destructive/10 hover:text-destructive w-10 px-0"
-                    onClick={(e) => handleDeleteClick(plan.id, e)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                )}
               </CardContent>
             </Card>
-          ))}
-        </div>
-      )}
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {filteredPlans.map((plan) => (
+                <Card key={plan.id} className="hover:shadow-lg transition-shadow">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <ClipboardList className="h-5 w-5 text-primary flex-shrink-0" />
+                      <span className="truncate">{plan.name}</span>
+                    </CardTitle>
+                    {plan.category && (
+                      <CardDescription className="text-xs">{plan.category}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <p className="text-xs font-medium text-foreground">
+                      {plan.agent_count} agente{plan.agent_count > 1 ? 's' : ''} — {describePlanComposition(plan)}
+                    </p>
+                    {plan.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{plan.description}</p>
+                    )}
+                    <div className="flex gap-2 pt-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => handleEdit(plan.id)}
+                      >
+                        Editar
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:bg-destructive/10 hover:text-destructive w-10 px-0"
+                        onClick={(e) => handleDeleteClick(plan.id, e)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="precos">
+          <PricingRulesSection plans={plans} />
+        </TabsContent>
+      </Tabs>
 
       <NewPlanDialog
         open={newPlanOpen}
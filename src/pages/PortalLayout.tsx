@@ -0,0 +1,47 @@
+import { Link, Outlet } from 'react-router-dom';
+import { LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ProtectedRoute, type Portal } from '@/components/ProtectedRoute';
+import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+
+interface PortalLayoutProps {
+  portal: Portal;
+  title: string;
+  // Agents use the portal on their phones; clients mostly on desktop
+  wide?: boolean;
+}
+
+const PortalLayout = ({ portal, title, wide = false }: PortalLayoutProps) => {
+  const { signOut } = useAuth();
+
+  return (
+    <ProtectedRoute portal={portal}>
+      <div className="flex min-h-screen w-full flex-col bg-muted/30">
+        <header className="sticky top-0 z-50 flex h-14 items-center justify-between border-b bg-sidebar px-4">
+          <Link to={`/${portal}`} className="flex items-center gap-3">
+            <img src="/logo-fdg-red.png" alt="Logo" className="h-7 w-auto drop-shadow-[0_0_5px_rgba(255,0,0,0.3)]" />
+            <div className="flex flex-col leading-none">
+              <span className="text-sm font-black tracking-tighter text-white uppercase">FALCO</span>
+              <span className="text-[10px] font-bold text-white uppercase tracking-widest">{title}</span>
+            </div>
+          </Link>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={signOut}
+            className="text-sidebar-foreground hover:bg-sidebar-accent"
+          >
+            <LogOut className="h-5 w-5" />
+            <span className="sr-only">Sair</span>
+          </Button>
+        </header>
+        <main className={cn('flex-1 w-full mx-auto p-4', wide ? 'max-w-5xl lg:p-6' : 'max-w-lg')}>
+          <Outlet />
+        </main>
+      </div>
+    </ProtectedRoute>
+  );
+};
+
+export default PortalLayout;
@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Pencil, Trash2, Timer } from 'lucide-react';
+import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
+import { SlaRuleDialog } from '@/components/sla/SlaRuleDialog';
+import { SERVICE_TYPE_LABELS } from '@/lib/operationalGoals';
+import { SLA_WARNING_RATIO, fetchSlaRules, formatSlaMinutes, type SlaRule } from '@/lib/sla';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const SlaRules = () => {
+  const [rules, setRules] = useState<SlaRule[]>([]);
+  const [clients, setClients] = useState<Option[]>([]);
+  const [plans, setPlans] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [selectedRuleId, setSelectedRuleId] = useState<string | null>(null);
+
+  // Delete state
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [ruleToDelete, setRuleToDelete] = useState<string | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+    fetchOptions();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setRules(await fetchSlaRules());
+    } catch (error) {
+      console.error('Erro ao buscar regras de SLA:', error);
+      toast.error('Erro ao carregar regras de SLA');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    const [{ data: clientsData }, { data: plansData }] = await Promise.all([
+      supabase.from('clients').select('id, name').order('name'),
+      supabase.from('plans').select('id, name').order('name'),
+    ]);
+    if (clientsData) setClients(clientsData);
+    if (plansData) setPlans(plansData);
+  };
+
+  const handleNew = () => {
+    setSelectedRuleId(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (ruleId: string) => {
+    setSelectedRuleId(ruleId);
+    setDialogOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!ruleToDelete) return;
+
+    setDeleteLoading(true);
+    try {
+      const { error } = await supabase.from('sla_rules').delete().eq('id', ruleToDelete);
+      if (error) throw error;
+
+      toast.success('Regra de SLA excluída');
+      setRules(rules.filter(r => r.id !== ruleToDelete));
+    } catch (error) {
+      console.error('Erro ao excluir regra de SLA:', error);
+      toast.error('Erro ao excluir regra de SLA');
+    } finally {
+      setDeleteLoading(false);
+      setDeleteDialogOpen(false);
+      setRuleToDelete(null);
+    }
+  };
+
+  const describeScope = (rule: SlaRule) => {
+    const parts: string[] = [];
+    if (rule.client_id) parts.push(rule.clients?.name || 'Cliente');
+    if (rule.plan_id) parts.push(rule.plans?.name || 'Plano');
+    if (rule.service_type) parts.push(SERVICE_TYPE_LABELS[rule.service_type]);
+    if (rule.state) parts.push(rule.state);
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Regras de SLA</h1>
+          <p className="text-muted-foreground">
+            Prazos contratuais de chegada e duração por cliente e plano. Chamados em andamento são sinalizados
+            ao atingir {Math.round(SLA_WARNING_RATIO * 100)}% do prazo.
+          </p>
+        </div>
+        <Button onClick={handleNew}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nova Regra
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+        </div>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <Timer className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium text-foreground mb-2">Nenhuma regra de SLA cadastrada</p>
+            <p className="text-sm text-muted-foreground">Sem regras, os chamados não são avaliados quanto a prazos</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Regra</TableHead>
+                  <TableHead>Escopo</TableHead>
+                  <TableHead className="text-right">Chegada</TableHead>
+                  <TableHead className="text-right">Duração</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium text-sm">{rule.name}</TableCell>
+                    <TableCell className="text-sm">{describeScope(rule)}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {rule.max_arrival_minutes ? formatSlaMinutes(rule.max_arrival_minutes) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {rule.max_duration_minutes ? formatSlaMinutes(rule.max_duration_minutes) : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.active ? 'default' : 'outline'}>
+                        {rule.active ? 'Ativa' : 'Inativa'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1 justify-end">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(rule.id)}>
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                          onClick={() => {
+                            setRuleToDelete(rule.id);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <SlaRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        ruleId={selectedRuleId}
+        onSuccess={fetchRules}
+        plans={plans}
+        clients={clients}
+      />
+
+      <DeleteAlertDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        onConfirm={handleConfirmDelete}
+        title="Excluir Regra de SLA"
+        description="Tem certeza que deseja excluir esta regra? Os chamados passarão a ser avaliados pela próxima regra aplicável."
+        loading={deleteLoading}
+      />
+    </div>
+  );
+};
+
+export default SlaRules;
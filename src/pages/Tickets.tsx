@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -12,29 +12,40 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Search, FileText, Calendar, MapPin, Filter, Trash2 } from 'lucide-react';
+import { Plus, Search, FileText, Calendar, MapPin, Filter, Trash2, FileSpreadsheet, Loader2, UserRound } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { NewTicketDialog } from '@/components/tickets/NewTicketDialog';
 import { EditTicketDialog } from '@/components/tickets/EditTicketDialog';
 import { TicketDetails } from '@/components/tickets/TicketDetails';
+import { TicketFilterPresets } from '@/components/tickets/TicketFilterPresets';
+import { SlaBadge } from '@/components/sla/SlaBadge';
 import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
-
-interface Ticket {
+import { useRealtimeTickets } from '@/hooks/useRealtimeTickets';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useNow } from '@/hooks/useNow';
+import { evaluateSla, fetchSlaRules, type SlaRule } from '@/lib/sla';
+import { EXPORT_TICKET_COLUMNS, exportTicketsToExcel, type ExportTicket } from '@/utils/exportTicketsToExcel';
+import {
+  EMPTY_TICKET_FILTERS,
+  TICKET_PERIOD_LABELS,
+  cursorAfter,
+  filtersFromParams,
+  filtersToParams,
+  filtersToQuery,
+  hasActiveFilters,
+  isTicketPeriod,
+  searchAllTicketIds,
+  searchTickets,
+  searchTicketsFirst,
+  type TicketFilters,
+  type TicketSearchRow,
+} from '@/lib/ticketSearch';
+
+interface FilterOption {
   id: string;
-  code: string;
-  status: 'aberto' | 'em_andamento' | 'finalizado' | 'cancelado';
-  city: string;
-  state: string;
-  start_datetime: string;
-  service_type: string;
-  clients: {
-    name: string;
-  };
-  main_agent: {
-    name: string;
-  };
+  name: string;
 }
 
 const statusColors = {
@@ -56,99 +67,148 @@ const serviceTypeLabels: Record<string, string> = {
   averiguacao: 'Averiguação',
   preservacao: 'Preservação',
   acompanhamento_logistico: 'Acompanhamento Logístico',
+  sindicancia: 'Sindicância',
 };
 
+// Ids per request when loading the full export data, keeping the URL short
+const EXPORT_CHUNK_SIZE = 100;
+
+const PAGE_SIZE = 30;
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Select items cannot carry an empty value
+const ALL = 'all';
+
 const Tickets = () => {
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [dateFrom, setDateFrom] = useState('');
-  const [dateTo, setDateTo] = useState('');
+  const { isAdmin } = useUserRole();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(searchParams), [searchParams]);
+  const [searchInput, setSearchInput] = useState(filters.search);
+  const [tickets, setTickets] = useState<TicketSearchRow[]>([]);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [plans, setPlans] = useState<FilterOption[]>([]);
+  const [agents, setAgents] = useState<FilterOption[]>([]);
+  const [operators, setOperators] = useState<FilterOption[]>([]);
+  const [slaRules, setSlaRules] = useState<SlaRule[]>([]);
+  // Re-evaluates SLA badges every minute while the page is open
+  const now = useNow();
   const [newTicketOpen, setNewTicketOpen] = useState(false);
   const [editTicketOpen, setEditTicketOpen] = useState(false);
   const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
-  const [searchParams, setSearchParams] = useSearchParams();
   const [initialAgentId, setInitialAgentId] = useState<string | undefined>(undefined);
 
   // Delete state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [ticketToDelete, setTicketToDelete] = useState<string | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
-  useEffect(() => {
-    fetchTickets();
+  // Refreshes keep the pages already loaded; a stale response is dropped
+  const loadedCountRef = useRef(0);
+  const requestRef = useRef(0);
+
+  const updateFilters = useCallback((patch: Partial<TicketFilters>) => {
+    setSearchParams((prev) => filtersToParams({ ...filtersFromParams(prev), ...patch }, prev), { replace: true });
+  }, [setSearchParams]);
 
+  useEffect(() => {
     // Check for agentId in search params
     const agentId = searchParams.get('agentId');
     if (agentId) {
       setInitialAgentId(agentId);
       setNewTicketOpen(true);
-      // Clean up params after opening
-      setSearchParams({}, { replace: true });
+      // Clean up the param after opening, keeping the filters
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        next.delete('agentId');
+        return next;
+      }, { replace: true });
     }
-  }, [searchParams]);
+  }, [searchParams, setSearchParams]);
 
-  const fetchTickets = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('tickets')
-        .select(`
-          id,
-          code,
-          status,
-          city,
-          state,
-          start_datetime,
-          service_type,
-          clients (
-            name
-          ),
-          main_agent:agents!tickets_main_agent_id_fkey (
-            name
-          )
-        `)
-        .order('created_at', { ascending: false });
+  useEffect(() => {
+    const fetchFilterOptions = async () => {
+      const [plansResult, agentsResult, operatorsResult] = await Promise.all([
+        supabase.from('plans').select('id, name').order('name'),
+        supabase.from('agents').select('id, name').order('name'),
+        supabase.from('operators').select('id, name').order('name'),
+      ]);
+      setPlans(plansResult.data || []);
+      setAgents(agentsResult.data || []);
+      setOperators(operatorsResult.data || []);
+    };
+    fetchFilterOptions();
+    fetchSlaRules()
+      .then(setSlaRules)
+      .catch((error) => console.error('Erro ao carregar regras de SLA:', error));
+  }, []);
+
+  // Follow the URL (back button, shared links) and push typing to it after a pause
+  useEffect(() => {
+    setSearchInput(filters.search);
+  }, [filters.search]);
 
-      if (error) throw error;
-      console.log('Tickets loaded:', data);
-      setTickets((data as unknown as Ticket[]) || []);
+  useEffect(() => {
+    if (searchInput === filters.search) return;
+    const timeout = setTimeout(() => updateFilters({ search: searchInput }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.search, updateFilters]);
+
+  const fetchTickets = useCallback(async () => {
+    const request = ++requestRef.current;
+    const limit = Math.max(PAGE_SIZE, loadedCountRef.current);
+    setSearching(true);
+    try {
+      // A realtime refresh reloads everything already on screen, which can pass the RPC's page cap
+      const { rows, hasMore: more } = await searchTicketsFirst(filters, limit);
+      if (request !== requestRef.current) return;
+      loadedCountRef.current = rows.length;
+      setTickets(rows);
+      setHasMore(more);
     } catch (error) {
+      if (request !== requestRef.current) return;
       console.error('Erro ao buscar chamados:', error);
       toast.error('Erro ao carregar chamados');
       setTickets([]); // Ensure it's empty array on error
+      setHasMore(false);
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) {
+        setSearching(false);
+        setLoading(false);
+      }
     }
-  };
+  }, [filters]);
 
-  const filteredTickets = tickets.filter((ticket) => {
-    const searchLower = searchTerm.toLowerCase();
-    const matchesSearch =
-      (ticket.code || '').toLowerCase().includes(searchLower) ||
-      (ticket.clients?.name || '').toLowerCase().includes(searchLower) ||
-      (ticket.main_agent?.name || '').toLowerCase().includes(searchLower);
-
-    const matchesStatus = statusFilter === 'all' || ticket.status === statusFilter;
-
-    // Date filter
-    let matchesDate = true;
-    if (dateFrom) {
-      const ticketDate = new Date(ticket.start_datetime);
-      const fromDate = new Date(dateFrom);
-      fromDate.setHours(0, 0, 0, 0);
-      matchesDate = matchesDate && ticketDate >= fromDate;
-    }
-    if (dateTo) {
-      const ticketDate = new Date(ticket.start_datetime);
-      const toDate = new Date(dateTo);
-      toDate.setHours(23, 59, 59, 999);
-      matchesDate = matchesDate && ticketDate <= toDate;
-    }
+  useEffect(() => {
+    // New filters start again from the first page
+    loadedCountRef.current = 0;
+    fetchTickets();
+  }, [fetchTickets]);
 
-    return matchesSearch && matchesStatus && matchesDate;
-  });
+  useRealtimeTickets('tickets-list', () => fetchTickets(), { notify: true });
+
+  const handleLoadMore = async () => {
+    if (tickets.length === 0) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const rows = await searchTickets(filters, cursorAfter(tickets[tickets.length - 1]), PAGE_SIZE);
+      if (request !== requestRef.current) return;
+      const next = [...tickets, ...rows];
+      loadedCountRef.current = next.length;
+      setTickets(next);
+      setHasMore(rows.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Erro ao carregar mais chamados:', error);
+      toast.error('Erro ao carregar mais chamados');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   const handleViewDetails = (ticketId: string) => {
     setSelectedTicketId(ticketId);
@@ -199,11 +259,59 @@ const Tickets = () => {
     }
   };
 
-  const clearDateFilters = () => {
-    setDateFrom('');
-    setDateTo('');
+  const optionName = (options: FilterOption[], id: string) => options.find((o) => o.id === id)?.name || '';
+
+  const handleExportExcel = async () => {
+    setExporting(true);
+    try {
+      // Every match, not only the pages loaded on screen
+      const ids = await searchAllTicketIds(filters);
+      if (ids.length === 0) {
+        toast.error('Nenhum chamado para exportar');
+        return;
+      }
+
+      const details: ExportTicket[] = [];
+      for (let i = 0; i < ids.length; i += EXPORT_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('tickets')
+          .select(EXPORT_TICKET_COLUMNS)
+          .in('id', ids.slice(i, i + EXPORT_CHUNK_SIZE))
+          .order('start_datetime', { ascending: false });
+
+        if (error) throw error;
+        details.push(...((data as unknown as ExportTicket[]) || []));
+      }
+      details.sort((a, b) => new Date(b.start_datetime).getTime() - new Date(a.start_datetime).getTime());
+
+      exportTicketsToExcel(details, {
+        'Busca': filters.search,
+        'Status': filters.status ? statusLabels[filters.status as keyof typeof statusLabels] : 'Todos',
+        'Tipo de Serviço': filters.serviceType ? serviceTypeLabels[filters.serviceType] : 'Todos',
+        'Plano': filters.planId ? optionName(plans, filters.planId) : 'Todos',
+        'Agente': filters.agentId ? optionName(agents, filters.agentId) : 'Todos',
+        'Operador': filters.operatorId ? optionName(operators, filters.operatorId) : 'Todos',
+        'Período': isTicketPeriod(filters.period) ? TICKET_PERIOD_LABELS[filters.period] : '',
+        'Somente criados por mim': filters.mine ? 'Sim' : 'Não',
+        'Data Inicial': filters.dateFrom ? format(new Date(`${filters.dateFrom}T00:00:00`), 'dd/MM/yyyy') : '',
+        'Data Final': filters.dateTo ? format(new Date(`${filters.dateTo}T00:00:00`), 'dd/MM/yyyy') : '',
+      }, isAdmin);
+      toast.success(`${details.length} chamado(s) exportado(s) com sucesso!`);
+    } catch (error) {
+      console.error('Erro ao exportar chamados:', error);
+      toast.error('Erro ao exportar chamados');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    updateFilters(EMPTY_TICKET_FILTERS);
   };
 
+  const filtersActive = hasActiveFilters(filters);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -222,31 +330,39 @@ const Tickets = () => {
           <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-1">Chamados</h1>
           <p className="text-sm text-muted-foreground">Gerencie todos os atendimentos</p>
         </div>
-        <Button onClick={() => setNewTicketOpen(true)} className="hidden lg:flex">
-          <Plus className="h-4 w-4 mr-2" />
-          Novo Chamado
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportExcel} disabled={exporting}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 mr-2" />}
+            Exportar Excel
+          </Button>
+          <Button onClick={() => setNewTicketOpen(true)} className="hidden lg:flex">
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Chamado
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
       <div className="space-y-4">
         <div className="flex flex-col sm:flex-row gap-4">
           <div className="relative flex-1">
-            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            {searching
+              ? <Loader2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground animate-spin" />
+              : <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />}
             <Input
-              placeholder="Buscar por código, cliente ou agente..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Buscar por código, cliente, placa, cidade ou relatório..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="pl-9"
             />
           </div>
-          <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <Select value={filters.status || ALL} onValueChange={(v) => updateFilters({ status: v === ALL ? '' : v })}>
             <SelectTrigger className="w-full sm:w-[180px]">
               <Filter className="h-4 w-4 mr-2" />
               <SelectValue placeholder="Filtrar por status" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">Todos</SelectItem>
+              <SelectItem value={ALL}>Todos</SelectItem>
               <SelectItem value="aberto">Aberto</SelectItem>
               <SelectItem value="em_andamento">Em Andamento</SelectItem>
               <SelectItem value="finalizado">Finalizado</SelectItem>
@@ -255,45 +371,107 @@ const Tickets = () => {
           </Select>
         </div>
 
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+          <Select value={filters.serviceType || ALL} onValueChange={(v) => updateFilters({ serviceType: v === ALL ? '' : v })}>
+            <SelectTrigger><SelectValue placeholder="Tipo de serviço" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os serviços</SelectItem>
+              {Object.entries(serviceTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.planId || ALL} onValueChange={(v) => updateFilters({ planId: v === ALL ? '' : v })}>
+            <SelectTrigger><SelectValue placeholder="Plano" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os planos</SelectItem>
+              {plans.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={filters.agentId || ALL} onValueChange={(v) => updateFilters({ agentId: v === ALL ? '' : v })}>
+            <SelectTrigger><SelectValue placeholder="Agente" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os agentes</SelectItem>
+              {agents.map((a) => <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={filters.operatorId || ALL} onValueChange={(v) => updateFilters({ operatorId: v === ALL ? '' : v })}>
+            <SelectTrigger><SelectValue placeholder="Operador" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todos os operadores</SelectItem>
+              {operators.map((o) => <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Date Range Filter */}
         <div className="flex flex-col sm:flex-row gap-4 items-end">
-          <div className="flex-1 grid grid-cols-2 gap-2">
+          <div className="flex-1 grid grid-cols-2 sm:grid-cols-3 gap-2">
+            <div className="col-span-2 sm:col-span-1">
+              <label className="text-xs text-muted-foreground mb-1 block">Período</label>
+              <Select
+                value={filters.period || ALL}
+                onValueChange={(v) => updateFilters({ period: v === ALL ? '' : v, dateFrom: '', dateTo: '' })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Datas personalizadas</SelectItem>
+                  {Object.entries(TICKET_PERIOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <label className="text-xs text-muted-foreground mb-1 block">Data Inicial</label>
               <Input
                 type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
+                value={filters.dateFrom}
+                onChange={(e) => updateFilters({ dateFrom: e.target.value, period: '' })}
               />
             </div>
             <div>
               <label className="text-xs text-muted-foreground mb-1 block">Data Final</label>
               <Input
                 type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
+                value={filters.dateTo}
+                onChange={(e) => updateFilters({ dateTo: e.target.value, period: '' })}
               />
             </div>
           </div>
-          {(dateFrom || dateTo) && (
-            <Button variant="ghost" size="sm" onClick={clearDateFilters}>
-              Limpar datas
+          <Button
+            variant={filters.mine ? 'default' : 'outline'}
+            onClick={() => updateFilters({ mine: filters.mine ? '' : '1' })}
+          >
+            <UserRound className="h-4 w-4 mr-2" />
+            Criados por mim
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <TicketFilterPresets
+            currentQuery={filtersToQuery(filters)}
+            onApply={(query) => setSearchParams(new URLSearchParams(query))}
+          />
+          {filtersActive && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              Limpar filtros
             </Button>
           )}
         </div>
       </div>
 
-      {filteredTickets.length === 0 ? (
+      {tickets.length === 0 ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-12">
             <FileText className="h-12 w-12 text-muted-foreground mb-4" />
             <p className="text-lg font-medium text-foreground mb-2">Nenhum chamado encontrado</p>
             <p className="text-sm text-muted-foreground mb-4">
-              {searchTerm || statusFilter !== 'all' || dateFrom || dateTo
+              {filtersActive
                 ? 'Tente buscar com outros termos ou filtros'
                 : 'Comece criando um novo chamado'}
             </p>
-            {!searchTerm && statusFilter === 'all' && !dateFrom && !dateTo && (
+            {!filtersActive && (
               <Button onClick={() => setNewTicketOpen(true)}>
                 <Plus className="h-4 w-4 mr-2" />
                 Criar Chamado
@@ -302,72 +480,86 @@ const Tickets = () => {
           </CardContent>
         </Card>
       ) : (
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {filteredTickets.map((ticket) => (
-            <Card
-              key={ticket.id}
-              className="hover:shadow-lg transition-shadow cursor-pointer relative group"
-              onClick={() => handleViewDetails(ticket.id)}
-            >
-              <CardHeader className="pb-2">
-                <div className="flex items-start justify-between gap-2">
-                  <div className="space-y-1 min-w-0 flex-1">
-                    <CardTitle className="flex items-center gap-2 text-base">
-                      <FileText className="h-5 w-5 text-primary flex-shrink-0" />
-                      <span>{ticket.code || 'Sem ID'}</span>
-                    </CardTitle>
-                    <CardDescription className="truncate">{ticket.clients?.name}</CardDescription>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {tickets.map((ticket) => (
+              <Card
+                key={ticket.id}
+                className="hover:shadow-lg transition-shadow cursor-pointer relative group"
+                onClick={() => handleViewDetails(ticket.id)}
+              >
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1 min-w-0 flex-1">
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        <FileText className="h-5 w-5 text-primary flex-shrink-0" />
+                        <span>{ticket.code || 'Sem ID'}</span>
+                      </CardTitle>
+                      <CardDescription className="truncate">{ticket.client_name}</CardDescription>
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      <Badge className={statusColors[ticket.status]}>
+                        {statusLabels[ticket.status]}
+                      </Badge>
+                      <SlaBadge evaluation={evaluateSla(ticket, slaRules, now)} />
+                    </div>
                   </div>
-                  <Badge className={statusColors[ticket.status]}>
-                    {statusLabels[ticket.status]}
-                  </Badge>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <MapPin className="h-4 w-4 flex-shrink-0" />
-                  <span className="truncate">{ticket.city}, {ticket.state}</span>
-                </div>
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <Calendar className="h-4 w-4 flex-shrink-0" />
-                  <span>
-                    {format(new Date(ticket.start_datetime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
-                  </span>
-                </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-xs text-muted-foreground truncate">
-                    {serviceTypeLabels[ticket.service_type]} • {ticket.main_agent?.name}
-                  </span>
-                </div>
-                <div className="flex gap-2 pt-2" onClick={(e) => e.stopPropagation()}>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => handleViewDetails(ticket.id)}
-                  >
-                    Ver Detalhes
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="flex-1"
-                    onClick={() => handleEdit(ticket.id)}
-                  >
-                    Editar
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-destructive hover:bg-destructive/10 hover:text-destructive w-10 px-0"
-                    onClick={(e) => handleDeleteClick(ticket.id, e)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4 flex-shrink-0" />
+                    <span className="truncate">{ticket.city}, {ticket.state}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Calendar className="h-4 w-4 flex-shrink-0" />
+                    <span>
+                      {format(new Date(ticket.start_datetime), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground truncate">
+                      {serviceTypeLabels[ticket.service_type]} • {ticket.main_agent_name}
+                    </span>
+                  </div>
+                  <div className="flex gap-2 pt-2" onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleViewDetails(ticket.id)}
+                    >
+                      Ver Detalhes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleEdit(ticket.id)}
+                    >
+                      Editar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:bg-destructive/10 hover:text-destructive w-10 px-0"
+                      onClick={(e) => handleDeleteClick(ticket.id, e)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          <div className="flex flex-col items-center gap-2">
+            <p className="text-xs text-muted-foreground">{tickets.length} chamado(s) exibido(s)</p>
+            {hasMore && (
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Carregar mais
+              </Button>
+            )}
+          </div>
         </div>
       )}
 
@@ -40,6 +40,22 @@ interface UserProfile {
   is_approved: boolean;
 }
 
+interface AgentOption {
+  id: string;
+  name: string;
+  user_id: string | null;
+}
+
+interface ClientOption {
+  id: string;
+  name: string;
+}
+
+interface ClientLink {
+  user_id: string;
+  client_id: string;
+}
+
 const roleLabels: Record<string, string> = {
   admin: 'Administrador',
   operador: 'Operador',
@@ -56,6 +72,9 @@ const roleColors: Record<string, string> = {
 
 const Users = () => {
   const [users, setUsers] = useState<UserProfile[]>([]);
+  const [agents, setAgents] = useState<AgentOption[]>([]);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [clientLinks, setClientLinks] = useState<ClientLink[]>([]);
   const [loading, setLoading] = useState(true);
   
   // Delete state
@@ -94,7 +113,33 @@ const Users = () => {
         // If roles fail, we'll continue with defaults
       }
 
-      // 3. Merge in memory
+      // 3. Fetch agents so 'agente' users can be linked to their agent record
+      const { data: agentsData, error: agentsError } = await supabase
+        .from('agents')
+        .select('id, name, user_id')
+        .order('name');
+
+      if (agentsError) {
+        console.error('Erro ao buscar agentes:', agentsError);
+      }
+      setAgents(agentsData || []);
+
+      // 4. Fetch clients and links for 'cliente_visualizacao' users
+      const [clientsResult, clientLinksResult] = await Promise.all([
+        supabase.from('clients').select('id, name').order('name'),
+        supabase.from('client_users').select('user_id, client_id'),
+      ]);
+
+      if (clientsResult.error) {
+        console.error('Erro ao buscar clientes:', clientsResult.error);
+      }
+      if (clientLinksResult.error) {
+        console.error('Erro ao buscar vínculos de clientes:', clientLinksResult.error);
+      }
+      setClients(clientsResult.data || []);
+      setClientLinks(clientLinksResult.data || []);
+
+      // 5. Merge in memory
       const formattedUsers = profilesData.map((profile) => {
         const userRole = rolesData?.find(r => r.user_id === profile.user_id);
         return {
@@ -152,6 +197,51 @@ const Users = () => {
     }
   };
 
+  const handleAgentLinkChange = async (userId: string, agentId: string) => {
+    try {
+      // A user maps to at most one agent: clear the previous link before setting the new one
+      const { error: unlinkError } = await supabase
+        .from('agents')
+        .update({ user_id: null })
+        .eq('user_id', userId);
+
+      if (unlinkError) throw unlinkError;
+
+      if (agentId !== 'none') {
+        const { error: linkError } = await supabase
+          .from('agents')
+          .update({ user_id: userId })
+          .eq('id', agentId);
+
+        if (linkError) throw linkError;
+      }
+
+      toast.success('Vínculo atualizado com sucesso');
+      fetchUsers();
+    } catch (error) {
+      console.error('Erro ao vincular agente:', error);
+      toast.error('Erro ao vincular agente');
+    }
+  };
+
+  const handleClientLinkChange = async (userId: string, clientId: string) => {
+    try {
+      const { error } = clientId === 'none'
+        ? await supabase.from('client_users').delete().eq('user_id', userId)
+        : await supabase
+            .from('client_users')
+            .upsert({ user_id: userId, client_id: clientId }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+
+      toast.success('Vínculo atualizado com sucesso');
+      fetchUsers();
+    } catch (error) {
+      console.error('Erro ao vincular cliente:', error);
+      toast.error('Erro ao vincular cliente');
+    }
+  };
+
   const handleDeleteClick = (userId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     setUserToDelete(userId);
@@ -284,6 +374,7 @@ const Users = () => {
                   <TableHead className="font-bold text-foreground">Nome</TableHead>
                   <TableHead className="font-bold text-foreground">E-mail</TableHead>
                   <TableHead className="font-bold text-foreground">Função Atual</TableHead>
+                  <TableHead className="font-bold text-foreground">Vínculo</TableHead>
                   <TableHead className="text-right font-bold text-foreground">Ações</TableHead>
                 </TableRow>
               </TableHeader>
@@ -318,6 +409,47 @@ const Users = () => {
                         )}
                       </div>
                     </TableCell>
+                    <TableCell>
+                      {user.role === 'agente' ? (
+                        <Select
+                          value={agents.find(a => a.user_id === user.user_id)?.id ?? 'none'}
+                          onValueChange={(value) => handleAgentLinkChange(user.user_id, value)}
+                        >
+                          <SelectTrigger className="w-[180px] h-8 text-xs">
+                            <SelectValue placeholder="Vincular agente" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none" className="text-xs">Sem vínculo</SelectItem>
+                            {agents
+                              .filter(a => !a.user_id || a.user_id === user.user_id)
+                              .map((agent) => (
+                                <SelectItem key={agent.id} value={agent.id} className="text-xs">
+                                  {agent.name}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      ) : user.role === 'cliente_visualizacao' ? (
+                        <Select
+                          value={clientLinks.find(l => l.user_id === user.user_id)?.client_id ?? 'none'}
+                          onValueChange={(value) => handleClientLinkChange(user.user_id, value)}
+                        >
+                          <SelectTrigger className="w-[180px] h-8 text-xs">
+                            <SelectValue placeholder="Vincular cliente" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none" className="text-xs">Sem vínculo</SelectItem>
+                            {clients.map((client) => (
+                              <SelectItem key={client.id} value={client.id} className="text-xs">
+                                {client.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
                         {!user.is_approved && (
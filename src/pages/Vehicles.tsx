@@ -12,11 +12,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Plus, Search, Truck, Building2, Trash2 } from 'lucide-react';
+import { Plus, Search, Truck, Building2, Trash2, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { NewVehicleDialog } from '@/components/vehicles/NewVehicleDialog';
 import { EditVehicleDialog } from '@/components/vehicles/EditVehicleDialog';
 import { DeleteAlertDialog } from '@/components/DeleteAlertDialog';
+import { BulkImportDialog } from '@/components/BulkImportDialog';
 
 interface Vehicle {
   id: string;
@@ -64,6 +65,7 @@ const Vehicles = () => {
   const [selectedClientId, setSelectedClientId] = useState<string>(clientFilter || 'all');
   const [loading, setLoading] = useState(true);
   const [newVehicleOpen, setNewVehicleOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editVehicleOpen, setEditVehicleOpen] = useState(false);
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
 
@@ -206,10 +208,16 @@ const Vehicles = () => {
           <h1 className="text-2xl sm:text-3xl font-bold text-foreground mb-1">Veículos</h1>
           <p className="text-sm text-muted-foreground">Gerencie os veículos dos clientes</p>
         </div>
-        <Button onClick={() => setNewVehicleOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Novo Veículo
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar
+          </Button>
+          <Button onClick={() => setNewVehicleOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Veículo
+          </Button>
+        </div>
       </div>
 
       <div className="flex flex-col sm:flex-row gap-4">
@@ -333,6 +341,14 @@ const Vehicles = () => {
         preselectedClientId={selectedClientId !== 'all' ? selectedClientId : undefined}
       />
 
+      <BulkImportDialog
+        entity="veiculos"
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onSuccess={fetchVehicles}
+        defaultClientId={selectedClientId !== 'all' ? selectedClientId : undefined}
+      />
+
       <EditVehicleDialog
         open={editVehicleOpen}
         onOpenChange={setEditVehicleOpen}
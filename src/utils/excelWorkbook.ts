@@ -0,0 +1,67 @@
+import * as XLSX from 'xlsx';
+
+export type SheetRow = Record<string, string | number | null>;
+
+export interface WorkbookSheet {
+    name: string;
+    rows: SheetRow[];
+    // Header used when there are no rows, so empty reports still show their columns
+    emptyHeaders?: string[];
+}
+
+// Active filters listed on the last sheet of every report
+export type ExportFilters = Record<string, string>;
+
+const buildWorksheet = ({ rows, emptyHeaders = [] }: WorkbookSheet): XLSX.WorkSheet => {
+    const worksheet = rows.length > 0
+        ? XLSX.utils.json_to_sheet(rows)
+        : XLSX.utils.aoa_to_sheet([emptyHeaders]);
+
+    // Auto column widths
+    const headers = rows.length > 0 ? Object.keys(rows[0]) : emptyHeaders;
+    worksheet['!cols'] = headers.map((h) => ({
+        wch: Math.min(60, Math.max(h.length, ...rows.map((r) => String(r[h] ?? '').length)) + 2),
+    }));
+
+    // Bold headers
+    headers.forEach((_, colIndex) => {
+        const cell = XLSX.utils.encode_cell({ r: 0, c: colIndex });
+        if (worksheet[cell]) worksheet[cell].s = { font: { bold: true } };
+    });
+
+    return worksheet;
+};
+
+/** Writes one .xlsx with a sheet per entry plus a "Filtros" sheet describing what was exported. */
+export const saveWorkbook = (fileBaseName: string, sheets: WorkbookSheet[], filters: ExportFilters = {}): void => {
+    const workbook = XLSX.utils.book_new();
+    sheets.forEach((sheet) => {
+        // Excel limits sheet names to 31 characters
+        XLSX.utils.book_append_sheet(workbook, buildWorksheet(sheet), sheet.name.slice(0, 31));
+    });
+
+    const filterRows: SheetRow[] = [
+        { 'Filtro': 'Gerado em', 'Valor': new Date().toLocaleString('pt-BR') },
+        ...Object.entries(filters).map(([label, value]) => ({ 'Filtro': label, 'Valor': value || '-' })),
+    ];
+    XLSX.utils.book_append_sheet(workbook, buildWorksheet({ name: 'Filtros', rows: filterRows }), 'Filtros');
+
+    const datePart = new Date().toLocaleDateString('pt-BR').replace(/\//g, '-');
+    XLSX.writeFile(workbook, `${fileBaseName}_${datePart}.xlsx`);
+};
+
+// Formats an ISO timestamp as a spreadsheet-friendly dd/mm/aaaa hh:mm string
+export const formatExcelDateTime = (value: string | null | undefined): string => {
+    if (!value) return '-';
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? '-' : d.toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+};
+
+export const formatExcelDate = (value: string | Date | null | undefined): string => {
+    if (!value) return '-';
+    const d = value instanceof Date ? value : new Date(value);
+    return isNaN(d.getTime()) ? '-' : d.toLocaleDateString('pt-BR');
+};
+
+// Currency values stay numeric so they can be summed in the spreadsheet
+export const toMoney = (value: unknown): number => Math.round((Number(value) || 0) * 100) / 100;
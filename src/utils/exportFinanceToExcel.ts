@@ -0,0 +1,116 @@
+import { formatExcelDate, formatExcelDateTime, saveWorkbook, toMoney, type ExportFilters, type SheetRow } from './excelWorkbook';
+
+export interface ExportPaymentItem {
+    ticketCode: string;
+    clientName: string;
+    startDatetime: string;
+    agentName: string;
+    agentDocument: string | null;
+    agentRoleLabel: string;
+    pixKey: string | null;
+    bankName: string | null;
+    bankAgency: string | null;
+    bankAccount: string | null;
+    compensationTotal: number;
+    tollCost: number;
+    foodCost: number;
+    otherCosts: number;
+    totalCost: number;
+    paymentStatus: string;
+    paidAt: string | null;
+}
+
+export interface ExportRevenueTicket {
+    code: string | null;
+    start_datetime: string;
+    service_type: string;
+    revenue_total: number | null;
+    revenue_status: string | null;
+    revenue_paid_at: string | null;
+    invoice_id: string | null;
+    clients: { name: string; document: string | null } | null;
+    vehicles: { tractor_plate: string | null } | null;
+}
+
+export interface ExportTicketProfit {
+    code: string;
+    clientName: string;
+    date: string;
+    revenue: number;
+    totalCost: number;
+    profit: number;
+    margin: number;
+    revenueStatus: string;
+    allPaymentsPaid: boolean;
+}
+
+interface FinanceExport {
+    pendingPayments: ExportPaymentItem[];
+    paidPayments: ExportPaymentItem[];
+    revenueTickets: ExportRevenueTicket[];
+    profit: ExportTicketProfit[];
+}
+
+const serviceTypeLabels: Record<string, string> = {
+    alarme: 'Alarme',
+    averiguacao: 'Averiguação',
+    preservacao: 'Preservação',
+    acompanhamento_logistico: 'Acompanhamento Logístico',
+    sindicancia: 'Sindicância',
+};
+
+const revenueLabel = (s: string | null) => ({ faturado: 'Faturado', recebido: 'Recebido' }[s ?? ''] ?? 'Pendente');
+const val = (v: string | null | undefined) => v || '-';
+
+const paymentRow = (item: ExportPaymentItem): SheetRow => ({
+    'Chamado': item.ticketCode,
+    'Data': formatExcelDate(item.startDatetime),
+    'Cliente': item.clientName,
+    'Agente': item.agentName,
+    'CPF': val(item.agentDocument),
+    'Função': item.agentRoleLabel,
+    'Honorários (R$)': toMoney(item.compensationTotal),
+    'Pedágio (R$)': toMoney(item.tollCost),
+    'Alimentação (R$)': toMoney(item.foodCost),
+    'Outros (R$)': toMoney(item.otherCosts),
+    'Total (R$)': toMoney(item.totalCost),
+    'Chave PIX': val(item.pixKey),
+    'Banco': val(item.bankName),
+    'Agência': val(item.bankAgency),
+    'Conta': val(item.bankAccount),
+    'Pago em': formatExcelDateTime(item.paidAt),
+});
+
+/** Exports the Financeiro tabs (agent payments, client revenue and profit per ticket) as one workbook. */
+export const exportFinanceToExcel = (data: FinanceExport, filters: ExportFilters): void => {
+    const revenueRows: SheetRow[] = data.revenueTickets.map((t) => ({
+        'Chamado': val(t.code),
+        'Data': formatExcelDate(t.start_datetime),
+        'Cliente': val(t.clients?.name),
+        'CNPJ / CPF': val(t.clients?.document),
+        'Tipo de Serviço': serviceTypeLabels[t.service_type] ?? t.service_type,
+        'Placa Cavalo': val(t.vehicles?.tractor_plate),
+        'Valor (R$)': toMoney(t.revenue_total),
+        'Status': revenueLabel(t.revenue_status),
+        'Recebido em': formatExcelDateTime(t.revenue_paid_at),
+    }));
+
+    const profitRows: SheetRow[] = data.profit.map((p) => ({
+        'Chamado': p.code,
+        'Data': formatExcelDate(p.date),
+        'Cliente': p.clientName,
+        'Receita (R$)': toMoney(p.revenue),
+        'Custo (R$)': toMoney(p.totalCost),
+        'Lucro (R$)': toMoney(p.profit),
+        'Margem (%)': Math.round(p.margin * 10) / 10,
+        'Status Receita': revenueLabel(p.revenueStatus),
+        'Agentes Pagos': p.allPaymentsPaid ? 'Sim' : 'Não',
+    }));
+
+    saveWorkbook('financeiro', [
+        { name: 'Pagamentos Pendentes', rows: data.pendingPayments.map(paymentRow), emptyHeaders: ['Chamado'] },
+        { name: 'Pagamentos Realizados', rows: data.paidPayments.map(paymentRow), emptyHeaders: ['Chamado'] },
+        { name: 'Faturamento', rows: revenueRows, emptyHeaders: ['Chamado'] },
+        { name: 'Lucro por Chamado', rows: profitRows, emptyHeaders: ['Chamado'] },
+    ], filters);
+};
@@ -0,0 +1,84 @@
+import { saveWorkbook, toMoney, type ExportFilters, type SheetRow, type WorkbookSheet } from './excelWorkbook';
+
+interface PerformanceExport {
+    agents: { name: string; count: number; avgTime: number }[];
+    operators: { name: string; count: number }[];
+    regions: { city: string; state: string; count: number }[];
+    services: { name: string; value: number }[];
+    sla: { clientName: string; evaluated: number; arrivalOnTime: number; arrivalMeasured: number; durationOnTime: number; durationMeasured: number; breached: number; compliance: number }[];
+    // Financial sheets, only passed for admins
+    serviceRevenue?: { name: string; receita: number; custo: number; margem: number }[];
+    monthly?: { month: string; receita: number; custo: number; lucro: number; chamados: number }[];
+}
+
+/** Exports the Desempenho rankings (and, for admins, the financial breakdowns) as one workbook. */
+export const exportPerformanceToExcel = (data: PerformanceExport, filters: ExportFilters): void => {
+    const rank = <T>(rows: T[], toRow: (row: T) => SheetRow): SheetRow[] =>
+        rows.map((row, i) => ({ 'Posição': i + 1, ...toRow(row) }));
+
+    const sheets: WorkbookSheet[] = [
+        {
+            name: 'Ranking de Agentes',
+            rows: rank(data.agents, (a) => ({ 'Agente': a.name, 'Chamados Finalizados': a.count, 'Tempo Médio (min)': a.avgTime })),
+            emptyHeaders: ['Posição', 'Agente'],
+        },
+        {
+            name: 'Ranking de Operadores',
+            rows: rank(data.operators, (o) => ({ 'Operador': o.name, 'Chamados': o.count })),
+            emptyHeaders: ['Posição', 'Operador'],
+        },
+        {
+            name: 'Ranking de Regiões',
+            rows: rank(data.regions, (r) => ({ 'Cidade': r.city, 'Estado (UF)': r.state, 'Chamados Finalizados': r.count })),
+            emptyHeaders: ['Posição', 'Cidade'],
+        },
+        {
+            name: 'Serviços',
+            rows: data.services.map((s) => ({ 'Tipo de Serviço': s.name, 'Chamados Finalizados': s.value })),
+            emptyHeaders: ['Tipo de Serviço'],
+        },
+        {
+            name: 'SLA por Cliente',
+            rows: data.sla.map((c) => ({
+                'Cliente': c.clientName,
+                'Chamados Avaliados': c.evaluated,
+                'Chegada no Prazo': c.arrivalOnTime,
+                'Chegada Medida': c.arrivalMeasured,
+                'Duração no Prazo': c.durationOnTime,
+                'Duração Medida': c.durationMeasured,
+                'Violações': c.breached,
+                'Cumprimento (%)': c.compliance,
+            })),
+            emptyHeaders: ['Cliente'],
+        },
+    ];
+
+    if (data.serviceRevenue) {
+        sheets.push({
+            name: 'Receita por Serviço',
+            rows: data.serviceRevenue.map((s) => ({
+                'Tipo de Serviço': s.name,
+                'Receita (R$)': toMoney(s.receita),
+                'Custo (R$)': toMoney(s.custo),
+                'Margem (%)': s.margem,
+            })),
+            emptyHeaders: ['Tipo de Serviço'],
+        });
+    }
+
+    if (data.monthly) {
+        sheets.push({
+            name: 'Evolução Mensal',
+            rows: data.monthly.map((m) => ({
+                'Mês': m.month,
+                'Chamados': m.chamados,
+                'Receita (R$)': toMoney(m.receita),
+                'Custo (R$)': toMoney(m.custo),
+                'Lucro (R$)': toMoney(m.lucro),
+            })),
+            emptyHeaders: ['Mês'],
+        });
+    }
+
+    saveWorkbook('desempenho', sheets, filters);
+};
@@ -0,0 +1,159 @@
+import { formatExcelDateTime, saveWorkbook, toMoney, type ExportFilters, type SheetRow } from './excelWorkbook';
+
+interface ExportTicketAgent {
+    arrival: string | null;
+    departure: string | null;
+    km_start: number | null;
+    km_end: number | null;
+    compensation_total: number | null;
+    toll_cost: number | null;
+    food_cost: number | null;
+    other_costs: number | null;
+    payment_status: string | null;
+    agent: { name: string } | null;
+}
+
+export interface ExportTicket {
+    code: string | null;
+    status: string;
+    service_type: string;
+    start_datetime: string;
+    end_datetime: string | null;
+    city: string;
+    state: string;
+    main_agent_arrival: string | null;
+    main_agent_departure: string | null;
+    km_start: number | null;
+    km_end: number | null;
+    main_agent_compensation_total: number | null;
+    main_agent_payment_status: string | null;
+    toll_cost: number | null;
+    food_cost: number | null;
+    other_costs: number | null;
+    revenue_total: number | null;
+    revenue_status: string | null;
+    clients: { name: string } | null;
+    vehicles: { tractor_plate: string | null } | null;
+    plans: { name: string } | null;
+    main_agent: { name: string } | null;
+    ticket_support_agents: ExportTicketAgent[];
+}
+
+// Columns fetched for the export, matching ExportTicket
+export const EXPORT_TICKET_COLUMNS = [
+    'code', 'status', 'service_type', 'start_datetime', 'end_datetime', 'city', 'state',
+    'main_agent_arrival', 'main_agent_departure', 'km_start', 'km_end',
+    'main_agent_compensation_total', 'main_agent_payment_status',
+    'toll_cost', 'food_cost', 'other_costs', 'revenue_total', 'revenue_status',
+    'clients(name)', 'vehicles(tractor_plate)', 'plans(name)',
+    'main_agent:agents!tickets_main_agent_id_fkey(name)',
+    'ticket_support_agents(arrival,departure,km_start,km_end,compensation_total,toll_cost,food_cost,other_costs,payment_status,agent:agents(name))',
+].join(',');
+
+const statusLabels: Record<string, string> = {
+    aberto: 'Aberto',
+    em_andamento: 'Em Andamento',
+    finalizado: 'Finalizado',
+    cancelado: 'Cancelado',
+};
+
+const serviceTypeLabels: Record<string, string> = {
+    alarme: 'Alarme',
+    averiguacao: 'Averiguação',
+    preservacao: 'Preservação',
+    acompanhamento_logistico: 'Acompanhamento Logístico',
+    sindicancia: 'Sindicância',
+};
+
+const paymentLabel = (s: string | null) => (s === 'pago' ? 'Pago' : 'Pendente');
+const revenueLabel = (s: string | null) => ({ faturado: 'Faturado', recebido: 'Recebido' }[s ?? ''] ?? 'Pendente');
+const km = (start: number | null, end: number | null) => Math.max(0, (Number(end) || 0) - (Number(start) || 0));
+const expenses = (a: { toll_cost: number | null; food_cost: number | null; other_costs: number | null }) =>
+    (Number(a.toll_cost) || 0) + (Number(a.food_cost) || 0) + (Number(a.other_costs) || 0);
+
+/**
+ * Exports tickets as two sheets: one row per ticket and one row per agent slot.
+ * Financial columns are only included when `includeFinancial` is set (admins).
+ */
+export const exportTicketsToExcel = (tickets: ExportTicket[], filters: ExportFilters, includeFinancial: boolean): void => {
+    const ticketRows: SheetRow[] = tickets.map((t) => {
+        const supportCost = t.ticket_support_agents.reduce((sum, sa) => sum + (Number(sa.compensation_total) || 0) + expenses(sa), 0);
+        const totalCost = (Number(t.main_agent_compensation_total) || 0) + expenses(t) + supportCost;
+        const row: SheetRow = {
+            'Código': t.code || '-',
+            'Status': statusLabels[t.status] ?? t.status,
+            'Tipo de Serviço': serviceTypeLabels[t.service_type] ?? t.service_type,
+            'Cliente': t.clients?.name || '-',
+            'Plano': t.plans?.name || '-',
+            'Placa Cavalo': t.vehicles?.tractor_plate || '-',
+            'Cidade': t.city,
+            'Estado (UF)': t.state,
+            'Início': formatExcelDateTime(t.start_datetime),
+            'Fim': formatExcelDateTime(t.end_datetime),
+            'Agente Principal': t.main_agent?.name || '-',
+            'Apoios': t.ticket_support_agents.length,
+            'KM Agente Principal': km(t.km_start, t.km_end),
+        };
+        if (includeFinancial) {
+            row['Receita (R$)'] = toMoney(t.revenue_total);
+            row['Status Receita'] = revenueLabel(t.revenue_status);
+            row['Custo Total (R$)'] = toMoney(totalCost);
+            row['Lucro (R$)'] = toMoney((Number(t.revenue_total) || 0) - totalCost);
+        }
+        return row;
+    });
+
+    const agentRows: SheetRow[] = tickets.flatMap((t) => {
+        const slots = [
+            {
+                role: 'Agente Principal',
+                name: t.main_agent?.name,
+                arrival: t.main_agent_arrival,
+                departure: t.main_agent_departure,
+                km: km(t.km_start, t.km_end),
+                compensation: t.main_agent_compensation_total,
+                toll: t.toll_cost,
+                food: t.food_cost,
+                other: t.other_costs,
+                paymentStatus: t.main_agent_payment_status,
+            },
+            ...t.ticket_support_agents.map((sa, index) => ({
+                role: `Apoio ${index + 1}`,
+                name: sa.agent?.name,
+                arrival: sa.arrival,
+                departure: sa.departure,
+                km: km(sa.km_start, sa.km_end),
+                compensation: sa.compensation_total,
+                toll: sa.toll_cost,
+                food: sa.food_cost,
+                other: sa.other_costs,
+                paymentStatus: sa.payment_status,
+            })),
+        ];
+
+        return slots.filter((s) => !!s.name).map((s) => {
+            const row: SheetRow = {
+                'Código': t.code || '-',
+                'Cliente': t.clients?.name || '-',
+                'Função': s.role,
+                'Agente': s.name!,
+                'Chegada': formatExcelDateTime(s.arrival),
+                'Saída': formatExcelDateTime(s.departure),
+                'KM': s.km,
+            };
+            if (includeFinancial) {
+                row['Honorários (R$)'] = toMoney(s.compensation);
+                row['Pedágio (R$)'] = toMoney(s.toll);
+                row['Alimentação (R$)'] = toMoney(s.food);
+                row['Outros (R$)'] = toMoney(s.other);
+                row['Status Pagamento'] = paymentLabel(s.paymentStatus);
+            }
+            return row;
+        });
+    });
+
+    saveWorkbook('chamados', [
+        { name: 'Chamados', rows: ticketRows, emptyHeaders: ['Código'] },
+        { name: 'Agentes', rows: agentRows, emptyHeaders: ['Código'] },
+    ], filters);
+};
@@ -0,0 +1,65 @@
+-- Pricing rules: negotiated rates per plan, service type, client and agent role
+-- target = 'cliente' (faturamento) or 'agente' (honorário). NULL keys match any value.
+CREATE TABLE IF NOT EXISTS public.pricing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT,
+  target TEXT NOT NULL CHECK (target IN ('cliente', 'agente')),
+  plan_id UUID REFERENCES public.plans(id) ON DELETE CASCADE,
+  service_type public.service_type,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  agent_role TEXT CHECK (agent_role IN ('principal', 'apoio')),
+  is_armed BOOLEAN,
+  base_value DECIMAL NOT NULL DEFAULT 0,
+  included_hours DECIMAL NOT NULL DEFAULT 0,
+  included_km DECIMAL NOT NULL DEFAULT 0,
+  extra_hour_rate DECIMAL NOT NULL DEFAULT 0,
+  extra_km_rate DECIMAL NOT NULL DEFAULT 0,
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  effective_to DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT pricing_rules_effective_range CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_lookup
+  ON public.pricing_rules (target, plan_id, service_type, client_id);
+
+-- Enable RLS
+ALTER TABLE public.pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Todos podem ver regras de preço"
+  ON public.pricing_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins podem gerenciar regras de preço"
+  ON public.pricing_rules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_pricing_rules_updated_at BEFORE UPDATE ON public.pricing_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Plans that always price as one service type (alarm plans), whatever type the
+-- ticket was opened with. NULL prices by the ticket's own service type.
+ALTER TABLE public.plans
+  ADD COLUMN IF NOT EXISTS service_type public.service_type;
+
+-- One-time backfill from the plan names the frontend used to match on
+UPDATE public.plans SET service_type = 'alarme'
+WHERE lower(name) LIKE '%alarme%';
+
+-- Seed with the rates previously hardcoded in the frontend
+INSERT INTO public.pricing_rules
+  (name, target, service_type, is_armed, base_value, included_hours, included_km, extra_hour_rate, extra_km_rate, effective_from)
+VALUES
+  ('Padrão cliente', 'cliente', NULL, NULL, 500, 3, 50, 90, 2.50, '2025-01-01'),
+  ('Alarme cliente', 'cliente', 'alarme', NULL, 180, 0.5, 50, 40, 2.50, '2025-01-01'),
+  ('Agente armado', 'agente', NULL, true, 300, 3, 50, 45, 1.50, '2025-01-01'),
+  ('Agente desarmado', 'agente', NULL, false, 280, 3, 50, 40, 1.50, '2025-01-01'),
+  ('Alarme agente', 'agente', 'alarme', NULL, 100, 0.5, 50, 20, 1.50, '2025-01-01');
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
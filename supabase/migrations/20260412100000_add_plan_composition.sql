@@ -0,0 +1,36 @@
+-- Plans declare their crew explicitly instead of encoding it in the plan name
+CREATE TYPE public.armed_requirement AS ENUM ('armado', 'desarmado', 'indiferente');
+
+ALTER TABLE public.plans
+  ADD COLUMN IF NOT EXISTS agent_count INTEGER NOT NULL DEFAULT 1 CHECK (agent_count BETWEEN 1 AND 3),
+  ADD COLUMN IF NOT EXISTS principal_armed public.armed_requirement NOT NULL DEFAULT 'indiferente',
+  ADD COLUMN IF NOT EXISTS apoio_1_armed public.armed_requirement NOT NULL DEFAULT 'indiferente',
+  ADD COLUMN IF NOT EXISTS apoio_2_armed public.armed_requirement NOT NULL DEFAULT 'indiferente';
+
+-- One-time backfill from the naming convention previously parsed by the frontend.
+-- A single pass with the most specific pattern first, as the frontend checked them:
+-- "1 Agente Armado + 1 Desarmado" also contains "1 agente" and "desarmado".
+WITH classified AS (
+  SELECT id,
+    CASE
+      WHEN lower(name) LIKE '%armado + 1 desarmado%' OR lower(name) LIKE '%armado+1 desarmado%' THEN 'misto'
+      WHEN lower(name) LIKE '%2 agente%' AND lower(name) LIKE '%armado%' AND lower(name) NOT LIKE '%desarmado%' THEN 'dois_armados'
+      WHEN lower(name) LIKE '%1 agente%' AND lower(name) LIKE '%armado%' AND lower(name) NOT LIKE '%desarmado%' THEN 'um_armado'
+      WHEN lower(name) LIKE '%1 agente%' AND lower(name) LIKE '%desarmado%' THEN 'um_desarmado'
+    END AS crew
+  FROM public.plans
+)
+UPDATE public.plans p SET
+  agent_count = CASE WHEN c.crew IN ('misto', 'dois_armados') THEN 2 ELSE 1 END,
+  principal_armed = CASE WHEN c.crew = 'um_desarmado' THEN 'desarmado' ELSE 'armado' END::public.armed_requirement,
+  apoio_1_armed = CASE c.crew
+    WHEN 'misto' THEN 'desarmado'
+    WHEN 'dois_armados' THEN 'armado'
+    ELSE 'indiferente'
+  END::public.armed_requirement
+FROM classified c
+WHERE c.id = p.id
+  AND c.crew IS NOT NULL;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
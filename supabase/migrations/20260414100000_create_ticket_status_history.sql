@@ -0,0 +1,103 @@
+-- Ticket status state machine: every transition is validated and recorded server-side
+CREATE TABLE IF NOT EXISTS public.ticket_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  from_status public.ticket_status,
+  to_status public.ticket_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_status_history_ticket
+  ON public.ticket_status_history (ticket_id, created_at);
+
+-- Write-only carrier for the transition reason; the trigger moves it into the history and clears it
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS status_change_note TEXT;
+
+-- Enable RLS (rows are only written by the trigger below)
+ALTER TABLE public.ticket_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usuários autenticados podem ver histórico de status"
+  ON public.ticket_status_history FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Allowed transitions:
+--   aberto       -> em_andamento, finalizado, cancelado
+--   em_andamento -> aberto, finalizado, cancelado
+--   finalizado   -> em_andamento, cancelado   (reason required)
+--   cancelado    -> aberto                    (reason required)
+-- Cancelling always requires a reason.
+CREATE OR REPLACE FUNCTION public.enforce_ticket_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_note TEXT := NULLIF(btrim(NEW.status_change_note), '');
+BEGIN
+  NEW.status_change_note := NULL;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'aberto' AND NEW.status IN ('em_andamento', 'finalizado', 'cancelado')) OR
+    (OLD.status = 'em_andamento' AND NEW.status IN ('aberto', 'finalizado', 'cancelado')) OR
+    (OLD.status = 'finalizado' AND NEW.status IN ('em_andamento', 'cancelado')) OR
+    (OLD.status = 'cancelado' AND NEW.status = 'aberto')
+  ) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % → %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_note IS NULL AND (OLD.status IN ('finalizado', 'cancelado') OR NEW.status = 'cancelado') THEN
+    RAISE EXCEPTION 'Informe o motivo da alteração de status (% → %)', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.ticket_status_history (ticket_id, from_status, to_status, changed_by, note)
+  VALUES (NEW.id, OLD.status, NEW.status, auth.uid(), v_note);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_ticket_initial_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ticket_status_history (ticket_id, from_status, to_status, changed_by)
+  VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_ticket_status_transition ON public.tickets;
+CREATE TRIGGER trigger_enforce_ticket_status_transition
+  BEFORE UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_ticket_status_transition();
+
+DROP TRIGGER IF EXISTS trigger_log_ticket_initial_status ON public.tickets;
+CREATE TRIGGER trigger_log_ticket_initial_status
+  AFTER INSERT ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_ticket_initial_status();
+
+-- Seed history with the current status of existing tickets
+INSERT INTO public.ticket_status_history (ticket_id, from_status, to_status, created_at)
+SELECT t.id, NULL, t.status, t.created_at
+FROM public.tickets t
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.ticket_status_history h WHERE h.ticket_id = t.id
+);
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
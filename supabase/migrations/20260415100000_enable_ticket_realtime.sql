@@ -0,0 +1,66 @@
+-- Push ticket changes to the dashboard and ticket list through Supabase Realtime
+-- REPLICA IDENTITY FULL so UPDATE payloads carry the previous status (used for toasts)
+ALTER TABLE public.tickets REPLICA IDENTITY FULL;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tickets', 'ticket_support_agents', 'ticket_photos']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- The public tracking page is anonymous and cannot read tickets through RLS,
+-- so it listens to a per-ticket broadcast topic that only says "something changed"
+-- and re-fetches through get_ticket_tracking_info.
+CREATE OR REPLACE FUNCTION public.broadcast_ticket_tracking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_ticket_id TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := to_jsonb(OLD);
+  ELSE
+    v_row := to_jsonb(NEW);
+  END IF;
+
+  v_ticket_id := CASE WHEN TG_TABLE_NAME = 'tickets' THEN v_row->>'id' ELSE v_row->>'ticket_id' END;
+
+  PERFORM realtime.send(
+    jsonb_build_object('ticket_id', v_ticket_id),
+    'ticket_changed',
+    'tracking:' || v_ticket_id,
+    false
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_broadcast_ticket_tracking ON public.tickets;
+CREATE TRIGGER trigger_broadcast_ticket_tracking
+  AFTER INSERT OR UPDATE OR DELETE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.broadcast_ticket_tracking_change();
+
+DROP TRIGGER IF EXISTS trigger_broadcast_ticket_photo_tracking ON public.ticket_photos;
+CREATE TRIGGER trigger_broadcast_ticket_photo_tracking
+  AFTER INSERT OR UPDATE OR DELETE ON public.ticket_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.broadcast_ticket_tracking_change();
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,64 @@
+-- Finish normalizing support agents into ticket_support_agents.
+-- Some environments still carry the legacy support_agent_1_* / support_agent_2_* columns on tickets
+-- (the drop in 20260218150000 was not applied everywhere). Copy whatever is left and drop them.
+-- Columns are referenced through EXECUTE so this is a no-op where they are already gone.
+DO $$
+DECLARE
+  v_slot INT;
+  v_prefix TEXT;
+BEGIN
+  FOREACH v_slot IN ARRAY ARRAY[1, 2]
+  LOOP
+    v_prefix := 'support_agent_' || v_slot || '_';
+
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'tickets' AND column_name = v_prefix || 'id'
+    ) THEN
+      EXECUTE format($sql$
+        INSERT INTO public.ticket_support_agents (
+          ticket_id, agent_id, arrival, departure, km_start, km_end,
+          toll_cost, food_cost, other_costs, payment_status, paid_at
+        )
+        SELECT
+          t.id, t.%1$sid, t.%1$sarrival::timestamptz, t.%1$sdeparture::timestamptz,
+          t.%1$skm_start, t.%1$skm_end,
+          COALESCE(t.%1$stoll_cost, 0), COALESCE(t.%1$sfood_cost, 0), COALESCE(t.%1$sother_costs, 0),
+          COALESCE(t.%1$spayment_status, 'pendente'),
+          t.%1$spaid_at::timestamptz
+        FROM public.tickets t
+        WHERE t.%1$sid IS NOT NULL
+          AND NOT EXISTS (
+            SELECT 1 FROM public.ticket_support_agents sa
+            WHERE sa.ticket_id = t.id AND sa.agent_id = t.%1$sid
+          )
+      $sql$, v_prefix);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.tickets
+  DROP COLUMN IF EXISTS support_agent_1_id,
+  DROP COLUMN IF EXISTS support_agent_1_arrival,
+  DROP COLUMN IF EXISTS support_agent_1_departure,
+  DROP COLUMN IF EXISTS support_agent_1_km_start,
+  DROP COLUMN IF EXISTS support_agent_1_km_end,
+  DROP COLUMN IF EXISTS support_agent_1_toll_cost,
+  DROP COLUMN IF EXISTS support_agent_1_food_cost,
+  DROP COLUMN IF EXISTS support_agent_1_other_costs,
+  DROP COLUMN IF EXISTS support_agent_1_payment_status,
+  DROP COLUMN IF EXISTS support_agent_1_paid_at,
+  DROP COLUMN IF EXISTS support_agent_2_id,
+  DROP COLUMN IF EXISTS support_agent_2_arrival,
+  DROP COLUMN IF EXISTS support_agent_2_departure,
+  DROP COLUMN IF EXISTS support_agent_2_km_start,
+  DROP COLUMN IF EXISTS support_agent_2_km_end,
+  DROP COLUMN IF EXISTS support_agent_2_toll_cost,
+  DROP COLUMN IF EXISTS support_agent_2_food_cost,
+  DROP COLUMN IF EXISTS support_agent_2_other_costs,
+  DROP COLUMN IF EXISTS support_agent_2_payment_status,
+  DROP COLUMN IF EXISTS support_agent_2_paid_at;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,183 @@
+-- Agent portal: link agents to auth users and scope the 'agente' role to their own tickets
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Backfill by e-mail, which is how the original tickets policy matched agents to users
+UPDATE public.agents a
+SET user_id = p.user_id
+FROM public.profiles p
+WHERE a.user_id IS NULL
+  AND a.email IS NOT NULL
+  AND lower(a.email) = lower(p.email)
+  AND NOT EXISTS (SELECT 1 FROM public.agents other WHERE other.user_id = p.user_id);
+
+-- Helpers are SECURITY DEFINER so policies on tickets and ticket_support_agents
+-- can reference each other without recursing through RLS
+CREATE OR REPLACE FUNCTION public.current_agent_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.agents WHERE user_id = auth.uid() LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_ticket_agent(_ticket_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.tickets t
+    WHERE t.id = _ticket_id AND t.main_agent_id = public.current_agent_id()
+  ) OR EXISTS (
+    SELECT 1 FROM public.ticket_support_agents sa
+    WHERE sa.ticket_id = _ticket_id AND sa.agent_id = public.current_agent_id()
+  );
+$$;
+
+-- Tickets: agents see tickets where they are main or support agent; only the main agent updates the ticket row
+DROP POLICY IF EXISTS "Usuários podem ver chamados relevantes" ON public.tickets;
+CREATE POLICY "Usuários podem ver chamados relevantes"
+  ON public.tickets FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND public.is_ticket_agent(id))
+  );
+
+DROP POLICY IF EXISTS "Operadores, admins e agentes podem atualizar seus chamados" ON public.tickets;
+CREATE POLICY "Operadores, admins e agentes podem atualizar seus chamados"
+  ON public.tickets FOR UPDATE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND main_agent_id = public.current_agent_id())
+  );
+
+-- Support agents: replace the open policies with role-scoped ones
+DROP POLICY IF EXISTS "Permitir leitura para autenticados" ON public.ticket_support_agents;
+DROP POLICY IF EXISTS "Permitir inserção para autenticados" ON public.ticket_support_agents;
+DROP POLICY IF EXISTS "Permitir atualização para autenticados" ON public.ticket_support_agents;
+DROP POLICY IF EXISTS "Permitir deleção para autenticados" ON public.ticket_support_agents;
+
+CREATE POLICY "Usuários podem ver apoios de chamados relevantes"
+  ON public.ticket_support_agents FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND public.is_ticket_agent(ticket_id))
+  );
+
+CREATE POLICY "Operadores e admins podem gerenciar apoios"
+  ON public.ticket_support_agents FOR ALL
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador')
+  )
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador')
+  );
+
+CREATE POLICY "Agentes podem atualizar seu próprio apoio"
+  ON public.ticket_support_agents FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'agente') AND agent_id = public.current_agent_id())
+  WITH CHECK (public.has_role(auth.uid(), 'agente') AND agent_id = public.current_agent_id());
+
+-- Agents only need the client name and vehicle of their own tickets
+CREATE POLICY "Agentes podem ver clientes dos seus chamados"
+  ON public.clients FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'agente') AND EXISTS (
+      SELECT 1 FROM public.tickets t WHERE t.client_id = clients.id AND public.is_ticket_agent(t.id)
+    )
+  );
+
+CREATE POLICY "Agentes podem ver veículos dos seus chamados"
+  ON public.vehicles FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'agente') AND EXISTS (
+      SELECT 1 FROM public.tickets t WHERE t.vehicle_id = vehicles.id AND public.is_ticket_agent(t.id)
+    )
+  );
+
+-- RLS is row-level only: this guard keeps agents to the field-report columns
+-- (times and odometer). Admins and operators are unaffected.
+-- Columns derived by earlier BEFORE triggers (calculate_ticket_values) are ignored too.
+CREATE OR REPLACE FUNCTION public.guard_agent_field_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'agente')
+     OR public.has_role(auth.uid(), 'admin')
+     OR public.has_role(auth.uid(), 'operador') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - TG_ARGV::text[] - ARRAY['updated_at', 'duration_minutes', 'total_cost'])
+     IS DISTINCT FROM (to_jsonb(OLD) - TG_ARGV::text[] - ARRAY['updated_at', 'duration_minutes', 'total_cost']) THEN
+    RAISE EXCEPTION 'Agentes só podem registrar horários e quilometragem'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_agent_ticket_update ON public.tickets;
+CREATE TRIGGER trigger_guard_agent_ticket_update
+  BEFORE UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_agent_field_update('main_agent_arrival', 'main_agent_departure', 'km_start', 'km_end');
+
+DROP TRIGGER IF EXISTS trigger_guard_agent_support_update ON public.ticket_support_agents;
+CREATE TRIGGER trigger_guard_agent_support_update
+  BEFORE UPDATE ON public.ticket_support_agents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_agent_field_update('arrival', 'departure', 'km_start', 'km_end');
+
+-- ticket-photos objects live under <ticket_id>/ (thumbnails under <ticket_id>/thumbs/).
+-- The folder is checked before the cast so a stray path fails the policy instead of erroring.
+CREATE OR REPLACE FUNCTION public.is_ticket_agent_path(_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN (storage.foldername(_name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN public.is_ticket_agent(((storage.foldername(_name))[1])::UUID)
+    ELSE false
+  END;
+$$;
+
+-- Photo uploads: staff anywhere, agents only into the folders of their own tickets
+DROP POLICY IF EXISTS "Usuários autenticados podem fazer upload de fotos" ON storage.objects;
+CREATE POLICY "Usuários autenticados podem fazer upload de fotos"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'ticket-photos' AND (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND public.is_ticket_agent_path(name))
+  )
+);
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
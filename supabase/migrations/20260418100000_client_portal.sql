@@ -0,0 +1,197 @@
+-- Client portal: link 'cliente_visualizacao' users to a client and expose only that client's operational data
+CREATE TABLE IF NOT EXISTS public.client_users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_users_client_id ON public.client_users (client_id);
+
+ALTER TABLE public.client_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usuários podem ver seu próprio vínculo de cliente"
+  ON public.client_users FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins podem gerenciar vínculos de clientes"
+  ON public.client_users FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.current_client_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cu.client_id
+  FROM public.client_users cu
+  WHERE cu.user_id = auth.uid()
+    AND public.has_role(auth.uid(), 'cliente_visualizacao')
+  LIMIT 1;
+$$;
+
+-- Clients read their own registration and vehicles directly (no financial columns there)
+CREATE POLICY "Clientes podem ver seu próprio cadastro"
+  ON public.clients FOR SELECT
+  TO authenticated
+  USING (id = public.current_client_id());
+
+CREATE POLICY "Clientes podem ver seus veículos"
+  ON public.vehicles FOR SELECT
+  TO authenticated
+  USING (client_id = public.current_client_id());
+
+-- Tickets carry revenue and agent compensation columns, so clients never read the table.
+-- They go through these functions, which return a fixed set of non-financial fields.
+CREATE OR REPLACE FUNCTION public.get_client_portal_tickets()
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  status public.ticket_status,
+  service_type public.service_type,
+  city TEXT,
+  state TEXT,
+  start_datetime TIMESTAMPTZ,
+  end_datetime TIMESTAMPTZ,
+  vehicle_description TEXT,
+  vehicle_plate TEXT,
+  photo_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id, t.code, t.status, t.service_type, t.city, t.state,
+    t.start_datetime, t.end_datetime,
+    v.description, v.plate_main,
+    (SELECT count(*) FROM public.ticket_photos p WHERE p.ticket_id = t.id)
+  FROM public.tickets t
+  LEFT JOIN public.vehicles v ON v.id = t.vehicle_id
+  WHERE t.client_id = public.current_client_id()
+  ORDER BY t.start_datetime DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_client_portal_ticket(_ticket_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', t.id,
+    'code', t.code,
+    'status', t.status,
+    'service_type', t.service_type,
+    'city', t.city,
+    'state', t.state,
+    'start_datetime', t.start_datetime,
+    'end_datetime', t.end_datetime,
+    'coordinates_lat', t.coordinates_lat,
+    'coordinates_lng', t.coordinates_lng,
+    'km_start', t.km_start,
+    'km_end', t.km_end,
+    'duration_minutes', t.duration_minutes,
+    'detailed_report', t.detailed_report,
+    'main_agent_arrival', t.main_agent_arrival,
+    'main_agent_departure', t.main_agent_departure,
+    'operator_name', o.name,
+    'plan_name', pl.name,
+    'client', json_build_object('name', c.name, 'contact_phone', c.contact_phone),
+    'main_agent', json_build_object('name', a.name, 'is_armed', a.is_armed),
+    'vehicle', to_jsonb(v) - 'client_id' - 'created_at' - 'updated_at',
+    'support_agents', (
+      SELECT json_agg(json_build_object(
+        'name', sa_agent.name,
+        'is_armed', sa_agent.is_armed,
+        'arrival', sa.arrival,
+        'departure', sa.departure,
+        'km_start', sa.km_start,
+        'km_end', sa.km_end
+      ) ORDER BY sa.created_at)
+      FROM public.ticket_support_agents sa
+      JOIN public.agents sa_agent ON sa_agent.id = sa.agent_id
+      WHERE sa.ticket_id = t.id
+    ),
+    'photos', (
+      SELECT json_agg(json_build_object(
+        'id', p.id,
+        'file_url', p.file_url,
+        'caption', p.caption,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM public.ticket_photos p
+      WHERE p.ticket_id = t.id
+    )
+  )
+  FROM public.tickets t
+  JOIN public.clients c ON c.id = t.client_id
+  LEFT JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.agents a ON a.id = t.main_agent_id
+  LEFT JOIN public.operators o ON o.id = t.operator_id
+  LEFT JOIN public.plans pl ON pl.id = t.plan_id
+  WHERE t.id = _ticket_id
+    AND t.client_id = public.current_client_id();
+$$;
+
+-- Tables that were readable by every authenticated user but hold rates, banking data
+-- or other clients' history are closed to client viewers
+DROP POLICY IF EXISTS "Todos podem ver agentes ativos" ON public.agents;
+CREATE POLICY "Todos podem ver agentes ativos"
+  ON public.agents FOR SELECT
+  TO authenticated
+  USING (NOT public.has_role(auth.uid(), 'cliente_visualizacao'));
+
+DROP POLICY IF EXISTS "Todos podem ver regras de preço" ON public.pricing_rules;
+CREATE POLICY "Todos podem ver regras de preço"
+  ON public.pricing_rules FOR SELECT
+  TO authenticated
+  USING (NOT public.has_role(auth.uid(), 'cliente_visualizacao'));
+
+DROP POLICY IF EXISTS "Usuários autenticados podem ver histórico de status" ON public.ticket_status_history;
+CREATE POLICY "Usuários autenticados podem ver histórico de status"
+  ON public.ticket_status_history FOR SELECT
+  TO authenticated
+  USING (NOT public.has_role(auth.uid(), 'cliente_visualizacao'));
+
+DROP POLICY IF EXISTS "Users can view agent_demands" ON public.agent_demands;
+CREATE POLICY "Users can view agent_demands"
+  ON public.agent_demands FOR SELECT
+  USING (NOT public.has_role(auth.uid(), 'cliente_visualizacao'));
+
+-- The ticket-photos bucket let every authenticated user list and delete any object, so a
+-- client viewer could walk other clients' ticket folders. The bucket is public and the
+-- portal gets photo URLs from get_client_portal_ticket, so clients need no storage access.
+DROP POLICY IF EXISTS "Usuários autenticados podem ver fotos de chamados" ON storage.objects;
+CREATE POLICY "Usuários autenticados podem ver fotos de chamados"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'ticket-photos' AND (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND public.is_ticket_agent_path(name))
+  )
+);
+
+DROP POLICY IF EXISTS "Usuários autenticados podem deletar suas fotos" ON storage.objects;
+CREATE POLICY "Usuários autenticados podem deletar suas fotos"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'ticket-photos' AND (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND public.is_ticket_agent_path(name))
+  )
+);
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,128 @@
+-- GPS breadcrumb trail written by the agent portal while a ticket is em_andamento
+CREATE TABLE IF NOT EXISTS public.ticket_agent_positions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  accuracy_meters NUMERIC,
+  heading NUMERIC,
+  speed_kmh NUMERIC,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_agent_positions_ticket_recorded
+  ON public.ticket_agent_positions (ticket_id, recorded_at);
+
+ALTER TABLE public.ticket_agent_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Usuários podem ver posições de chamados relevantes"
+  ON public.ticket_agent_positions FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (public.has_role(auth.uid(), 'agente') AND public.is_ticket_agent(ticket_id))
+  );
+
+-- Agents only report their own position, and only while the ticket is in progress
+CREATE POLICY "Agentes podem registrar sua posição em chamados em andamento"
+  ON public.ticket_agent_positions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role(auth.uid(), 'agente') AND
+    agent_id = public.current_agent_id() AND
+    public.is_ticket_agent(ticket_id) AND
+    EXISTS (
+      SELECT 1 FROM public.tickets t
+      WHERE t.id = ticket_id AND t.status = 'em_andamento'
+    )
+  );
+
+CREATE POLICY "Admins podem remover posições"
+  ON public.ticket_agent_positions FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Live updates: dashboard listens to postgres_changes, the public tracking page to its broadcast topic
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'ticket_agent_positions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_agent_positions;
+  END IF;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_broadcast_agent_position_tracking ON public.ticket_agent_positions;
+CREATE TRIGGER trigger_broadcast_agent_position_tracking
+  AFTER INSERT ON public.ticket_agent_positions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.broadcast_ticket_tracking_change();
+
+-- Public tracking: expose the destination and the main agent's trail, only while the team is on the way
+DROP FUNCTION IF EXISTS get_ticket_tracking_info(uuid);
+
+CREATE OR REPLACE FUNCTION get_ticket_tracking_info(p_ticket_id UUID)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result json;
+BEGIN
+  SELECT json_build_object(
+    'id', t.id,
+    'code', t.code,
+    'status', t.status,
+    'service_type', t.service_type,
+    'city', t.city,
+    'state', t.state,
+    'created_at', t.created_at,
+    'start_datetime', t.start_datetime,
+    'end_datetime', t.end_datetime,
+    'main_agent_arrival', t.main_agent_arrival,
+    'main_agent_departure', t.main_agent_departure,
+    'client_name', c.name,
+    'vehicle_description', v.description,
+    'vehicle_plate', v.tractor_plate,
+    'main_agent_first_name', split_part(a.name, ' ', 1),
+    'destination_lat', t.coordinates_lat,
+    'destination_lng', t.coordinates_lng,
+    'main_agent_positions', CASE
+      WHEN t.status = 'em_andamento' AND t.main_agent_arrival IS NULL THEN (
+        SELECT json_agg(json_build_object(
+          'latitude', pos.latitude,
+          'longitude', pos.longitude,
+          'recorded_at', pos.recorded_at
+        ) ORDER BY pos.recorded_at)
+        FROM ticket_agent_positions pos
+        WHERE pos.ticket_id = t.id AND pos.agent_id = t.main_agent_id
+      )
+    END,
+    'photos', (
+      SELECT json_agg(json_build_object(
+        'file_url', p.file_url,
+        'caption', p.caption,
+        'created_at', p.created_at
+      ))
+      FROM ticket_photos p
+      WHERE p.ticket_id = t.id
+    )
+  ) INTO v_result
+  FROM tickets t
+  LEFT JOIN clients c ON t.client_id = c.id
+  LEFT JOIN vehicles v ON t.vehicle_id = v.id
+  LEFT JOIN agents a ON t.main_agent_id = a.id
+  WHERE t.id = p_ticket_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,13 @@
+-- Which distance was used for billing / agent pay: manual odometer readings or the recorded GPS trail
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS revenue_km_source TEXT NOT NULL DEFAULT 'odometro'
+    CHECK (revenue_km_source IN ('odometro', 'gps')),
+  ADD COLUMN IF NOT EXISTS main_agent_km_source TEXT NOT NULL DEFAULT 'odometro'
+    CHECK (main_agent_km_source IN ('odometro', 'gps'));
+
+ALTER TABLE public.ticket_support_agents
+  ADD COLUMN IF NOT EXISTS km_source TEXT NOT NULL DEFAULT 'odometro'
+    CHECK (km_source IN ('odometro', 'gps'));
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,162 @@
+-- Agent payment runs: a batch of pending agent payments in a period, paid together and reversible as a unit
+CREATE TABLE IF NOT EXISTS public.agent_payment_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'confirmado' CHECK (status IN ('confirmado', 'estornado')),
+  total_amount DECIMAL NOT NULL DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  agent_count INTEGER NOT NULL DEFAULT 0,
+  paid_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reversed_at TIMESTAMP WITH TIME ZONE,
+  reversed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT agent_payment_runs_period_range CHECK (period_end >= period_start)
+);
+
+-- One row per agent payment (main agent or support slot of a ticket) included in the run
+CREATE TABLE IF NOT EXISTS public.agent_payment_run_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.agent_payment_runs(id) ON DELETE CASCADE,
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  agent_role TEXT NOT NULL,
+  -- Snapshot of what was paid, so the run statement can be reissued later
+  compensation DECIMAL NOT NULL DEFAULT 0,
+  expenses DECIMAL NOT NULL DEFAULT 0,
+  amount DECIMAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_payment_run_items_run ON public.agent_payment_run_items (run_id);
+CREATE INDEX IF NOT EXISTS idx_agent_payment_runs_paid_at ON public.agent_payment_runs (paid_at DESC);
+
+ALTER TABLE public.agent_payment_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agent_payment_run_items ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written only through the functions below
+CREATE POLICY "Admins podem ver lotes de pagamento"
+  ON public.agent_payment_runs FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins podem ver itens de lotes de pagamento"
+  ON public.agent_payment_run_items FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Confirms a run: records it and marks every included payment as paid in one transaction.
+-- _items: [{ "ticket_id", "agent_id", "agent_role", "compensation", "expenses" }]
+CREATE OR REPLACE FUNCTION public.confirm_agent_payment_run(_period_start DATE, _period_end DATE, _items JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _run_id UUID;
+  _now TIMESTAMP WITH TIME ZONE := now();
+  _expected INTEGER := jsonb_array_length(COALESCE(_items, '[]'::jsonb));
+  _updated INTEGER;
+  _total INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem confirmar lotes de pagamento';
+  END IF;
+
+  IF _expected = 0 THEN
+    RAISE EXCEPTION 'O lote não possui pagamentos';
+  END IF;
+
+  INSERT INTO public.agent_payment_runs (period_start, period_end, paid_at, created_by)
+  VALUES (_period_start, _period_end, _now, auth.uid())
+  RETURNING id INTO _run_id;
+
+  INSERT INTO public.agent_payment_run_items (run_id, ticket_id, agent_id, agent_role, compensation, expenses, amount)
+  SELECT _run_id, (i->>'ticket_id')::UUID, (i->>'agent_id')::UUID, i->>'agent_role',
+    COALESCE((i->>'compensation')::DECIMAL, 0),
+    COALESCE((i->>'expenses')::DECIMAL, 0),
+    COALESCE((i->>'compensation')::DECIMAL, 0) + COALESCE((i->>'expenses')::DECIMAL, 0)
+  FROM jsonb_array_elements(_items) i;
+
+  UPDATE public.tickets t
+  SET main_agent_payment_status = 'pago', main_agent_paid_at = _now
+  FROM public.agent_payment_run_items ri
+  WHERE ri.run_id = _run_id
+    AND ri.agent_role = 'principal'
+    AND t.id = ri.ticket_id
+    AND t.main_agent_id = ri.agent_id
+    AND t.main_agent_payment_status = 'pendente';
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  _total := _total + _updated;
+
+  UPDATE public.ticket_support_agents sa
+  SET payment_status = 'pago', paid_at = _now
+  FROM public.agent_payment_run_items ri
+  WHERE ri.run_id = _run_id
+    AND ri.agent_role <> 'principal'
+    AND sa.ticket_id = ri.ticket_id
+    AND sa.agent_id = ri.agent_id
+    AND COALESCE(sa.payment_status, 'pendente') = 'pendente';
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  _total := _total + _updated;
+
+  -- Someone paid an item individually (or it was removed) since the run was assembled
+  IF _total <> _expected THEN
+    RAISE EXCEPTION 'Alguns pagamentos do lote já foram pagos ou não existem mais. Atualize a lista e tente novamente.';
+  END IF;
+
+  UPDATE public.agent_payment_runs r
+  SET total_amount = s.total_amount, item_count = s.item_count, agent_count = s.agent_count
+  FROM (
+    SELECT SUM(amount) AS total_amount, COUNT(*) AS item_count, COUNT(DISTINCT agent_id) AS agent_count
+    FROM public.agent_payment_run_items
+    WHERE run_id = _run_id
+  ) s
+  WHERE r.id = _run_id;
+
+  RETURN _run_id;
+END;
+$$;
+
+-- Reverses a run: the payments it marked as paid go back to pending
+CREATE OR REPLACE FUNCTION public.reverse_agent_payment_run(_run_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem estornar lotes de pagamento';
+  END IF;
+
+  UPDATE public.agent_payment_runs
+  SET status = 'estornado', reversed_at = now(), reversed_by = auth.uid()
+  WHERE id = _run_id AND status = 'confirmado';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lote não encontrado ou já estornado';
+  END IF;
+
+  UPDATE public.tickets t
+  SET main_agent_payment_status = 'pendente', main_agent_paid_at = NULL
+  FROM public.agent_payment_run_items ri
+  WHERE ri.run_id = _run_id
+    AND ri.agent_role = 'principal'
+    AND t.id = ri.ticket_id
+    AND t.main_agent_id = ri.agent_id;
+
+  UPDATE public.ticket_support_agents sa
+  SET payment_status = 'pendente', paid_at = NULL
+  FROM public.agent_payment_run_items ri
+  WHERE ri.run_id = _run_id
+    AND ri.agent_role <> 'principal'
+    AND sa.ticket_id = ri.ticket_id
+    AND sa.agent_id = ri.agent_id;
+END;
+$$;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,162 @@
+-- Monthly client invoices (faturas): one numbered invoice groups every finalizado ticket of a client in a period.
+-- Ticket revenue now flows pendente -> faturado (on an invoice) -> recebido.
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_revenue_status_check;
+ALTER TABLE public.tickets
+  ADD CONSTRAINT tickets_revenue_status_check CHECK (revenue_status IN ('pendente', 'faturado', 'recebido'));
+
+CREATE SEQUENCE IF NOT EXISTS public.invoice_number_seq
+  START WITH 1
+  INCREMENT BY 1
+  NO MAXVALUE
+  CACHE 1;
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  number TEXT NOT NULL UNIQUE DEFAULT ('FAT-' || lpad(nextval('public.invoice_number_seq')::TEXT, 5, '0')),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE RESTRICT,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'emitida' CHECK (status IN ('emitida', 'recebida', 'cancelada')),
+  total_amount DECIMAL NOT NULL DEFAULT 0,
+  ticket_count INTEGER NOT NULL DEFAULT 0,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  received_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT invoices_period_range CHECK (period_end >= period_start)
+);
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_invoice_id ON public.tickets (invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_client ON public.invoices (client_id, issued_at DESC);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are written only through the functions below
+CREATE POLICY "Admins podem ver faturas"
+  ON public.invoices FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Issues an invoice for the given tickets and moves them to 'faturado'
+CREATE OR REPLACE FUNCTION public.create_client_invoice(
+  _client_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _ticket_ids UUID[],
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice_id UUID;
+  _eligible INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem emitir faturas';
+  END IF;
+
+  IF COALESCE(array_length(_ticket_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A fatura não possui chamados';
+  END IF;
+
+  SELECT COUNT(*) INTO _eligible
+  FROM public.tickets
+  WHERE id = ANY(_ticket_ids)
+    AND client_id = _client_id
+    AND status = 'finalizado'
+    AND COALESCE(revenue_status, 'pendente') = 'pendente'
+    AND invoice_id IS NULL;
+
+  IF _eligible <> array_length(_ticket_ids, 1) THEN
+    RAISE EXCEPTION 'Alguns chamados já foram faturados ou não pertencem ao cliente. Atualize a lista e tente novamente.';
+  END IF;
+
+  INSERT INTO public.invoices (client_id, period_start, period_end, created_by, notes)
+  VALUES (_client_id, _period_start, _period_end, auth.uid(), _notes)
+  RETURNING id INTO _invoice_id;
+
+  UPDATE public.tickets
+  SET invoice_id = _invoice_id, revenue_status = 'faturado'
+  WHERE id = ANY(_ticket_ids);
+
+  UPDATE public.invoices i
+  SET total_amount = s.total_amount, ticket_count = s.ticket_count
+  FROM (
+    SELECT COALESCE(SUM(revenue_total), 0) AS total_amount, COUNT(*) AS ticket_count
+    FROM public.tickets
+    WHERE invoice_id = _invoice_id
+  ) s
+  WHERE i.id = _invoice_id;
+
+  RETURN _invoice_id;
+END;
+$$;
+
+-- Marks an invoice as received; its tickets move to 'recebido'
+CREATE OR REPLACE FUNCTION public.receive_client_invoice(_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _now TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem baixar faturas';
+  END IF;
+
+  UPDATE public.invoices
+  SET status = 'recebida', received_at = _now
+  WHERE id = _invoice_id AND status = 'emitida';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fatura não encontrada ou não está em aberto';
+  END IF;
+
+  UPDATE public.tickets
+  SET revenue_status = 'recebido', revenue_paid_at = _now
+  WHERE invoice_id = _invoice_id;
+END;
+$$;
+
+-- Cancels an open invoice; its tickets go back to 'pendente' and can be invoiced again
+CREATE OR REPLACE FUNCTION public.cancel_client_invoice(_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem cancelar faturas';
+  END IF;
+
+  UPDATE public.invoices
+  SET status = 'cancelada', cancelled_at = now()
+  WHERE id = _invoice_id AND status = 'emitida';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Somente faturas em aberto podem ser canceladas';
+  END IF;
+
+  UPDATE public.tickets
+  SET invoice_id = NULL, revenue_status = 'pendente'
+  WHERE invoice_id = _invoice_id;
+END;
+$$;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
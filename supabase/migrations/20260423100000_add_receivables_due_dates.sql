@@ -0,0 +1,81 @@
+-- Due dates for accounts receivable: each client has a payment term, invoices carry their due date
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS payment_term_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_term_days >= 0);
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS due_date DATE;
+
+UPDATE public.invoices i
+SET due_date = i.issued_at::DATE + c.payment_term_days
+FROM public.clients c
+WHERE c.id = i.client_id AND i.due_date IS NULL;
+
+DROP FUNCTION IF EXISTS public.create_client_invoice(UUID, DATE, DATE, UUID[], TEXT);
+
+-- Issued invoices fall due after the client's payment term unless a date is given
+CREATE OR REPLACE FUNCTION public.create_client_invoice(
+  _client_id UUID,
+  _period_start DATE,
+  _period_end DATE,
+  _ticket_ids UUID[],
+  _notes TEXT DEFAULT NULL,
+  _due_date DATE DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice_id UUID;
+  _eligible INTEGER;
+  _term INTEGER;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem emitir faturas';
+  END IF;
+
+  IF COALESCE(array_length(_ticket_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'A fatura não possui chamados';
+  END IF;
+
+  SELECT COUNT(*) INTO _eligible
+  FROM public.tickets
+  WHERE id = ANY(_ticket_ids)
+    AND client_id = _client_id
+    AND status = 'finalizado'
+    AND COALESCE(revenue_status, 'pendente') = 'pendente'
+    AND invoice_id IS NULL;
+
+  IF _eligible <> array_length(_ticket_ids, 1) THEN
+    RAISE EXCEPTION 'Alguns chamados já foram faturados ou não pertencem ao cliente. Atualize a lista e tente novamente.';
+  END IF;
+
+  SELECT payment_term_days INTO _term FROM public.clients WHERE id = _client_id;
+
+  INSERT INTO public.invoices (client_id, period_start, period_end, created_by, notes, due_date)
+  VALUES (
+    _client_id, _period_start, _period_end, auth.uid(), _notes,
+    COALESCE(_due_date, CURRENT_DATE + COALESCE(_term, 30))
+  )
+  RETURNING id INTO _invoice_id;
+
+  UPDATE public.tickets
+  SET invoice_id = _invoice_id, revenue_status = 'faturado'
+  WHERE id = ANY(_ticket_ids);
+
+  UPDATE public.invoices i
+  SET total_amount = s.total_amount, ticket_count = s.ticket_count
+  FROM (
+    SELECT COALESCE(SUM(revenue_total), 0) AS total_amount, COUNT(*) AS ticket_count
+    FROM public.tickets
+    WHERE invoice_id = _invoice_id
+  ) s
+  WHERE i.id = _invoice_id;
+
+  RETURN _invoice_id;
+END;
+$$;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,190 @@
+-- Receipts for the toll, food and other expenses of each ticket agent, and the approval of every expense line.
+-- A payment with expenses can only be marked 'pago' once each non-zero expense has been approved for its current value.
+
+-- Private bucket: receipts are served through signed URLs. Paths are <ticket_id>/<agent_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('expense-receipts', 'expense-receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Equipe e agentes podem ver comprovantes de despesas"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'expense-receipts' AND (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (storage.foldername(name))[2] = public.current_agent_id()::TEXT
+  )
+);
+
+-- Agents write only into their own folder of a ticket they are on, like the expense_receipts rows
+CREATE POLICY "Equipe e agentes podem enviar comprovantes de despesas"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'expense-receipts' AND (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    ((storage.foldername(name))[2] = public.current_agent_id()::TEXT AND public.is_ticket_agent_path(name))
+  )
+);
+
+CREATE POLICY "Equipe e agentes podem remover comprovantes de despesas"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'expense-receipts' AND (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (storage.foldername(name))[2] = public.current_agent_id()::TEXT
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.expense_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  expense_type TEXT NOT NULL CHECK (expense_type IN ('pedagio', 'alimentacao', 'outros')),
+  file_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  mime_type TEXT,
+  -- Value printed on the receipt, when informed
+  amount DECIMAL,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_receipts_ticket_agent ON public.expense_receipts (ticket_id, agent_id);
+
+ALTER TABLE public.expense_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Equipe e agentes podem ver comprovantes"
+  ON public.expense_receipts FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    agent_id = public.current_agent_id()
+  );
+
+CREATE POLICY "Equipe e agentes podem enviar comprovantes"
+  ON public.expense_receipts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (agent_id = public.current_agent_id() AND public.is_ticket_agent(ticket_id))
+  );
+
+CREATE POLICY "Equipe e agentes podem remover comprovantes"
+  ON public.expense_receipts FOR DELETE
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    (agent_id = public.current_agent_id() AND uploaded_by = auth.uid())
+  );
+
+CREATE TABLE IF NOT EXISTS public.expense_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  expense_type TEXT NOT NULL CHECK (expense_type IN ('pedagio', 'alimentacao', 'outros')),
+  -- Expense value at review time; editing the expense afterwards requires a new review
+  amount DECIMAL NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('aprovado', 'rejeitado')),
+  notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (ticket_id, agent_id, expense_type)
+);
+
+ALTER TABLE public.expense_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Equipe e agentes podem ver aprovações de despesas"
+  ON public.expense_approvals FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador') OR
+    agent_id = public.current_agent_id()
+  );
+
+CREATE POLICY "Admins podem gerenciar aprovações de despesas"
+  ON public.expense_approvals FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- True when every non-zero expense of the agent is approved for its current value
+CREATE OR REPLACE FUNCTION public.agent_expenses_approved(
+  _ticket_id UUID,
+  _agent_id UUID,
+  _toll DECIMAL,
+  _food DECIMAL,
+  _other DECIMAL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM (VALUES ('pedagio', COALESCE(_toll, 0)), ('alimentacao', COALESCE(_food, 0)), ('outros', COALESCE(_other, 0))) AS e(expense_type, amount)
+    WHERE e.amount > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM public.expense_approvals a
+        WHERE a.ticket_id = _ticket_id
+          AND a.agent_id = _agent_id
+          AND a.expense_type = e.expense_type
+          AND a.status = 'aprovado'
+          AND a.amount = e.amount
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.ensure_main_agent_expenses_approved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.main_agent_payment_status = 'pago'
+    AND OLD.main_agent_payment_status IS DISTINCT FROM 'pago'
+    AND NEW.main_agent_id IS NOT NULL
+    AND NOT public.agent_expenses_approved(NEW.id, NEW.main_agent_id, NEW.toll_cost, NEW.food_cost, NEW.other_costs)
+  THEN
+    RAISE EXCEPTION 'As despesas do agente principal do chamado % precisam ser aprovadas antes do pagamento', COALESCE(NEW.code, NEW.id::TEXT);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_main_agent_expenses_approved
+  BEFORE UPDATE OF main_agent_payment_status ON public.tickets
+  FOR EACH ROW EXECUTE FUNCTION public.ensure_main_agent_expenses_approved();
+
+CREATE OR REPLACE FUNCTION public.ensure_support_agent_expenses_approved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status = 'pago'
+    AND OLD.payment_status IS DISTINCT FROM 'pago'
+    AND NOT public.agent_expenses_approved(NEW.ticket_id, NEW.agent_id, NEW.toll_cost, NEW.food_cost, NEW.other_costs)
+  THEN
+    RAISE EXCEPTION 'As despesas do agente de apoio precisam ser aprovadas antes do pagamento';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ensure_support_agent_expenses_approved
+  BEFORE UPDATE OF payment_status ON public.ticket_support_agents
+  FOR EACH ROW EXECUTE FUNCTION public.ensure_support_agent_expenses_approved();
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,88 @@
+-- Duplicate detection for CPF / CNPJ and vehicle plates.
+-- Documents are stored with or without punctuation, so comparisons use the
+-- normalized value (uppercase letters and digits only, which also covers the
+-- alphanumeric CNPJ format).
+
+CREATE OR REPLACE FUNCTION public.normalize_document(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT upper(regexp_replace(coalesce(_value, ''), '[^0-9A-Za-z]', '', 'g'))
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_clients_document_normalized
+  ON public.clients (public.normalize_document(document));
+CREATE INDEX IF NOT EXISTS idx_agents_document_normalized
+  ON public.agents (public.normalize_document(document));
+CREATE INDEX IF NOT EXISTS idx_vehicles_tractor_plate_normalized
+  ON public.vehicles (public.normalize_document(tractor_plate));
+CREATE INDEX IF NOT EXISTS idx_vehicles_plate_main_normalized
+  ON public.vehicles (public.normalize_document(plate_main));
+
+-- Returns whether the value is already registered. SECURITY DEFINER so the
+-- public agent registration form can check without reading other rows.
+-- Agent documents are also checked against registrations still under review.
+-- Only staff can check client documents and plates: for anyone else, including
+-- logged-in agents and client viewers, the answer would reveal whether a client
+-- CPF/CNPJ or a vehicle plate is registered. Agent documents stay open to the
+-- public registration form.
+CREATE OR REPLACE FUNCTION public.document_in_use(
+  _kind TEXT,
+  _value TEXT,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _normalized TEXT := public.normalize_document(_value);
+BEGIN
+  IF _kind IS DISTINCT FROM 'agent_document'
+     AND NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'operador')) THEN
+    RAISE EXCEPTION 'Verificação não permitida'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _normalized = '' THEN
+    RETURN false;
+  END IF;
+
+  IF _kind = 'client_document' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.clients
+      WHERE public.normalize_document(document) = _normalized
+        AND id IS DISTINCT FROM _exclude_id
+    );
+  ELSIF _kind = 'agent_document' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.agents
+      WHERE public.normalize_document(document) = _normalized
+        AND id IS DISTINCT FROM _exclude_id
+    ) OR EXISTS (
+      SELECT 1 FROM public.agent_registrations
+      WHERE public.normalize_document(document) = _normalized
+        AND status = 'pendente'
+        AND id IS DISTINCT FROM _exclude_id
+    );
+  ELSIF _kind = 'vehicle_plate' THEN
+    RETURN EXISTS (
+      SELECT 1 FROM public.vehicles
+      WHERE (public.normalize_document(tractor_plate) = _normalized
+             OR public.normalize_document(plate_main) = _normalized)
+        AND id IS DISTINCT FROM _exclude_id
+    );
+  END IF;
+
+  RAISE EXCEPTION 'Tipo de verificação inválido: %', _kind;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.document_in_use(TEXT, TEXT, UUID) TO anon, authenticated;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,198 @@
+-- Server-side ticket search.
+-- Each ticket gets a full-text document (code, client, plates, agent, city and
+-- report text) kept in ticket_search_index by triggers. search_tickets filters
+-- and pages over it with a (created_at, id) cursor, so the Tickets page no
+-- longer loads the whole table.
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- Lowercase, accent-free text so "sao paulo" finds "São Paulo"
+CREATE OR REPLACE FUNCTION public.normalize_search_text(_value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT lower(extensions.unaccent(coalesce(_value, '')))
+$$;
+
+-- Every typed word must match the start of an indexed word
+CREATE OR REPLACE FUNCTION public.ticket_search_query(_search TEXT)
+RETURNS tsquery
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(public.normalize_search_text(_search), '[^a-z0-9]+') AS term
+  WHERE term <> ''
+$$;
+
+CREATE TABLE IF NOT EXISTS public.ticket_search_index (
+  ticket_id UUID PRIMARY KEY REFERENCES public.tickets(id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_search_index_document
+  ON public.ticket_search_index USING GIN (document);
+
+-- Keyset pagination order used by search_tickets
+CREATE INDEX IF NOT EXISTS idx_tickets_created_at_id
+  ON public.tickets (created_at DESC, id DESC);
+
+ALTER TABLE public.ticket_search_index ENABLE ROW LEVEL SECURITY;
+
+-- Follows ticket visibility: a row is readable only if its ticket is
+DROP POLICY IF EXISTS "Usuários veem índice de busca dos chamados visíveis" ON public.ticket_search_index;
+CREATE POLICY "Usuários veem índice de busca dos chamados visíveis"
+  ON public.ticket_search_index FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = ticket_id));
+
+CREATE OR REPLACE FUNCTION public.refresh_ticket_search_index(_ticket_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ticket_search_index (ticket_id, document, updated_at)
+  SELECT
+    t.id,
+    setweight(to_tsvector('simple', public.normalize_search_text(concat_ws(' ',
+      t.code, c.name,
+      v.tractor_plate, v.plate_main,
+      public.normalize_document(v.tractor_plate), public.normalize_document(v.plate_main)
+    ))), 'A')
+    || setweight(to_tsvector('simple', public.normalize_search_text(concat_ws(' ', a.name, t.city, t.state))), 'B')
+    || setweight(to_tsvector('simple', public.normalize_search_text(concat_ws(' ', t.summary, t.detailed_report))), 'C'),
+    now()
+  FROM public.tickets t
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  LEFT JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.agents a ON a.id = t.main_agent_id
+  WHERE t.id = ANY(_ticket_ids)
+  ON CONFLICT (ticket_id) DO UPDATE
+    SET document = EXCLUDED.document,
+        updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_ticket_search_on_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_ticket_search_index(ARRAY[NEW.id]);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_refresh_ticket_search ON public.tickets;
+CREATE TRIGGER trigger_refresh_ticket_search
+  AFTER INSERT OR UPDATE OF code, client_id, vehicle_id, main_agent_id, city, state, summary, detailed_report
+  ON public.tickets
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_on_ticket();
+
+-- Renaming a client or agent, or changing a plate, re-indexes the linked tickets
+CREATE OR REPLACE FUNCTION public.refresh_ticket_search_on_related()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_ticket_search_index(ARRAY(
+    SELECT t.id FROM public.tickets t
+    WHERE CASE TG_TABLE_NAME
+      WHEN 'clients' THEN t.client_id
+      WHEN 'vehicles' THEN t.vehicle_id
+      ELSE t.main_agent_id
+    END = NEW.id
+  ));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_refresh_ticket_search_client ON public.clients;
+CREATE TRIGGER trigger_refresh_ticket_search_client
+  AFTER UPDATE OF name ON public.clients
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_on_related();
+
+DROP TRIGGER IF EXISTS trigger_refresh_ticket_search_vehicle ON public.vehicles;
+CREATE TRIGGER trigger_refresh_ticket_search_vehicle
+  AFTER UPDATE OF tractor_plate, plate_main ON public.vehicles
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_on_related();
+
+DROP TRIGGER IF EXISTS trigger_refresh_ticket_search_agent ON public.agents;
+CREATE TRIGGER trigger_refresh_ticket_search_agent
+  AFTER UPDATE OF name ON public.agents
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_ticket_search_on_related();
+
+-- Backfill existing tickets
+SELECT public.refresh_ticket_search_index(ARRAY(SELECT id FROM public.tickets));
+
+-- Runs with the caller's permissions, so ticket RLS still decides what is returned.
+-- Pass the created_at and id of the last row received to get the next page.
+CREATE OR REPLACE FUNCTION public.search_tickets(
+  _search TEXT DEFAULT NULL,
+  _status public.ticket_status DEFAULT NULL,
+  _service_type public.service_type DEFAULT NULL,
+  _plan_id UUID DEFAULT NULL,
+  _agent_id UUID DEFAULT NULL,
+  _operator_id UUID DEFAULT NULL,
+  _start_from TIMESTAMPTZ DEFAULT NULL,
+  _start_to TIMESTAMPTZ DEFAULT NULL,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  status public.ticket_status,
+  city TEXT,
+  state TEXT,
+  start_datetime TIMESTAMPTZ,
+  service_type public.service_type,
+  created_at TIMESTAMPTZ,
+  client_name TEXT,
+  main_agent_name TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id, t.code, t.status, t.city, t.state, t.start_datetime, t.service_type, t.created_at,
+    c.name AS client_name,
+    a.name AS main_agent_name
+  FROM public.tickets t
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  LEFT JOIN public.agents a ON a.id = t.main_agent_id
+  WHERE (public.ticket_search_query(_search) IS NULL OR EXISTS (
+      SELECT 1 FROM public.ticket_search_index si
+      WHERE si.ticket_id = t.id AND si.document @@ public.ticket_search_query(_search)
+    ))
+    AND (_status IS NULL OR t.status = _status)
+    AND (_service_type IS NULL OR t.service_type = _service_type)
+    AND (_plan_id IS NULL OR t.plan_id = _plan_id)
+    AND (_agent_id IS NULL OR t.main_agent_id = _agent_id OR EXISTS (
+      SELECT 1 FROM public.ticket_support_agents sa
+      WHERE sa.ticket_id = t.id AND sa.agent_id = _agent_id
+    ))
+    AND (_operator_id IS NULL OR t.operator_id = _operator_id)
+    AND (_start_from IS NULL OR t.start_datetime >= _start_from)
+    AND (_start_to IS NULL OR t.start_datetime <= _start_to)
+    AND (_cursor_created_at IS NULL OR (t.created_at, t.id) < (_cursor_created_at, _cursor_id))
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(coalesce(_limit, 30), 1), 1000);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tickets(TEXT, public.ticket_status, public.service_type, UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER) TO authenticated;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,96 @@
+-- Saved Tickets page filters.
+-- Each user keeps named presets holding the page query string (the same one
+-- shared in links); pinned presets are listed in the sidebar.
+
+CREATE TABLE IF NOT EXISTS public.ticket_filter_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  pinned BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_filter_presets_user ON public.ticket_filter_presets(user_id);
+
+DROP TRIGGER IF EXISTS update_ticket_filter_presets_updated_at ON public.ticket_filter_presets;
+CREATE TRIGGER update_ticket_filter_presets_updated_at BEFORE UPDATE ON public.ticket_filter_presets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ticket_filter_presets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Usuários gerenciam seus filtros salvos" ON public.ticket_filter_presets;
+CREATE POLICY "Usuários gerenciam seus filtros salvos"
+  ON public.ticket_filter_presets FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- "Meus chamados": search_tickets gains a filter on the ticket creator
+DROP FUNCTION IF EXISTS public.search_tickets(TEXT, public.ticket_status, public.service_type, UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER);
+
+-- Runs with the caller's permissions, so ticket RLS still decides what is returned.
+-- Pass the created_at and id of the last row received to get the next page.
+CREATE OR REPLACE FUNCTION public.search_tickets(
+  _search TEXT DEFAULT NULL,
+  _status public.ticket_status DEFAULT NULL,
+  _service_type public.service_type DEFAULT NULL,
+  _plan_id UUID DEFAULT NULL,
+  _agent_id UUID DEFAULT NULL,
+  _operator_id UUID DEFAULT NULL,
+  _start_from TIMESTAMPTZ DEFAULT NULL,
+  _start_to TIMESTAMPTZ DEFAULT NULL,
+  _only_mine BOOLEAN DEFAULT false,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  status public.ticket_status,
+  city TEXT,
+  state TEXT,
+  start_datetime TIMESTAMPTZ,
+  service_type public.service_type,
+  created_at TIMESTAMPTZ,
+  client_name TEXT,
+  main_agent_name TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id, t.code, t.status, t.city, t.state, t.start_datetime, t.service_type, t.created_at,
+    c.name AS client_name,
+    a.name AS main_agent_name
+  FROM public.tickets t
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  LEFT JOIN public.agents a ON a.id = t.main_agent_id
+  WHERE (public.ticket_search_query(_search) IS NULL OR EXISTS (
+      SELECT 1 FROM public.ticket_search_index si
+      WHERE si.ticket_id = t.id AND si.document @@ public.ticket_search_query(_search)
+    ))
+    AND (_status IS NULL OR t.status = _status)
+    AND (_service_type IS NULL OR t.service_type = _service_type)
+    AND (_plan_id IS NULL OR t.plan_id = _plan_id)
+    AND (_agent_id IS NULL OR t.main_agent_id = _agent_id OR EXISTS (
+      SELECT 1 FROM public.ticket_support_agents sa
+      WHERE sa.ticket_id = t.id AND sa.agent_id = _agent_id
+    ))
+    AND (_operator_id IS NULL OR t.operator_id = _operator_id)
+    AND (_start_from IS NULL OR t.start_datetime >= _start_from)
+    AND (_start_to IS NULL OR t.start_datetime <= _start_to)
+    AND (NOT coalesce(_only_mine, false) OR t.created_by_user_id = auth.uid())
+    AND (_cursor_created_at IS NULL OR (t.created_at, t.id) < (_cursor_created_at, _cursor_id))
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(coalesce(_limit, 30), 1), 1000);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tickets(TEXT, public.ticket_status, public.service_type, UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TIMESTAMPTZ, UUID, INTEGER) TO authenticated;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,43 @@
+-- Monthly operational goals shown on the Dashboard.
+-- A goal covers one month and optionally narrows to a service type and/or a
+-- client; NULL means "all". Targets left NULL are simply not tracked.
+CREATE TABLE IF NOT EXISTS public.operational_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  month DATE NOT NULL CHECK (month = date_trunc('month', month)::DATE),
+  service_type public.service_type,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  tickets_target INTEGER CHECK (tickets_target > 0),
+  efficiency_target NUMERIC(5,2) CHECK (efficiency_target > 0 AND efficiency_target <= 100),
+  response_time_target INTEGER CHECK (response_time_target > 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (month, service_type, client_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_operational_goals_month ON public.operational_goals(month);
+
+DROP TRIGGER IF EXISTS update_operational_goals_updated_at ON public.operational_goals;
+CREATE TRIGGER update_operational_goals_updated_at BEFORE UPDATE ON public.operational_goals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.operational_goals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Equipe pode ver metas" ON public.operational_goals;
+CREATE POLICY "Equipe pode ver metas"
+  ON public.operational_goals FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador')
+  );
+
+DROP POLICY IF EXISTS "Admins gerenciam metas" ON public.operational_goals;
+CREATE POLICY "Admins gerenciam metas"
+  ON public.operational_goals FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,116 @@
+-- SLA rules: contractual arrival and duration limits per client and/or plan,
+-- optionally narrowed to a service type and a state (UF). The most specific
+-- active rule that matches a ticket applies; tickets are evaluated in the app
+-- from start_datetime, main_agent_arrival and end_datetime.
+CREATE TABLE IF NOT EXISTS public.sla_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  plan_id UUID REFERENCES public.plans(id) ON DELETE CASCADE,
+  service_type public.service_type,
+  state TEXT CHECK (state ~ '^[A-Z]{2}$'),
+  max_arrival_minutes INTEGER CHECK (max_arrival_minutes > 0),
+  max_duration_minutes INTEGER CHECK (max_duration_minutes > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT sla_rules_target_check CHECK (client_id IS NOT NULL OR plan_id IS NOT NULL),
+  CONSTRAINT sla_rules_limit_check CHECK (max_arrival_minutes IS NOT NULL OR max_duration_minutes IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_rules_client ON public.sla_rules(client_id);
+CREATE INDEX IF NOT EXISTS idx_sla_rules_plan ON public.sla_rules(plan_id);
+
+DROP TRIGGER IF EXISTS update_sla_rules_updated_at ON public.sla_rules;
+CREATE TRIGGER update_sla_rules_updated_at BEFORE UPDATE ON public.sla_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.sla_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Equipe pode ver regras de SLA" ON public.sla_rules;
+CREATE POLICY "Equipe pode ver regras de SLA"
+  ON public.sla_rules FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    public.has_role(auth.uid(), 'operador')
+  );
+
+DROP POLICY IF EXISTS "Admins gerenciam regras de SLA" ON public.sla_rules;
+CREATE POLICY "Admins gerenciam regras de SLA"
+  ON public.sla_rules FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- search_tickets also returns what the Tickets page needs to evaluate SLAs
+DROP FUNCTION IF EXISTS public.search_tickets(TEXT, public.ticket_status, public.service_type, UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TIMESTAMPTZ, UUID, INTEGER);
+
+-- Runs with the caller's permissions, so ticket RLS still decides what is returned.
+-- Pass the created_at and id of the last row received to get the next page.
+CREATE OR REPLACE FUNCTION public.search_tickets(
+  _search TEXT DEFAULT NULL,
+  _status public.ticket_status DEFAULT NULL,
+  _service_type public.service_type DEFAULT NULL,
+  _plan_id UUID DEFAULT NULL,
+  _agent_id UUID DEFAULT NULL,
+  _operator_id UUID DEFAULT NULL,
+  _start_from TIMESTAMPTZ DEFAULT NULL,
+  _start_to TIMESTAMPTZ DEFAULT NULL,
+  _only_mine BOOLEAN DEFAULT false,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  code TEXT,
+  status public.ticket_status,
+  city TEXT,
+  state TEXT,
+  start_datetime TIMESTAMPTZ,
+  service_type public.service_type,
+  created_at TIMESTAMPTZ,
+  client_name TEXT,
+  main_agent_name TEXT,
+  client_id UUID,
+  plan_id UUID,
+  main_agent_arrival TIMESTAMPTZ,
+  end_datetime TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.id, t.code, t.status, t.city, t.state, t.start_datetime, t.service_type, t.created_at,
+    c.name AS client_name,
+    a.name AS main_agent_name,
+    t.client_id, t.plan_id, t.main_agent_arrival, t.end_datetime
+  FROM public.tickets t
+  LEFT JOIN public.clients c ON c.id = t.client_id
+  LEFT JOIN public.agents a ON a.id = t.main_agent_id
+  WHERE (public.ticket_search_query(_search) IS NULL OR EXISTS (
+      SELECT 1 FROM public.ticket_search_index si
+      WHERE si.ticket_id = t.id AND si.document @@ public.ticket_search_query(_search)
+    ))
+    AND (_status IS NULL OR t.status = _status)
+    AND (_service_type IS NULL OR t.service_type = _service_type)
+    AND (_plan_id IS NULL OR t.plan_id = _plan_id)
+    AND (_agent_id IS NULL OR t.main_agent_id = _agent_id OR EXISTS (
+      SELECT 1 FROM public.ticket_support_agents sa
+      WHERE sa.ticket_id = t.id AND sa.agent_id = _agent_id
+    ))
+    AND (_operator_id IS NULL OR t.operator_id = _operator_id)
+    AND (_start_from IS NULL OR t.start_datetime >= _start_from)
+    AND (_start_to IS NULL OR t.start_datetime <= _start_to)
+    AND (NOT coalesce(_only_mine, false) OR t.created_by_user_id = auth.uid())
+    AND (_cursor_created_at IS NULL OR (t.created_at, t.id) < (_cursor_created_at, _cursor_id))
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(coalesce(_limit, 30), 1), 1000);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_tickets(TEXT, public.ticket_status, public.service_type, UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, BOOLEAN, TIMESTAMPTZ, UUID, INTEGER) TO authenticated;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,294 @@
+-- Append-only ticket activity log. Rows are written only by the triggers below
+-- on tickets, ticket_support_agents and ticket_photos, so every path that
+-- changes a ticket is covered: the ticket dialogs, the agent portal and the
+-- finance functions (payment runs, invoices), which update these tables too.
+-- actor_id is auth.uid() of whoever made the change; NULL means the system.
+-- It has no foreign key: an ON DELETE SET NULL would be an UPDATE, which the
+-- trigger below rejects, and deleting the user would fail.
+CREATE TABLE IF NOT EXISTS public.ticket_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'criado',
+    'status_alterado',
+    'editado',
+    'agente_alterado',
+    'apoio_adicionado',
+    'apoio_removido',
+    'foto_adicionada',
+    'foto_removida',
+    'pagamento_agente',
+    'faturamento'
+  )),
+  actor_id UUID,
+  data JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket ON public.ticket_events (ticket_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ticket_events_created_at ON public.ticket_events (created_at DESC);
+
+ALTER TABLE public.ticket_events ENABLE ROW LEVEL SECURITY;
+
+-- Follows ticket visibility: an event is readable only if its ticket is
+DROP POLICY IF EXISTS "Usuários veem eventos dos chamados visíveis" ON public.ticket_events;
+CREATE POLICY "Usuários veem eventos dos chamados visíveis"
+  ON public.ticket_events FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.tickets t WHERE t.id = ticket_id));
+
+-- No insert/update/delete policies: clients cannot write the log, and even the
+-- owner cannot rewrite it. Rows only go away with their ticket (ON DELETE CASCADE).
+REVOKE INSERT, UPDATE, DELETE ON public.ticket_events FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_ticket_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'O histórico de chamados não pode ser alterado'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_ticket_event_update ON public.ticket_events;
+CREATE TRIGGER trigger_prevent_ticket_event_update
+  BEFORE UPDATE ON public.ticket_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ticket_event_update();
+
+-- Columns whose changes get their own event type (or are bookkeeping) and are
+-- left out of the generic "editado" field list
+CREATE OR REPLACE FUNCTION public.ticket_event_changed_fields(_old JSONB, _new JSONB, _ignore TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(n.key ORDER BY n.key), ARRAY[]::TEXT[])
+  FROM jsonb_each(_new) n
+  WHERE n.key <> ALL (_ignore)
+    AND n.value IS DISTINCT FROM _old -> n.key;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_ticket_event(_ticket_id UUID, _event_type TEXT, _data JSONB DEFAULT '{}'::JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Child rows deleted by the ticket's own cascade have nothing left to log against
+  IF NOT EXISTS (SELECT 1 FROM public.tickets WHERE id = _ticket_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.ticket_events (ticket_id, event_type, actor_id, data)
+  VALUES (_ticket_id, _event_type, auth.uid(), COALESCE(_data, '{}'::JSONB));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_ticket_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.agent_display_name(_agent_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT name FROM public.agents WHERE id = _agent_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.agent_display_name(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields TEXT[];
+  v_note TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_ticket_event(NEW.id, 'criado', jsonb_build_object('status', NEW.status));
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    -- The transition reason was moved into ticket_status_history by the BEFORE trigger
+    SELECT h.note INTO v_note
+    FROM public.ticket_status_history h
+    WHERE h.ticket_id = NEW.id AND h.to_status = NEW.status
+    ORDER BY h.created_at DESC
+    LIMIT 1;
+
+    PERFORM public.log_ticket_event(NEW.id, 'status_alterado', jsonb_build_object(
+      'from', OLD.status, 'to', NEW.status, 'note', v_note
+    ));
+  END IF;
+
+  IF NEW.main_agent_id IS DISTINCT FROM OLD.main_agent_id THEN
+    PERFORM public.log_ticket_event(NEW.id, 'agente_alterado', jsonb_build_object(
+      'from', public.agent_display_name(OLD.main_agent_id),
+      'to', public.agent_display_name(NEW.main_agent_id)
+    ));
+  END IF;
+
+  IF NEW.main_agent_payment_status IS DISTINCT FROM OLD.main_agent_payment_status THEN
+    PERFORM public.log_ticket_event(NEW.id, 'pagamento_agente', jsonb_build_object(
+      'agent', public.agent_display_name(NEW.main_agent_id),
+      'role', 'principal',
+      'from', OLD.main_agent_payment_status,
+      'to', NEW.main_agent_payment_status
+    ));
+  END IF;
+
+  IF NEW.revenue_status IS DISTINCT FROM OLD.revenue_status THEN
+    PERFORM public.log_ticket_event(NEW.id, 'faturamento', jsonb_build_object(
+      'from', OLD.revenue_status,
+      'to', NEW.revenue_status,
+      'invoice', (SELECT i.number FROM public.invoices i WHERE i.id = COALESCE(NEW.invoice_id, OLD.invoice_id))
+    ));
+  END IF;
+
+  v_fields := public.ticket_event_changed_fields(to_jsonb(OLD), to_jsonb(NEW), ARRAY[
+    'updated_at', 'status', 'status_change_note', 'main_agent_id',
+    'main_agent_payment_status', 'main_agent_paid_at',
+    'revenue_status', 'revenue_paid_at', 'invoice_id'
+  ]);
+  IF array_length(v_fields, 1) > 0 THEN
+    PERFORM public.log_ticket_event(NEW.id, 'editado', jsonb_build_object('fields', to_jsonb(v_fields)));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_support_agent_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fields TEXT[];
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_ticket_event(NEW.ticket_id, 'apoio_adicionado', jsonb_build_object(
+      'agent', public.agent_display_name(NEW.agent_id)
+    ));
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.log_ticket_event(OLD.ticket_id, 'apoio_removido', jsonb_build_object(
+      'agent', public.agent_display_name(OLD.agent_id)
+    ));
+    RETURN NULL;
+  END IF;
+
+  IF NEW.agent_id IS DISTINCT FROM OLD.agent_id THEN
+    PERFORM public.log_ticket_event(NEW.ticket_id, 'apoio_removido', jsonb_build_object(
+      'agent', public.agent_display_name(OLD.agent_id)
+    ));
+    PERFORM public.log_ticket_event(NEW.ticket_id, 'apoio_adicionado', jsonb_build_object(
+      'agent', public.agent_display_name(NEW.agent_id)
+    ));
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    PERFORM public.log_ticket_event(NEW.ticket_id, 'pagamento_agente', jsonb_build_object(
+      'agent', public.agent_display_name(NEW.agent_id),
+      'role', 'apoio',
+      'from', OLD.payment_status,
+      'to', NEW.payment_status
+    ));
+  END IF;
+
+  v_fields := public.ticket_event_changed_fields(to_jsonb(OLD), to_jsonb(NEW), ARRAY[
+    'updated_at', 'agent_id', 'payment_status', 'paid_at'
+  ]);
+  IF array_length(v_fields, 1) > 0 THEN
+    PERFORM public.log_ticket_event(NEW.ticket_id, 'editado', jsonb_build_object(
+      'agent', public.agent_display_name(NEW.agent_id),
+      'fields', to_jsonb(v_fields)
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_ticket_photo_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_ticket_event(NEW.ticket_id, 'foto_adicionada', jsonb_build_object('caption', NEW.caption));
+  ELSE
+    PERFORM public.log_ticket_event(OLD.ticket_id, 'foto_removida', jsonb_build_object('caption', OLD.caption));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_log_ticket_events ON public.tickets;
+CREATE TRIGGER trigger_log_ticket_events
+  AFTER INSERT OR UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_ticket_changes();
+
+DROP TRIGGER IF EXISTS trigger_log_support_agent_events ON public.ticket_support_agents;
+CREATE TRIGGER trigger_log_support_agent_events
+  AFTER INSERT OR UPDATE OR DELETE ON public.ticket_support_agents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_support_agent_changes();
+
+DROP TRIGGER IF EXISTS trigger_log_ticket_photo_events ON public.ticket_photos;
+CREATE TRIGGER trigger_log_ticket_photo_events
+  AFTER INSERT OR DELETE ON public.ticket_photos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_ticket_photo_changes();
+
+-- Seed the log from what was already recorded: status history and photo uploads
+INSERT INTO public.ticket_events (ticket_id, event_type, actor_id, data, created_at)
+SELECT
+  h.ticket_id,
+  CASE WHEN h.from_status IS NULL THEN 'criado' ELSE 'status_alterado' END,
+  h.changed_by,
+  CASE WHEN h.from_status IS NULL
+    THEN jsonb_build_object('status', h.to_status)
+    ELSE jsonb_build_object('from', h.from_status, 'to', h.to_status, 'note', h.note)
+  END,
+  h.created_at
+FROM public.ticket_status_history h
+WHERE NOT EXISTS (SELECT 1 FROM public.ticket_events e WHERE e.ticket_id = h.ticket_id);
+
+INSERT INTO public.ticket_events (ticket_id, event_type, actor_id, data, created_at)
+SELECT p.ticket_id, 'foto_adicionada', (SELECT u.id FROM auth.users u WHERE u.id = p.uploaded_by_user_id), jsonb_build_object('caption', p.caption), p.created_at
+FROM public.ticket_photos p
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.ticket_events e
+  WHERE e.ticket_id = p.ticket_id AND e.event_type = 'foto_adicionada'
+);
+
+-- The Dashboard feed listens for new events
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'ticket_events'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_events;
+  END IF;
+END;
+$$;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
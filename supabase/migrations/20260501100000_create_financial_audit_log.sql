@@ -0,0 +1,123 @@
+-- Field-level audit trail for financial columns. FaturamentoDialog,
+-- PagamentoAgenteDialog and the finance functions overwrite revenue and
+-- compensation values in place; the generic trigger below keeps the before and
+-- after values of the columns passed as trigger arguments, with who and when.
+-- Rows are kept when the ticket is deleted, so there is no foreign key to it.
+-- changed_by has none either: an ON DELETE SET NULL would be an UPDATE, which
+-- the trigger below rejects, and deleting the user would fail.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  ticket_id UUID,
+  ticket_code TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_values JSONB,
+  new_values JSONB,
+  changed_by UUID,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_at ON public.audit_log (changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_ticket ON public.audit_log (ticket_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_by ON public.audit_log (changed_by, changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins podem ver auditoria" ON public.audit_log;
+CREATE POLICY "Admins podem ver auditoria"
+  ON public.audit_log FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Written only by the trigger; nobody can rewrite or purge the trail
+REVOKE INSERT, UPDATE, DELETE ON public.audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'O registro de auditoria não pode ser alterado'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_audit_log_change ON public.audit_log;
+CREATE TRIGGER trigger_prevent_audit_log_change
+  BEFORE UPDATE OR DELETE ON public.audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_audit_log_change();
+
+-- Usage: AFTER INSERT OR UPDATE OR DELETE ... EXECUTE FUNCTION public.audit_sensitive_columns('col_a', 'col_b', ...)
+-- Updates that leave every listed column unchanged are not recorded.
+CREATE OR REPLACE FUNCTION public.audit_sensitive_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+  v_ticket_id UUID;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    SELECT jsonb_object_agg(c, to_jsonb(OLD) -> c) INTO v_old FROM unnest(TG_ARGV) c;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    SELECT jsonb_object_agg(c, to_jsonb(NEW) -> c) INTO v_new FROM unnest(TG_ARGV) c;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+  v_ticket_id := CASE WHEN TG_TABLE_NAME = 'tickets' THEN v_row->>'id' ELSE v_row->>'ticket_id' END;
+
+  INSERT INTO public.audit_log (table_name, record_id, ticket_id, ticket_code, action, old_values, new_values, changed_by)
+  VALUES (
+    TG_TABLE_NAME,
+    (v_row->>'id')::UUID,
+    v_ticket_id,
+    CASE WHEN TG_TABLE_NAME = 'tickets'
+      THEN v_row->>'code'
+      ELSE (SELECT t.code FROM public.tickets t WHERE t.id = v_ticket_id)
+    END,
+    TG_OP,
+    v_old,
+    v_new,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_audit_ticket_financials ON public.tickets;
+CREATE TRIGGER trigger_audit_ticket_financials
+  AFTER INSERT OR UPDATE OR DELETE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_sensitive_columns(
+    'revenue_base_value', 'revenue_discount_addition', 'revenue_extra_hour_rate', 'revenue_extra_km_rate',
+    'revenue_included_hours', 'revenue_included_km', 'revenue_km_source', 'revenue_total', 'revenue_status',
+    'main_agent_id', 'main_agent_compensation_base_value', 'main_agent_compensation_extra_hour_rate',
+    'main_agent_compensation_extra_km_rate', 'main_agent_compensation_included_hours',
+    'main_agent_compensation_included_km', 'main_agent_compensation_total', 'main_agent_km_source',
+    'main_agent_payment_status', 'toll_cost', 'food_cost', 'other_costs'
+  );
+
+DROP TRIGGER IF EXISTS trigger_audit_support_agent_financials ON public.ticket_support_agents;
+CREATE TRIGGER trigger_audit_support_agent_financials
+  AFTER INSERT OR UPDATE OR DELETE ON public.ticket_support_agents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_sensitive_columns(
+    'agent_id', 'compensation_base_value', 'compensation_extra_hour_rate', 'compensation_extra_km_rate',
+    'compensation_included_hours', 'compensation_included_km', 'compensation_total', 'km_source',
+    'payment_status', 'toll_cost', 'food_cost', 'other_costs'
+  );
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
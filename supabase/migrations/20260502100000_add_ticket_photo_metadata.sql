@@ -0,0 +1,142 @@
+-- Photos are now resized and compressed in the browser before upload, with a
+-- smaller copy for grids and reports. Canvas re-encoding drops the EXIF block,
+-- so the capture time and GPS position are read first and kept here. Photos
+-- uploaded before this change have no thumbnail or metadata; readers fall back
+-- to file_url.
+ALTER TABLE public.ticket_photos
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT,
+  ADD COLUMN IF NOT EXISTS width INTEGER,
+  ADD COLUMN IF NOT EXISTS height INTEGER,
+  ADD COLUMN IF NOT EXISTS file_size INTEGER,
+  ADD COLUMN IF NOT EXISTS taken_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+
+-- Client portal: same payload, photos carry their thumbnail and capture time
+CREATE OR REPLACE FUNCTION public.get_client_portal_ticket(_ticket_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'id', t.id,
+    'code', t.code,
+    'status', t.status,
+    'service_type', t.service_type,
+    'city', t.city,
+    'state', t.state,
+    'start_datetime', t.start_datetime,
+    'end_datetime', t.end_datetime,
+    'coordinates_lat', t.coordinates_lat,
+    'coordinates_lng', t.coordinates_lng,
+    'km_start', t.km_start,
+    'km_end', t.km_end,
+    'duration_minutes', t.duration_minutes,
+    'detailed_report', t.detailed_report,
+    'main_agent_arrival', t.main_agent_arrival,
+    'main_agent_departure', t.main_agent_departure,
+    'operator_name', o.name,
+    'plan_name', pl.name,
+    'client', json_build_object('name', c.name, 'contact_phone', c.contact_phone),
+    'main_agent', json_build_object('name', a.name, 'is_armed', a.is_armed),
+    'vehicle', to_jsonb(v) - 'client_id' - 'created_at' - 'updated_at',
+    'support_agents', (
+      SELECT json_agg(json_build_object(
+        'name', sa_agent.name,
+        'is_armed', sa_agent.is_armed,
+        'arrival', sa.arrival,
+        'departure', sa.departure,
+        'km_start', sa.km_start,
+        'km_end', sa.km_end
+      ) ORDER BY sa.created_at)
+      FROM public.ticket_support_agents sa
+      JOIN public.agents sa_agent ON sa_agent.id = sa.agent_id
+      WHERE sa.ticket_id = t.id
+    ),
+    'photos', (
+      SELECT json_agg(json_build_object(
+        'id', p.id,
+        'file_url', p.file_url,
+        'thumbnail_url', p.thumbnail_url,
+        'caption', p.caption,
+        'taken_at', p.taken_at,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM public.ticket_photos p
+      WHERE p.ticket_id = t.id
+    )
+  )
+  FROM public.tickets t
+  JOIN public.clients c ON c.id = t.client_id
+  LEFT JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.agents a ON a.id = t.main_agent_id
+  LEFT JOIN public.operators o ON o.id = t.operator_id
+  LEFT JOIN public.plans pl ON pl.id = t.plan_id
+  WHERE t.id = _ticket_id
+    AND t.client_id = public.current_client_id();
+$$;
+
+-- Public tracking: thumbnails only, the GPS position of a photo is not exposed
+CREATE OR REPLACE FUNCTION get_ticket_tracking_info(p_ticket_id UUID)
+RETURNS json
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result json;
+BEGIN
+  SELECT json_build_object(
+    'id', t.id,
+    'code', t.code,
+    'status', t.status,
+    'service_type', t.service_type,
+    'city', t.city,
+    'state', t.state,
+    'created_at', t.created_at,
+    'start_datetime', t.start_datetime,
+    'end_datetime', t.end_datetime,
+    'main_agent_arrival', t.main_agent_arrival,
+    'main_agent_departure', t.main_agent_departure,
+    'client_name', c.name,
+    'vehicle_description', v.description,
+    'vehicle_plate', v.tractor_plate,
+    'main_agent_first_name', split_part(a.name, ' ', 1),
+    'destination_lat', t.coordinates_lat,
+    'destination_lng', t.coordinates_lng,
+    'main_agent_positions', CASE
+      WHEN t.status = 'em_andamento' AND t.main_agent_arrival IS NULL THEN (
+        SELECT json_agg(json_build_object(
+          'latitude', pos.latitude,
+          'longitude', pos.longitude,
+          'recorded_at', pos.recorded_at
+        ) ORDER BY pos.recorded_at)
+        FROM ticket_agent_positions pos
+        WHERE pos.ticket_id = t.id AND pos.agent_id = t.main_agent_id
+      )
+    END,
+    'photos', (
+      SELECT json_agg(json_build_object(
+        'file_url', p.file_url,
+        'thumbnail_url', p.thumbnail_url,
+        'caption', p.caption,
+        'created_at', p.created_at
+      ))
+      FROM ticket_photos p
+      WHERE p.ticket_id = t.id
+    )
+  ) INTO v_result
+  FROM tickets t
+  LEFT JOIN clients c ON t.client_id = c.id
+  LEFT JOIN vehicles v ON t.vehicle_id = v.id
+  LEFT JOIN agents a ON t.main_agent_id = a.id
+  WHERE t.id = p_ticket_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';
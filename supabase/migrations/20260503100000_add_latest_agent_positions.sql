@@ -0,0 +1,32 @@
+-- Current position of every agent on the given tickets. The live map loads the
+-- trail only for a recent window and capped in size, so the marker comes from
+-- here and keeps moving however long the ticket has been reporting.
+-- SECURITY INVOKER: the ticket_agent_positions policies still apply.
+CREATE INDEX IF NOT EXISTS idx_ticket_agent_positions_latest
+  ON public.ticket_agent_positions (ticket_id, agent_id, recorded_at DESC);
+
+CREATE OR REPLACE FUNCTION public.get_latest_agent_positions(_ticket_ids UUID[])
+RETURNS TABLE (
+  ticket_id UUID,
+  agent_id UUID,
+  agent_name TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  recorded_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (p.ticket_id, p.agent_id)
+    p.ticket_id, p.agent_id, a.name, p.latitude, p.longitude, p.recorded_at
+  FROM public.ticket_agent_positions p
+  LEFT JOIN public.agents a ON a.id = p.agent_id
+  WHERE p.ticket_id = ANY(_ticket_ids)
+  ORDER BY p.ticket_id, p.agent_id, p.recorded_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_latest_agent_positions(UUID[]) TO authenticated;
+
+-- Refresh PostgREST schema cache
+NOTIFY pgrst, 'reload schema';